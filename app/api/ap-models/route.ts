@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { RowDataPacket } from 'mysql2';
+import { APModel } from '@/types';
+
+// Shared AP catalog: models added or edited by the team (built-in models live in the app)
+const CREATE_TABLE = `
+  CREATE TABLE IF NOT EXISTS ap_models (
+    model_id VARCHAR(255) PRIMARY KEY,
+    model_json LONGTEXT NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+  )
+`;
+
+export async function GET() {
+  try {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.query(CREATE_TABLE);
+      const [rows] = await connection.query<RowDataPacket[]>('SELECT model_json FROM ap_models ORDER BY model_id');
+
+      const models: APModel[] = [];
+      rows.forEach((row) => {
+        try {
+          models.push(JSON.parse(row.model_json));
+        } catch (e) {
+          console.error('Skipping unreadable AP model', e);
+        }
+      });
+
+      return NextResponse.json(models);
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Body: APModel[] - inserted or replaced by id
+export async function POST(req: Request) {
+  try {
+    const models: APModel[] = await req.json();
+    if (!Array.isArray(models) || models.some(m => !m?.id || !m.vendor || !m.modelName || !m.bands)) {
+      return NextResponse.json({ error: 'Expected an array of AP models' }, { status: 400 });
+    }
+
+    const connection = await pool.getConnection();
+
+    try {
+      // DDL commits implicitly in MySQL, so it stays outside the transaction
+      await connection.query(CREATE_TABLE);
+      await connection.beginTransaction();
+
+      for (const model of models) {
+        const json = JSON.stringify(model);
+        await connection.query(`
+          INSERT INTO ap_models (model_id, model_json)
+          VALUES (?, ?)
+          ON DUPLICATE KEY UPDATE model_json = ?
+        `, [model.id, json, json]);
+      }
+
+      await connection.commit();
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// ?id=<model id> - built-in models come back with their original specs
+export async function DELETE(req: Request) {
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+
+  try {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.query(CREATE_TABLE);
+      await connection.query('DELETE FROM ap_models WHERE model_id = ?', [id]);
+      return NextResponse.json({ success: true });
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Database Error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -5,14 +5,26 @@ import { Toolbar } from '@/components/Toolbar';
 import { HeatmapEditor, HeatmapEditorRef, HeatmapData } from '@/components/HeatmapEditor';
 import { AntennaVisualizer } from '@/components/AntennaVisualizer';
 import { SignalLegend } from '@/components/SignalLegend';
-import { WallMaterial, DEFAULT_PIXELS_PER_METER, AP_PRESETS } from '@/types';
-
-type ToolType = 'select' | 'wall' | 'ap' | 'door' | 'scale' | 'device';
-
-interface Floor {
-  id: string;
-  name: string;
-}
+import { MaterialLibraryDialog } from '@/components/MaterialLibraryDialog';
+import { RequirementProfilesDialog } from '@/components/RequirementProfilesDialog';
+import { ClientProfilesDialog } from '@/components/ClientProfilesDialog';
+import { FloorSettingsDialog } from '@/components/FloorSettingsDialog';
+import { AntennaCatalogDialog } from '@/components/AntennaCatalogDialog';
+import { ApModelCatalogDialog } from '@/components/ApModelCatalogDialog';
+import { ConversionReportDialog } from '@/components/ConversionReportDialog';
+import { DxfImportDialog } from '@/components/DxfImportDialog';
+import { WallMaterial, DEFAULT_PIXELS_PER_METER, Band, ProjectSettings, DEFAULT_PROJECT_SETTINGS, Floor, AccessPoint, APCatalog, APModel, DEFAULT_AP_MODELS, ViewMode } from '@/types';
+import { mergeWithDefaultMaterials } from '@/utils/materials';
+import { createFloor, getNeighbourFloorAps, migrateFloor, NeighbourFloorAps } from '@/utils/floors';
+import { getModelAntennaPattern } from '@/utils/antennaPattern';
+import { embedLegacyAntennaPatterns, getApModel, LegacyPatternLinks, mergeWithDefaultApModels } from '@/utils/apCatalog';
+import { ServingCell, ViewStats } from '@/utils/coverageAnalysis';
+import { getClientProfile } from '@/utils/linkBudget';
+import { exportEsx, getImageSize, importEsx } from '@/utils/ekahau';
+import { DxfConversion, DxfDrawing, parseDxf, renderPlanLines } from '@/utils/dxf';
+import { migrateAccessPoint } from '@/utils/radio';
+
+type ToolType = 'select' | 'wall' | 'ap' | 'door' | 'scale' | 'device' | 'interferer' | 'region' | 'route' | 'zone' | 'survey';
 
 interface SavedFloorState extends HeatmapData {
   backgroundImage: string | null;
@@ -20,14 +32,16 @@ interface SavedFloorState extends HeatmapData {
   scale: number;
 }
 
-// Cache version - increment when AP_PRESETS changes to force cache clear
+// Cache version - increment when saved floor data changes incompatibly to force cache clear
 const CACHE_VERSION = 'v2';
 
 export default function Home() {
   // --- Multi-Floor State ---
-  const [floors, setFloors] = useState<Floor[]>([{ id: 'floor-1', name: 'Floor 1' }]);
+  const [floors, setFloors] = useState<Floor[]>([createFloor('floor-1', [])]);
   const [currentFloorId, setCurrentFloorId] = useState<string>('floor-1');
   const floorsDataRef = useRef<Record<string, SavedFloorState>>({});
+  const [neighbourFloors, setNeighbourFloors] = useState<NeighbourFloorAps[]>([]);
+  const [editingFloorId, setEditingFloorId] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false); // Track if initial load is done
 
   const [activeTool, setActiveTool] = useState<ToolType>('select');
@@ -37,7 +51,8 @@ export default function Home() {
   const [imageOpacity, setImageOpacity] = useState<number>(0.5);
   const [canDelete, setCanDelete] = useState(false);
   const [showAntenna, setShowAntenna] = useState(false);
-  const [selectedEntity, setSelectedEntity] = useState<{ type: 'wall' | 'ap' | 'door' | 'device', id: string } | null>(null);
+  const [selectedEntity, setSelectedEntity] = useState<{ type: 'wall' | 'ap' | 'door' | 'device' | 'interferer' | 'route' | 'zone' | 'survey', id: string } | null>(null);
+  const [selectedAp, setSelectedAp] = useState<AccessPoint | null>(null);
 
   // Database State
   const [isSavingToDb, setIsSavingToDb] = useState(false);
@@ -45,7 +60,27 @@ export default function Home() {
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
   // Enterprise State
-  const [viewMode, setViewMode] = useState<'rssi' | 'sinr'>('rssi');
+  const [viewMode, setViewMode] = useState<ViewMode>('rssi');
+  const [viewStats, setViewStats] = useState<ViewStats | null>(null);
+  const [servingCells, setServingCells] = useState<ServingCell[]>([]);
+  const [activeBand, setActiveBand] = useState<Band>('2.4GHz');
+
+  // Project-wide Settings (Material Library)
+  const [projectSettings, setProjectSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS);
+  const [showMaterialLibrary, setShowMaterialLibrary] = useState(false);
+  const [showRequirementProfiles, setShowRequirementProfiles] = useState(false);
+  const [showClientProfiles, setShowClientProfiles] = useState(false);
+  const [showAntennaCatalog, setShowAntennaCatalog] = useState(false);
+
+  // AP Catalog (built-in models plus the team's models from the server)
+  const [apModels, setApModels] = useState<APCatalog>(DEFAULT_AP_MODELS);
+  const [showApModelCatalog, setShowApModelCatalog] = useState(false);
+
+  // What an Ekahau import/export left out
+  const [conversionReport, setConversionReport] = useState<{ title: string; summary: string; notes: string[] } | null>(null);
+
+  // DXF drawing waiting for its layer mapping
+  const [dxfImport, setDxfImport] = useState<{ fileName: string; drawing: DxfDrawing } | null>(null);
 
   // Cache Version Check - Clear old data if version mismatch
   useEffect(() => {
@@ -73,6 +108,64 @@ export default function Home() {
       localStorage.setItem('heatmap_autosave_db', JSON.stringify(autoSaveDb));
   }, [autoSaveDb]);
 
+  // Load the AP catalog (built-in models only if the server is unavailable)
+  useEffect(() => {
+    fetch('/api/ap-models')
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((models: APModel[]) => {
+        const catalog = mergeWithDefaultApModels(models);
+        setApModels(catalog);
+        return catalog;
+      })
+      .then(async (catalog) => {
+        // Pattern links saved before the catalog stored the patterns: upload this browser's copies
+        const settings: Partial<ProjectSettings> & { modelAntennaPatterns?: LegacyPatternLinks } =
+          JSON.parse(localStorage.getItem('heatmap_project_settings') ?? '{}');
+        const migrated = embedLegacyAntennaPatterns(catalog, settings.antennaPatterns ?? [], settings.modelAntennaPatterns);
+        if (migrated.length > 0) {
+          const res = await fetch('/api/ap-models', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(migrated)
+          });
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          setApModels(prev => ({ ...prev, ...Object.fromEntries(migrated.map(m => [m.id, m])) }));
+        }
+        if (settings.modelAntennaPatterns) {
+          setProjectSettings(prev => {
+            const next: ProjectSettings & { modelAntennaPatterns?: LegacyPatternLinks } = { ...prev };
+            delete next.modelAntennaPatterns;
+            return next;
+          });
+        }
+      })
+      .catch(e => console.error('Failed to load the AP catalog', e));
+  }, []);
+
+  const saveApModels = async (models: APModel[]) => {
+    const res = await fetch('/api/ap-models', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(models)
+    });
+    if (!res.ok) throw new Error('Failed to save the AP catalog to the server');
+    setApModels(prev => ({ ...prev, ...Object.fromEntries(models.map(m => [m.id, m])) }));
+  };
+
+  const deleteApModel = async (modelId: string) => {
+    const res = await fetch(`/api/ap-models?id=${encodeURIComponent(modelId)}`, { method: 'DELETE' });
+    if (!res.ok) throw new Error('Failed to delete the AP model on the server');
+    setApModels(prev => {
+      const next = { ...prev };
+      if (DEFAULT_AP_MODELS[modelId]) next[modelId] = DEFAULT_AP_MODELS[modelId];
+      else delete next[modelId];
+      return next;
+    });
+  };
+
   const editorRef = useRef<HeatmapEditorRef>(null);
 
   // --- Persistence Logic ---
@@ -82,9 +175,18 @@ export default function Home() {
     try {
       const savedFloors = localStorage.getItem('heatmap_floors');
       const savedCurrentId = localStorage.getItem('heatmap_current_floor_id');
+      const savedSettings = localStorage.getItem('heatmap_project_settings');
 
       if (savedFloors) {
-        setFloors(JSON.parse(savedFloors));
+        setFloors(JSON.parse(savedFloors).map(migrateFloor));
+      }
+      if (savedSettings) {
+        const parsed: ProjectSettings = JSON.parse(savedSettings);
+        setProjectSettings({
+          ...DEFAULT_PROJECT_SETTINGS,
+          ...parsed,
+          materials: mergeWithDefaultMaterials(parsed.materials)
+        });
       }
       if (savedCurrentId) {
         setCurrentFloorId(savedCurrentId);
@@ -98,23 +200,26 @@ export default function Home() {
 
   const isDataLoadedRef = useRef(false);
 
+  // Saved state of any floor: in-memory ref first, then localStorage
+  const readFloorState = (floorId: string): SavedFloorState | undefined => {
+    let data = floorsDataRef.current[floorId];
+    if (!data) {
+        const savedData = localStorage.getItem(`heatmap_floor_data_${floorId}`);
+        if (savedData) {
+            data = JSON.parse(savedData);
+            floorsDataRef.current[floorId] = data; // Cache it
+        }
+    }
+    return data;
+  };
+
   const loadFloorData = () => {
     if (!editorRef.current) return;
 
     // Reset loaded flag before loading
     isDataLoadedRef.current = false;
 
-    // Check in-memory ref first
-    let data = floorsDataRef.current[currentFloorId];
-    
-    // If not in memory, try localStorage
-    if (!data) {
-        const savedData = localStorage.getItem(`heatmap_floor_data_${currentFloorId}`);
-        if (savedData) {
-            data = JSON.parse(savedData);
-            floorsDataRef.current[currentFloorId] = data; // Cache it
-        }
-    }
+    const data = readFloorState(currentFloorId);
 
     if (data) {
         // Restore state
@@ -149,6 +254,16 @@ export default function Home() {
     localStorage.setItem('heatmap_current_floor_id', currentFloorId);
   }, [currentFloorId, isLoaded]);
 
+  // APs of the floors above and below (they only change while their own floor is open)
+  useEffect(() => {
+    if (!isLoaded) return;
+    setNeighbourFloors(getNeighbourFloorAps(floors, currentFloorId, (floorId) => {
+      const data = readFloorState(floorId);
+      // Floors not reopened since an upgrade still hold single-radio APs (same migration as loadData)
+      return data ? { aps: data.aps.map(ap => migrateAccessPoint(ap, apModels)), pixelsPerMeter: data.pixelsPerMeter } : null;
+    }));
+  }, [floors, currentFloorId, isLoaded, apModels]);
+
   // 3. Save Function (Updates Ref & LocalStorage)
   const saveCurrentFloor = () => {
     // GUARD: Do not save if editor is not ready or data hasn't been loaded yet
@@ -195,6 +310,12 @@ export default function Home() {
       localStorage.setItem('heatmap_floors', JSON.stringify(floors));
   }, [floors, isLoaded]);
 
+  // 6. Save Project Settings whenever they change
+  useEffect(() => {
+      if (!isLoaded) return;
+      localStorage.setItem('heatmap_project_settings', JSON.stringify(projectSettings));
+  }, [projectSettings, isLoaded]);
+
 
   const handleFloorChange = (newFloorId: string) => {
     if (newFloorId === currentFloorId) return;
@@ -216,7 +337,7 @@ export default function Home() {
   const handleAddFloor = () => {
     const newId = `floor-${Date.now()}`; 
     // Just add to end, renaming handles the numbers
-    const newFloors = [...floors, { id: newId, name: 'Temp' }];
+    const newFloors = [...floors, createFloor(newId, floors)];
     const reordered = updateFloorNames(newFloors);
     
     setFloors(reordered);
@@ -245,10 +366,16 @@ export default function Home() {
       const [draggedItem] = newFloors.splice(dragIndex, 1);
       newFloors.splice(hoverIndex, 0, draggedItem);
       
-      const reordered = updateFloorNames(newFloors);
+      // List order is the stacking order: floors keep their slabs but take the elevation of their new position
+      const elevations = floors.map(f => f.elevation).sort((a, b) => a - b);
+      const reordered = updateFloorNames(newFloors).map((floor, index) => ({ ...floor, elevation: elevations[index] }));
       setFloors(reordered);
   };
 
+  const handleUpdateFloor = (id: string, update: Partial<Floor>) => {
+      setFloors(prev => prev.map(f => f.id === id ? { ...f, ...update } : f));
+  };
+
 
   const handleDelete = () => {
     editorRef.current?.deleteSelected();
@@ -271,6 +398,7 @@ export default function Home() {
         const payload: Record<string, any> = {
             'heatmap_floors': floors,
             'heatmap_current_floor_id': currentFloorId,
+            'heatmap_project_settings': projectSettings,
         };
 
         // 3. Collect Data for ALL floors
@@ -322,7 +450,111 @@ export default function Home() {
 
     return () => clearInterval(interval);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoSaveDb, isLoaded, floors, currentFloorId]); // Re-create interval if critical state changes
+  }, [autoSaveDb, isLoaded, floors, currentFloorId, projectSettings]); // Re-create interval if critical state changes
+
+  // --- Ekahau Exchange ---
+  const importEsxProject = async (file: File) => {
+    if (!confirm(`Replace the current project with ${file.name}? Its floors, walls and APs are discarded.`)) return;
+
+    try {
+        const imported = await importEsx(await file.arrayBuffer(), file.name, projectSettings.materials, apModels);
+
+        // Keep the autosave from writing the open floor into the imported ones before they load
+        isDataLoadedRef.current = false;
+        floors.forEach(floor => {
+            delete floorsDataRef.current[floor.id];
+            localStorage.removeItem(`heatmap_floor_data_${floor.id}`);
+        });
+        imported.floors.forEach(floor => {
+            const { backgroundImage, ...data } = imported.floorData[floor.id];
+            const floorState: SavedFloorState = { ...data, backgroundImage, imageOpacity: 0.5, scale: 1 };
+            floorsDataRef.current[floor.id] = floorState;
+            try {
+                localStorage.setItem(`heatmap_floor_data_${floor.id}`, JSON.stringify(floorState));
+            } catch (e) {
+                console.error("Failed to save to localStorage:", e);
+                setSaveStatus('error');
+            }
+        });
+        setProjectSettings(prev => ({ ...prev, materials: imported.materials }));
+        setFloors(imported.floors);
+        setCurrentFloorId(imported.floors[0].id);
+
+        const floorData = Object.values(imported.floorData);
+        setConversionReport({
+            title: 'Ekahau Import',
+            summary: `${file.name}: ${imported.floors.length} floor(s), ${floorData.reduce((sum, f) => sum + f.aps.length, 0)} AP(s), ${floorData.reduce((sum, f) => sum + f.walls.length, 0)} wall(s), ${floorData.reduce((sum, f) => sum + f.survey.length, 0)} survey point(s)`,
+            notes: imported.report
+        });
+    } catch (e) {
+        alert(`${file.name}: ${e instanceof Error ? e.message : 'the project could not be imported'}`);
+    }
+  };
+
+  const exportEsxProject = async () => {
+    saveCurrentFloor();
+
+    try {
+        const exportFloors = await Promise.all(floors.map(async floor => {
+            const data = readFloorState(floor.id);
+            const backgroundImage = data?.backgroundImage ?? null;
+            return {
+                floor,
+                data: {
+                    ...data,
+                    walls: data?.walls ?? [],
+                    doors: data?.doors ?? [],
+                    aps: (data?.aps ?? []).map(ap => migrateAccessPoint(ap, apModels)),
+                    survey: data?.survey ?? [],
+                    pixelsPerMeter: data?.pixelsPerMeter ?? DEFAULT_PIXELS_PER_METER
+                },
+                backgroundImage,
+                imageSize: backgroundImage ? await getImageSize(backgroundImage) : null
+            };
+        }));
+        const { blob, report } = exportEsx('Heatmap Planner', exportFloors, projectSettings.materials, apModels);
+
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'project.esx';
+        link.click();
+        URL.revokeObjectURL(url);
+
+        setConversionReport({ title: 'Ekahau Export', summary: `project.esx: ${floors.length} floor(s)`, notes: report });
+    } catch (e) {
+        alert(`Export failed: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  // --- DXF Floor Plans ---
+  const openDxf = async (file: File) => {
+    try {
+        setDxfImport({ fileName: file.name, drawing: parseDxf(await file.text()) });
+    } catch (e) {
+        alert(`${file.name}: ${e instanceof Error ? e.message : 'the drawing could not be read'}`);
+    }
+  };
+
+  const applyDxf = (conversion: DxfConversion) => {
+    if (!editorRef.current || !dxfImport) return;
+    const data = editorRef.current.getData();
+    if (data.walls.length > 0 && !confirm(`Replace the ${data.walls.length} wall(s) of this floor with the drawing?`)) return;
+
+    const notes = [...conversion.report];
+    const placed = data.aps.length + (data.devices?.length ?? 0) + (data.interferers?.length ?? 0) + (data.survey?.length ?? 0);
+    if (placed > 0 && conversion.pixelsPerMeter !== data.pixelsPerMeter) {
+        notes.push('APs, devices and survey points already on the floor keep their position on the plan; check them against the drawing.');
+    }
+    editorRef.current.loadData({ ...data, walls: conversion.walls, doors: conversion.doors, pixelsPerMeter: conversion.pixelsPerMeter });
+    setBackgroundImage(renderPlanLines(conversion.lines));
+    setDxfImport(null);
+    setConversionReport({
+        title: 'DXF Import',
+        summary: `${dxfImport.fileName}: ${conversion.walls.length} wall(s), ${conversion.doors.length} door(s), ${conversion.pixelsPerMeter.toFixed(1)} px/m`,
+        notes
+    });
+  };
 
   return (
     <main className="flex h-screen w-full flex-row overflow-hidden bg-neutral-100">
@@ -333,7 +565,10 @@ export default function Home() {
         setScale={setScale}
         selectedMaterial={selectedMaterial}
         onMaterialChange={setSelectedMaterial}
+        materials={projectSettings.materials}
+        onOpenMaterialLibrary={() => setShowMaterialLibrary(true)}
         onUploadImage={setBackgroundImage}
+        onImportDxf={openDxf}
         imageOpacity={imageOpacity}
         onOpacityChange={setImageOpacity}
         onClearAll={handleClear}
@@ -349,14 +584,38 @@ export default function Home() {
         onAddFloor={handleAddFloor}
         onDeleteFloor={handleDeleteFloor}
         onReorderFloors={handleReorderFloors}
+        onEditFloor={setEditingFloorId}
 
         onSaveToDb={saveToDatabase}
+        onImportEsx={importEsxProject}
+        onExportEsx={exportEsxProject}
         isSavingToDb={isSavingToDb}
         autoSaveDb={autoSaveDb}
         onToggleAutoSaveDb={() => setAutoSaveDb(!autoSaveDb)}
         viewMode={viewMode}
         onViewModeChange={setViewMode}
-        onAutoChannel={() => editorRef.current?.autoAssignChannels()}
+        clientProfiles={projectSettings.clientProfiles}
+        referenceClientId={projectSettings.referenceClientId}
+        onReferenceClientChange={(referenceClientId) => setProjectSettings(prev => ({ ...prev, referenceClientId }))}
+        onOpenClientProfiles={() => setShowClientProfiles(true)}
+        apCountThresholdDbm={projectSettings.apCountThresholdDbm}
+        onApCountThresholdChange={(apCountThresholdDbm) => setProjectSettings(prev => ({ ...prev, apCountThresholdDbm }))}
+        surveyInterpolation={projectSettings.surveyInterpolation}
+        onSurveyInterpolationChange={(surveyInterpolation) => setProjectSettings(prev => ({ ...prev, surveyInterpolation }))}
+        noiseFloor={projectSettings.noiseFloor}
+        onNoiseFloorChange={(noiseFloor) => setProjectSettings(prev => ({ ...prev, noiseFloor }))}
+        clientHeight={projectSettings.clientHeight}
+        onClientHeightChange={(clientHeight) => setProjectSettings(prev => ({ ...prev, clientHeight }))}
+        capacityLimits={projectSettings.capacityLimits}
+        onCapacityLimitsChange={(capacityLimits) => setProjectSettings(prev => ({ ...prev, capacityLimits }))}
+        onOpenRequirementProfiles={() => setShowRequirementProfiles(true)}
+        band={activeBand}
+        onBandChange={setActiveBand}
+        onAutoChannel={() => editorRef.current?.openChannelPlanner()}
+        onSuggestPlacement={() => editorRef.current?.openPlacement()}
+        onOpenSurvey={() => editorRef.current?.openSurvey()}
+        onOpenAntennaCatalog={() => setShowAntennaCatalog(true)}
+        onOpenApModelCatalog={() => setShowApModelCatalog(true)}
         onClearAps={() => editorRef.current?.clearAps()}
         onClearDevices={() => editorRef.current?.clearDevices()}
       />
@@ -381,6 +640,24 @@ export default function Home() {
           selectedMaterial={selectedMaterial}
           scale={scale}
           viewMode={viewMode}
+          band={activeBand}
+          materials={projectSettings.materials}
+          noiseFloor={projectSettings.noiseFloor}
+          clientHeight={projectSettings.clientHeight}
+          capacityLimits={projectSettings.capacityLimits}
+          propagationProfile={projectSettings.propagationProfile}
+          surveyInterpolation={projectSettings.surveyInterpolation}
+          onPropagationProfileChange={(propagationProfile) => setProjectSettings(prev => ({ ...prev, propagationProfile }))}
+          onMaterialsChange={(materials) => setProjectSettings(prev => ({ ...prev, materials }))}
+          clientProfiles={projectSettings.clientProfiles}
+          referenceClientId={projectSettings.referenceClientId}
+          apModels={apModels}
+          requirementProfiles={projectSettings.requirementProfiles}
+          neighbourFloors={neighbourFloors}
+          onSelectedApChange={setSelectedAp}
+          apCountThresholdDbm={projectSettings.apCountThresholdDbm}
+          onViewStatsChange={setViewStats}
+          onServingCellsChange={setServingCells}
           onEditorReady={loadFloorData}
           onSelectionChange={(hasSel, entity) => {
             setCanDelete(hasSel);
@@ -395,15 +672,88 @@ export default function Home() {
         />
 
         {/* Antenna Overlay */}
-        {showAntenna && selectedEntity?.type === 'ap' && (
+        {showAntenna && selectedAp && (
           <AntennaVisualizer
-            ap={{ id: selectedEntity.id, x: 0, y: 0, txPower: 18 } as any}
+            ap={selectedAp}
+            band={activeBand}
+            apModel={getApModel(apModels, selectedAp.model)}
+            pattern={getModelAntennaPattern(getApModel(apModels, selectedAp.model), activeBand)}
             onClose={() => setShowAntenna(false)}
           />
         )}
 
         {/* Signal Legend */}
-        <SignalLegend />
+        <SignalLegend band={activeBand} viewMode={viewMode} stats={viewStats} apCountThresholdDbm={projectSettings.apCountThresholdDbm} referenceClient={getClientProfile(projectSettings.clientProfiles, projectSettings.referenceClientId)} servingCells={servingCells} />
+
+        {dxfImport && (
+          <DxfImportDialog
+            fileName={dxfImport.fileName}
+            drawing={dxfImport.drawing}
+            materials={projectSettings.materials}
+            onImport={applyDxf}
+            onClose={() => setDxfImport(null)}
+          />
+        )}
+
+        {conversionReport && (
+          <ConversionReportDialog
+            title={conversionReport.title}
+            summary={conversionReport.summary}
+            notes={conversionReport.notes}
+            onClose={() => setConversionReport(null)}
+          />
+        )}
+
+        {showMaterialLibrary && (
+          <MaterialLibraryDialog
+            materials={projectSettings.materials}
+            onChange={(materials) => setProjectSettings(prev => ({ ...prev, materials }))}
+            onClose={() => setShowMaterialLibrary(false)}
+          />
+        )}
+
+        {showRequirementProfiles && (
+          <RequirementProfilesDialog
+            profiles={projectSettings.requirementProfiles}
+            onChange={(requirementProfiles) => setProjectSettings(prev => ({ ...prev, requirementProfiles }))}
+            onClose={() => setShowRequirementProfiles(false)}
+          />
+        )}
+
+        {showClientProfiles && (
+          <ClientProfilesDialog
+            profiles={projectSettings.clientProfiles}
+            onChange={(clientProfiles) => setProjectSettings(prev => ({ ...prev, clientProfiles }))}
+            onClose={() => setShowClientProfiles(false)}
+          />
+        )}
+
+        {showAntennaCatalog && (
+          <AntennaCatalogDialog
+            antennaPatterns={projectSettings.antennaPatterns}
+            onChange={(antennaPatterns) => setProjectSettings(prev => ({ ...prev, antennaPatterns }))}
+            onClose={() => setShowAntennaCatalog(false)}
+          />
+        )}
+
+        {showApModelCatalog && (
+          <ApModelCatalogDialog
+            apModels={apModels}
+            antennaPatterns={projectSettings.antennaPatterns}
+            onSave={saveApModels}
+            onDelete={deleteApModel}
+            onClose={() => setShowApModelCatalog(false)}
+          />
+        )}
+
+        {editingFloorId && floors.some(f => f.id === editingFloorId) && (
+          <FloorSettingsDialog
+            floor={floors.find(f => f.id === editingFloorId)!}
+            materials={projectSettings.materials}
+            onChange={(update) => handleUpdateFloor(editingFloorId, update)}
+            onClose={() => setEditingFloorId(null)}
+          />
+        )}
       </div>
     </main>
   );
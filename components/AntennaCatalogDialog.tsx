@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Trash2, Upload, X } from 'lucide-react';
+import { AntennaPattern } from '@/types';
+import { parseAntennaFile } from '@/utils/antennaPattern';
+
+interface AntennaCatalogDialogProps {
+    antennaPatterns: AntennaPattern[];
+    onChange: (antennaPatterns: AntennaPattern[]) => void;
+    onClose: () => void;
+}
+
+export function AntennaCatalogDialog({ antennaPatterns, onChange, onClose }: AntennaCatalogDialogProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const handleImport = async (files: FileList) => {
+        const imported: AntennaPattern[] = [];
+        const errors: string[] = [];
+        for (const file of Array.from(files)) {
+            try {
+                imported.push(parseAntennaFile(await file.text(), file.name));
+            } catch (e) {
+                errors.push(e instanceof Error ? e.message : `${file.name}: could not be read`);
+            }
+        }
+        if (imported.length > 0) onChange([...antennaPatterns, ...imported]);
+        setMessage(errors.length > 0 ? errors.join('\n') : null);
+    };
+
+    const handleDelete = (pattern: AntennaPattern) => {
+        if (!confirm(`Delete "${pattern.name}"? AP models already linked to it keep their own copy.`)) return;
+        onChange(antennaPatterns.filter(p => p.id !== pattern.id));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-2xl w-full mx-4 max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">Antenna Catalog</h2>
+                        <p className="text-xs text-neutral-400">Import MSI / Planet (.msi, .pln, .ant) pattern files, then link them to AP models per band in the AP Model Catalog (the shared catalog stores a copy). EIRP still comes from the radio&apos;s antenna gain.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-1 space-y-4 text-xs">
+                    {/* Patterns */}
+                    <table className="w-full">
+                        <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                            <tr>
+                                <th className="p-2">Pattern</th>
+                                <th className="p-2">Make</th>
+                                <th className="p-2 text-right">Frequency</th>
+                                <th className="p-2 text-right">Gain</th>
+                                <th className="p-2 text-right">Electrical Tilt</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {antennaPatterns.length === 0 && (
+                                <tr className="border-t border-neutral-100">
+                                    <td colSpan={6} className="p-2 text-neutral-400 italic">No patterns imported yet</td>
+                                </tr>
+                            )}
+                            {antennaPatterns.map(pattern => (
+                                <tr key={pattern.id} className="border-t border-neutral-100">
+                                    <td className="p-2">{pattern.name}</td>
+                                    <td className="p-2 text-neutral-500">{pattern.make || '-'}</td>
+                                    <td className="p-2 text-right font-mono">{pattern.frequencyMhz ? `${pattern.frequencyMhz} MHz` : '-'}</td>
+                                    <td className="p-2 text-right font-mono">{pattern.gainDbi} dBi</td>
+                                    <td className="p-2 text-right font-mono">{pattern.electricalTilt !== undefined ? `${pattern.electricalTilt}°` : '-'}</td>
+                                    <td className="p-2 text-right">
+                                        <button
+                                            onClick={() => handleDelete(pattern)}
+                                            className="p-1 text-neutral-400 hover:text-red-500 hover:bg-red-50 rounded"
+                                            title="Delete Pattern"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {message && <p className="text-amber-600 whitespace-pre-line">{message}</p>}
+                </div>
+
+                <div className="flex gap-3 pt-4 border-t mt-4">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".ant,.msi,.pln,.txt"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                            if (e.target.files) handleImport(e.target.files);
+                            e.target.value = '';
+                        }}
+                    />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                    >
+                        <Upload size={16} /> Import Pattern Files
+                    </button>
+                    <div className="flex-1" />
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
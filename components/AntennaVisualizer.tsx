@@ -1,15 +1,19 @@
 'use client';
 
 import React, { useEffect, useRef } from 'react';
-import { AccessPoint, AP_PRESETS } from '@/types';
+import { AccessPoint, AntennaPattern, APModel, Band, BAND_PROFILES } from '@/types';
 import { X } from 'lucide-react';
+import { DEFAULT_AP_HEIGHT, getElevationGainDb, getElevationPattern, samplePatternDb } from '@/utils/antenna';
 
 interface AntennaVisualizerProps {
     ap: AccessPoint | null;
+    apModel: APModel; // Catalog entry of the AP's model
+    band: Band;
+    pattern: AntennaPattern | null; // Imported pattern linked to the AP's model on this band
     onClose: () => void;
 }
 
-export function AntennaVisualizer({ ap, onClose }: AntennaVisualizerProps) {
+export function AntennaVisualizer({ ap, apModel, band, pattern, onClose }: AntennaVisualizerProps) {
     const azimuthRef = useRef<HTMLCanvasElement>(null);
     const elevationRef = useRef<HTMLCanvasElement>(null);
 
@@ -88,10 +92,15 @@ export function AntennaVisualizer({ ap, onClose }: AntennaVisualizerProps) {
         if (!ap) return;
         
         const model = ap.model || 'aruba-315';
-        const preset = AP_PRESETS[model];
-        
+
         if (azimuthRef.current) {
-            if (model === 'aruba-315') {
+            if (pattern) {
+                // Measured horizontal cut, turned to the AP's azimuth (0 = North/Up)
+                const azimuthRad = ((ap.azimuth || 0) - 90) * (Math.PI / 180);
+                drawPolar(azimuthRef.current, `Azimuth - ${pattern.name}`, (angle) => {
+                    return Math.max(0, 1 - samplePatternDb(pattern.horizontal, (angle - azimuthRad) * (180 / Math.PI)) / 30);
+                }, '#0d9488');
+            } else if (model === 'aruba-315') {
                 // Aruba AP-315 Azimuth (Horizontal) Pattern
                 // Source: Aruba AP-315 Datasheet
                 // 4x4 MIMO with integrated omni-directional antennas
@@ -115,8 +124,16 @@ export function AntennaVisualizer({ ap, onClose }: AntennaVisualizerProps) {
             }
         }
         
+        const elevationPattern = getElevationPattern({ ...ap, pattern: pattern ?? undefined });
         if (elevationRef.current) {
-            if (model === 'aruba-315') {
+            if (elevationPattern) {
+                // Pattern the propagation engine applies (right = horizon, down = nadir, front and back alike)
+                const title = pattern ? `Elevation - ${pattern.name}` : `Elevation - ${elevationPattern.tiltDeg}° Downtilt`;
+                drawPolar(elevationRef.current, title, (angle) => {
+                    const depressionDeg = Math.asin(Math.sin(angle)) * (180 / Math.PI);
+                    return Math.max(0, 1 + getElevationGainDb(elevationPattern, depressionDeg) / 30);
+                }, '#ea580c');
+            } else if (model === 'aruba-315') {
                 // Aruba AP-315 Elevation (Vertical) Pattern
                 // Source: Aruba AP-315 Datasheet
                 // Ceiling mount optimized with downtilt
@@ -155,22 +172,23 @@ export function AntennaVisualizer({ ap, onClose }: AntennaVisualizerProps) {
                 }, '#6b7280');
             }
         }
-    }, [ap]);
+    }, [ap, pattern]);
 
     if (!ap) return null;
 
-    const model = ap.model || 'aruba-315';
-    const preset = AP_PRESETS[model];
-    const modelName = preset?.modelName || 'Unknown Model';
-    const antennaGain = preset?.antennaGain || 0;
+    const bandSpec = apModel.bands[band];
+    const antennaGain = bandSpec?.antennaGain || 0;
 
     return (
         <div className="absolute top-4 right-4 w-80 bg-white rounded-xl shadow-2xl border border-gray-200 overflow-hidden z-50 animate-in fade-in slide-in-from-right-10">
             <div className="p-4 bg-gray-50 border-b border-gray-100 flex justify-between items-center">
                 <div>
                     <h3 className="font-bold text-gray-800">Antenna Pattern</h3>
-                    <p className="text-xs text-gray-500">{modelName}</p>
-                    <p className="text-[10px] text-gray-400">{antennaGain} dBi Gain</p>
+                    <p className="text-xs text-gray-500">{apModel.modelName}</p>
+                    <p className="text-[10px] text-gray-400">
+                        {antennaGain} dBi Gain | Mounted at {ap.height ?? DEFAULT_AP_HEIGHT} m
+                        {ap.downtilt ? ` | ${ap.downtilt}° Downtilt` : ''}
+                    </p>
                 </div>
                 <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full text-gray-500">
                     <X size={16} />
@@ -182,8 +200,17 @@ export function AntennaVisualizer({ ap, onClose }: AntennaVisualizerProps) {
                 <canvas ref={elevationRef} width={280} height={180} className="w-full" />
 
                 <div className="text-xs text-gray-400 text-center pt-2 border-t">
-                    <p className="font-medium text-gray-600">{preset?.vendor} {preset?.modelName}</p>
-                    <p className="text-[10px]">EIRP: {preset?.totalEIRP} dBm | Gain: {antennaGain} dBi</p>
+                    <p className="font-medium text-gray-600">{apModel.vendor} {apModel.modelName}</p>
+                    <p className="text-[10px]">
+                        {bandSpec
+                            ? `${BAND_PROFILES[band].label} Max EIRP: ${bandSpec.txPower + bandSpec.antennaGain} dBm | ${bandSpec.spatialStreams}SS | up to ${Math.max(...bandSpec.channelWidths)} MHz`
+                            : `No ${BAND_PROFILES[band].label} radio`}
+                    </p>
+                    {pattern && (
+                        <p className="text-[10px]">
+                            Pattern: {pattern.name}{pattern.make ? ` (${pattern.make})` : ''} | {pattern.gainDbi} dBi
+                        </p>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,346 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Pencil, Plus, RotateCcw, Trash2, Upload, X } from 'lucide-react';
+import { AntennaPattern, APCatalog, APModel, APRadioSpec, Band, BANDS, BAND_PROFILES, ChannelWidth, DEFAULT_AP_MODELS } from '@/types';
+import { createApModelId, isBuiltInApModel, parseApModelFile } from '@/utils/apCatalog';
+
+interface ApModelCatalogDialogProps {
+    apModels: APCatalog;
+    antennaPatterns: AntennaPattern[];
+    onSave: (models: APModel[]) => Promise<void>; // Stores the models on the server
+    onDelete: (modelId: string) => Promise<void>;
+    onClose: () => void;
+}
+
+const NEW_RADIO: APRadioSpec = { txPower: 20, antennaGain: 4, spatialStreams: 2, channelWidths: [20] };
+
+export function ApModelCatalogDialog({ apModels, antennaPatterns, onSave, onDelete, onClose }: ApModelCatalogDialogProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [draft, setDraft] = useState<APModel | null>(null);
+    const [isNew, setIsNew] = useState(false);
+    const [search, setSearch] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const models = Object.values(apModels)
+        .filter(m => `${m.vendor} ${m.modelName}`.toLowerCase().includes(search.toLowerCase()))
+        .sort((a, b) => a.vendor.localeCompare(b.vendor) || a.modelName.localeCompare(b.modelName));
+
+    // Server calls report their failure in the dialog
+    const run = async (action: () => Promise<string | null>) => {
+        setBusy(true);
+        try {
+            setMessage(await action());
+        } catch (e) {
+            setMessage(e instanceof Error ? e.message : 'The AP catalog could not be saved');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleImport = (file: File) => run(async () => {
+        const imported = parseApModelFile(await file.text(), file.name, antennaPatterns);
+        const updated = imported.filter(m => apModels[m.id]).length;
+        await onSave(imported);
+        return `${file.name}: ${imported.length - updated} model(s) added, ${updated} updated`;
+    });
+
+    const handleSaveDraft = () => {
+        if (!draft) return;
+        const vendor = draft.vendor.trim();
+        const modelName = draft.modelName.trim();
+        if (!vendor || !modelName) return setMessage('Vendor and model are required');
+        if (Object.keys(draft.bands).length === 0) return setMessage('Add at least one radio');
+        if (Object.values(draft.bands).some(spec => spec.channelWidths.length === 0)) return setMessage('Every radio needs at least one channel width');
+
+        const model = { ...draft, vendor, modelName, id: isNew ? createApModelId(vendor, modelName) : draft.id };
+        if (isNew && apModels[model.id]) return setMessage(`${vendor} ${modelName} is already in the catalog`);
+        run(async () => {
+            await onSave([model]);
+            setDraft(null);
+            return null;
+        });
+    };
+
+    const handleDelete = (model: APModel) => {
+        const builtIn = isBuiltInApModel(model.id);
+        const question = builtIn
+            ? `Reset "${model.vendor} ${model.modelName}" to its built-in specs?`
+            : `Delete "${model.vendor} ${model.modelName}"? APs using it fall back to manual configuration.`;
+        if (!confirm(question)) return;
+        run(async () => {
+            await onDelete(model.id);
+            return null;
+        });
+    };
+
+    const updateRadio = (band: Band, update: Partial<APRadioSpec> | null) => {
+        if (!draft) return;
+        const bands = { ...draft.bands };
+        if (update) bands[band] = { ...(bands[band] ?? { ...NEW_RADIO, channelWidths: [...BAND_PROFILES[band].channelWidths] }), ...update };
+        else delete bands[band];
+        setDraft({ ...draft, bands });
+    };
+
+    const summary = (spec: APRadioSpec | undefined) => spec
+        ? `${spec.txPower} dBm · ${spec.antennaGain} dBi · ${spec.spatialStreams}SS · ≤${Math.max(...spec.channelWidths)} MHz`
+        : '-';
+
+    const numberInput = (value: number, onChange: (v: number) => void, step: number) => (
+        <input
+            type="number"
+            step={step}
+            value={value}
+            onChange={(e) => {
+                const val = parseFloat(e.target.value);
+                if (!Number.isNaN(val)) onChange(val);
+            }}
+            className="w-16 p-1 border border-neutral-200 rounded text-right outline-none focus:ring-1 focus:ring-blue-500"
+        />
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-4xl w-full mx-4 max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">AP Model Catalog</h2>
+                        <p className="text-xs text-neutral-400">Shared with the team on the server. New APs start at the model&apos;s max power and antenna gain.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {draft ? (
+                    <div className="overflow-y-auto flex-1 space-y-3 text-xs">
+                        <div className="flex gap-3">
+                            <label className="flex-1 flex flex-col gap-1">
+                                <span className="text-neutral-500">Vendor</span>
+                                <input
+                                    type="text"
+                                    value={draft.vendor}
+                                    disabled={!isNew}
+                                    onChange={(e) => setDraft({ ...draft, vendor: e.target.value })}
+                                    className="p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-neutral-50"
+                                />
+                            </label>
+                            <label className="flex-1 flex flex-col gap-1">
+                                <span className="text-neutral-500">Model</span>
+                                <input
+                                    type="text"
+                                    value={draft.modelName}
+                                    disabled={!isNew}
+                                    onChange={(e) => setDraft({ ...draft, modelName: e.target.value })}
+                                    className="p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-neutral-50"
+                                />
+                            </label>
+                        </div>
+
+                        <table className="w-full">
+                            <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                                <tr>
+                                    <th className="p-2">Radio</th>
+                                    <th className="p-2 text-right">Max Power</th>
+                                    <th className="p-2 text-right">Antenna Gain</th>
+                                    <th className="p-2 text-right">Streams</th>
+                                    <th className="p-2">Channel Widths</th>
+                                    <th className="p-2">Antenna Pattern</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {BANDS.map(band => {
+                                    const spec = draft.bands[band];
+                                    return (
+                                        <tr key={band} className="border-t border-neutral-100">
+                                            <td className="p-2">
+                                                <label className="flex items-center gap-2">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={!!spec}
+                                                        onChange={(e) => updateRadio(band, e.target.checked ? {} : null)}
+                                                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                                    />
+                                                    {BAND_PROFILES[band].label}
+                                                </label>
+                                            </td>
+                                            {spec ? (
+                                                <>
+                                                    <td className="p-2 text-right">{numberInput(spec.txPower, v => updateRadio(band, { txPower: v }), 0.5)} dBm</td>
+                                                    <td className="p-2 text-right">{numberInput(spec.antennaGain, v => updateRadio(band, { antennaGain: v }), 0.1)} dBi</td>
+                                                    <td className="p-2 text-right">{numberInput(spec.spatialStreams, v => updateRadio(band, { spatialStreams: Math.max(1, Math.round(v)) }), 1)}</td>
+                                                    <td className="p-2">
+                                                        <div className="flex gap-2">
+                                                            {BAND_PROFILES[band].channelWidths.map(width => (
+                                                                <label key={width} className="flex items-center gap-1">
+                                                                    <input
+                                                                        type="checkbox"
+                                                                        checked={spec.channelWidths.includes(width)}
+                                                                        onChange={(e) => {
+                                                                            const widths: ChannelWidth[] = e.target.checked
+                                                                                ? [...spec.channelWidths, width].sort((a, b) => a - b)
+                                                                                : spec.channelWidths.filter(w => w !== width);
+                                                                            updateRadio(band, { channelWidths: widths });
+                                                                        }}
+                                                                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                                                    />
+                                                                    {width}
+                                                                </label>
+                                                            ))}
+                                                        </div>
+                                                    </td>
+                                                    <td className="p-2">
+                                                        <select
+                                                            value={spec.antennaPattern?.id ?? ''}
+                                                            onChange={(e) => updateRadio(band, {
+                                                                // The model keeps its own copy of the pattern
+                                                                antennaPattern: e.target.value === spec.antennaPattern?.id
+                                                                    ? spec.antennaPattern
+                                                                    : antennaPatterns.find(p => p.id === e.target.value)
+                                                            })}
+                                                            className="w-full p-1 border border-neutral-200 rounded"
+                                                        >
+                                                            <option value="">Built-in</option>
+                                                            {antennaPatterns.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                                            {spec.antennaPattern && !antennaPatterns.some(p => p.id === spec.antennaPattern?.id) && (
+                                                                <option value={spec.antennaPattern.id}>{spec.antennaPattern.name}</option>
+                                                            )}
+                                                        </select>
+                                                    </td>
+                                                </>
+                                            ) : (
+                                                <td colSpan={5} className="p-2 text-neutral-300">-</td>
+                                            )}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <div className="overflow-y-auto flex-1 space-y-2 text-xs">
+                        <input
+                            type="text"
+                            value={search}
+                            placeholder="Search vendor or model"
+                            onChange={(e) => setSearch(e.target.value)}
+                            className="w-full p-1.5 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        <table className="w-full">
+                            <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                                <tr>
+                                    <th className="p-2">Model</th>
+                                    {BANDS.map(band => <th key={band} className="p-2">{BAND_PROFILES[band].label}</th>)}
+                                    <th className="p-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {models.map(model => (
+                                    <tr key={model.id} className="border-t border-neutral-100">
+                                        <td className="p-2">
+                                            <div className="font-medium text-neutral-700">{model.modelName}</div>
+                                            <div className="text-[10px] text-neutral-400">{model.vendor}</div>
+                                        </td>
+                                        {BANDS.map(band => (
+                                            <td key={band} className="p-2 font-mono text-[10px] text-neutral-600">{summary(model.bands[band])}</td>
+                                        ))}
+                                        <td className="p-2 text-right whitespace-nowrap">
+                                            <button
+                                                onClick={() => { setDraft(model); setIsNew(false); setMessage(null); }}
+                                                className="p-1 text-neutral-400 hover:text-blue-500 hover:bg-blue-50 rounded"
+                                                title="Edit Model"
+                                            >
+                                                <Pencil size={14} />
+                                            </button>
+                                            {!isBuiltInApModel(model.id) ? (
+                                                <button
+                                                    onClick={() => handleDelete(model)}
+                                                    disabled={busy}
+                                                    className="p-1 text-neutral-400 hover:text-red-500 hover:bg-red-50 rounded"
+                                                    title="Delete Model"
+                                                >
+                                                    <Trash2 size={14} />
+                                                </button>
+                                            ) : model !== DEFAULT_AP_MODELS[model.id] && (
+                                                <button
+                                                    onClick={() => handleDelete(model)}
+                                                    disabled={busy}
+                                                    className="p-1 text-neutral-400 hover:text-amber-500 hover:bg-amber-50 rounded"
+                                                    title="Reset to Built-in Specs"
+                                                >
+                                                    <RotateCcw size={14} />
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {message && <p className="text-xs text-amber-600 whitespace-pre-line pt-2">{message}</p>}
+
+                <div className="flex gap-3 pt-4 border-t mt-4">
+                    {draft ? (
+                        <>
+                            <div className="flex-1" />
+                            <button
+                                onClick={() => { setDraft(null); setMessage(null); }}
+                                className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSaveDraft}
+                                disabled={busy}
+                                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                            >
+                                Save Model
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <button
+                                onClick={() => {
+                                    setDraft({ id: '', vendor: '', modelName: '', bands: { '5GHz': { ...NEW_RADIO, channelWidths: [20, 40, 80] } } });
+                                    setIsNew(true);
+                                    setMessage(null);
+                                }}
+                                className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                            >
+                                <Plus size={16} /> Add Model
+                            </button>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".csv,.json"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleImport(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                disabled={busy}
+                                className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                            >
+                                <Upload size={16} /> Import CSV / JSON
+                            </button>
+                            <div className="flex-1" />
+                            <button
+                                onClick={onClose}
+                                className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                            >
+                                Close
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Lock, Unlock, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AccessPoint, Band, BAND_PROFILES, ChannelWidth } from '@/types';
+import { getActiveRadio } from '@/utils/radio';
+import { ChannelPlan, ChannelPlanOptions, ChannelPlanReport, DEFAULT_CONFLICT_THRESHOLD_DBM, getCandidateChannels, getDefaultPlanChannels } from '@/utils/channelPlanner';
+
+interface ChannelPlannerDialogProps {
+    band: Band;
+    aps: AccessPoint[];
+    onPlan: (options: ChannelPlanOptions) => ChannelPlan | null; // null = heatmap still calculating
+    onApply: (plan: ChannelPlan) => void;
+    onToggleLock: (apId: string) => void;
+    onClose: () => void;
+}
+
+function ReportColumn({ title, report }: { title: string; report: ChannelPlanReport }) {
+    return (
+        <div className="flex-1 p-3 rounded-lg bg-neutral-50 border border-neutral-100 space-y-1">
+            <div className="text-[10px] uppercase tracking-wider text-neutral-400 font-bold">{title}</div>
+            <div className="flex justify-between"><span>Co-channel pairs</span><span className="font-mono">{report.coChannelPairs}</span></div>
+            <div className="flex justify-between">
+                <span>Worst co-channel neighbour</span>
+                <span className="font-mono">{report.worstCoChannelDbm === null ? '-' : `${report.worstCoChannelDbm.toFixed(0)} dBm`}</span>
+            </div>
+            <div className="flex justify-between"><span>Interference score</span><span className="font-mono">{report.interferenceScore.toFixed(1)}</span></div>
+        </div>
+    );
+}
+
+export function ChannelPlannerDialog({ band, aps, onPlan, onApply, onToggleLock, onClose }: ChannelPlannerDialogProps) {
+    const profile = BAND_PROFILES[band];
+    const [channelWidth, setChannelWidth] = useState<ChannelWidth>(20);
+    const [allowDfs, setAllowDfs] = useState(false);
+    const [channels, setChannels] = useState<number[]>(() => getDefaultPlanChannels(band, 20, false));
+    const [thresholdDbm, setThresholdDbm] = useState(DEFAULT_CONFLICT_THRESHOLD_DBM);
+    const [maxPowerReductionDb, setMaxPowerReductionDb] = useState(0);
+    const [plan, setPlan] = useState<ChannelPlan | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const candidates = getCandidateChannels(band, channelWidth).filter(c => allowDfs || !c.dfs);
+    const bandAps = aps.filter(ap => getActiveRadio(ap, band));
+    const plannedById = new Map(plan?.assignments.map(a => [a.apId, a]) || []);
+
+    // Any option change invalidates the previous result
+    const resetChannels = (width: ChannelWidth, dfs: boolean) => {
+        setChannelWidth(width);
+        setAllowDfs(dfs);
+        setChannels(getDefaultPlanChannels(band, width, dfs));
+        setPlan(null);
+    };
+
+    const toggleChannel = (channel: number) => {
+        setChannels(prev => prev.includes(channel) ? prev.filter(c => c !== channel) : [...prev, channel].sort((a, b) => a - b));
+        setPlan(null);
+    };
+
+    const handlePlan = () => {
+        const result = onPlan({ band, channels, channelWidth, conflictThresholdDbm: thresholdDbm, maxPowerReductionDb });
+        setPlan(result);
+        setMessage(result ? null : 'The heatmap is still calculating. Try again when it has finished.');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-3xl w-full mx-4 max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">Channel Planner ({profile.label})</h2>
+                        <p className="text-xs text-neutral-400">APs that hear each other above the threshold in the simulation are kept apart. Locked APs keep their settings.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-1 space-y-4 text-xs">
+                    {/* Options */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="flex items-center justify-between gap-2">
+                            <span className="text-neutral-500">Channel Width</span>
+                            <select
+                                value={channelWidth}
+                                onChange={(e) => resetChannels(parseInt(e.target.value) as ChannelWidth, allowDfs)}
+                                className="p-1 border border-neutral-200 rounded"
+                            >
+                                {profile.channelWidths.map(w => <option key={w} value={w}>{w} MHz</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between gap-2">
+                            <span className="text-neutral-500">Conflict Threshold</span>
+                            <span className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    step={1}
+                                    value={thresholdDbm}
+                                    onChange={(e) => {
+                                        const val = parseFloat(e.target.value);
+                                        if (Number.isNaN(val)) return;
+                                        setThresholdDbm(val);
+                                        setPlan(null);
+                                    }}
+                                    className="w-16 p-1 border border-neutral-200 rounded text-right"
+                                />
+                                dBm
+                            </span>
+                        </label>
+                        <label className="flex items-center justify-between gap-2">
+                            <span className="text-neutral-500">Max Power Reduction</span>
+                            <select
+                                value={maxPowerReductionDb}
+                                onChange={(e) => {
+                                    setMaxPowerReductionDb(parseInt(e.target.value));
+                                    setPlan(null);
+                                }}
+                                className="p-1 border border-neutral-200 rounded"
+                            >
+                                <option value={0}>Channels only</option>
+                                <option value={3}>3 dB</option>
+                                <option value={6}>6 dB</option>
+                                <option value={9}>9 dB</option>
+                                <option value={12}>12 dB</option>
+                            </select>
+                        </label>
+                        {profile.dfsChannels.length > 0 && (
+                            <label className="flex items-center justify-between gap-2">
+                                <span className="text-neutral-500">Use DFS Channels</span>
+                                <input type="checkbox" checked={allowDfs} onChange={(e) => resetChannels(channelWidth, e.target.checked)} />
+                            </label>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="text-[10px] uppercase tracking-wider text-neutral-400 font-bold">Channels</div>
+                        <div className="flex flex-wrap gap-1">
+                            {candidates.map(c => (
+                                <button
+                                    key={c.channel}
+                                    onClick={() => toggleChannel(c.channel)}
+                                    className={cn(
+                                        "px-2 py-1 rounded border font-mono",
+                                        channels.includes(c.channel)
+                                            ? "bg-blue-50 border-blue-300 text-blue-700"
+                                            : "bg-white border-neutral-200 text-neutral-400"
+                                    )}
+                                    title={c.dfs ? 'DFS channel' : undefined}
+                                >
+                                    {c.channel}{c.dfs ? '*' : ''}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* APs */}
+                    <table className="w-full">
+                        <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                            <tr>
+                                <th className="p-2">Lock</th>
+                                <th className="p-2">AP</th>
+                                <th className="p-2 text-right">Current</th>
+                                <th className="p-2 text-right">Planned</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {bandAps.map(ap => {
+                                const radio = getActiveRadio(ap, band)!;
+                                const planned = plannedById.get(ap.id);
+                                return (
+                                    <tr key={ap.id} className="border-t border-neutral-100">
+                                        <td className="p-2">
+                                            <button
+                                                onClick={() => {
+                                                    onToggleLock(ap.id);
+                                                    setPlan(null);
+                                                }}
+                                                className={radio.channelLocked ? "text-amber-600" : "text-neutral-300 hover:text-neutral-500"}
+                                                title={radio.channelLocked ? 'Unlock' : 'Lock channel and power'}
+                                            >
+                                                {radio.channelLocked ? <Lock size={14} /> : <Unlock size={14} />}
+                                            </button>
+                                        </td>
+                                        <td className="p-2">{ap.name}</td>
+                                        <td className="p-2 text-right font-mono">
+                                            ch {radio.channel} / {radio.channelWidth || 20} MHz / {radio.txPower} dBm
+                                        </td>
+                                        <td className="p-2 text-right font-mono">
+                                            {planned
+                                                ? `ch ${planned.channel} / ${planned.channelWidth} MHz / ${planned.txPower} dBm`
+                                                : radio.channelLocked ? 'locked' : '-'}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+
+                    {plan && (
+                        <div className="space-y-2">
+                            <div className="text-[10px] uppercase tracking-wider text-neutral-400 font-bold">
+                                Co-channel Overlap ({plan.conflicts.length} conflicting pairs above {thresholdDbm} dBm)
+                            </div>
+                            <div className="flex gap-3">
+                                <ReportColumn title="Before" report={plan.before} />
+                                <ReportColumn title="After" report={plan.after} />
+                            </div>
+                        </div>
+                    )}
+                    {message && <p className="text-amber-600">{message}</p>}
+                </div>
+
+                <div className="flex gap-3 pt-4 border-t mt-4">
+                    <button
+                        onClick={handlePlan}
+                        disabled={channels.length === 0 || bandAps.length === 0}
+                        className="px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors disabled:opacity-50"
+                    >
+                        Plan
+                    </button>
+                    <div className="flex-1" />
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={() => {
+                            if (plan) onApply(plan);
+                            onClose();
+                        }}
+                        disabled={!plan}
+                        className="px-6 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm transition-colors disabled:opacity-50"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Band, BANDS, ChannelWidth, ClientProfile, SPEC_SENSITIVITY_DBM, WifiStandard } from '@/types';
+import { WIFI_STANDARDS } from '@/utils/dataRate';
+
+interface ClientProfilesDialogProps {
+    profiles: ClientProfile[];
+    onChange: (profiles: ClientProfile[]) => void;
+    onClose: () => void;
+}
+
+const NUMBER_COLUMNS: { key: 'txPower' | 'antennaGain' | 'roamThresholdDbm' | 'roamHysteresisDb'; label: string; step: number }[] = [
+    { key: 'txPower', label: 'Tx dBm', step: 1 },
+    { key: 'antennaGain', label: 'Gain dBi', step: 0.5 },
+    { key: 'roamThresholdDbm', label: 'Roam dBm', step: 1 },
+    { key: 'roamHysteresisDb', label: 'Hyst. dB', step: 1 }
+];
+
+const CHANNEL_WIDTHS: ChannelWidth[] = [20, 40, 80, 160];
+
+// "-82, -79, ..." -> one value per MCS (null when the list is incomplete)
+function parseSensitivity(text: string): number[] | null {
+    const values = text.split(',').map(v => parseFloat(v));
+    if (values.length !== SPEC_SENSITIVITY_DBM.length || values.some(Number.isNaN)) return null;
+    return values;
+}
+
+export function ClientProfilesDialog({ profiles, onChange, onClose }: ClientProfilesDialogProps) {
+    const updateProfile = (id: string, update: Partial<ClientProfile>) => {
+        onChange(profiles.map(p => p.id === id ? { ...p, ...update } : p));
+    };
+
+    const toggleBand = (profile: ClientProfile, band: Band) => {
+        const bands = profile.bands.includes(band) ? profile.bands.filter(b => b !== band) : [...profile.bands, band];
+        if (bands.length > 0) updateProfile(profile.id, { bands });
+    };
+
+    const handleAdd = () => {
+        const newProfile: ClientProfile = {
+            id: `custom-${crypto.randomUUID()}`,
+            name: `Custom Client ${profiles.filter(p => !p.builtIn).length + 1}`,
+            standard: '802.11ax',
+            spatialStreams: 2,
+            maxChannelWidth: 80,
+            txPower: 15,
+            antennaGain: 0,
+            bands: ['2.4GHz', '5GHz'],
+            sensitivityDbm: [...SPEC_SENSITIVITY_DBM],
+            roamThresholdDbm: -70,
+            roamHysteresisDb: 8
+        };
+        onChange([...profiles, newProfile]);
+    };
+
+    const handleDelete = (profile: ClientProfile) => {
+        if (confirm(`Delete "${profile.name}"? Devices using it fall back to the first profile.`)) {
+            onChange(profiles.filter(p => p.id !== profile.id));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-5xl w-full mx-4 max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">Client Profiles</h2>
+                        <p className="text-xs text-neutral-400">Uplink is the downlink path driven by the client&apos;s Tx power and antenna gain. Sensitivity lists the minimum RSSI for MCS 0-11 at 20MHz. A walking client roams once its AP drops below Roam dBm and another is Hyst. dB stronger.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-1">
+                    <table className="w-full text-xs">
+                        <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                            <tr>
+                                <th className="p-2">Name</th>
+                                <th className="p-2">Standard</th>
+                                <th className="p-2 text-right">Streams</th>
+                                <th className="p-2 text-right">Max MHz</th>
+                                {NUMBER_COLUMNS.map(col => (
+                                    <th key={col.key} className="p-2 text-right">{col.label}</th>
+                                ))}
+                                <th className="p-2">Bands</th>
+                                <th className="p-2">Sensitivity dBm</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {profiles.map(profile => (
+                                <tr key={profile.id} className="border-t border-neutral-100">
+                                    <td className="p-2">
+                                        <input
+                                            type="text"
+                                            value={profile.name}
+                                            onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                                            className="w-full p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="p-2">
+                                        <select
+                                            value={profile.standard}
+                                            onChange={(e) => updateProfile(profile.id, { standard: e.target.value as WifiStandard })}
+                                            className="p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500"
+                                        >
+                                            {WIFI_STANDARDS.map(s => <option key={s.id} value={s.id}>{s.id}</option>)}
+                                        </select>
+                                    </td>
+                                    <td className="p-2 text-right">
+                                        <select
+                                            value={profile.spatialStreams}
+                                            onChange={(e) => updateProfile(profile.id, { spatialStreams: parseInt(e.target.value) })}
+                                            className="p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500"
+                                        >
+                                            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}x{n}</option>)}
+                                        </select>
+                                    </td>
+                                    <td className="p-2 text-right">
+                                        <select
+                                            value={profile.maxChannelWidth}
+                                            onChange={(e) => updateProfile(profile.id, { maxChannelWidth: parseInt(e.target.value) as ChannelWidth })}
+                                            className="p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500"
+                                        >
+                                            {CHANNEL_WIDTHS.map(w => <option key={w} value={w}>{w}</option>)}
+                                        </select>
+                                    </td>
+                                    {NUMBER_COLUMNS.map(col => (
+                                        <td key={col.key} className="p-2">
+                                            <input
+                                                type="number"
+                                                step={col.step}
+                                                value={profile[col.key]}
+                                                onChange={(e) => {
+                                                    const val = parseFloat(e.target.value);
+                                                    if (Number.isNaN(val)) return;
+                                                    updateProfile(profile.id, { [col.key]: val });
+                                                }}
+                                                className="w-16 p-1 border border-neutral-200 rounded text-right outline-none focus:ring-1 focus:ring-blue-500"
+                                            />
+                                        </td>
+                                    ))}
+                                    <td className="p-2">
+                                        <div className="flex gap-2 whitespace-nowrap">
+                                            {BANDS.map(band => (
+                                                <label key={band} className="flex items-center gap-1 text-neutral-600">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={profile.bands.includes(band)}
+                                                        onChange={() => toggleBand(profile, band)}
+                                                    />
+                                                    {band.replace('GHz', '')}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </td>
+                                    <td className="p-2">
+                                        {/* Keyed by the values so an invalid edit reverts on blur */}
+                                        <input
+                                            key={profile.sensitivityDbm.join(',')}
+                                            type="text"
+                                            defaultValue={profile.sensitivityDbm.join(', ')}
+                                            onBlur={(e) => {
+                                                const sensitivityDbm = parseSensitivity(e.target.value);
+                                                if (sensitivityDbm) updateProfile(profile.id, { sensitivityDbm });
+                                                else e.target.value = profile.sensitivityDbm.join(', ');
+                                            }}
+                                            title="Minimum RSSI for MCS 0 to 11 at 20MHz, comma separated"
+                                            className="w-56 p-1 border border-neutral-200 rounded font-mono outline-none focus:ring-1 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="p-2 text-right">
+                                        {!profile.builtIn && (
+                                            <button
+                                                onClick={() => handleDelete(profile)}
+                                                className="p-1 text-neutral-400 hover:text-red-500 hover:bg-red-50 rounded"
+                                                title="Delete Profile"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex gap-3 pt-4 border-t mt-4">
+                    <button
+                        onClick={handleAdd}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                    >
+                        <Plus size={16} /> Add Profile
+                    </button>
+                    <div className="flex-1" />
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
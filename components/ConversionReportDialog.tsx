@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { X } from 'lucide-react';
+
+interface ConversionReportDialogProps {
+    title: string;
+    summary: string;
+    notes: string[]; // What was left out or approximated
+    onClose: () => void;
+}
+
+export function ConversionReportDialog({ title, summary, notes, onClose }: ConversionReportDialogProps) {
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-2xl w-full mx-4 max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">{title}</h2>
+                        <p className="text-xs text-neutral-400">{summary}</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-1">
+                    {notes.length > 0 ? (
+                        <ul className="text-xs text-neutral-600 space-y-2 list-disc pl-5">
+                            {notes.map((note, i) => <li key={i}>{note}</li>)}
+                        </ul>
+                    ) : (
+                        <div className="text-xs text-neutral-400 italic text-center py-6">Everything was converted.</div>
+                    )}
+                </div>
+
+                <div className="flex justify-end pt-4 border-t mt-4">
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import { Trash2, X } from 'lucide-react';
+import { APPLICATION_PROFILES, DENSITY_ZONE_PRESETS, DensityZone } from '@/types';
+import { getZoneAreaM2, getZoneClients, getZoneDemandMbps } from '@/utils/capacity';
+
+interface DensityZonePanelProps {
+    zone: DensityZone;
+    pixelsPerMeter: number;
+    onChange: (update: Partial<DensityZone>) => void;
+    onDelete: () => void;
+    onClose: () => void;
+}
+
+const NUMBER_FIELDS: { key: 'peoplePerM2' | 'devicesPerPerson'; label: string; step: number }[] = [
+    { key: 'peoplePerM2', label: 'People / m²', step: 0.01 },
+    { key: 'devicesPerPerson', label: 'Devices / person', step: 0.5 }
+];
+
+export function DensityZonePanel({ zone, pixelsPerMeter, onChange, onDelete, onClose }: DensityZonePanelProps) {
+    const areaM2 = getZoneAreaM2(zone, pixelsPerMeter);
+    const clients = getZoneClients(zone, pixelsPerMeter);
+    const demandMbps = getZoneDemandMbps(zone);
+    const mixTotal = APPLICATION_PROFILES.reduce((sum, app) => sum + (zone.appMix[app.id] ?? 0), 0);
+
+    return (
+        <div
+            className="absolute bottom-4 left-4 z-40 bg-white/95 backdrop-blur px-3 py-2 rounded-lg shadow-lg border border-slate-200 text-xs w-72"
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between gap-2 mb-2">
+                <input
+                    type="text"
+                    value={zone.name}
+                    onChange={(e) => onChange({ name: e.target.value })}
+                    className="font-bold text-slate-700 bg-transparent outline-none focus:ring-1 focus:ring-blue-500 rounded px-1 flex-1 min-w-0"
+                />
+                <button onClick={onDelete} className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded" title="Delete Zone">
+                    <Trash2 size={12} />
+                </button>
+                <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full"><X size={12} /></button>
+            </div>
+
+            <label className="flex items-center justify-between text-slate-500 mb-1">
+                Preset
+                <select
+                    value=""
+                    onChange={(e) => {
+                        const preset = DENSITY_ZONE_PRESETS.find(p => p.name === e.target.value);
+                        if (preset) onChange({ ...preset, appMix: { ...preset.appMix } });
+                    }}
+                    className="p-0.5 border border-slate-200 rounded text-slate-700"
+                >
+                    <option value="">Apply...</option>
+                    {DENSITY_ZONE_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+            </label>
+            {NUMBER_FIELDS.map(field => (
+                <label key={field.key} className="flex items-center justify-between text-slate-500 mb-1">
+                    {field.label}
+                    <input
+                        type="number"
+                        min={0}
+                        step={field.step}
+                        value={zone[field.key]}
+                        onChange={(e) => {
+                            const val = parseFloat(e.target.value);
+                            if (!Number.isNaN(val) && val >= 0) onChange({ [field.key]: val });
+                        }}
+                        className="w-16 p-0.5 border border-slate-200 rounded text-right text-slate-700"
+                    />
+                </label>
+            ))}
+
+            <div className="text-[10px] uppercase tracking-wider text-slate-400 font-bold mt-2 mb-1">Application Mix</div>
+            {APPLICATION_PROFILES.map(app => (
+                <label key={app.id} className="flex items-center justify-between text-slate-500 mb-1">
+                    <span>{app.name} <span className="text-slate-400">({app.mbps} Mbps)</span></span>
+                    <span className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            step={5}
+                            value={zone.appMix[app.id] ?? 0}
+                            onChange={(e) => {
+                                const val = parseFloat(e.target.value);
+                                if (!Number.isNaN(val) && val >= 0) onChange({ appMix: { ...zone.appMix, [app.id]: val } });
+                            }}
+                            className="w-14 p-0.5 border border-slate-200 rounded text-right text-slate-700"
+                        />
+                        %
+                    </span>
+                </label>
+            ))}
+            {mixTotal !== 100 && <div className="text-[10px] text-amber-600">Mix adds up to {mixTotal}%; shares are scaled to 100%.</div>}
+
+            <div className="flex justify-between mt-2 pt-2 border-t border-slate-100 font-mono text-slate-600">
+                <span>{areaM2.toFixed(0)} m²</span>
+                <span>{clients.toFixed(0)} clients</span>
+                <span>{(clients * demandMbps).toFixed(0)} Mbps</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MaterialDefinition } from '@/types';
+import { convertDxf, DxfConversion, DxfDrawing, DxfLayerMapping, DxfLayerRole, DXF_UNITS, getMetersPerUnit, suggestLayerMapping } from '@/utils/dxf';
+
+interface DxfImportDialogProps {
+    fileName: string;
+    drawing: DxfDrawing;
+    materials: MaterialDefinition[];
+    onImport: (conversion: DxfConversion) => void;
+    onClose: () => void;
+}
+
+const ROLES: { id: DxfLayerRole; label: string }[] = [
+    { id: 'wall', label: 'Walls' },
+    { id: 'door', label: 'Doors' },
+    { id: 'background', label: 'Background only' },
+    { id: 'ignore', label: 'Ignore' }
+];
+
+export function DxfImportDialog({ fileName, drawing, materials, onImport, onClose }: DxfImportDialogProps) {
+    const [units, setUnits] = useState(drawing.units);
+    const [mapping, setMapping] = useState<Record<string, DxfLayerMapping>>(() =>
+        Object.fromEntries(drawing.layers.map(layer => [layer.name, suggestLayerMapping(layer, materials)])));
+
+    const updateLayer = (name: string, update: Partial<DxfLayerMapping>) => {
+        setMapping(prev => ({ ...prev, [name]: { ...prev[name], ...update } }));
+    };
+
+    // Preview of what Import would create
+    const preview = useMemo(() => {
+        try {
+            return { conversion: convertDxf(drawing, mapping, getMetersPerUnit(units)), error: null };
+        } catch (e) {
+            return { conversion: null, error: e instanceof Error ? e.message : String(e) };
+        }
+    }, [drawing, mapping, units]);
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-3xl w-full mx-4 max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">DXF Import</h2>
+                        <p className="text-xs text-neutral-400">{fileName}: choose which CAD layers become walls and doors. The walls and doors of this floor are replaced.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-3 mb-3 text-xs text-neutral-600">
+                    <label className="font-medium">Drawing Units</label>
+                    <select
+                        value={units}
+                        onChange={(e) => setUnits(parseInt(e.target.value, 10))}
+                        className="p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                        {DXF_UNITS.map(u => <option key={u.code} value={u.code}>{u.label}</option>)}
+                    </select>
+                    <span className="text-neutral-400">{drawing.unitsFromFile ? 'from the file' : 'not set in the file'}</span>
+                </div>
+
+                <div className="overflow-y-auto flex-1">
+                    <table className="w-full text-xs">
+                        <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                            <tr>
+                                <th className="p-2">Layer</th>
+                                <th className="p-2 text-right">Lines</th>
+                                <th className="p-2 text-right">Blocks</th>
+                                <th className="p-2">Import As</th>
+                                <th className="p-2">Material</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {drawing.layers.map(layer => {
+                                const layerMapping = mapping[layer.name];
+                                return (
+                                    <tr key={layer.name} className={cn("border-t border-neutral-100", layerMapping.role === 'ignore' && 'text-neutral-400')}>
+                                        <td className="p-2 font-mono">{layer.name}</td>
+                                        <td className="p-2 text-right font-mono">{layer.segments}</td>
+                                        <td className="p-2 text-right font-mono">{layer.inserts}</td>
+                                        <td className="p-2">
+                                            <select
+                                                value={layerMapping.role}
+                                                onChange={(e) => updateLayer(layer.name, { role: e.target.value as DxfLayerRole })}
+                                                className="p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500"
+                                            >
+                                                {ROLES.map(role => <option key={role.id} value={role.id}>{role.label}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="p-2">
+                                            {layerMapping.role === 'wall' && (
+                                                <select
+                                                    value={layerMapping.material}
+                                                    onChange={(e) => updateLayer(layer.name, { material: e.target.value })}
+                                                    className="p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500 max-w-[12rem]"
+                                                >
+                                                    {materials.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                                </select>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    <p className="text-[10px] text-neutral-400 mt-3">
+                        Blocks named like a door are doors on any layer that is not ignored. Walls drawn as two parallel lines count twice; use a centre-line layer if the drawing has one.
+                    </p>
+                </div>
+
+                <div className="mt-3 text-xs text-neutral-600">
+                    {preview.conversion
+                        ? `${preview.conversion.walls.length} wall(s), ${preview.conversion.doors.length} door(s), scale ${preview.conversion.pixelsPerMeter.toFixed(1)} px/m`
+                        : <span className="text-amber-600">{preview.error}</span>}
+                </div>
+
+                <div className="flex gap-3 pt-4 border-t mt-4">
+                    <div className="flex-1" />
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={() => {
+                            if (preview.conversion) onImport(preview.conversion);
+                        }}
+                        disabled={!preview.conversion}
+                        className="px-6 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm transition-colors disabled:opacity-50"
+                    >
+                        Import
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
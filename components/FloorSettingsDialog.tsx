@@ -0,0 +1,82 @@
+'use client';
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { Floor, MaterialDefinition } from '@/types';
+
+interface FloorSettingsDialogProps {
+    floor: Floor;
+    materials: MaterialDefinition[];
+    onChange: (update: Partial<Floor>) => void;
+    onClose: () => void;
+}
+
+export function FloorSettingsDialog({ floor, materials, onChange, onClose }: FloorSettingsDialogProps) {
+    const numberField = (label: string, key: 'elevation' | 'slabHeight' | 'offsetX' | 'offsetY', step: number, min?: number) => (
+        <label className="flex items-center justify-between gap-2">
+            <span className="text-neutral-500">{label}</span>
+            <span className="flex items-center gap-1">
+                <input
+                    type="number"
+                    step={step}
+                    min={min}
+                    value={floor[key]}
+                    onChange={(e) => {
+                        const val = parseFloat(e.target.value);
+                        if (Number.isNaN(val) || (min !== undefined && val < min)) return;
+                        onChange({ [key]: val });
+                    }}
+                    className="w-20 p-1 border border-neutral-200 rounded text-right"
+                />
+                <span className="w-4 text-neutral-400">m</span>
+            </span>
+        </label>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-md w-full mx-4 flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">{floor.name}</h2>
+                        <p className="text-xs text-neutral-400">APs on the floors directly above and below reach this floor through the slab between them.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="space-y-3 text-xs">
+                    {numberField('Elevation', 'elevation', 0.1)}
+                    {numberField('Slab Thickness (below this floor)', 'slabHeight', 0.05, 0)}
+                    <label className="flex items-center justify-between gap-2">
+                        <span className="text-neutral-500">Slab Material</span>
+                        <select
+                            value={floor.slabMaterial}
+                            onChange={(e) => onChange({ slabMaterial: e.target.value })}
+                            className="p-1 border border-neutral-200 rounded"
+                        >
+                            {materials.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                        </select>
+                    </label>
+
+                    <div className="pt-2 border-t border-neutral-100 space-y-3">
+                        <div className="text-[10px] uppercase tracking-wider text-neutral-400 font-bold">Plan Alignment</div>
+                        <p className="text-neutral-400">Shift this plan so a point that is vertically aligned across floors has the same building position.</p>
+                        {numberField('Offset X', 'offsetX', 0.1)}
+                        {numberField('Offset Y', 'offsetY', 0.1)}
+                    </div>
+                </div>
+
+                <div className="flex gap-3 pt-4 border-t mt-4 justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
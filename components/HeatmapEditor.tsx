@@ -1,19 +1,98 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
+import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef, useCallback, useMemo } from 'react';
 import { cn } from '@/lib/utils';
-import { Point, Wall, AccessPoint, WallMaterial, DEFAULT_PIXELS_PER_METER, Door, Device, MATERIAL_ATTENUATION, AP_PRESETS } from '@/types';
+import { Point, Wall, AccessPoint, WallMaterial, DEFAULT_PIXELS_PER_METER, Door, Device, APCatalog, Band, BAND_PROFILES, MaterialDefinition, Interferer, INTERFERER_PRESETS, InterfererType, ChannelWidth, MountingRegion, Radio, RequirementProfile, ViewMode, ClientProfile, WalkRoute, DEFAULT_WALK_SPEED, DensityZone, DENSITY_ZONE_PRESETS, CapacityLimits, SurveyPoint, PropagationProfile, InterpolationMethod } from '@/types';
+import { createRadiosForModel, getActiveRadio, getRadio, getRadioEirp, migrateAccessPoint, updateRadio } from '@/utils/radio';
+import { getMaterial, isReflectiveMaterial } from '@/utils/materials';
+import { ApSignalResult, buildAttenuationGrid, composeHeatmap, CompositeEntry, getApHash, getApSource, getBestServerAt, getEnvironmentHash, getGridDims, getInterfererSource, getSourceHash, InterferenceEntry, PropagationEnvironment, PropagationSource, sampleGrid, rankSignals, countAudibleAps, NO_SIGNAL_DBM, getPathLossModel } from '@/utils/propagation';
+import { affectsBand, getInterfererSpectrum, getRadioSpectrum } from '@/utils/interference';
+import { BenchmarkRow } from '@/utils/propagationBenchmark';
+import { buildRssiMatrix, ChannelPlan, ChannelPlanOptions, planChannels } from '@/utils/channelPlanner';
+import { createProposedAccessPoint, PlacementOptions, PlacementResult } from '@/utils/placementOptimizer';
+import { analyzeRequirements, analyzeServingCells, analyzeViewTiers, buildServerGrid, getFloorCells, getViewTierIndex, RequirementResult, ServingCell, ViewStats } from '@/utils/coverageAnalysis';
+import { getSlabLossDb, NeighbourFloorAps } from '@/utils/floors';
+import { DEFAULT_AP_HEIGHT, DEFAULT_VERTICAL_BEAMWIDTH } from '@/utils/antenna';
+import { getModelAntennaPattern } from '@/utils/antennaPattern';
+import { getApModel } from '@/utils/apCatalog';
+import { buildRateGrids, DEFAULT_SPATIAL_STREAMS, negotiateLink } from '@/utils/dataRate';
+import { analyzeLinkBudget, buildUplinkGrid, getClientProfile, getDeviceProfile, LinkBudget } from '@/utils/linkBudget';
+import { getRoutePositionAt, getSampleAt, RoamingResult, simulateRoaming } from '@/utils/roaming';
+import { analyzeCapacity, CapacityResult, getZoneClients } from '@/utils/capacity';
+import { isPointInPolygon } from '@/utils/geometry';
+import { applyMaterialFits, calibratePropagation } from '@/utils/calibration';
+import { compareSurvey, getMeasuredSamples, normalizeMac, SURVEY_DELTA_WARN_DB, SurveyResult } from '@/utils/survey';
+import { buildBarrierGrid, interpolateSamples } from '@/utils/interpolation';
+import { HeatmapWorkerPool } from '@/workers/pool';
 import { Trash2, Smartphone, Laptop, X } from 'lucide-react';
-// import { propagateWave, getWaveColor } from '@/utils/waveEngine'; // REMOVED: Moved to Worker
+import { ChannelPlannerDialog } from '@/components/ChannelPlannerDialog';
+import { PlacementDialog } from '@/components/PlacementDialog';
+import { RoamingTimeline } from '@/components/RoamingTimeline';
+import { DensityZonePanel } from '@/components/DensityZonePanel';
+import { SurveyDialog } from '@/components/SurveyDialog';
+import { SurveyPointPanel } from '@/components/SurveyPointPanel';
+
+interface DeviceReading {
+    apId: string | null; // Strongest AP (null = no signal or the band is not supported)
+    signal: number | null;
+    budget: LinkBudget | null; // Downlink vs uplink with the device's profile
+}
+
+// Color Constants for Performance (R, G, B, A_255)
+// Custom Scheme: Green (Strongest) -> Yellow -> Orange -> Blue -> Red (Weakest)
+// > -45: Excellent (Green)
+// -45 to -60: Good (Yellow)
+// -60 to -65: Fair (Orange)
+// -65 to -75: Weak (Blue)
+// -75 to -85: Bad (Red)
+// < -85: Dead Zone
+const COLORS = {
+    EXCELLENT: [34, 197, 94, 204],   // > -45 (Green)
+    GOOD:      [234, 179, 8, 204],   // -45 to -60 (Yellow)
+    FAIR:      [249, 115, 22, 204],  // -60 to -65 (Orange)
+    WEAK:      [59, 130, 246, 204],  // -65 to -75 (Blue)
+    BAD:       [239, 68, 68, 204],   // -75 to -85 (Red)
+    DEAD:      [0, 0, 0, 0]          // < -85 (Transparent)
+};
+
+const TIER_COLORS = [COLORS.EXCELLENT, COLORS.GOOD, COLORS.FAIR, COLORS.WEAK, COLORS.BAD, COLORS.DEAD]; // By legend tier
+
+const getPixelColor = (val: number, mode: ViewMode = 'rssi') => TIER_COLORS[getViewTierIndex(val, mode)];
+
+const SIGNAL_VIEWS: ViewMode[] = ['rssi', 'uplink', 'secondary', 'tertiary', 'measured']; // dBm grids
+
+// "#34d399" -> [52, 211, 153]
+function hexToRgb(hex: string): [number, number, number] {
+    const value = parseInt(hex.replace('#', ''), 16) || 0;
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
 
 interface HeatmapEditorProps {
-    activeTool: 'select' | 'wall' | 'ap' | 'door' | 'scale' | 'device';
+    activeTool: 'select' | 'wall' | 'ap' | 'door' | 'scale' | 'device' | 'interferer' | 'region' | 'route' | 'zone' | 'survey';
     selectedMaterial: WallMaterial;
     scale: number;
-    onSelectionChange: (hasSelection: boolean, entity: { type: 'wall' | 'ap' | 'door' | 'device', id: string } | null) => void;
+    onSelectionChange: (hasSelection: boolean, entity: { type: 'wall' | 'ap' | 'door' | 'device' | 'interferer' | 'route' | 'zone' | 'survey', id: string } | null) => void;
     backgroundImage: string | null;
     imageOpacity: number;
-    viewMode?: 'rssi' | 'sinr';
+    viewMode?: ViewMode;
+    band: Band;
+    materials: MaterialDefinition[];
+    noiseFloor: number; // dBm, project setting
+    clientHeight: number; // m, project setting
+    clientProfiles: ClientProfile[];
+    referenceClientId: string; // Client profile of the data-rate and uplink views
+    capacityLimits: CapacityLimits;
+    propagationProfile: PropagationProfile;
+    surveyInterpolation: InterpolationMethod; // Measured view
+    onPropagationProfileChange?: (profile: PropagationProfile) => void; // Survey calibration saved or reset
+    onMaterialsChange?: (materials: MaterialDefinition[]) => void;      // Fitted wall losses saved
+    apModels: APCatalog;
+    requirementProfiles: RequirementProfile[];
+    neighbourFloors: NeighbourFloorAps[]; // APs of the floors above and below
+    onSelectedApChange?: (ap: AccessPoint | null) => void; // Current state of the selected AP (antenna view)
+    apCountThresholdDbm: number; // AP-count view: an AP counts at or above this
+    onViewStatsChange?: (stats: ViewStats | null) => void; // Legend tiers of the current view over the floor (all APs)
+    onServingCellsChange?: (cells: ServingCell[]) => void; // Area and client share per AP cell (all APs)
     onEditorReady?: () => void;
 }
 
@@ -22,6 +101,12 @@ export interface HeatmapData {
     aps: AccessPoint[];
     doors: Door[];
     devices?: Device[];
+    interferers?: Interferer[];
+    mountingRegions?: MountingRegion[];
+    routes?: WalkRoute[];
+    zones?: DensityZone[];
+    survey?: SurveyPoint[];
+    bssidAssignments?: Record<string, string>; // Surveyed BSSID -> AccessPoint id
     pixelsPerMeter: number;
 }
 
@@ -32,7 +117,9 @@ export interface HeatmapEditorRef {
     clearDevices: () => void;
     getData: () => HeatmapData;
     loadData: (data: HeatmapData) => void;
-    autoAssignChannels: () => void;
+    openChannelPlanner: () => void;
+    openPlacement: () => void;
+    openSurvey: () => void;
 }
 
 export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
@@ -43,6 +130,24 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
     backgroundImage,
     imageOpacity,
     viewMode = 'rssi',
+    band,
+    materials,
+    noiseFloor,
+    clientHeight,
+    clientProfiles,
+    referenceClientId,
+    capacityLimits,
+    propagationProfile,
+    surveyInterpolation,
+    onPropagationProfileChange,
+    onMaterialsChange,
+    apModels,
+    requirementProfiles,
+    neighbourFloors,
+    onSelectedApChange,
+    apCountThresholdDbm,
+    onViewStatsChange,
+    onServingCellsChange,
     onEditorReady
 }, ref) => {
     const containerRef = useRef<HTMLDivElement>(null);
@@ -53,6 +158,15 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
     const [aps, setAps] = useState<AccessPoint[]>([]);
     const [doors, setDoors] = useState<Door[]>([]);
     const [devices, setDevices] = useState<Device[]>([]);
+    const [interferers, setInterferers] = useState<Interferer[]>([]);
+    const [mountingRegions, setMountingRegions] = useState<MountingRegion[]>([]);
+    const [regionStart, setRegionStart] = useState<Point | null>(null);
+    const [routes, setRoutes] = useState<WalkRoute[]>([]);
+    const [routeDraft, setRouteDraft] = useState<Point[]>([]); // Points of the route being drawn
+    const [zones, setZones] = useState<DensityZone[]>([]);
+    const [zoneDraft, setZoneDraft] = useState<Point[]>([]); // Corners of the zone being drawn
+    const [surveyPoints, setSurveyPoints] = useState<SurveyPoint[]>([]);
+    const [bssidAssignments, setBssidAssignments] = useState<Record<string, string>>({});
     
     // Scale State
     const [pixelsPerMeter, setPixelsPerMeter] = useState<number>(DEFAULT_PIXELS_PER_METER);
@@ -69,51 +183,41 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
     const minDistGridRef = useRef<Float32Array | null>(null);
     const bestApIndexGridRef = useRef<Int32Array | null>(null);
     const sinrGridRef = useRef<Float32Array | null>(null);
+    const rateGridRef = useRef<Float32Array | null>(null);
+    const mcsGridRef = useRef<Int8Array | null>(null);
+    const uplinkGridRef = useRef<Float32Array | null>(null);
+    const secondGridRef = useRef<Float32Array | null>(null);
+    const thirdGridRef = useRef<Float32Array | null>(null);
+    const apCountGridRef = useRef<Uint16Array | null>(null);
+    const serverGridRef = useRef<Int32Array | null>(null); // Primary server per cell (indexes floorApsRef)
+    const measuredGridRef = useRef<Float32Array | null>(null); // Interpolated survey RSSI (measured view only)
 
     const gridDimsRef = useRef({ rows: 0, cols: 0 });
+    // Best AP per device, sampled from the same grids the heatmap draws
+    const [deviceReadings, setDeviceReadings] = useState<Record<string, DeviceReading>>({});
     const bgImageRef = useRef<HTMLImageElement | null>(null);
     const offscreenCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const failureCanvasRef = useRef<HTMLCanvasElement | null>(null);
     const imageDataRef = useRef<ImageData | null>(null);
     
     // --- Constants for Fixed Simulation ---
-    const SIM_WIDTH = 3000;  // 75m
-    const SIM_HEIGHT = 2000; // 50m
+    const SIM_WIDTH = 3000;  // 75m (PLAN_WIDTH)
+    const SIM_HEIGHT = 2000; // 50m (PLAN_HEIGHT)
     const GRID_SIZE = 10;    // 25cm resolution (Balanced Performance/Quality)
-
-    // Color Constants for Performance (R, G, B, A_255)
-    // Custom Scheme: Green (Strongest) -> Yellow -> Orange -> Blue -> Red (Weakest)
-    // > -45: Excellent (Green)
-    // -45 to -60: Good (Yellow)
-    // -60 to -65: Fair (Orange)
-    // -65 to -75: Weak (Blue)
-    // -75 to -85: Bad (Red)
-    // < -85: Dead Zone
-    const COLORS = {
-        EXCELLENT: [34, 197, 94, 204],   // > -45 (Green)
-        GOOD:      [234, 179, 8, 204],   // -45 to -60 (Yellow)
-        FAIR:      [249, 115, 22, 204],  // -60 to -65 (Orange)
-        WEAK:      [59, 130, 246, 204],  // -65 to -75 (Blue)
-        BAD:       [239, 68, 68, 204],   // -75 to -85 (Red)
-        DEAD:      [0, 0, 0, 0]          // < -85 (Transparent)
-    };
-
-    const getPixelColor = (val: number, isSinr: boolean = false) => {
-        if (isSinr) {
-            if (val > 25) return COLORS.EXCELLENT;
-            if (val > 15) return COLORS.GOOD;
-            if (val > 10) return COLORS.FAIR;
-            if (val > 5)  return COLORS.WEAK;
-            if (val > -5) return COLORS.BAD;
-            return COLORS.DEAD;
-        } else {
-            if (val > -45) return COLORS.EXCELLENT;
-            if (val > -60) return COLORS.GOOD;
-            if (val > -65) return COLORS.FAIR;
-            if (val > -75) return COLORS.WEAK;
-            if (val > -85) return COLORS.BAD;
-            return COLORS.DEAD;
-        }
-    };
+    const PLACEMENT_GRID_SIZE = 20; // 50cm - every placement candidate is a full simulation
+
+    // Grid the current view draws (null until computed)
+    const getViewGrid = useCallback((): ArrayLike<number> | null => ({
+        rssi: signalGridRef.current,
+        sinr: sinrGridRef.current,
+        rate: rateGridRef.current,
+        uplink: uplinkGridRef.current,
+        secondary: secondGridRef.current,
+        tertiary: thirdGridRef.current,
+        apCount: apCountGridRef.current,
+        server: serverGridRef.current,
+        measured: measuredGridRef.current
+    })[viewMode], [viewMode]);
 
     // --- Autosave & Load ---
     // REMOVED: Internal autosave logic moved to parent component (page.tsx) to handle multi-floor support correctly.
@@ -139,10 +243,11 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
     const [wallStart, setWallStart] = useState<Point | null>(null);
     const [currentMousePos, setCurrentMousePos] = useState<Point | null>(null);
 
-    const [selectedEntity, setSelectedEntity] = useState<{ type: 'wall' | 'ap' | 'door' | 'device', id: string } | null>(null);
+    const [selectedEntity, setSelectedEntity] = useState<{ type: 'wall' | 'ap' | 'door' | 'device' | 'interferer' | 'route' | 'zone' | 'survey', id: string } | null>(null);
     const [draggedApId, setDraggedApId] = useState<string | null>(null);
     const [draggedDeviceId, setDraggedDeviceId] = useState<string | null>(null);
-    const [hoverInfo, setHoverInfo] = useState<{ x: number, y: number, dbm: number, distance: number } | null>(null);
+    const [draggedInterfererId, setDraggedInterfererId] = useState<string | null>(null);
+    const [hoverInfo, setHoverInfo] = useState<{ x: number, y: number, dbm: number | null, distance: number, rateMbps?: number, mcs?: number, overlay?: { label: string, value: string } } | null>(null);
 
     const [pan, setPan] = useState({ x: 0, y: 0 });
     const [isPanning, setIsPanning] = useState(false);
@@ -177,6 +282,12 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 entityX = dev.x;
                 entityY = dev.y;
             } else return null;
+        } else if (selectedEntity.type === 'interferer') {
+            const source = interferers.find(i => i.id === selectedEntity.id);
+            if (source) {
+                entityX = source.x;
+                entityY = source.y;
+            } else return null;
         } else {
             return null;
         }
@@ -196,8 +307,16 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 setAps(prev => prev.filter(ap => ap.id !== selectedEntity.id));
             } else if (selectedEntity.type === 'device') {
                 setDevices(prev => prev.filter(d => d.id !== selectedEntity.id));
+            } else if (selectedEntity.type === 'interferer') {
+                setInterferers(prev => prev.filter(i => i.id !== selectedEntity.id));
             } else if (selectedEntity.type === 'door') {
                 setDoors(prev => prev.filter(d => d.id !== selectedEntity.id));
+            } else if (selectedEntity.type === 'route') {
+                setRoutes(prev => prev.filter(r => r.id !== selectedEntity.id));
+            } else if (selectedEntity.type === 'zone') {
+                setZones(prev => prev.filter(z => z.id !== selectedEntity.id));
+            } else if (selectedEntity.type === 'survey') {
+                setSurveyPoints(prev => prev.filter(p => p.id !== selectedEntity.id));
             } else {
                 setWalls(prev => prev.filter(w => w.id !== selectedEntity.id));
                 setDoors(prev => prev.filter(d => d.wallId !== selectedEntity.id));
@@ -206,6 +325,7 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
             onSelectionChange(false, null);
             setDraggedApId(null);
             setDraggedDeviceId(null);
+            setDraggedInterfererId(null);
         },
         clearAll: () => {
             if (confirm('Are you sure you want to clear the entire canvas? This will remove all walls, APs, and doors.')) {
@@ -213,6 +333,13 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 setAps([]);
                 setDoors([]);
                 setDevices([]);
+                setInterferers([]);
+                setMountingRegions([]);
+                setRoutes([]);
+                setZones([]);
+                setSurveyPoints([]);
+                setBssidAssignments({});
+                setPlacement(null);
                 setSelectedEntity(null);
                 onSelectionChange(false, null);
                 localStorage.removeItem('heatmap_autosave');
@@ -241,53 +368,46 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
             aps,
             doors,
             devices,
+            interferers,
+            mountingRegions,
+            routes,
+            zones,
+            survey: surveyPoints,
+            bssidAssignments,
             pixelsPerMeter
         }),
         loadData: (data: HeatmapData) => {
             setWalls(data.walls || []);
-            // Migration: Ensure all APs have txPower
-            setAps((data.aps || []).map(ap => ({
-                ...ap,
-                txPower: ap.txPower ?? 20 // Default to 20 dBm if missing
-            })));
+            // Migration: Convert single-radio APs (txPower/channel) into per-band radios
+            setAps((data.aps || []).map(ap => migrateAccessPoint(ap, apModels)));
             setDoors(data.doors || []);
             setDevices(data.devices || []);
+            setInterferers(data.interferers || []);
+            setMountingRegions(data.mountingRegions || []);
+            setRoutes(data.routes || []);
+            setRouteDraft([]);
+            setZones(data.zones || []);
+            setZoneDraft([]);
+            setSurveyPoints(data.survey || []);
+            setBssidAssignments(data.bssidAssignments || {});
+            setPlacement(null);
             setPixelsPerMeter(data.pixelsPerMeter || DEFAULT_PIXELS_PER_METER);
             setSelectedEntity(null);
             onSelectionChange(false, null);
         },
-        autoAssignChannels: () => {
-            const CHANNELS = [1, 6, 11];
-            const newAps = [...aps];
-            newAps.forEach((ap) => {
-                const usedChannels: Record<number, number> = {};
-                CHANNELS.forEach(ch => usedChannels[ch] = 0);
-
-                newAps.forEach(otherAp => {
-                    if (otherAp.id === ap.id || !otherAp.channel) return;
-                    const dist = Math.hypot(ap.x - otherAp.x, ap.y - otherAp.y) / pixelsPerMeter;
-                    // Only care if they are within interference range (~30m)
-                    if (dist < 40) {
-                        usedChannels[otherAp.channel] += 1 / Math.max(1, dist);
-                    }
-                });
-
-                let bestCh = CHANNELS[0];
-                let minInterference = Infinity;
-                CHANNELS.forEach(ch => {
-                    if (usedChannels[ch] < minInterference) {
-                        minInterference = usedChannels[ch];
-                        bestCh = ch;
-                    }
-                });
-                ap.channel = bestCh;
-            });
-            setAps(newAps);
-        }
+        openChannelPlanner: () => setShowChannelPlanner(true),
+        openPlacement: () => setShowPlacementDialog(true),
+        openSurvey: () => setShowSurvey(true)
     }));
 
-    // Worker Ref
-    const workerRef = useRef<Worker | null>(null);
+    // Worker Pool + per-source grid cache (kept while the source hash and the environment are unchanged)
+    const poolRef = useRef<HeatmapWorkerPool | null>(null);
+    const sourceGridCacheRef = useRef(new Map<string, { hash: string; result: ApSignalResult | null }>()); // Key: AP or interferer id
+    const inFlightRef = useRef(new Map<string, { hash: string; jobId: number }>());
+    const envHashRef = useRef('');
+    const floorCellsRef = useRef<number[]>([]); // Cells requirement profiles are graded on
+    const composeFrameRef = useRef(0);
+    const composeRef = useRef<() => void>(() => {});
 
     const [debugInfo, setDebugInfo] = useState({
         status: 'Idle',
@@ -295,12 +415,149 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
         apsCount: 0,
         wallsCount: 0,
         gridSize: 0,
-        currentId: 0,
-        receivedId: 0
+        workers: 0,
+        pendingJobs: 0
     });
 
-    // Initialize Worker
-    const calculationIdRef = useRef<number>(0);
+    // null = not run, [] = running
+    const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkRow[] | null>(null);
+
+    // Measured antenna pattern linked to an AP model on the active band (null = built-in lobe)
+    const getPattern = (modelId: string) => getModelAntennaPattern(getApModel(apModels, modelId), band);
+
+    const [showChannelPlanner, setShowChannelPlanner] = useState(false);
+
+    // Requirement grading of the full composite (ignores the single AP view)
+    const [requirementResults, setRequirementResults] = useState<RequirementResult[]>([]);
+    const [viewStats, setViewStats] = useState<Partial<Record<ViewMode, ViewStats>>>({});
+    const [servingCells, setServingCells] = useState<ServingCell[]>([]);
+    const [capacity, setCapacity] = useState<CapacityResult | null>(null); // Client load per radio on this band
+    const [surveyResult, setSurveyResult] = useState<SurveyResult | null>(null); // Measured vs predicted on this band
+    // APs serving this floor (own plus neighbour floors); roaming and server indexes point here
+    const floorApsRef = useRef<AccessPoint[]>([]);
+    const [roamingResults, setRoamingResults] = useState<Record<string, RoamingResult>>({});
+    const [roamPlayback, setRoamPlayback] = useState<{ routeId: string; timeS: number; playing: boolean; rate: number } | null>(null);
+    const roamPlaybackRef = useRef(roamPlayback); // Read by the draw loop
+    const isRoamPlaying = roamPlayback?.playing ?? false;
+
+    useEffect(() => {
+        roamPlaybackRef.current = roamPlayback;
+    }, [roamPlayback]);
+
+    // Advance the playhead in walking time (x playback rate) until the route ends
+    useEffect(() => {
+        if (!isRoamPlaying) return;
+        let frame = 0;
+        let last = performance.now();
+        const step = (now: number) => {
+            const dt = (now - last) / 1000;
+            last = now;
+            setRoamPlayback(prev => {
+                if (!prev?.playing) return prev;
+                const durationS = roamingResults[prev.routeId]?.durationS ?? 0;
+                const timeS = prev.timeS + dt * prev.rate;
+                return timeS >= durationS ? { ...prev, timeS: durationS, playing: false } : { ...prev, timeS };
+            });
+            frame = requestAnimationFrame(step);
+        };
+        frame = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(frame);
+    }, [isRoamPlaying, roamingResults]);
+    const [failureProfileId, setFailureProfileId] = useState<string | null>(null);
+
+    // Plans from the simulated grids of the active band (null while any AP grid is missing or stale)
+    const runChannelPlan = (options: ChannelPlanOptions): ChannelPlan | null => {
+        const cache = sourceGridCacheRef.current;
+        const results = new Map<string, ApSignalResult>();
+        for (const ap of aps) {
+            if (!getActiveRadio(ap, band)) continue;
+            const cached = cache.get(ap.id);
+            if (!cached?.result || cached.hash !== getApHash(ap, band, getPattern(ap.model))) return null;
+            results.set(ap.id, cached.result);
+        }
+        const dims = getGridDims({ width: SIM_WIDTH, height: SIM_HEIGHT, cellSize: GRID_SIZE });
+        return planChannels(aps, buildRssiMatrix(aps, results, dims, GRID_SIZE), options, apModels);
+    };
+
+    const applyChannelPlan = (plan: ChannelPlan) => {
+        const assignments = new Map(plan.assignments.map(a => [a.apId, a]));
+        setAps(prev => prev.map(ap => {
+            const assignment = assignments.get(ap.id);
+            if (!assignment) return ap;
+            const { channel, channelWidth, txPower } = assignment;
+            return updateRadio(ap, band, { channel, channelWidth, txPower });
+        }));
+    };
+
+    // Placement search runs on a coarse grid in the worker pool; proposals stay ghosts until accepted
+    const [showPlacementDialog, setShowPlacementDialog] = useState(false);
+    const [showSurvey, setShowSurvey] = useState(false);
+    const [placement, setPlacement] = useState<
+        | { status: 'running'; jobId: number }
+        | { status: 'done'; result: PlacementResult }
+        | { status: 'error'; message: string }
+        | null
+    >(null);
+
+    const runPlacement = (options: Omit<PlacementOptions, 'regions' | 'noiseFloorDbm' | 'antennaPattern'>) => {
+        const pool = poolRef.current;
+        if (!pool) return;
+        if (placement?.status === 'running') pool.cancel(placement.jobId);
+
+        const env: PropagationEnvironment = {
+            walls,
+            doors,
+            materials,
+            band,
+            width: SIM_WIDTH,
+            height: SIM_HEIGHT,
+            cellSize: PLACEMENT_GRID_SIZE,
+            pixelsPerMeter,
+            clientHeight,
+            pathLoss: propagationProfile[band]
+        };
+        const { id: jobId, response } = pool.placement(env, {
+            ...options,
+            regions: mountingRegions,
+            noiseFloorDbm: noiseFloor,
+            antennaPattern: getPattern(options.model.id)
+        });
+        setPlacement({ status: 'running', jobId });
+
+        response.then(message => {
+            // Ignore results of a search that was cancelled or replaced
+            setPlacement(prev => {
+                if (prev?.status !== 'running' || prev.jobId !== jobId) return prev;
+                if (message.type === 'placement') return { status: 'done', result: message.result };
+                if (message.type === 'error') return { status: 'error', message: message.message };
+                return null;
+            });
+        });
+    };
+
+    const cancelPlacement = () => {
+        if (placement?.status === 'running') poolRef.current?.cancel(placement.jobId);
+        setPlacement(null);
+    };
+
+    const acceptPlacement = () => {
+        if (placement?.status !== 'done') return;
+        setAps(prev => [...prev, ...placement.result.aps.map(proposal => createProposedAccessPoint(proposal, band, apModels))]);
+        setPlacement(null);
+    };
+
+    // Widths the AP model supports on the active band (plus the radio's current width, if set elsewhere)
+    const getRadioChannelWidths = (ap: AccessPoint, radio: Radio): ChannelWidth[] => {
+        const supported = getApModel(apModels, ap.model).bands[band]?.channelWidths ?? BAND_PROFILES[band].channelWidths;
+        const current = radio.channelWidth || 20;
+        return supported.includes(current) ? supported : [...supported, current].sort((a, b) => a - b);
+    };
+
+    const toggleChannelLock = (apId: string) => {
+        setAps(prev => prev.map(ap => ap.id === apId
+            ? updateRadio(ap, band, { channelLocked: !getRadio(ap, band)?.channelLocked })
+            : ap));
+    };
 
     // Auto-Pan Reference
     const autoPanVel = useRef({ x: 0, y: 0 });
@@ -315,6 +572,9 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
             if (draggedDeviceId) {
                 setDraggedDeviceId(null);
             }
+            if (draggedInterfererId) {
+                setDraggedInterfererId(null);
+            }
             if (isPanning) {
                 setIsPanning(false);
             }
@@ -326,7 +586,7 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
 
         window.addEventListener('mouseup', handleGlobalMouseUp);
         return () => window.removeEventListener('mouseup', handleGlobalMouseUp);
-    }, [draggedApId, draggedDeviceId, isPanning, isDrawingWall]);
+    }, [draggedApId, draggedDeviceId, draggedInterfererId, isPanning, isDrawingWall]);
 
     // Notify Parent Ready
     useEffect(() => {
@@ -349,13 +609,56 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
         return () => window.removeEventListener('resize', handleResize);
     }, []);
 
+    // Route tool: Enter or a click on the last point ends the route
+    const finishRoute = useCallback(() => {
+        if (routeDraft.length >= 2) {
+            const route: WalkRoute = {
+                id: crypto.randomUUID(),
+                name: `Route ${routes.length + 1}`,
+                points: routeDraft,
+                profileId: referenceClientId,
+                speedMps: DEFAULT_WALK_SPEED
+            };
+            setRoutes(prev => [...prev, route]);
+            setSelectedEntity({ type: 'route', id: route.id });
+            onSelectionChange(true, { type: 'route', id: route.id });
+        }
+        setRouteDraft([]);
+    }, [routeDraft, routes.length, referenceClientId, onSelectionChange]);
+
+    // Zone tool: Enter or a click on the first corner closes the zone
+    const finishZone = useCallback(() => {
+        if (zoneDraft.length >= 3) {
+            const preset = DENSITY_ZONE_PRESETS[0];
+            const zone: DensityZone = {
+                ...preset,
+                id: crypto.randomUUID(),
+                name: `${preset.name} ${zones.length + 1}`,
+                points: zoneDraft,
+                appMix: { ...preset.appMix }
+            };
+            setZones(prev => [...prev, zone]);
+            setSelectedEntity({ type: 'zone', id: zone.id });
+            onSelectionChange(true, { type: 'zone', id: zone.id });
+        }
+        setZoneDraft([]);
+    }, [zoneDraft, zones.length, onSelectionChange]);
+
     // Handle Escape Key to Deselect
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'Escape') {
+            if (e.key === 'Enter' && routeDraft.length > 0) {
+                finishRoute();
+            } else if (e.key === 'Enter' && zoneDraft.length > 0) {
+                finishZone();
+            } else if (e.key === 'Escape') {
                 if (isDrawingWall) {
                     setIsDrawingWall(false);
                     setWallStart(null);
+                } else if (routeDraft.length > 0) {
+                    setRouteDraft([]);
+                } else if (zoneDraft.length > 0) {
+                    setZoneDraft([]);
                 } else if (selectedEntity) {
                     setSelectedEntity(null);
                     onSelectionChange(false, null);
@@ -368,109 +671,324 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [isDrawingWall, selectedEntity, showScaleInput, onSelectionChange]);
+    }, [isDrawingWall, selectedEntity, showScaleInput, onSelectionChange, routeDraft, finishRoute, zoneDraft, finishZone]);
 
-    // Compute Heatmap Cache using Web Worker
-    // Lifecycle Management: Initialize Worker ONCE on mount
+    // Compute Heatmap Cache using the Worker Pool
+    // Lifecycle Management: Initialize the pool ONCE on mount
     useEffect(() => {
-        const worker = new Worker('/wave-worker.js');
-        workerRef.current = worker;
+        const pool = new HeatmapWorkerPool();
+        const inFlight = inFlightRef.current;
+        poolRef.current = pool;
+        setDebugInfo(prev => ({ ...prev, workers: pool.size }));
+
+        return () => {
+            cancelAnimationFrame(composeFrameRef.current);
+            inFlight.clear();
+            pool.terminate();
+        };
+    }, []); // Empty dependency array = run once on mount
+
+    // Trigger Calculation when Data Changes
+    useEffect(() => {
+        // Optimization: Do not re-calculate while dragging an AP or interferer to avoid lag
+        if (draggedApId || draggedInterfererId) return;
         
-        // Warmup: Force JIT compilation immediately
-        worker.postMessage({ type: 'WARMUP' });
+        const pool = poolRef.current;
+        if (!pool) return;
 
-        worker.onerror = (err) => {
-            console.error("Worker Error:", err);
-            setDebugInfo(prev => ({ ...prev, status: 'Error' }));
+        const env: PropagationEnvironment = {
+            walls,
+            doors,
+            materials,
+            band,
+            width: SIM_WIDTH,
+            height: SIM_HEIGHT,
+            cellSize: GRID_SIZE,
+            pixelsPerMeter, // Pass dynamic scale
+            clientHeight,
+            pathLoss: propagationProfile[band]
         };
+        const cache = sourceGridCacheRef.current;
+        const inFlight = inFlightRef.current;
+
+        // Environment changed (walls moved, band switched...) -> every grid is stale
+        const envHash = getEnvironmentHash(env);
+        if (envHash !== envHashRef.current) {
+            cache.clear();
+            envHashRef.current = envHash;
+            floorCellsRef.current = getFloorCells(walls, buildAttenuationGrid(env), getGridDims(env), GRID_SIZE);
+        }
 
-        worker.onmessage = (e) => {
-            const { signalGrid, minDistGrid, bestApIndexGrid, sinrGrid, rows, cols, id } = e.data;
-            
-            // Race Condition Fix: Discard if ID doesn't match latest request
-            if (id !== calculationIdRef.current) {
-                // console.warn(`[Worker] Discarding stale result ID: ${id}, expected: ${calculationIdRef.current}`);
-                return;
-            }
+        // Every transmitter on this band: AP radios plus interferers whose spectrum reaches it
+        const getPattern = (modelId: string) => getModelAntennaPattern(getApModel(apModels, modelId), band);
+        const bandInterferers = interferers.filter(i => affectsBand(getInterfererSpectrum(i), band));
+        const sources = new Map<string, { source: PropagationSource | null; hash: string }>();
+        aps.forEach(ap => {
+            const pattern = getPattern(ap.model);
+            sources.set(ap.id, { source: getApSource(ap, band, pattern), hash: getApHash(ap, band, pattern) });
+        });
+
+        // APs on the floors above and below serve and interfere here too, through the slab
+        const floorAps = [...aps];
+        neighbourFloors.forEach(floor => {
+            const slabLossDb = getSlabLossDb(floor.slabs, materials, band);
+            floor.aps.forEach(ap => {
+                const placed = { ...ap, id: `${floor.floorId}:${ap.id}`, x: ap.x * pixelsPerMeter, y: ap.y * pixelsPerMeter };
+                const apSource = getApSource(placed, band, getPattern(placed.model));
+                const source = apSource && { ...apSource, verticalOffsetM: floor.verticalOffsetM, extraLossDb: slabLossDb };
+                sources.set(placed.id, { source, hash: source ? getSourceHash(source) : 'off' });
+                floorAps.push(placed);
+            });
+        });
+        bandInterferers.forEach(interferer => {
+            const source = getInterfererSource(interferer);
+            sources.set(interferer.id, { source, hash: getSourceHash(source) });
+        });
+
+        // --- Single AP View Mode Logic ---
+        // If an AP is selected, the heatmap shows ONLY the signal for that AP.
+        // Device readouts still use every AP.
+        const focusApId = selectedEntity?.type === 'ap' && aps.some(a => a.id === selectedEntity.id)
+            ? selectedEntity.id
+            : null;
+
+        // Max-composition of the cached grids (runs again as each result arrives)
+        const compose = () => {
+            composeFrameRef.current = 0;
+            const dims = getGridDims(env);
+            const entries: CompositeEntry[] = [];
+            floorAps.forEach((ap, apIndex) => {
+                const result = cache.get(ap.id)?.result;
+                const radio = getActiveRadio(ap, band);
+                if (result && radio) entries.push({ apIndex, spectrum: getRadioSpectrum(radio), result });
+            });
+            const interference: InterferenceEntry[] = [];
+            bandInterferers.forEach(interferer => {
+                const result = cache.get(interferer.id)?.result;
+                if (result) interference.push({ spectrum: getInterfererSpectrum(interferer), dutyCycle: interferer.dutyCycle, result });
+            });
+
+            const size = dims.cols * dims.rows;
+            const composeOptions = { noiseFloorDbm: noiseFloor, interferers: interference };
+            const fullComposite = composeHeatmap(entries, size, composeOptions);
+            const composite = focusApId
+                ? composeHeatmap(entries.filter(entry => floorAps[entry.apIndex].id === focusApId), size, composeOptions)
+                : fullComposite;
+            // Link each AP radio negotiates with a client profile (AP model streams, radio width)
+            const getLinks = (client: ClientProfile) => floorAps.map(ap => {
+                const radio = getActiveRadio(ap, band);
+                if (!radio || !client.bands.includes(band)) return null;
+                const streams = getApModel(apModels, ap.model).bands[band]?.spatialStreams ?? DEFAULT_SPATIAL_STREAMS;
+                return negotiateLink(band, radio.channelWidth || 20, streams, client);
+            });
+            const referenceClient = getClientProfile(clientProfiles, referenceClientId);
+            const links = getLinks(referenceClient);
+            const receiver = (signalGrid: Float32Array) => ({ signalGrid, antennaGain: referenceClient.antennaGain, sensitivityDbm: referenceClient.sensitivityDbm });
+            const fullRates = buildRateGrids(fullComposite.sinrGrid, fullComposite.bestApIndexGrid, links, receiver(fullComposite.signalGrid));
+            const rates = focusApId ? buildRateGrids(composite.sinrGrid, composite.bestApIndexGrid, links, receiver(composite.signalGrid)) : fullRates;
+            const apTxPowers = floorAps.map((ap, apIndex) => links[apIndex] ? getActiveRadio(ap, band)!.txPower : null);
+
+            signalGridRef.current = entries.length > 0 ? composite.signalGrid : null;
+            minDistGridRef.current = composite.minDistGrid;
+            bestApIndexGridRef.current = composite.bestApIndexGrid;
+            sinrGridRef.current = composite.sinrGrid;
+            rateGridRef.current = rates.rateGrid;
+            mcsGridRef.current = rates.mcsGrid;
+            const fullUplink = buildUplinkGrid(fullComposite.signalGrid, fullComposite.bestApIndexGrid, apTxPowers, referenceClient);
+            uplinkGridRef.current = focusApId ? buildUplinkGrid(composite.signalGrid, composite.bestApIndexGrid, apTxPowers, referenceClient) : fullUplink;
+            // Overlap views always use every AP
+            const { secondGrid, thirdGrid } = rankSignals(entries, size);
+            const apCountGrid = countAudibleAps(entries, size, apCountThresholdDbm);
+            secondGridRef.current = secondGrid;
+            thirdGridRef.current = thirdGrid;
+            apCountGridRef.current = apCountGrid;
+            // Primary server map: strongest AP where the reference client can associate
+            const serverGrid = buildServerGrid(fullComposite.bestApIndexGrid, fullComposite.signalGrid, referenceClient.sensitivityDbm[0] - referenceClient.antennaGain);
+            serverGridRef.current = serverGrid;
+            gridDimsRef.current = dims;
+
+            const readings: Record<string, DeviceReading> = {};
+            const deviceApIndexes: number[] = [];
+            devices.forEach(device => {
+                const best = getBestServerAt(device, entries, dims, GRID_SIZE);
+                const link = best && getLinks(getDeviceProfile(clientProfiles, device))[best.apIndex];
+                if (!best || !link) {
+                    readings[device.id] = { apId: null, signal: best ? best.signal : null, budget: null };
+                    return;
+                }
+                const sinr = sampleGrid(fullComposite.sinrGrid, dims, GRID_SIZE, device);
+                const txPower = getActiveRadio(floorAps[best.apIndex], band)!.txPower;
+                deviceApIndexes.push(best.apIndex);
+                readings[device.id] = {
+                    apId: floorAps[best.apIndex].id,
+                    signal: best.signal,
+                    budget: analyzeLinkBudget(best.signal, sinr, txPower, link, getDeviceProfile(clientProfiles, device))
+                };
+            });
+            setDeviceReadings(readings);
+
+            const roaming: Record<string, RoamingResult> = {};
+            routes.forEach(route => {
+                const links = getLinks(getClientProfile(clientProfiles, route.profileId));
+                roaming[route.id] = simulateRoaming(route, getClientProfile(clientProfiles, route.profileId), {
+                    entries: entries.filter(entry => links[entry.apIndex]),
+                    sinrGrid: fullComposite.sinrGrid,
+                    dims,
+                    cellSize: GRID_SIZE,
+                    pixelsPerMeter
+                });
+            });
+            floorApsRef.current = floorAps;
+            setRoamingResults(roaming);
+            setRequirementResults(entries.length > 0 && floorCellsRef.current.length > 0
+                ? analyzeRequirements(entries, fullComposite, fullRates.rateGrid, floorCellsRef.current, requirementProfiles)
+                : []);
+            const floorCells = floorCellsRef.current;
+            const fullGrids: Record<Exclude<ViewMode, 'server' | 'measured'>, ArrayLike<number>> = {
+                rssi: fullComposite.signalGrid,
+                sinr: fullComposite.sinrGrid,
+                rate: fullRates.rateGrid,
+                uplink: fullUplink,
+                secondary: secondGrid,
+                tertiary: thirdGrid,
+                apCount: apCountGrid
+            };
+            setViewStats(prev => ({
+                ...(entries.length > 0 && floorCells.length > 0
+                    ? Object.fromEntries((Object.keys(fullGrids) as (keyof typeof fullGrids)[]).map(mode => [mode, analyzeViewTiers(fullGrids[mode], floorCells, mode)]))
+                    : {}),
+                measured: prev.measured
+            }));
+            const capacityResult = analyzeCapacity(zones, { serverGrid, rateGrid: fullRates.rateGrid, dims, cellSize: GRID_SIZE, pixelsPerMeter }, floorAps.length, deviceApIndexes, capacityLimits);
+            setCapacity(capacityResult);
+            setSurveyResult(surveyPoints.length > 0 ? compareSurvey(surveyPoints, floorAps, bssidAssignments, entries, band, dims, GRID_SIZE) : null);
+            setServingCells(entries.length > 0 && floorCells.length > 0
+                ? analyzeServingCells(floorAps, serverGrid, floorCells, (GRID_SIZE / pixelsPerMeter) ** 2, capacityResult.clientsByAp)
+                : []);
 
             setDebugInfo(prev => ({
                 ...prev,
-                status: 'Done',
-                receivedId: id,
-                gridSize: signalGrid ? signalGrid.length : 0
+                status: aps.length === 0 ? 'Idle (No APs)' : pool.pendingCount > 0 ? 'Processing...' : 'Done',
+                gridSize: composite.signalGrid.length,
+                pendingJobs: pool.pendingCount
             }));
+        };
+        composeRef.current = compose;
+        // Jobs outlive this effect run, so they always compose with the latest inputs
+        const scheduleCompose = () => {
+            if (!composeFrameRef.current) composeFrameRef.current = requestAnimationFrame(() => composeRef.current());
+        };
 
-            if (signalGrid && minDistGrid) {
-                signalGridRef.current = signalGrid;
-                minDistGridRef.current = minDistGrid;
-                bestApIndexGridRef.current = bestApIndexGrid;
-                sinrGridRef.current = sinrGrid;
-                gridDimsRef.current = { rows, cols };
-            } else {
-                signalGridRef.current = null;
-                minDistGridRef.current = null;
-                bestApIndexGridRef.current = null;
-                sinrGridRef.current = null;
-                gridDimsRef.current = { rows: 0, cols: 0 };
+        // Cancel jobs for deleted sources or outdated source/environment state
+        inFlight.forEach((job, sourceId) => {
+            if (sources.get(sourceId)?.hash !== job.hash) {
+                pool.cancel(job.jobId);
+                inFlight.delete(sourceId);
             }
-        };
+        });
+        for (const sourceId of cache.keys()) {
+            if (!sources.has(sourceId)) cache.delete(sourceId);
+        }
 
-        return () => {
-            worker.terminate();
-        };
-    }, []); // Empty dependency array = run once on mount
+        // Dispatch one job per source whose grid is missing or stale
+        sources.forEach(({ source, hash }, sourceId) => {
+            if (cache.get(sourceId)?.hash === hash || inFlight.get(sourceId)?.hash === hash) return;
+            if (!source) {
+                cache.set(sourceId, { hash, result: null }); // Radio off on this band
+                return;
+            }
 
-    // Trigger Calculation when Data Changes
-    useEffect(() => {
-        // Optimization: Do not re-calculate while dragging an AP to avoid lag
-        if (draggedApId) return;
-        
-        const worker = workerRef.current;
-        if (!worker) return;
+            const { id: jobId, response } = pool.propagate(source, env);
+            inFlight.set(sourceId, { hash, jobId });
+
+            response.then(message => {
+                if (inFlight.get(sourceId)?.jobId !== jobId) return; // Superseded
+                inFlight.delete(sourceId);
+
+                if (message.type === 'sourceResult') {
+                    cache.set(sourceId, { hash, result: message.result });
+                } else if (message.type === 'error') {
+                    console.error("Worker Error:", message.message);
+                    setDebugInfo(prev => ({ ...prev, status: 'Error' }));
+                    return;
+                }
+                scheduleCompose();
+            });
+        });
 
-        // Increment ID for this new calculation
-        const currentId = ++calculationIdRef.current;
-        
         setDebugInfo(prev => ({
             ...prev,
             status: 'Processing...',
             apsCount: aps.length,
             wallsCount: walls.length,
-            currentId: currentId,
             lastCalcTime: Date.now()
         }));
 
-        if (aps.length === 0) {
-            signalGridRef.current = null;
-            minDistGridRef.current = null;
-            setDebugInfo(prev => ({ ...prev, status: 'Idle (No APs)' }));
+        // Show what is cached right away (unchanged sources, previous grid of moved ones)
+        cancelAnimationFrame(composeFrameRef.current);
+        composeFrameRef.current = 0;
+        compose();
+    }, [walls, aps, doors, devices, interferers, draggedApId, draggedInterfererId, pixelsPerMeter, selectedEntity, band, materials, noiseFloor, clientHeight, clientProfiles, referenceClientId, apCountThresholdDbm, apModels, requirementProfiles, neighbourFloors, routes, zones, capacityLimits, surveyPoints, bssidAssignments, propagationProfile]);
+
+    // Measured view: survey points interpolated on the heatmap grid, kept apart from the APs' prediction
+    const measuredSamples = useMemo(
+        () => viewMode === 'measured' ? getMeasuredSamples(surveyPoints, band, bssidAssignments) : [],
+        [viewMode, surveyPoints, band, bssidAssignments]
+    );
+    useEffect(() => {
+        if (measuredSamples.length === 0) {
+            measuredGridRef.current = null;
+            setViewStats(prev => ({ ...prev, measured: undefined }));
             return;
         }
+        const env: PropagationEnvironment = { walls, doors, materials, band, width: SIM_WIDTH, height: SIM_HEIGHT, cellSize: GRID_SIZE, pixelsPerMeter, clientHeight };
+        const dims = getGridDims(env);
+        const grid = interpolateSamples(measuredSamples, { dims, cellSize: GRID_SIZE, pixelsPerMeter, barriers: buildBarrierGrid(env) }, surveyInterpolation);
+        measuredGridRef.current = grid;
+        gridDimsRef.current = dims; // A survey-only floor has no AP grids to set them
+        // Tier shares of the surveyed part of the floor
+        const surveyedCells = floorCellsRef.current.filter(i => grid[i] > NO_SIGNAL_DBM);
+        setViewStats(prev => ({ ...prev, measured: surveyedCells.length > 0 ? analyzeViewTiers(grid, surveyedCells, 'measured') : undefined }));
+    }, [measuredSamples, surveyInterpolation, walls, doors, materials, band, pixelsPerMeter, clientHeight]);
+
+    const selectedAp = selectedEntity?.type === 'ap' ? aps.find(a => a.id === selectedEntity.id) ?? null : null;
+    useEffect(() => {
+        onSelectedApChange?.(selectedAp);
+    }, [selectedAp, onSelectedApChange]);
 
-        // --- Single AP View Mode Logic ---
-        // If an AP is selected, we only send that AP to the worker.
-        // This makes the heatmap show ONLY the signal for the selected AP.
-        let apsToProcess = aps;
-        if (selectedEntity?.type === 'ap') {
-            const selectedAp = aps.find(a => a.id === selectedEntity.id);
-            if (selectedAp) {
-                apsToProcess = [selectedAp];
-            }
-        }
+    const currentViewStats = viewStats[viewMode] ?? null;
+    useEffect(() => {
+        onViewStatsChange?.(currentViewStats);
+    }, [currentViewStats, onViewStatsChange]);
 
-        // Post message to worker (Worker is already warm and waiting)
-        worker.postMessage({
-            id: currentId,
-            aps: apsToProcess,
-            walls,
-            doors,
-            width: SIM_WIDTH,
-            height: SIM_HEIGHT,
-            cellSize: GRID_SIZE,
-            pixelsPerMeter // Pass dynamic scale
+    useEffect(() => {
+        onServingCellsChange?.(servingCells);
+    }, [servingCells, onServingCellsChange]);
+
+    // Failing cells of the highlighted requirement profile, one pixel per grid cell
+    const failureResult = requirementResults.find(r => r.profileId === failureProfileId) || null;
+    useEffect(() => {
+        if (!failureResult) {
+            failureCanvasRef.current = null;
+            return;
+        }
+        const { rows, cols } = gridDimsRef.current;
+        const canvas = document.createElement('canvas');
+        canvas.width = cols;
+        canvas.height = rows;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const imgData = ctx.createImageData(cols, rows);
+        failureResult.failGrid.forEach((failed, i) => {
+            if (!failed) return;
+            imgData.data[i * 4] = 220;
+            imgData.data[i * 4 + 1] = 38;
+            imgData.data[i * 4 + 2] = 38;
+            imgData.data[i * 4 + 3] = 140;
         });
-        
-    }, [walls, aps, doors, draggedApId, pixelsPerMeter, selectedEntity]);
+        ctx.putImageData(imgData, 0, 0);
+        failureCanvasRef.current = canvas;
+    }, [failureResult]);
 
 
     const getUserPos = (e: React.MouseEvent): Point => {
@@ -494,15 +1012,14 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
         }
 
         if (activeTool === 'ap') {
-            const defaultModel = AP_PRESETS['aruba-315'];
+            const defaultModel = getApModel(apModels, 'aruba-315');
             const newAp: AccessPoint = {
                 id: crypto.randomUUID(),
                 x: pos.x,
                 y: pos.y,
-                txPower: defaultModel.totalEIRP,
-                channel: 6,
+                radios: createRadiosForModel(defaultModel),
                 color: '#34d399',
-                model: 'aruba-315',
+                model: defaultModel.id,
                 name: defaultModel.modelName
             };
             setAps(prev => [...prev, newAp]);
@@ -521,6 +1038,50 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
             return;
         }
 
+        if (activeTool === 'interferer') {
+            const preset = INTERFERER_PRESETS['microwave'];
+            const newInterferer: Interferer = {
+                id: crypto.randomUUID(),
+                x: pos.x,
+                y: pos.y,
+                type: 'microwave',
+                name: preset.label,
+                power: preset.power,
+                centerFrequencyMhz: preset.centerFrequencyMhz,
+                bandwidthMhz: preset.bandwidthMhz,
+                dutyCycle: preset.dutyCycle
+            };
+            setInterferers(prev => [...prev, newInterferer]);
+            return;
+        }
+
+        if (activeTool === 'region') {
+            setRegionStart(pos);
+            return;
+        }
+
+        if (activeTool === 'route') {
+            const last = routeDraft[routeDraft.length - 1];
+            if (last && Math.hypot(pos.x - last.x, pos.y - last.y) < 10) finishRoute();
+            else setRouteDraft(prev => [...prev, pos]);
+            return;
+        }
+
+        if (activeTool === 'survey') {
+            const point: SurveyPoint = { id: crypto.randomUUID(), x: pos.x, y: pos.y, measurements: [] };
+            setSurveyPoints(prev => [...prev, point]);
+            setSelectedEntity({ type: 'survey', id: point.id });
+            onSelectionChange(true, { type: 'survey', id: point.id });
+            return;
+        }
+
+        if (activeTool === 'zone') {
+            const first = zoneDraft[0];
+            if (first && zoneDraft.length >= 3 && Math.hypot(pos.x - first.x, pos.y - first.y) < 10) finishZone();
+            else setZoneDraft(prev => [...prev, pos]);
+            return;
+        }
+
         if (activeTool === 'wall') {
             setIsDrawingWall(true);
             setWallStart(pos);
@@ -592,6 +1153,34 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 return;
             }
 
+            const clickedInterferer = interferers.find(i => Math.hypot(i.x - pos.x, i.y - pos.y) < 15);
+            if (clickedInterferer) {
+                setDraggedInterfererId(clickedInterferer.id);
+                setSelectedEntity({ type: 'interferer', id: clickedInterferer.id });
+                onSelectionChange(true, { type: 'interferer', id: clickedInterferer.id });
+                return;
+            }
+
+            const clickedSurvey = surveyPoints.find(p => Math.hypot(p.x - pos.x, p.y - pos.y) < 8);
+            if (clickedSurvey) {
+                setSelectedEntity({ type: 'survey', id: clickedSurvey.id });
+                onSelectionChange(true, { type: 'survey', id: clickedSurvey.id });
+                return;
+            }
+
+            const clickedRoute = routes.find(route => route.points.some((start, i) => {
+                const end = route.points[i + 1];
+                if (!end) return false;
+                const l2 = Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2);
+                const t = l2 === 0 ? 0 : Math.max(0, Math.min(1, ((pos.x - start.x) * (end.x - start.x) + (pos.y - start.y) * (end.y - start.y)) / l2));
+                return Math.hypot(pos.x - (start.x + t * (end.x - start.x)), pos.y - (start.y + t * (end.y - start.y))) < 8;
+            }));
+            if (clickedRoute) {
+                setSelectedEntity({ type: 'route', id: clickedRoute.id });
+                onSelectionChange(true, { type: 'route', id: clickedRoute.id });
+                return;
+            }
+
             const clickedWall = walls.find(w => {
                 const { start, end, thickness } = w;
                 const l2 = Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2);
@@ -610,6 +1199,13 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 return;
             }
 
+            // Zones last: they cover large areas under the other entities, so they still pan
+            const clickedZone = [...zones].reverse().find(zone => isPointInPolygon(pos, zone.points));
+            if (clickedZone) {
+                setSelectedEntity({ type: 'zone', id: clickedZone.id });
+                onSelectionChange(true, { type: 'zone', id: clickedZone.id });
+            }
+
             // Sticky Selection: Clicking empty space does NOT deselect
             // setSelectedEntity(null);
             // onSelectionChange(false, null);
@@ -642,7 +1238,7 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
             let velX = 0;
             let velY = 0;
 
-            if (isDrawingWall || draggedApId || draggedDeviceId) {
+            if (isDrawingWall || draggedApId || draggedDeviceId || draggedInterfererId) {
                 if (x < threshold) velX = speed;
                 else if (x > w - threshold) velX = -speed;
                 
@@ -673,24 +1269,47 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
             ));
         }
 
-        if (signalGridRef.current && gridDimsRef.current.cols > 0) {
+        if (activeTool === 'select' && draggedInterfererId) {
+            setInterferers(prev => prev.map(i =>
+                i.id === draggedInterfererId ? { ...i, x: pos.x, y: pos.y } : i
+            ));
+        }
+
+        if ((signalGridRef.current || (viewMode === 'measured' && measuredGridRef.current)) && gridDimsRef.current.cols > 0) {
             const col = Math.floor(pos.x / GRID_SIZE);
             const row = Math.floor(pos.y / GRID_SIZE);
             const { cols, rows } = gridDimsRef.current;
 
             if (col >= 0 && col < cols && row >= 0 && row < rows) {
-                const dbm = signalGridRef.current[row * cols + col];
+                // The measured view reads the survey, with no signal where nobody measured
+                const dbm = viewMode === 'measured'
+                    ? (measuredGridRef.current && measuredGridRef.current[row * cols + col] > NO_SIGNAL_DBM ? measuredGridRef.current[row * cols + col] : null)
+                    : signalGridRef.current ? signalGridRef.current[row * cols + col] : NO_SIGNAL_DBM;
                 let minMeterDist = Infinity;
                 aps.forEach(ap => {
                     const d = Math.hypot(pos.x - ap.x, pos.y - ap.y) / pixelsPerMeter;
                     if (d < minMeterDist) minMeterDist = d;
                 });
 
+                const rateGrid = viewMode === 'rate' ? rateGridRef.current : null;
+                const viewGrid = getViewGrid();
+                const viewValue = viewGrid ? viewGrid[row * cols + col] : NO_SIGNAL_DBM;
+                const dbmText = viewValue > NO_SIGNAL_DBM ? `${Math.round(viewValue)} dBm` : 'None';
+                const overlay = viewMode === 'uplink' ? { label: 'Uplink', value: dbmText }
+                    : viewMode === 'secondary' ? { label: '2nd AP', value: dbmText }
+                    : viewMode === 'tertiary' ? { label: '3rd AP', value: dbmText }
+                    : viewMode === 'apCount' ? { label: `APs ≥ ${apCountThresholdDbm}`, value: `${viewValue}` }
+                    : viewMode === 'server' ? { label: 'Server', value: floorApsRef.current[viewValue]?.name ?? 'None' }
+                    : viewMode === 'measured' && dbm === null ? { label: 'Measured', value: 'Not surveyed' }
+                    : undefined;
                 setHoverInfo({
                     x: e.clientX,
                     y: e.clientY,
                     dbm,
-                    distance: minMeterDist === Infinity ? 0 : minMeterDist
+                    distance: minMeterDist === Infinity ? 0 : minMeterDist,
+                    rateMbps: rateGrid ? rateGrid[row * cols + col] : undefined,
+                    mcs: rateGrid && mcsGridRef.current ? mcsGridRef.current[row * cols + col] : undefined,
+                    overlay
                 });
             } else {
                 setHoverInfo(null);
@@ -736,13 +1355,27 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                     start: wallStart,
                     end: { x: endX, y: endY },
                     material: selectedMaterial,
-                    thickness: selectedMaterial === 'metal' ? 20 : 12, // Thicker metal walls
+                    thickness: isReflectiveMaterial(getMaterial(materials, selectedMaterial)) ? 20 : 12, // Thicker metal walls
                 };
                 setWalls(prev => [...prev, newWall]);
             }
             setIsDrawingWall(false);
             setWallStart(null);
         }
+        if (regionStart && currentMousePos) {
+            const width = Math.abs(currentMousePos.x - regionStart.x);
+            const height = Math.abs(currentMousePos.y - regionStart.y);
+            if (width > 20 && height > 20) {
+                setMountingRegions(prev => [...prev, {
+                    id: crypto.randomUUID(),
+                    x: Math.min(regionStart.x, currentMousePos.x),
+                    y: Math.min(regionStart.y, currentMousePos.y),
+                    width,
+                    height
+                }]);
+            }
+            setRegionStart(null);
+        }
         if (draggedApId) setDraggedApId(null);
     };
 
@@ -811,9 +1444,10 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(SIM_WIDTH, y); ctx.stroke();
             }
 
-            if (signalGridRef.current && aps.length > 0) {
+            // Predicted views need APs; the measured view only its survey samples (never the prediction)
+            const grid = viewMode === 'measured' || signalGridRef.current ? getViewGrid() : null;
+            if (grid) {
                 const { rows, cols } = gridDimsRef.current;
-                const grid = viewMode === 'sinr' && sinrGridRef.current ? sinrGridRef.current : signalGridRef.current;
 
                 // Render Full Grid (Simplified for robustness and Panning support)
                 // Since we use Offscreen Canvas, rendering 600x400 pixels is fast.
@@ -842,6 +1476,7 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                     }
                     const imgData = imageDataRef.current;
                     const data = imgData.data;
+                    const serverColors = viewMode === 'server' ? floorApsRef.current.map(ap => hexToRgb(ap.color)) : [];
 
                     for (let r = 0; r < endRow; r++) {
                         for (let c = 0; c < endCol; c++) {
@@ -849,15 +1484,28 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                             const val = grid[idx];
                             const pixelIdx = (r * endCol + c) * 4;
 
+                            // Primary server: AP colour, dark where the next cell has another server
+                            if (viewMode === 'server') {
+                                const right = c + 1 < endCol ? grid[idx + 1] : val;
+                                const below = r + 1 < endRow ? grid[idx + cols] : val;
+                                const boundary = val >= 0 && ((right >= 0 && right !== val) || (below >= 0 && below !== val));
+                                const [R, G, B] = boundary ? [15, 23, 42] : serverColors[val] ?? [0, 0, 0];
+                                data[pixelIdx] = R;
+                                data[pixelIdx + 1] = G;
+                                data[pixelIdx + 2] = B;
+                                data[pixelIdx + 3] = val < 0 ? 0 : boundary ? 220 : 110;
+                                continue;
+                            }
+
                             if (viewMode === 'sinr' && val === -100) {
                                 data[pixelIdx + 3] = 0;
                                 continue;
-                            } else if (viewMode === 'rssi' && val <= -120) {
+                            } else if (SIGNAL_VIEWS.includes(viewMode) && val <= NO_SIGNAL_DBM) {
                                 data[pixelIdx + 3] = 0;
                                 continue;
                             }
 
-                            const [R, G, B, A_BASE] = getPixelColor(val, viewMode === 'sinr');
+                            const [R, G, B, A_BASE] = getPixelColor(val, viewMode);
                             
                             // Multi-Source Wave Interference Animation
                             // "Baku Tabrak" Effect: Summing waves from all APs to create interference patterns
@@ -899,15 +1547,30 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
 
                     offCtx.putImageData(imgData, 0, 0);
 
-                    ctx.globalCompositeOperation = 'screen';
-                    ctx.imageSmoothingEnabled = true; // Smooth scaling
-                    ctx.filter = 'blur(4px)'; // Soften the grid for organic look (Ekahau style)
-                    ctx.drawImage(offCanvas, 0, 0, endCol * GRID_SIZE, endRow * GRID_SIZE);
-                    ctx.filter = 'none'; // Reset filter
-                    ctx.globalCompositeOperation = 'source-over';
+                    if (viewMode === 'server') {
+                        // Crisp cells so the boundaries stay sharp
+                        ctx.imageSmoothingEnabled = false;
+                        ctx.drawImage(offCanvas, 0, 0, endCol * GRID_SIZE, endRow * GRID_SIZE);
+                        ctx.imageSmoothingEnabled = true;
+                    } else {
+                        ctx.globalCompositeOperation = 'screen';
+                        ctx.imageSmoothingEnabled = true; // Smooth scaling
+                        ctx.filter = 'blur(4px)'; // Soften the grid for organic look (Ekahau style)
+                        ctx.drawImage(offCanvas, 0, 0, endCol * GRID_SIZE, endRow * GRID_SIZE);
+                        ctx.filter = 'none'; // Reset filter
+                        ctx.globalCompositeOperation = 'source-over';
+                    }
                 }
             }
 
+            // Requirement failure overlay (crisp cells so the failing area reads exactly)
+            if (failureCanvasRef.current) {
+                const failCanvas = failureCanvasRef.current;
+                ctx.imageSmoothingEnabled = false;
+                ctx.drawImage(failCanvas, 0, 0, failCanvas.width * GRID_SIZE, failCanvas.height * GRID_SIZE);
+                ctx.imageSmoothingEnabled = true;
+            }
+
             // Draw Scale Tool Preview
             if (isSettingScale && scaleStart && currentMousePos) {
                 const dx = currentMousePos.x - scaleStart.x;
@@ -947,17 +1610,61 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 ctx.restore();
             }
 
+            // Density zones and the one being drawn
+            const tracePolygon = (points: Point[]) => {
+                ctx.beginPath();
+                points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+            };
+            zones.forEach(zone => {
+                const isSelected = selectedEntity?.id === zone.id;
+                tracePolygon(zone.points);
+                ctx.closePath();
+                ctx.fillStyle = isSelected ? 'rgba(236, 72, 153, 0.18)' : 'rgba(236, 72, 153, 0.08)';
+                ctx.fill();
+                ctx.strokeStyle = '#ec4899';
+                ctx.lineWidth = isSelected ? 3 : 2;
+                ctx.setLineDash([4, 4]);
+                ctx.stroke();
+                ctx.setLineDash([]);
+
+                const cx = zone.points.reduce((sum, p) => sum + p.x, 0) / zone.points.length;
+                const cy = zone.points.reduce((sum, p) => sum + p.y, 0) / zone.points.length;
+                ctx.font = 'bold 11px sans-serif';
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                ctx.fillStyle = '#be185d';
+                ctx.fillText(`${zone.name} · ${Math.round(getZoneClients(zone, pixelsPerMeter))} clients`, cx, cy);
+            });
+            if (zoneDraft.length > 0) {
+                tracePolygon(currentMousePos ? [...zoneDraft, currentMousePos] : zoneDraft);
+                ctx.strokeStyle = '#f472b6';
+                ctx.lineWidth = 2;
+                ctx.setLineDash([4, 4]);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+
+            // Mounting regions (placement optimiser) and the one being dragged out
+            const regionPreview = regionStart && currentMousePos ? [{
+                x: Math.min(regionStart.x, currentMousePos.x),
+                y: Math.min(regionStart.y, currentMousePos.y),
+                width: Math.abs(currentMousePos.x - regionStart.x),
+                height: Math.abs(currentMousePos.y - regionStart.y)
+            }] : [];
+            [...mountingRegions, ...regionPreview].forEach(region => {
+                ctx.fillStyle = 'rgba(52, 211, 153, 0.08)';
+                ctx.fillRect(region.x, region.y, region.width, region.height);
+                ctx.strokeStyle = '#34d399';
+                ctx.lineWidth = 2;
+                ctx.setLineDash([8, 6]);
+                ctx.strokeRect(region.x, region.y, region.width, region.height);
+                ctx.setLineDash([]);
+            });
+
             walls.forEach(w => {
                 const isSelected = selectedEntity?.id === w.id;
-                let strokeColor = '#94a3b8'; // Default Slate-400
-                
-                // Specific material colors
-                if (w.material === 'concrete') strokeColor = '#525252'; // Neutral-600 (Dark Gray)
-                if (w.material === 'brick') strokeColor = '#b91c1c';    // Red-700 (Brick Red)
-                if (w.material === 'drywall') strokeColor = '#e5e5e5';  // Neutral-200 (Light Gray/White)
-                if (w.material === 'wood') strokeColor = '#A05A2C';     // Brown
-                if (w.material === 'metal') strokeColor = '#334155';    // Slate-700 (Blue-ish Dark Gray)
-                if (w.material === 'glass') strokeColor = '#60a5fa';    // Blue-400 (Light Blue)
+                // Material colour from the project's material library
+                let strokeColor = getMaterial(materials, w.material).color;
 
                 if (isSelected) strokeColor = '#ef4444'; // Red-500 for selection (high visibility)
 
@@ -1164,33 +1871,56 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 ctx.globalAlpha = 1.0;
             });
 
+            // APs of the floors above and below (read-only, edited on their own floor)
+            neighbourFloors.forEach(floor => {
+                floor.aps.forEach(ap => {
+                    const x = ap.x * pixelsPerMeter;
+                    const y = ap.y * pixelsPerMeter;
+                    ctx.globalAlpha = 0.5;
+                    ctx.beginPath(); ctx.arc(x, y, 8, 0, Math.PI * 2);
+                    ctx.strokeStyle = '#94a3b8'; ctx.lineWidth = 2; ctx.setLineDash([3, 3]); ctx.stroke(); ctx.setLineDash([]);
+
+                    ctx.fillStyle = '#fff'; ctx.font = '10px monospace'; ctx.textAlign = 'center';
+                    ctx.fillText(`${floor.verticalOffsetM > 0 ? '▲' : '▼'} ${floor.floorName}`, x, y + 20);
+                    ctx.globalAlpha = 1.0;
+                });
+            });
+
+            // Proposed APs (ghosts until accepted)
+            if (placement?.status === 'done') {
+                placement.result.aps.forEach(proposal => {
+                    ctx.globalAlpha = 0.6;
+                    ctx.beginPath(); ctx.roundRect(proposal.x - 20, proposal.y - 8, 40, 16, 4);
+                    ctx.fillStyle = 'rgba(245, 245, 245, 0.5)'; ctx.fill();
+                    ctx.strokeStyle = '#34d399'; ctx.lineWidth = 2; ctx.setLineDash([4, 3]); ctx.stroke(); ctx.setLineDash([]);
+
+                    ctx.fillStyle = '#fff'; ctx.font = '10px monospace'; ctx.textAlign = 'center';
+                    ctx.fillText(`ch ${proposal.channel} · ${proposal.txPower}dBm`, proposal.x, proposal.y + 22);
+                    ctx.globalAlpha = 1.0;
+                });
+            }
+
             // Draw Devices
             devices.forEach(device => {
                 const isSelected = selectedEntity?.id === device.id;
                 
                 // --- UNIFIED CONNECTION LINE LOGIC (Prevents Double Lines) ---
-                // Always calculate strongest AP
-                let bestAp: AccessPoint | null = null;
-                let maxSignal = -Infinity;
-                aps.forEach(ap => {
-                    const sig = calculateSignalStrength(ap, device);
-                    if (sig > maxSignal) {
-                        maxSignal = sig;
-                        bestAp = ap;
-                    }
-                });
+                // Strongest AP comes from the worker's device readings
+                const reading = deviceReadings[device.id];
+                const bestAp = reading?.apId ? aps.find(a => a.id === reading.apId) ?? null : null;
+                const maxSignal = reading?.signal ?? -Infinity;
 
                 // Draw Line (Thicker & More Visible)
                 if (bestAp && maxSignal > -100) {
                     ctx.beginPath();
                     ctx.moveTo(device.x, device.y);
-                    ctx.lineTo((bestAp as AccessPoint).x, (bestAp as AccessPoint).y);
+                    ctx.lineTo(bestAp.x, bestAp.y);
                     
                     // Style: 
                     // Selected: Color of AP, Solid, Thick (4px)
                     // Unselected: Color of AP (Green default), Dashed, Thick (3px)
                     
-                    const lineColor = (bestAp as AccessPoint).color || '#22c55e'; // Use AP color or default green
+                    const lineColor = bestAp.color || '#22c55e'; // Use AP color or default green
                     ctx.strokeStyle = lineColor; 
                     
                     if (isSelected) {
@@ -1245,50 +1975,120 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 }
             });
 
+            // Draw Interferers (non-Wi-Fi sources)
+            interferers.forEach(source => {
+                const isSelected = selectedEntity?.id === source.id;
+                const inBand = affectsBand(getInterfererSpectrum(source), band);
+
+                if (isSelected) {
+                    ctx.beginPath();
+                    ctx.arc(source.x, source.y, 22, 0, Math.PI * 2);
+                    ctx.strokeStyle = '#3b82f6';
+                    ctx.lineWidth = 2;
+                    ctx.stroke();
+                }
+
+                // Faded when it does not reach the selected band
+                ctx.globalAlpha = inBand ? 1.0 : 0.4;
+                ctx.beginPath();
+                ctx.arc(source.x, source.y, 14, 0, Math.PI * 2);
+                ctx.fillStyle = '#fef2f2';
+                ctx.fill();
+                ctx.strokeStyle = isSelected ? '#2563eb' : '#dc2626';
+                ctx.lineWidth = 2.5;
+                ctx.stroke();
+
+                ctx.fillStyle = '#dc2626';
+                ctx.font = '14px "Lucida Console", Monaco, monospace';
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                ctx.fillText('⚡', source.x, source.y + 1);
+                ctx.globalAlpha = 1.0;
+            });
+
+            // Walk routes (flagged stretches of the selected one) and the route being drawn
+            const drawPath = (points: Point[]) => {
+                ctx.beginPath();
+                points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+                ctx.stroke();
+            };
+            ctx.lineCap = 'round';
+            ctx.lineJoin = 'round';
+            routes.forEach(route => {
+                const isSelected = selectedEntity?.id === route.id;
+                ctx.strokeStyle = isSelected ? '#7c3aed' : 'rgba(139, 92, 246, 0.7)';
+                ctx.lineWidth = isSelected ? 4 : 3;
+                ctx.setLineDash([10, 6]);
+                drawPath(route.points);
+                ctx.setLineDash([]);
+
+                const result = roamingResults[route.id];
+                if (isSelected && result) {
+                    ctx.lineWidth = 8;
+                    result.samples.forEach((sample, i) => {
+                        const next = result.samples[i + 1];
+                        if (!sample.flag || !next) return;
+                        ctx.strokeStyle = sample.flag === 'gap' ? 'rgba(239, 68, 68, 0.6)' : 'rgba(245, 158, 11, 0.6)';
+                        drawPath([sample.point, next.point]);
+                    });
+                }
+
+                ctx.beginPath();
+                ctx.arc(route.points[0].x, route.points[0].y, 5, 0, Math.PI * 2);
+                ctx.fillStyle = '#7c3aed';
+                ctx.fill();
+            });
+            if (routeDraft.length > 0) {
+                ctx.strokeStyle = '#a78bfa';
+                ctx.lineWidth = 3;
+                ctx.setLineDash([10, 6]);
+                drawPath(currentMousePos ? [...routeDraft, currentMousePos] : routeDraft);
+                ctx.setLineDash([]);
+            }
+
+            // Survey points, coloured by their worst measured-vs-predicted error on this band
+            surveyPoints.forEach(point => {
+                const deltas = (surveyResult?.comparisons ?? []).filter(c => c.pointId === point.id).map(c => Math.abs(c.delta));
+                const worst = deltas.length > 0 ? Math.max(...deltas) : null;
+                ctx.beginPath();
+                ctx.arc(point.x, point.y, 6, 0, Math.PI * 2);
+                ctx.fillStyle = worst === null ? '#94a3b8' : worst >= SURVEY_DELTA_WARN_DB ? '#ef4444' : worst >= SURVEY_DELTA_WARN_DB / 2 ? '#f59e0b' : '#22c55e';
+                ctx.fill();
+                ctx.strokeStyle = selectedEntity?.id === point.id ? '#0f172a' : '#fff';
+                ctx.lineWidth = 2;
+                ctx.stroke();
+            });
+
+            // Walking client during playback, linked to its serving AP
+            const playback = roamPlaybackRef.current;
+            const playbackResult = playback && roamingResults[playback.routeId];
+            if (playback && playbackResult) {
+                const position = getRoutePositionAt(playbackResult, playback.timeS);
+                const sample = getSampleAt(playbackResult, playback.timeS);
+                const servingAp = sample && sample.servingIndex >= 0 ? floorApsRef.current[sample.servingIndex] : undefined;
+                if (position) {
+                    if (servingAp) {
+                        ctx.strokeStyle = servingAp.color;
+                        ctx.lineWidth = 2;
+                        ctx.setLineDash([4, 4]);
+                        drawPath([position, servingAp]);
+                        ctx.setLineDash([]);
+                    }
+                    ctx.beginPath();
+                    ctx.arc(position.x, position.y, 9, 0, Math.PI * 2);
+                    ctx.fillStyle = sample?.flag === 'gap' ? '#ef4444' : sample?.flag === 'sticky' ? '#f59e0b' : '#22c55e';
+                    ctx.fill();
+                    ctx.strokeStyle = '#fff';
+                    ctx.lineWidth = 2;
+                    ctx.stroke();
+                }
+            }
+
             ctx.restore();
         };
         requestRef.current = requestAnimationFrame(animate);
         return () => cancelAnimationFrame(requestRef.current);
-    }, [dimensions, walls, aps, doors, devices, isDrawingWall, wallStart, currentMousePos, scale, selectedEntity, imageOpacity, isSettingScale, pixelsPerMeter, scaleStart]);
-
-    // Helper to calculate signal strength between two points (AP and Device)
-    // Uses Enterprise 5GHz Log-Distance Path Loss Model
-    const calculateSignalStrength = (ap: AccessPoint, device: Device): number => {
-        const distPixels = Math.hypot(device.x - ap.x, device.y - ap.y);
-        const distMeters = Math.max(0.1, distPixels / pixelsPerMeter);
-        
-        // Log-Distance Path Loss Model for 5GHz
-        // PL(d) = PL(d0) + 10*n*log10(d/d0)
-        // PL(1m) for 5GHz = 46.4 dB, n = 3.0 (indoor office)
-        const PL_D0_5GHZ = 46.4;
-        const PATH_LOSS_EXPONENT = 3.0;
-        const fspl = PL_D0_5GHZ + (10 * PATH_LOSS_EXPONENT) * Math.log10(distMeters);
-
-        // Wall Loss
-        let wallLoss = 0;
-        walls.forEach(wall => {
-            // Check intersection
-            const x1 = ap.x, y1 = ap.y;
-            const x2 = device.x, y2 = device.y;
-            const x3 = wall.start.x, y3 = wall.start.y;
-            const x4 = wall.end.x, y4 = wall.end.y;
-
-            // Denominator
-            const den = (x1 - x2) * (y3 - y4) - (y1 - y2) * (x3 - x4);
-            if (den === 0) return; // Parallel
-
-            const t = ((x1 - x3) * (y3 - y4) - (y1 - y3) * (x3 - x4)) / den;
-            const u = -((x1 - x2) * (y1 - y3) - (y1 - y2) * (x1 - x3)) / den;
-
-            if (t >= 0 && t <= 1 && u >= 0 && u <= 1) {
-                // Intersect!
-                const matLoss = MATERIAL_ATTENUATION[wall.material] || 0;
-                wallLoss += matLoss;
-            }
-        });
-
-        return ap.txPower - fspl - wallLoss;
-    };
+    }, [dimensions, walls, aps, doors, devices, isDrawingWall, wallStart, currentMousePos, scale, selectedEntity, imageOpacity, isSettingScale, pixelsPerMeter, scaleStart, viewMode, band, materials, deviceReadings, interferers, mountingRegions, regionStart, placement, failureResult, neighbourFloors, routes, routeDraft, roamingResults, zones, zoneDraft, surveyPoints, surveyResult, pan.x, pan.y, getViewGrid]);
 
     return (
         <div
@@ -1389,16 +2189,13 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                         setWalls(prev => prev.map(w => w.id === selectedEntity.id ? { 
                             ...w, 
                             material: newMat,
-                            thickness: newMat === 'metal' ? 20 : 12
+                            thickness: isReflectiveMaterial(getMaterial(materials, newMat)) ? 20 : 12
                         } : w));
                     }}
                 >
-                    <option value="concrete">Concrete (-15dB)</option>
-                    <option value="brick">Brick (-10dB)</option>
-                    <option value="wood">Wood (-4dB)</option>
-                    <option value="drywall">Drywall (-3dB)</option>
-                    <option value="glass">Glass (-3dB)</option>
-                    <option value="metal">Metal (-50dB)</option>
+                    {materials.map(m => (
+                        <option key={m.id} value={m.id}>{m.name} (-{m.attenuation[band]}dB)</option>
+                    ))}
                 </select>
                 <button 
                     onClick={() => {
@@ -1431,6 +2228,26 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                     <button onClick={() => { setSelectedEntity(null); onSelectionChange(false, null); }} className="text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full p-0.5"><X size={12} /></button>
                 </div>
 
+                <label className="flex items-center justify-between gap-2 text-[10px] text-slate-500 font-medium">
+                    <span>Base MAC</span>
+                    {/* Keyed by the value so an invalid MAC reverts on blur */}
+                    <input
+                        key={aps.find(a => a.id === selectedEntity.id)?.mac ?? ''}
+                        type="text"
+                        placeholder="For survey matching"
+                        defaultValue={aps.find(a => a.id === selectedEntity.id)?.mac ?? ''}
+                        onBlur={(e) => {
+                            const mac = e.target.value.trim() === '' ? undefined : normalizeMac(e.target.value);
+                            if (mac === null) {
+                                e.target.value = aps.find(a => a.id === selectedEntity.id)?.mac ?? '';
+                                return;
+                            }
+                            setAps(prev => prev.map(a => a.id === selectedEntity.id ? { ...a, mac } : a));
+                        }}
+                        className="w-32 text-xs p-1 border border-slate-200 rounded bg-slate-50 font-mono outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                </label>
+
                 {/* Model Selector */}
                 <div className="flex flex-col gap-1">
                     <span className="text-[10px] text-slate-500 font-medium">Model</span>
@@ -1446,19 +2263,23 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                                     name: 'Custom AP'
                                 } : a));
                             } else {
-                                const preset = AP_PRESETS[newModelKey];
+                                const preset = apModels[newModelKey];
                                 if (preset) {
                                     setAps(prev => prev.map(a => a.id === selectedEntity.id ? { 
                                         ...a, 
                                         model: newModelKey,
                                         name: preset.modelName,
-                                        txPower: preset.totalEIRP // Update to preset default
+                                        // Update radios to preset defaults, keeping the planned channels
+                                        radios: createRadiosForModel(preset).map(r => ({
+                                            ...r,
+                                            channel: getRadio(a, r.band)?.channel ?? r.channel
+                                        }))
                                     } : a));
                                 }
                             }
                         }}
                     >
-                        {Object.values(AP_PRESETS)
+                        {Object.values(apModels)
                             .filter(p => p.id !== 'custom')
                             .map(preset => (
                             <option key={preset.id} value={preset.id}>
@@ -1468,54 +2289,165 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                         <option value="custom">Custom / Manual</option>
                     </select>
                 </div>
-                
-                {/* Channel Selector */}
-                <div className="flex items-center justify-between gap-2">
-                    <span className="text-[10px] text-slate-500">Channel</span>
-                    <select 
-                        className="text-xs p-1 border border-slate-200 rounded bg-slate-50 outline-none focus:ring-1 focus:ring-blue-500 w-24"
-                        value={aps.find(a => a.id === selectedEntity.id)?.channel}
-                        onChange={(e) => {
-                            const newCh = parseInt(e.target.value);
-                            setAps(prev => prev.map(a => a.id === selectedEntity.id ? { ...a, channel: newCh } : a));
-                        }}
-                    >
-                        {[1, 6, 11, 36, 40, 44, 48, 149, 153, 157, 161].map(ch => (
-                            <option key={ch} value={ch}>Ch {ch}</option>
-                        ))}
-                    </select>
-                </div>
 
-                {/* Tx Power Slider */}
-                <div className="flex flex-col gap-1">
-                    <div className="flex items-center justify-between">
-                        <span className="text-[10px] text-slate-500 font-medium">Tx Power</span>
-                        <span className="text-[10px] font-mono text-slate-700 bg-slate-100 px-1.5 py-0.5 rounded">
-                            {aps.find(a => a.id === selectedEntity.id)?.txPower} dBm
-                        </span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                         <span className="text-[9px] text-slate-400">1</span>
-                         <input 
-                            type="range"
-                            min="1"
-                            max="30"
-                            step="0.5"
-                            className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                            value={aps.find(a => a.id === selectedEntity.id)?.txPower || 20}
-                            onChange={(e) => {
-                                const newTx = parseFloat(e.target.value);
-                                setAps(prev => prev.map(a => a.id === selectedEntity.id ? { ...a, txPower: newTx } : a));
-                            }}
-                        />
-                        <span className="text-[9px] text-slate-400">30</span>
-                    </div>
-                    <div className="flex justify-between text-[8px] text-slate-400 px-0.5">
-                        <span>Low</span>
-                        <span>Med</span>
-                        <span>High</span>
-                    </div>
-                </div>
+                {/* Radio for the selected band */}
+                {(() => {
+                    const ap = aps.find(a => a.id === selectedEntity.id);
+                    const radio = ap ? getRadio(ap, band) : undefined;
+                    if (!radio) {
+                        return (
+                            <div className="text-[10px] text-slate-400 italic text-center py-1">
+                                No {BAND_PROFILES[band].label} radio on this model
+                            </div>
+                        );
+                    }
+
+                    return (
+                        <>
+                            <label className="flex items-center justify-between gap-2 text-[10px] text-slate-500 font-medium">
+                                <span>{BAND_PROFILES[band].label} Radio</span>
+                                <input
+                                    type="checkbox"
+                                    checked={radio.enabled}
+                                    onChange={(e) => {
+                                        setAps(prev => prev.map(a => a.id === selectedEntity.id ? updateRadio(a, band, { enabled: e.target.checked }) : a));
+                                    }}
+                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                />
+                            </label>
+
+                            {/* Channel Selector */}
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-[10px] text-slate-500">Channel</span>
+                                <select 
+                                    className="text-xs p-1 border border-slate-200 rounded bg-slate-50 outline-none focus:ring-1 focus:ring-blue-500 w-24"
+                                    value={radio.channel}
+                                    disabled={!radio.enabled}
+                                    onChange={(e) => {
+                                        const newCh = parseInt(e.target.value);
+                                        setAps(prev => prev.map(a => a.id === selectedEntity.id ? updateRadio(a, band, { channel: newCh }) : a));
+                                    }}
+                                >
+                                    {BAND_PROFILES[band].channels.map(ch => (
+                                        <option key={ch} value={ch}>Ch {ch}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {/* Channel Width */}
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-[10px] text-slate-500">Width</span>
+                                <select
+                                    className="text-xs p-1 border border-slate-200 rounded bg-slate-50 outline-none focus:ring-1 focus:ring-blue-500 w-24"
+                                    value={radio.channelWidth || 20}
+                                    disabled={!radio.enabled}
+                                    onChange={(e) => {
+                                        const newWidth = parseInt(e.target.value) as ChannelWidth;
+                                        setAps(prev => prev.map(a => a.id === selectedEntity.id ? updateRadio(a, band, { channelWidth: newWidth }) : a));
+                                    }}
+                                >
+                                    {getRadioChannelWidths(ap!, radio).map(width => (
+                                        <option key={width} value={width}>{width} MHz</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {/* Tx Power Slider */}
+                            <div className="flex flex-col gap-1">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-[10px] text-slate-500 font-medium">Tx Power</span>
+                                    <span className="text-[10px] font-mono text-slate-700 bg-slate-100 px-1.5 py-0.5 rounded">
+                                        {radio.txPower} dBm
+                                    </span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                     <span className="text-[9px] text-slate-400">1</span>
+                                     <input 
+                                        type="range"
+                                        min="1"
+                                        max="30"
+                                        step="0.5"
+                                        disabled={!radio.enabled}
+                                        className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                                        value={radio.txPower}
+                                        onChange={(e) => {
+                                            const newTx = parseFloat(e.target.value);
+                                            setAps(prev => prev.map(a => a.id === selectedEntity.id ? updateRadio(a, band, { txPower: newTx }) : a));
+                                        }}
+                                    />
+                                    <span className="text-[9px] text-slate-400">30</span>
+                                </div>
+                                <div className="flex justify-between text-[8px] text-slate-400 px-0.5">
+                                    <span>Low</span>
+                                    <span>Med</span>
+                                    <span>High</span>
+                                </div>
+                            </div>
+
+                            {/* Antenna Gain */}
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-[10px] text-slate-500">Antenna Gain</span>
+                                <div className="flex items-center gap-1">
+                                    <input
+                                        type="number"
+                                        step="0.1"
+                                        min="-10"
+                                        max="20"
+                                        disabled={!radio.enabled}
+                                        className="text-xs p-1 border border-slate-200 rounded bg-slate-50 outline-none focus:ring-1 focus:ring-blue-500 w-16 text-right"
+                                        value={radio.antennaGain}
+                                        onChange={(e) => {
+                                            const newGain = parseFloat(e.target.value);
+                                            if (Number.isNaN(newGain)) return;
+                                            setAps(prev => prev.map(a => a.id === selectedEntity.id ? updateRadio(a, band, { antennaGain: newGain }) : a));
+                                        }}
+                                    />
+                                    <span className="text-[10px] text-slate-400">dBi</span>
+                                </div>
+                            </div>
+                            <div className="flex justify-between text-[10px]">
+                                <span className="text-slate-500">EIRP</span>
+                                <span className="font-mono text-slate-700">{getRadioEirp(radio).toFixed(1)} dBm</span>
+                            </div>
+                        </>
+                    );
+                })()}
+
+                {/* Mounting (shared by every radio) */}
+                {(() => {
+                    const ap = aps.find(a => a.id === selectedEntity.id);
+                    if (!ap) return null;
+                    const mountingField = (label: string, unit: string, value: number, min: number, max: number, update: (v: number) => Partial<AccessPoint>) => (
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-[10px] text-slate-500">{label}</span>
+                            <div className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    step="0.5"
+                                    min={min}
+                                    max={max}
+                                    className="text-xs p-1 border border-slate-200 rounded bg-slate-50 outline-none focus:ring-1 focus:ring-blue-500 w-16 text-right"
+                                    value={value}
+                                    onChange={(e) => {
+                                        const val = parseFloat(e.target.value);
+                                        if (Number.isNaN(val)) return;
+                                        const clamped = Math.max(min, Math.min(max, val));
+                                        setAps(prev => prev.map(a => a.id === selectedEntity.id ? { ...a, ...update(clamped) } : a));
+                                    }}
+                                />
+                                <span className="text-[10px] text-slate-400 w-5">{unit}</span>
+                            </div>
+                        </div>
+                    );
+                    return (
+                        <div className="flex flex-col gap-1 pt-1 border-t border-slate-100">
+                            {mountingField('Mount Height', 'm', ap.height ?? DEFAULT_AP_HEIGHT, 0, 30, v => ({ height: v }))}
+                            {mountingField('Downtilt', '°', ap.downtilt ?? 0, 0, 90, v => ({ downtilt: v }))}
+                            {(ap.isDirectional || !!ap.downtilt) &&
+                                mountingField('Vertical Beam', '°', ap.verticalBeamwidth ?? DEFAULT_VERTICAL_BEAMWIDTH, 5, 180, v => ({ verticalBeamwidth: v }))}
+                        </div>
+                    );
+                })()}
 
                 <button 
                     onClick={() => {
@@ -1573,24 +2505,45 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                         </select>
                     </div>
 
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-[10px] text-slate-500">Profile</span>
+                        <select
+                            className="text-xs p-1 border border-slate-200 rounded bg-slate-50 outline-none focus:ring-1 focus:ring-blue-500 flex-1 min-w-0"
+                            value={(() => {
+                                const dev = devices.find(d => d.id === selectedEntity.id);
+                                return dev ? getDeviceProfile(clientProfiles, dev).id : '';
+                            })()}
+                            onChange={(e) => {
+                                const profileId = e.target.value;
+                                setDevices(prev => prev.map(d => d.id === selectedEntity.id ? { ...d, profileId } : d));
+                            }}
+                        >
+                            {clientProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                    </div>
+
                     {/* Signal Info */}
                     {(() => {
                         const dev = devices.find(d => d.id === selectedEntity.id);
                         if (!dev) return null;
                         
-                        const { bestAp, maxSignal } = aps.reduce<{bestAp: AccessPoint | null, maxSignal: number}>((acc, ap) => {
-                            const sig = calculateSignalStrength(ap, dev);
-                            return sig > acc.maxSignal ? { bestAp: ap, maxSignal: sig } : acc;
-                        }, { bestAp: null, maxSignal: -Infinity });
-
-                        if (!bestAp) return <div className="text-[10px] text-slate-400 italic text-center py-1">No Signal</div>;
+                        const reading = deviceReadings[dev.id];
+                        const bestAp = reading?.apId ? aps.find(a => a.id === reading.apId) : undefined;
+                        const maxSignal = reading?.signal ?? -Infinity;
+                        const profile = getDeviceProfile(clientProfiles, dev);
+                        const budget = reading?.budget;
+
+                        if (!profile.bands.includes(band) || (reading && reading.signal !== null && !budget)) {
+                            return <div className="text-[10px] text-slate-400 italic text-center py-1">{profile.name} does not support {band}</div>;
+                        }
+                        if (!bestAp) return <div className="text-[10px] text-slate-400 italic text-center py-1">{reading?.apId ? 'Served from another floor' : 'No Signal'}</div>;
 
                         return (
                             <div className="bg-slate-50 rounded p-1.5 flex flex-col gap-1 border border-slate-100">
                                 <div className="flex justify-between text-[10px]">
                                     <span className="text-slate-500">Connected to:</span>
                                     <span className="font-medium text-blue-600">
-                                        {bestAp?.channel ? `Ch ${bestAp.channel}` : 'Auto'}
+                                        {getActiveRadio(bestAp, band) ? `Ch ${getActiveRadio(bestAp, band)!.channel}` : 'Auto'}
                                     </span>
                                 </div>
                                 <div className="flex justify-between text-[10px]">
@@ -1602,6 +2555,27 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                                         {Math.round(maxSignal)} dBm
                                     </span>
                                 </div>
+                                {budget && (
+                                    <>
+                                        <div className="flex justify-between text-[10px]">
+                                            <span className="text-slate-500">Downlink:</span>
+                                            <span className="font-mono text-slate-700">{Math.round(budget.downlinkDbm)} dBm · {budget.downlinkMcs >= 0 ? `MCS ${budget.downlinkMcs}` : 'no MCS'}</span>
+                                        </div>
+                                        <div className="flex justify-between text-[10px]">
+                                            <span className="text-slate-500">Uplink:</span>
+                                            <span className="font-mono text-slate-700">{Math.round(budget.uplinkDbm)} dBm · {budget.uplinkMcs >= 0 ? `MCS ${budget.uplinkMcs}` : 'no MCS'}</span>
+                                        </div>
+                                        <div
+                                            className={cn(
+                                                "text-[10px] font-bold text-center rounded px-1 py-0.5",
+                                                budget.balance === 'balanced' ? "bg-green-100 text-green-700" : "bg-amber-100 text-amber-700"
+                                            )}
+                                            title={`Margin over MCS 0: downlink ${budget.downlinkMarginDb.toFixed(1)} dB, uplink ${budget.uplinkMarginDb.toFixed(1)} dB`}
+                                        >
+                                            {budget.balance === 'balanced' ? 'Link balanced' : budget.balance === 'uplink-limited' ? 'Uplink-limited' : 'Downlink-limited'}
+                                        </div>
+                                    </>
+                                )}
                             </div>
                         );
                     })()}
@@ -1621,27 +2595,155 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
             </div>
         )}
 
+        {/* Interferer Property Editor */}
+        {selectedEntity?.type === 'interferer' && popupPos && (() => {
+            const source = interferers.find(i => i.id === selectedEntity.id);
+            if (!source) return null;
+            const updateSource = (update: Partial<Interferer>) => {
+                setInterferers(prev => prev.map(i => i.id === source.id ? { ...i, ...update } : i));
+            };
+
+            return (
+                <div 
+                    className="absolute z-50 bg-white/80 backdrop-blur-md rounded-lg shadow-lg border border-slate-200/50 p-2 flex flex-col gap-2 w-52 animate-in fade-in zoom-in duration-200"
+                    style={{ 
+                        left: popupPos.x, 
+                        top: popupPos.y - (60 * scale), // Scale offset
+                        transform: `translateX(-50%) scale(${Math.max(0.5, scale)})`,
+                        transformOrigin: 'bottom center'
+                    }}
+                    onMouseDown={(e) => e.stopPropagation()} 
+                >
+                    <div className="flex items-center justify-between mb-1">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Edit Interferer</span>
+                        <button onClick={() => { setSelectedEntity(null); onSelectionChange(false, null); }} className="text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full p-0.5"><X size={12} /></button>
+                    </div>
+
+                    <input
+                        type="text"
+                        className="text-xs p-1.5 border border-slate-200 rounded bg-white/50 w-full outline-none focus:ring-1 focus:ring-blue-500"
+                        value={source.name}
+                        onChange={(e) => updateSource({ name: e.target.value })}
+                        placeholder="Interferer Name"
+                    />
+
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-[10px] text-slate-500">Type</span>
+                        <select
+                            className="text-xs p-1 border border-slate-200 rounded bg-slate-50 outline-none focus:ring-1 focus:ring-blue-500 flex-1"
+                            value={source.type}
+                            onChange={(e) => {
+                                const type = e.target.value as InterfererType;
+                                const preset = INTERFERER_PRESETS[type];
+                                updateSource({
+                                    type,
+                                    name: preset.label,
+                                    power: preset.power,
+                                    centerFrequencyMhz: preset.centerFrequencyMhz,
+                                    bandwidthMhz: preset.bandwidthMhz,
+                                    dutyCycle: preset.dutyCycle
+                                });
+                            }}
+                        >
+                            {(Object.keys(INTERFERER_PRESETS) as InterfererType[]).map(type => (
+                                <option key={type} value={type}>{INTERFERER_PRESETS[type].label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {([
+                        { key: 'power', label: 'EIRP', unit: 'dBm', step: 1 },
+                        { key: 'centerFrequencyMhz', label: 'Centre', unit: 'MHz', step: 1 },
+                        { key: 'bandwidthMhz', label: 'Bandwidth', unit: 'MHz', step: 1 },
+                        { key: 'dutyCycle', label: 'Duty Cycle', unit: '0-1', step: 0.05 }
+                    ] as const).map(field => (
+                        <div key={field.key} className="flex items-center justify-between gap-2">
+                            <span className="text-[10px] text-slate-500">{field.label}</span>
+                            <div className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    step={field.step}
+                                    className="text-xs p-1 border border-slate-200 rounded bg-slate-50 outline-none focus:ring-1 focus:ring-blue-500 w-20 text-right"
+                                    value={source[field.key]}
+                                    onChange={(e) => {
+                                        const val = parseFloat(e.target.value);
+                                        if (Number.isNaN(val)) return;
+                                        if (field.key === 'dutyCycle') updateSource({ dutyCycle: Math.max(0, Math.min(1, val)) });
+                                        else if (field.key === 'bandwidthMhz') updateSource({ bandwidthMhz: Math.max(0.1, val) });
+                                        else updateSource({ [field.key]: val });
+                                    }}
+                                />
+                                <span className="text-[10px] text-slate-400 w-7">{field.unit}</span>
+                            </div>
+                        </div>
+                    ))}
+
+                    {!affectsBand(getInterfererSpectrum(source), band) && (
+                        <div className="text-[10px] text-slate-400 italic text-center">
+                            No effect on {BAND_PROFILES[band].label}
+                        </div>
+                    )}
+
+                    <button 
+                        onClick={() => {
+                            setInterferers(prev => prev.filter(i => i.id !== source.id));
+                            setSelectedEntity(null);
+                            onSelectionChange(false, null);
+                            setDraggedInterfererId(null);
+                        }}
+                        className="text-xs flex items-center justify-center gap-1 text-red-500 hover:bg-red-50 p-1.5 rounded transition-colors mt-1"
+                    >
+                        <Trash2 size={12} /> Delete Interferer
+                    </button>
+                </div>
+            );
+        })()}
+
+            {viewMode === 'measured' && measuredSamples.length === 0 && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 pointer-events-none bg-white/80 backdrop-blur-md rounded-lg shadow-lg border border-slate-200/50 px-3 py-2 text-xs text-slate-600">
+                    No survey readings on {BAND_PROFILES[band].label} to draw the measured heatmap from.
+                </div>
+            )}
+
             {hoverInfo && (
                 <div
                     className="fixed pointer-events-none z-50 bg-black/80 backdrop-blur-sm border border-white/20 text-white p-2 rounded-lg shadow-xl text-xs flex flex-col gap-1"
                     style={{ left: hoverInfo.x + 15, top: hoverInfo.y + 15 }}
                 >
-                    <div className="flex justify-between gap-4">
-                        <span className="text-gray-400">Signal:</span>
-                        <span className={cn("font-bold", hoverInfo.dbm > -45 ? "text-green-400" : hoverInfo.dbm > -60 ? "text-yellow-400" : hoverInfo.dbm > -65 ? "text-orange-400" : hoverInfo.dbm > -75 ? "text-blue-400" : "text-red-400")}>
-                            {Math.round(hoverInfo.dbm)} dBm
-                        </span>
-                    </div>
+                    {hoverInfo.dbm !== null && (
+                        <div className="flex justify-between gap-4">
+                            <span className="text-gray-400">Signal:</span>
+                            <span className={cn("font-bold", hoverInfo.dbm > -45 ? "text-green-400" : hoverInfo.dbm > -60 ? "text-yellow-400" : hoverInfo.dbm > -65 ? "text-orange-400" : hoverInfo.dbm > -75 ? "text-blue-400" : "text-red-400")}>
+                                {Math.round(hoverInfo.dbm)} dBm
+                            </span>
+                        </div>
+                    )}
+                    {hoverInfo.overlay && (
+                        <div className="flex justify-between gap-4">
+                            <span className="text-gray-400">{hoverInfo.overlay.label}:</span>
+                            <span className="font-mono">{hoverInfo.overlay.value}</span>
+                        </div>
+                    )}
+                    {hoverInfo.rateMbps !== undefined && (
+                        <div className="flex justify-between gap-4">
+                            <span className="text-gray-400">Rate:</span>
+                            <span className="font-mono">
+                                {hoverInfo.mcs !== undefined && hoverInfo.mcs >= 0 ? `${Math.round(hoverInfo.rateMbps)} Mbps (MCS ${hoverInfo.mcs})` : 'No service'}
+                            </span>
+                        </div>
+                    )}
                     <div className="flex justify-between gap-4">
                         <span className="text-gray-400">Dist:</span>
                         <span className="font-mono">{hoverInfo.distance.toFixed(1)}m</span>
                     </div>
-                    <div className="h-1 w-full bg-gray-700 rounded-full mt-1 overflow-hidden">
-                        <div
-                            className={cn("h-full transition-all duration-300", hoverInfo.dbm > -45 ? "bg-green-500" : hoverInfo.dbm > -60 ? "bg-yellow-500" : hoverInfo.dbm > -65 ? "bg-orange-500" : hoverInfo.dbm > -75 ? "bg-blue-500" : "bg-red-500")}
-                            style={{ width: `${Math.max(0, Math.min(100, (hoverInfo.dbm + 110) * (100 / 80)))}%` }}
-                        />
-                    </div>
+                    {hoverInfo.dbm !== null && (
+                        <div className="h-1 w-full bg-gray-700 rounded-full mt-1 overflow-hidden">
+                            <div
+                                className={cn("h-full transition-all duration-300", hoverInfo.dbm > -45 ? "bg-green-500" : hoverInfo.dbm > -60 ? "bg-yellow-500" : hoverInfo.dbm > -65 ? "bg-orange-500" : hoverInfo.dbm > -75 ? "bg-blue-500" : "bg-red-500")}
+                                style={{ width: `${Math.max(0, Math.min(100, (hoverInfo.dbm + 110) * (100 / 80)))}%` }}
+                            />
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -1651,12 +2753,37 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                     <div className="font-bold border-b border-slate-600 pb-1 mb-1 text-slate-200">System Monitor</div>
                     <div className="flex justify-between"><span>Status:</span> <span className={debugInfo.status.includes('Processing') ? 'text-yellow-400' : 'text-green-400'}>{debugInfo.status}</span></div>
                     <div className="flex justify-between"><span>APs / Walls:</span> <span>{debugInfo.apsCount} / {debugInfo.wallsCount}</span></div>
-                    <div className="flex justify-between"><span>Req ID:</span> <span>#{debugInfo.currentId}</span></div>
-                    <div className="flex justify-between"><span>Recv ID:</span> <span>#{debugInfo.receivedId}</span></div>
+                    <div className="flex justify-between"><span>Workers:</span> <span>{debugInfo.workers}</span></div>
+                    <div className="flex justify-between"><span>Pending Jobs:</span> <span>{debugInfo.pendingJobs}</span></div>
                     <div className="flex justify-between"><span>Grid Points:</span> <span>{(debugInfo.gridSize/1000).toFixed(0)}k</span></div>
                     {debugInfo.lastCalcTime > 0 && (
                          <div className="flex justify-between text-gray-500 text-[9px] mt-1"><span>Last Upd:</span> <span>{new Date(debugInfo.lastCalcTime).toLocaleTimeString()}</span></div>
                     )}
+                    <button
+                        className="pointer-events-auto mt-1 px-2 py-0.5 rounded border border-slate-600 hover:bg-slate-700 disabled:opacity-50"
+                        disabled={benchmarkResults !== null && benchmarkResults.length === 0}
+                        onClick={() => {
+                            if (!poolRef.current) return;
+                            setBenchmarkResults([]);
+                            poolRef.current.benchmark().response.then(message => {
+                                if (message.type === 'error') console.error("Benchmark Error:", message.message);
+                                setBenchmarkResults(message.type === 'benchmark' ? message.results : null);
+                            });
+                        }}
+                    >
+                        {benchmarkResults !== null && benchmarkResults.length === 0 ? 'Benchmarking...' : 'Run Benchmark'}
+                    </button>
+                    {benchmarkResults && benchmarkResults.length > 0 && (
+                        <div className="border-t border-slate-600 pt-1 mt-1">
+                            <div className="text-gray-500 text-[9px]">100×60 m floor, ms per AP</div>
+                            {benchmarkResults.map(row => (
+                                <div key={row.cellSize} className="flex justify-between">
+                                    <span>{row.cellSize}px ({(row.cols * row.rows / 1000).toFixed(0)}k)</span>
+                                    <span>{row.msPerAp.toFixed(0)} ms</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -1667,6 +2794,258 @@ export const HeatmapEditor = forwardRef<HeatmapEditorRef, HeatmapEditorProps>(({
                 </div>
             </div>
 
+            {/* Roaming Timeline of the selected walk route */}
+            {selectedEntity?.type === 'route' && (() => {
+                const route = routes.find(r => r.id === selectedEntity.id);
+                if (!route) return null;
+                const playback = roamPlayback?.routeId === route.id ? roamPlayback : { routeId: route.id, timeS: 0, playing: false, rate: roamPlayback?.rate ?? 4 };
+                const close = () => {
+                    setRoamPlayback(null);
+                    setSelectedEntity(null);
+                    onSelectionChange(false, null);
+                };
+                return (
+                    <RoamingTimeline
+                        route={route}
+                        result={roamingResults[route.id] ?? null}
+                        apLabels={floorApsRef.current.map(ap => ({ name: ap.name, color: ap.color }))}
+                        clientProfiles={clientProfiles}
+                        playheadS={playback.timeS}
+                        playing={playback.playing}
+                        playbackRate={playback.rate}
+                        onPlayToggle={() => setRoamPlayback({
+                            ...playback,
+                            playing: !playback.playing,
+                            // Start over once the end is reached
+                            timeS: !playback.playing && playback.timeS >= (roamingResults[route.id]?.durationS ?? 0) ? 0 : playback.timeS
+                        })}
+                        onSeek={(timeS) => setRoamPlayback({ ...playback, timeS })}
+                        onPlaybackRateChange={(rate) => setRoamPlayback({ ...playback, rate })}
+                        onChange={(update) => setRoutes(prev => prev.map(r => r.id === route.id ? { ...r, ...update } : r))}
+                        onDelete={() => {
+                            setRoutes(prev => prev.filter(r => r.id !== route.id));
+                            close();
+                        }}
+                        onClose={close}
+                    />
+                );
+            })()}
+
+            {/* Readings of the selected survey point */}
+            {selectedEntity?.type === 'survey' && (() => {
+                const point = surveyPoints.find(p => p.id === selectedEntity.id);
+                if (!point) return null;
+                const close = () => {
+                    setSelectedEntity(null);
+                    onSelectionChange(false, null);
+                };
+                return (
+                    <SurveyPointPanel
+                        point={point}
+                        comparisons={(surveyResult?.comparisons ?? []).filter(c => c.pointId === point.id)}
+                        apLabels={floorApsRef.current.map(ap => ({ name: ap.name, color: ap.color }))}
+                        onChange={(measurements) => setSurveyPoints(prev => prev.map(p => p.id === point.id ? { ...p, measurements } : p))}
+                        onDelete={() => {
+                            setSurveyPoints(prev => prev.filter(p => p.id !== point.id));
+                            close();
+                        }}
+                        onClose={close}
+                    />
+                );
+            })()}
+
+            {showSurvey && (
+                <SurveyDialog
+                    points={surveyPoints}
+                    aps={floorApsRef.current}
+                    assignments={bssidAssignments}
+                    result={surveyResult}
+                    band={band}
+                    pixelsPerMeter={pixelsPerMeter}
+                    pathLoss={getPathLossModel({ band, pathLoss: propagationProfile[band] })}
+                    calibrated={!!propagationProfile[band]}
+                    onCalibrate={() => calibratePropagation(surveyResult?.comparisons ?? [], surveyPoints, aps, {
+                        walls, doors, materials, band, width: SIM_WIDTH, height: SIM_HEIGHT, cellSize: GRID_SIZE, pixelsPerMeter, clientHeight, pathLoss: propagationProfile[band]
+                    }, ap => getPattern(ap.model))}
+                    onApplyCalibration={(result) => {
+                        onPropagationProfileChange?.({ ...propagationProfile, [band]: result.after });
+                        onMaterialsChange?.(applyMaterialFits(materials, band, result.materials));
+                    }}
+                    onResetCalibration={() => {
+                        const profile = { ...propagationProfile };
+                        delete profile[band];
+                        onPropagationProfileChange?.(profile);
+                    }}
+                    onImport={(points) => setSurveyPoints(prev => [...prev, ...points])}
+                    onAssignmentsChange={setBssidAssignments}
+                    onClear={() => {
+                        setSurveyPoints([]);
+                        if (selectedEntity?.type === 'survey') {
+                            setSelectedEntity(null);
+                            onSelectionChange(false, null);
+                        }
+                    }}
+                    onClose={() => setShowSurvey(false)}
+                />
+            )}
+
+            {/* Density zone editor */}
+            {selectedEntity?.type === 'zone' && (() => {
+                const zone = zones.find(z => z.id === selectedEntity.id);
+                if (!zone) return null;
+                const close = () => {
+                    setSelectedEntity(null);
+                    onSelectionChange(false, null);
+                };
+                return (
+                    <DensityZonePanel
+                        zone={zone}
+                        pixelsPerMeter={pixelsPerMeter}
+                        onChange={(update) => setZones(prev => prev.map(z => z.id === zone.id ? { ...z, ...update } : z))}
+                        onDelete={() => {
+                            setZones(prev => prev.filter(z => z.id !== zone.id));
+                            close();
+                        }}
+                        onClose={close}
+                    />
+                );
+            })()}
+
+            {/* Capacity: client load and airtime per radio on this band */}
+            {capacity && capacity.totalClients > 0 && (
+                <div
+                    className="absolute top-4 left-4 z-40 bg-white/95 backdrop-blur px-3 py-2 rounded-lg shadow-lg border border-slate-200 text-xs w-72"
+                    onMouseDown={(e) => e.stopPropagation()}
+                >
+                    <div className="flex justify-between text-[10px] uppercase tracking-wider text-slate-400 font-bold mb-1">
+                        <span>Capacity ({BAND_PROFILES[band].label})</span>
+                        <span>≤ {capacityLimits.maxClientsPerRadio} clients / {capacityLimits.maxAirtimePercent}%</span>
+                    </div>
+                    <div className="flex justify-between text-slate-500 mb-1">
+                        <span>{Math.round(capacity.totalClients)} clients</span>
+                        {capacity.unservedClients >= 0.5 && <span className="text-red-600 font-bold">{Math.round(capacity.unservedClients)} without service</span>}
+                    </div>
+                    <div className="max-h-48 overflow-y-auto">
+                        {capacity.loads.map(load => {
+                            const ap = floorApsRef.current[load.apIndex];
+                            if (!ap) return null;
+                            const radio = getActiveRadio(ap, band);
+                            return (
+                                <div key={load.apIndex} className="py-1 border-t border-slate-100">
+                                    <div className="flex items-center gap-2">
+                                        <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: ap.color }} />
+                                        <span className="truncate flex-1 text-slate-700">{ap.name}{radio && <span className="text-slate-400"> · ch {radio.channel}</span>}</span>
+                                        <span className={cn('font-mono', load.overClients ? 'text-red-600 font-bold' : 'text-slate-500')}>{Math.round(load.clients)} cl</span>
+                                        <span className={cn('font-mono w-12 text-right', load.overAirtime ? 'text-red-600 font-bold' : 'text-slate-500')}>{load.airtimePercent.toFixed(0)}%</span>
+                                    </div>
+                                    <div className="h-1 mt-1 rounded-full bg-slate-100 overflow-hidden">
+                                        <div
+                                            className={cn('h-full', load.overAirtime ? 'bg-red-500' : 'bg-blue-500')}
+                                            style={{ width: `${Math.min(100, load.airtimePercent)}%` }}
+                                        />
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {/* Requirement Profiles */}
+            {requirementResults.length > 0 && (
+                <div
+                    className="absolute bottom-4 right-64 z-40 bg-white/95 backdrop-blur px-3 py-2 rounded-lg shadow-lg border border-slate-200 text-xs w-60"
+                    onMouseDown={(e) => e.stopPropagation()}
+                >
+                    <div className="text-[10px] uppercase tracking-wider text-slate-400 font-bold mb-1">Requirements</div>
+                    {requirementProfiles.map(profile => {
+                        const result = requirementResults.find(r => r.profileId === profile.id);
+                        if (!result) return null;
+                        return (
+                            <button
+                                key={profile.id}
+                                onClick={() => setFailureProfileId(prev => prev === profile.id ? null : profile.id)}
+                                className={cn(
+                                    "w-full flex items-center justify-between gap-2 px-2 py-1 rounded hover:bg-slate-100",
+                                    failureProfileId === profile.id && "bg-red-50"
+                                )}
+                                title="Show failing area"
+                            >
+                                <span className="truncate text-slate-700">{profile.name}</span>
+                                <span className="flex items-center gap-2 font-mono">
+                                    <span className="text-slate-500">{result.passPercent.toFixed(1)}% / {profile.targetPercent}%</span>
+                                    <span className={result.passed ? 'text-green-600 font-bold' : 'text-red-600 font-bold'}>
+                                        {result.passed ? 'PASS' : 'FAIL'}
+                                    </span>
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {showPlacementDialog && (
+                <PlacementDialog
+                    band={band}
+                    apModels={apModels}
+                    regionCount={mountingRegions.length}
+                    onRun={runPlacement}
+                    onClearRegions={() => setMountingRegions([])}
+                    onClose={() => setShowPlacementDialog(false)}
+                />
+            )}
+
+            {/* Placement Proposal */}
+            {placement && (
+                <div
+                    className="absolute top-4 left-1/2 -translate-x-1/2 z-50 bg-white/95 backdrop-blur px-4 py-2 rounded-lg shadow-lg border border-slate-200 flex items-center gap-3 text-xs"
+                    onMouseDown={(e) => e.stopPropagation()}
+                >
+                    {placement.status === 'running' && (
+                        <>
+                            <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
+                            <span className="text-slate-600">Searching AP positions...</span>
+                            <button onClick={cancelPlacement} className="text-slate-500 hover:text-slate-800 underline">Cancel</button>
+                        </>
+                    )}
+                    {placement.status === 'error' && (
+                        <>
+                            <span className="text-red-600">{placement.message}</span>
+                            <button onClick={() => setPlacement(null)} className="p-1 text-slate-400 hover:text-slate-700"><X size={14} /></button>
+                        </>
+                    )}
+                    {placement.status === 'done' && (
+                        <>
+                            <span className={placement.result.met ? 'text-green-700 font-medium' : 'text-amber-600 font-medium'}>
+                                {placement.result.aps.length} AP{placement.result.aps.length === 1 ? '' : 's'}: {(placement.result.coverage * 100).toFixed(1)}% meets target
+                                {!placement.result.met && ` (not reached; ${(placement.result.signalCoverage * 100).toFixed(1)}% has the signal)`}
+                            </span>
+                            <span className="text-slate-400">{placement.result.candidates} positions tried</span>
+                            <button
+                                onClick={acceptPlacement}
+                                disabled={placement.result.aps.length === 0}
+                                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                Accept
+                            </button>
+                            <button onClick={() => setPlacement(null)} className="px-3 py-1 border border-slate-300 rounded hover:bg-slate-50">
+                                Reject
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {showChannelPlanner && (
+                <ChannelPlannerDialog
+                    band={band}
+                    aps={aps}
+                    onPlan={runChannelPlan}
+                    onApply={applyChannelPlan}
+                    onToggleLock={toggleChannelLock}
+                    onClose={() => setShowChannelPlanner(false)}
+                />
+            )}
         </div>
     );
 });
@@ -0,0 +1,147 @@
+'use client';
+
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { BANDS, BAND_PROFILES, MaterialDefinition } from '@/types';
+
+interface MaterialLibraryDialogProps {
+    materials: MaterialDefinition[];
+    onChange: (materials: MaterialDefinition[]) => void;
+    onClose: () => void;
+}
+
+export function MaterialLibraryDialog({ materials, onChange, onClose }: MaterialLibraryDialogProps) {
+    const updateMaterial = (id: string, update: Partial<MaterialDefinition>) => {
+        onChange(materials.map(m => m.id === id ? { ...m, ...update } : m));
+    };
+
+    const handleAdd = () => {
+        const newMaterial: MaterialDefinition = {
+            id: `custom-${crypto.randomUUID()}`,
+            name: `Custom Material ${materials.filter(m => !m.builtIn).length + 1}`,
+            attenuation: { '2.4GHz': 5, '5GHz': 7, '6GHz': 8 },
+            reflectionCoefficient: 0.1,
+            color: '#a855f7'
+        };
+        onChange([...materials, newMaterial]);
+    };
+
+    const handleDelete = (material: MaterialDefinition) => {
+        if (confirm(`Delete "${material.name}"? Walls using it will fall back to a generic light partition.`)) {
+            onChange(materials.filter(m => m.id !== material.id));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-3xl w-full mx-4 max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">Material Library</h2>
+                        <p className="text-xs text-neutral-400">Loss per wall penetration (dB) for each band. Reflection ≥ 0.5 makes the surface reflect signal.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-1">
+                    <table className="w-full text-xs">
+                        <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                            <tr>
+                                <th className="p-2">Colour</th>
+                                <th className="p-2">Name</th>
+                                {BANDS.map(band => (
+                                    <th key={band} className="p-2 text-right">{BAND_PROFILES[band].label}</th>
+                                ))}
+                                <th className="p-2 text-right">Reflection</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {materials.map(material => (
+                                <tr key={material.id} className="border-t border-neutral-100">
+                                    <td className="p-2">
+                                        <input
+                                            type="color"
+                                            value={material.color}
+                                            onChange={(e) => updateMaterial(material.id, { color: e.target.value })}
+                                            className="w-8 h-6 rounded cursor-pointer"
+                                        />
+                                    </td>
+                                    <td className="p-2">
+                                        <input
+                                            type="text"
+                                            value={material.name}
+                                            onChange={(e) => updateMaterial(material.id, { name: e.target.value })}
+                                            className="w-full p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    {BANDS.map(band => (
+                                        <td key={band} className="p-2">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                max="150"
+                                                step="0.5"
+                                                value={material.attenuation[band]}
+                                                onChange={(e) => {
+                                                    const val = parseFloat(e.target.value);
+                                                    if (Number.isNaN(val)) return;
+                                                    updateMaterial(material.id, { attenuation: { ...material.attenuation, [band]: val } });
+                                                }}
+                                                className="w-16 p-1 border border-neutral-200 rounded text-right outline-none focus:ring-1 focus:ring-blue-500"
+                                            />
+                                        </td>
+                                    ))}
+                                    <td className="p-2">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max="1"
+                                            step="0.05"
+                                            value={material.reflectionCoefficient}
+                                            onChange={(e) => {
+                                                const val = parseFloat(e.target.value);
+                                                if (Number.isNaN(val)) return;
+                                                updateMaterial(material.id, { reflectionCoefficient: Math.max(0, Math.min(1, val)) });
+                                            }}
+                                            className="w-16 p-1 border border-neutral-200 rounded text-right outline-none focus:ring-1 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="p-2 text-right">
+                                        {!material.builtIn && (
+                                            <button
+                                                onClick={() => handleDelete(material)}
+                                                className="p-1 text-neutral-400 hover:text-red-500 hover:bg-red-50 rounded"
+                                                title="Delete Material"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex gap-3 pt-4 border-t mt-4">
+                    <button
+                        onClick={handleAdd}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                    >
+                        <Plus size={16} /> Add Material
+                    </button>
+                    <div className="flex-1" />
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { APCatalog, Band, BAND_PROFILES } from '@/types';
+import { PlacementOptions } from '@/utils/placementOptimizer';
+
+interface PlacementDialogProps {
+    band: Band;
+    apModels: APCatalog;
+    regionCount: number;
+    onRun: (options: Omit<PlacementOptions, 'regions' | 'noiseFloorDbm' | 'antennaPattern'>) => void; // Editor adds its regions, noise floor and antenna
+    onClearRegions: () => void;
+    onClose: () => void;
+}
+
+export function PlacementDialog({ band, apModels, regionCount, onRun, onClearRegions, onClose }: PlacementDialogProps) {
+    const models = Object.values(apModels).filter(m => m.bands[band]);
+    const [model, setModel] = useState(models.find(m => m.id === 'aruba-315')?.id ?? models[0]?.id ?? 'custom');
+    const [minSignalDbm, setMinSignalDbm] = useState(-67);
+    const [minSinrDb, setMinSinrDb] = useState(25);
+    const [coveragePercent, setCoveragePercent] = useState(95);
+    const [candidateSpacingM, setCandidateSpacingM] = useState(3);
+    const [maxAps, setMaxAps] = useState(20);
+
+    const numberField = (label: string, unit: string, value: number, onChange: (v: number) => void, step = 1) => (
+        <label className="flex items-center justify-between gap-2">
+            <span className="text-neutral-500">{label}</span>
+            <span className="flex items-center gap-1">
+                <input
+                    type="number"
+                    step={step}
+                    value={value}
+                    onChange={(e) => {
+                        const val = parseFloat(e.target.value);
+                        if (!Number.isNaN(val)) onChange(val);
+                    }}
+                    className="w-16 p-1 border border-neutral-200 rounded text-right"
+                />
+                <span className="w-8 text-neutral-400">{unit}</span>
+            </span>
+        </label>
+    );
+
+    const handleRun = () => {
+        onRun({
+            model: apModels[model],
+            target: { minSignalDbm, minSinrDb, coverage: Math.max(0, Math.min(100, coveragePercent)) / 100 },
+            candidateSpacingM: Math.max(0.5, candidateSpacingM),
+            maxAps: Math.max(1, Math.round(maxAps))
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-md w-full mx-4 flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">Suggest Placement ({BAND_PROFILES[band].label})</h2>
+                        <p className="text-xs text-neutral-400">Finds the fewest APs that meet the target over the area enclosed by the walls.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="space-y-3 text-xs">
+                    <label className="flex items-center justify-between gap-2">
+                        <span className="text-neutral-500">AP Model</span>
+                        <select value={model} onChange={(e) => setModel(e.target.value)} className="p-1 border border-neutral-200 rounded">
+                            {models.map(m => <option key={m.id} value={m.id}>{m.vendor} {m.modelName}</option>)}
+                        </select>
+                    </label>
+                    {numberField('Signal at least', 'dBm', minSignalDbm, setMinSignalDbm)}
+                    {numberField('SINR at least', 'dB', minSinrDb, setMinSinrDb)}
+                    {numberField('Over', '%', coveragePercent, setCoveragePercent)}
+                    {numberField('Candidate spacing', 'm', candidateSpacingM, setCandidateSpacingM, 0.5)}
+                    {numberField('Max APs', '', maxAps, setMaxAps)}
+
+                    <div className="flex items-center justify-between p-2 rounded bg-neutral-50 border border-neutral-100">
+                        <span className="text-neutral-500">
+                            {regionCount > 0
+                                ? `${regionCount} mounting region${regionCount > 1 ? 's' : ''}`
+                                : 'No mounting regions - APs may go anywhere inside the walls'}
+                        </span>
+                        {regionCount > 0 && (
+                            <button onClick={onClearRegions} className="text-red-500 hover:underline">Clear</button>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex gap-3 pt-4 border-t mt-4 justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={handleRun}
+                        disabled={models.length === 0}
+                        className="px-6 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm transition-colors disabled:opacity-50"
+                    >
+                        Suggest
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { RequirementProfile } from '@/types';
+
+interface RequirementProfilesDialogProps {
+    profiles: RequirementProfile[];
+    onChange: (profiles: RequirementProfile[]) => void;
+    onClose: () => void;
+}
+
+// Numeric columns (secondary RSSI is optional and handled separately)
+const NUMBER_COLUMNS: { key: keyof RequirementProfile; label: string; step: number }[] = [
+    { key: 'primaryRssiDbm', label: 'Primary dBm', step: 1 },
+    { key: 'minSinrDb', label: 'SINR dB', step: 1 },
+    { key: 'minAudibleAps', label: 'APs', step: 1 },
+    { key: 'audibleRssiDbm', label: 'Heard at dBm', step: 1 },
+    { key: 'minDataRateMbps', label: 'Rate Mbps', step: 1 },
+    { key: 'targetPercent', label: 'Target %', step: 1 }
+];
+
+export function RequirementProfilesDialog({ profiles, onChange, onClose }: RequirementProfilesDialogProps) {
+    const updateProfile = (id: string, update: Partial<RequirementProfile>) => {
+        onChange(profiles.map(p => p.id === id ? { ...p, ...update } : p));
+    };
+
+    const handleAdd = () => {
+        const newProfile: RequirementProfile = {
+            id: `custom-${crypto.randomUUID()}`,
+            name: `Custom Profile ${profiles.filter(p => !p.builtIn).length + 1}`,
+            primaryRssiDbm: -67,
+            secondaryRssiDbm: null,
+            minSinrDb: 20,
+            minAudibleAps: 1,
+            audibleRssiDbm: -67,
+            minDataRateMbps: 0,
+            targetPercent: 95
+        };
+        onChange([...profiles, newProfile]);
+    };
+
+    const handleDelete = (profile: RequirementProfile) => {
+        if (confirm(`Delete "${profile.name}"?`)) {
+            onChange(profiles.filter(p => p.id !== profile.id));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-4xl w-full mx-4 max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">Requirement Profiles</h2>
+                        <p className="text-xs text-neutral-400">A floor cell passes when every criterion holds. Leave Secondary empty when a second AP is not required; Rate 0 ignores data rate.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-1">
+                    <table className="w-full text-xs">
+                        <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                            <tr>
+                                <th className="p-2">Name</th>
+                                <th className="p-2 text-right">Primary dBm</th>
+                                <th className="p-2 text-right">Secondary dBm</th>
+                                {NUMBER_COLUMNS.slice(1).map(col => (
+                                    <th key={col.key} className="p-2 text-right">{col.label}</th>
+                                ))}
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {profiles.map(profile => (
+                                <tr key={profile.id} className="border-t border-neutral-100">
+                                    <td className="p-2">
+                                        <input
+                                            type="text"
+                                            value={profile.name}
+                                            onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                                            className="w-full p-1 border border-neutral-200 rounded outline-none focus:ring-1 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    {NUMBER_COLUMNS.map((col, index) => (
+                                        <React.Fragment key={col.key}>
+                                            <td className="p-2">
+                                                <input
+                                                    type="number"
+                                                    step={col.step}
+                                                    value={profile[col.key] as number}
+                                                    onChange={(e) => {
+                                                        const val = parseFloat(e.target.value);
+                                                        if (Number.isNaN(val)) return;
+                                                        updateProfile(profile.id, { [col.key]: val });
+                                                    }}
+                                                    className="w-16 p-1 border border-neutral-200 rounded text-right outline-none focus:ring-1 focus:ring-blue-500"
+                                                />
+                                            </td>
+                                            {index === 0 && (
+                                                <td className="p-2">
+                                                    <input
+                                                        type="number"
+                                                        step={1}
+                                                        value={profile.secondaryRssiDbm ?? ''}
+                                                        placeholder="-"
+                                                        onChange={(e) => {
+                                                            const val = parseFloat(e.target.value);
+                                                            updateProfile(profile.id, { secondaryRssiDbm: Number.isNaN(val) ? null : val });
+                                                        }}
+                                                        className="w-16 p-1 border border-neutral-200 rounded text-right outline-none focus:ring-1 focus:ring-blue-500"
+                                                    />
+                                                </td>
+                                            )}
+                                        </React.Fragment>
+                                    ))}
+                                    <td className="p-2 text-right">
+                                        {!profile.builtIn && (
+                                            <button
+                                                onClick={() => handleDelete(profile)}
+                                                className="p-1 text-neutral-400 hover:text-red-500 hover:bg-red-50 rounded"
+                                                title="Delete Profile"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex gap-3 pt-4 border-t mt-4">
+                    <button
+                        onClick={handleAdd}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                    >
+                        <Plus size={16} /> Add Profile
+                    </button>
+                    <div className="flex-1" />
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
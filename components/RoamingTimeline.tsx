@@ -0,0 +1,197 @@
+'use client';
+
+import React from 'react';
+import { Pause, Play, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ClientProfile, WalkRoute } from '@/types';
+import { getClientProfile } from '@/utils/linkBudget';
+import { getSampleAt, RoamEvent, RoamingResult, RoamSample } from '@/utils/roaming';
+
+interface RoamingTimelineProps {
+    route: WalkRoute;
+    result: RoamingResult | null;
+    apLabels: { name: string; color: string }[]; // Indexed like the result's AP indexes
+    clientProfiles: ClientProfile[];
+    playheadS: number;
+    playing: boolean;
+    playbackRate: number;
+    onPlayToggle: () => void;
+    onSeek: (timeS: number) => void;
+    onPlaybackRateChange: (rate: number) => void;
+    onChange: (update: Partial<WalkRoute>) => void;
+    onDelete: () => void;
+    onClose: () => void;
+}
+
+// Chart frame (SVG units)
+const WIDTH = 460;
+const HEIGHT = 120;
+const MIN_DBM = -95;
+const MAX_DBM = -35;
+
+const FLAG_STYLES = {
+    sticky: { fill: 'rgba(245, 158, 11, 0.18)', label: 'Sticky client', text: 'text-amber-600' },
+    gap: { fill: 'rgba(239, 68, 68, 0.18)', label: 'Below roam threshold', text: 'text-red-600' }
+};
+
+const PLAYBACK_RATES = [1, 4, 10];
+
+export function RoamingTimeline({
+    route, result, apLabels, clientProfiles, playheadS, playing, playbackRate,
+    onPlayToggle, onSeek, onPlaybackRateChange, onChange, onDelete, onClose
+}: RoamingTimelineProps) {
+    const client = getClientProfile(clientProfiles, route.profileId);
+    const durationS = Math.max(result?.durationS ?? 0, 0.001);
+    const x = (timeS: number) => (timeS / durationS) * WIDTH;
+    const y = (dbm: number) => HEIGHT - ((Math.max(MIN_DBM, Math.min(MAX_DBM, dbm)) - MIN_DBM) / (MAX_DBM - MIN_DBM)) * HEIGHT;
+    const apName = (index: number) => apLabels[index]?.name ?? 'AP';
+
+    // One polyline per run of samples on the same serving AP
+    const servingRuns: { apIndex: number; samples: RoamSample[] }[] = [];
+    result?.samples.forEach(sample => {
+        const last = servingRuns[servingRuns.length - 1];
+        if (last && last.apIndex === sample.servingIndex) last.samples.push(sample);
+        else servingRuns.push({ apIndex: sample.servingIndex, samples: [sample] });
+    });
+    const toPoints = (samples: RoamSample[], value: (s: RoamSample) => number) =>
+        samples.map(s => `${x(s.timeS).toFixed(1)},${y(value(s)).toFixed(1)}`).join(' ');
+
+    const current = result ? getSampleAt(result, playheadS) : null;
+    const describeEvent = (event: RoamEvent) => {
+        if (event.fromIndex < 0) return `Associated to ${apName(event.toIndex)} (${Math.round(event.toRssi)} dBm)`;
+        if (event.toIndex < 0) return `Lost ${apName(event.fromIndex)} (${Math.round(event.fromRssi)} dBm)`;
+        return `${apName(event.fromIndex)} → ${apName(event.toIndex)} (${Math.round(event.fromRssi)} → ${Math.round(event.toRssi)} dBm)`;
+    };
+    const flaggedM = (flag: 'sticky' | 'gap') => (result?.segments ?? []).filter(s => s.flag === flag).reduce((sum, s) => sum + s.lengthM, 0);
+
+    const handleChartClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onSeek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * durationS);
+    };
+
+    return (
+        <div
+            className="absolute bottom-4 left-4 z-40 bg-white/95 backdrop-blur px-3 py-2 rounded-lg shadow-lg border border-slate-200 text-xs w-[32rem]"
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between gap-2 mb-2">
+                <input
+                    type="text"
+                    value={route.name}
+                    onChange={(e) => onChange({ name: e.target.value })}
+                    className="font-bold text-slate-700 bg-transparent outline-none focus:ring-1 focus:ring-blue-500 rounded px-1 flex-1 min-w-0"
+                />
+                <button onClick={onDelete} className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded" title="Delete Route">
+                    <Trash2 size={12} />
+                </button>
+                <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full"><X size={12} /></button>
+            </div>
+
+            <div className="flex items-center gap-3 mb-2 text-slate-500">
+                <label className="flex items-center gap-1">
+                    Client
+                    <select
+                        value={client.id}
+                        onChange={(e) => onChange({ profileId: e.target.value })}
+                        className="p-0.5 border border-slate-200 rounded text-slate-700"
+                    >
+                        {clientProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-1">
+                    Speed
+                    <input
+                        type="number"
+                        min={0.1}
+                        step={0.1}
+                        value={route.speedMps}
+                        onChange={(e) => {
+                            const val = parseFloat(e.target.value);
+                            if (!Number.isNaN(val) && val > 0) onChange({ speedMps: val });
+                        }}
+                        className="w-12 p-0.5 border border-slate-200 rounded text-right text-slate-700"
+                    />
+                    m/s
+                </label>
+                <span className="ml-auto font-mono text-slate-400">
+                    roam {client.roamThresholdDbm} dBm / {client.roamHysteresisDb} dB
+                </span>
+            </div>
+
+            {!result || result.samples.length === 0 ? (
+                <div className="text-slate-400 italic text-center py-4">No signal along this route</div>
+            ) : (
+                <>
+                    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28 bg-slate-50 rounded cursor-crosshair" onClick={handleChartClick}>
+                        {result.segments.map((segment, i) => (
+                            <rect
+                                key={i}
+                                x={x(segment.startS)}
+                                y={0}
+                                width={Math.max(1, x(segment.endS) - x(segment.startS))}
+                                height={HEIGHT}
+                                fill={FLAG_STYLES[segment.flag].fill}
+                            />
+                        ))}
+                        <line x1={0} x2={WIDTH} y1={y(client.roamThresholdDbm)} y2={y(client.roamThresholdDbm)} stroke="#f59e0b" strokeDasharray="4 3" strokeWidth={1} />
+                        <polyline points={toPoints(result.samples, s => s.bestRssi)} fill="none" stroke="#94a3b8" strokeDasharray="3 2" strokeWidth={1} />
+                        {servingRuns.filter(run => run.apIndex >= 0).map((run, i) => (
+                            <polyline key={i} points={toPoints(run.samples, s => s.rssi)} fill="none" stroke={apLabels[run.apIndex]?.color ?? '#2563eb'} strokeWidth={2} />
+                        ))}
+                        {result.events.map((event, i) => (
+                            <line key={i} x1={x(event.timeS)} x2={x(event.timeS)} y1={0} y2={HEIGHT} stroke={event.toIndex < 0 ? '#ef4444' : '#6366f1'} strokeWidth={1} />
+                        ))}
+                        <line x1={x(playheadS)} x2={x(playheadS)} y1={0} y2={HEIGHT} stroke="#0f172a" strokeWidth={1.5} />
+                    </svg>
+                    <div className="flex justify-between text-[9px] font-mono text-slate-400 mt-0.5">
+                        <span>0 s</span>
+                        <span>serving — best ┄ roam threshold ┄</span>
+                        <span>{result.durationS.toFixed(0)} s / {result.lengthM.toFixed(0)} m</span>
+                    </div>
+
+                    <div className="flex items-center gap-2 mt-2">
+                        <button onClick={onPlayToggle} className="p-1 rounded bg-blue-600 text-white hover:bg-blue-700" title={playing ? 'Pause' : 'Play'}>
+                            {playing ? <Pause size={12} /> : <Play size={12} />}
+                        </button>
+                        <select
+                            value={playbackRate}
+                            onChange={(e) => onPlaybackRateChange(parseFloat(e.target.value))}
+                            className="p-0.5 border border-slate-200 rounded text-slate-700"
+                        >
+                            {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                        </select>
+                        {current && (
+                            <span className="font-mono text-slate-600 truncate">
+                                {playheadS.toFixed(1)} s · {current.servingIndex >= 0
+                                    ? `${apName(current.servingIndex)} ${Math.round(current.rssi)} dBm, SINR ${Math.round(current.sinr)} dB`
+                                    : 'not associated'}
+                                {current.flag && <span className={cn('ml-1 font-bold', FLAG_STYLES[current.flag].text)}>{FLAG_STYLES[current.flag].label}</span>}
+                            </span>
+                        )}
+                    </div>
+
+                    <div className="flex gap-4 mt-2 text-[10px]">
+                        <span className="text-slate-500">Roams: <b className="text-slate-700">{result.events.filter(e => e.fromIndex >= 0 && e.toIndex >= 0).length}</b></span>
+                        <span className={FLAG_STYLES.sticky.text}>Sticky: <b>{flaggedM('sticky').toFixed(1)} m</b></span>
+                        <span className={FLAG_STYLES.gap.text}>Below threshold: <b>{flaggedM('gap').toFixed(1)} m</b></span>
+                    </div>
+
+                    {result.events.length > 0 && (
+                        <div className="mt-2 max-h-24 overflow-y-auto border-t border-slate-100 pt-1">
+                            {result.events.map((event, i) => (
+                                <button
+                                    key={i}
+                                    onClick={() => onSeek(event.timeS)}
+                                    className="w-full flex gap-2 px-1 py-0.5 rounded hover:bg-slate-100 text-left"
+                                >
+                                    <span className="font-mono text-slate-400 w-12">{event.timeS.toFixed(1)} s</span>
+                                    <span className={event.toIndex < 0 ? 'text-red-600' : 'text-slate-700'}>{describeEvent(event)}</span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,52 +1,162 @@
 import React from 'react';
+import { Band, BAND_PROFILES, ClientProfile, ViewMode } from '@/types';
+import { ServingCell, ViewStats } from '@/utils/coverageAnalysis';
+import { NO_SIGNAL_DBM } from '@/utils/propagation';
+
+interface SignalLegendProps {
+    band: Band;
+    viewMode?: ViewMode;
+    stats?: ViewStats | null; // Share of the floor per tier of the current view
+    apCountThresholdDbm?: number;
+    referenceClient?: ClientProfile; // Client of the data-rate, uplink and server views
+    servingCells?: ServingCell[];    // Server view: area and client share per AP
+}
+
+// Tier colours, strongest first (same order as the heatmap colours)
+const TIER_COLORS = [
+    { dot: 'bg-[rgb(34,197,94)]', glow: 'shadow-[0_0_8px_rgba(34,197,94,0.8)]' },
+    { dot: 'bg-[rgb(234,179,8)]', glow: 'shadow-[0_0_8px_rgba(234,179,8,0.8)]' },
+    { dot: 'bg-[rgb(249,115,22)]', glow: 'shadow-[0_0_8px_rgba(249,115,22,0.8)]' },
+    { dot: 'bg-[rgb(59,130,246)]', glow: 'shadow-[0_0_8px_rgba(59,130,246,0.8)]' },
+    { dot: 'bg-[rgb(239,68,68)]', glow: 'shadow-[0_0_8px_rgba(239,68,68,0.8)]' }
+];
+
+const RSSI_TIERS = ['Excellent (> -45)', 'Good (-45 to -60)', 'Fair (-60 to -65)', 'Weak (-65 to -75)', 'Bad (-75 to -85)', 'Dead Zone (< -85)'];
+const RSSI_SCALE = ['-85', '-75', '-65', '-60', '-45'];
+
+const LEGENDS: Record<ViewMode, { title: string; unit: string; scale: string[]; tiers: string[] }> = {
+    rssi: {
+        title: 'Signal Strength (dBm)',
+        unit: 'dBm',
+        scale: RSSI_SCALE,
+        tiers: RSSI_TIERS
+    },
+    sinr: {
+        title: 'SINR (dB)',
+        unit: 'dB',
+        scale: ['-5', '5', '10', '15', '25'],
+        tiers: ['Excellent (> 25)', 'Good (15 to 25)', 'Fair (10 to 15)', 'Weak (5 to 10)', 'Bad (-5 to 5)', 'Unusable (< -5)']
+    },
+    rate: {
+        title: 'PHY Data Rate (Mbps)',
+        unit: 'Mbps',
+        scale: ['1', '25', '100', '200', '400'],
+        tiers: ['Excellent (≥ 400)', 'Good (200 to 400)', 'Fair (100 to 200)', 'Weak (25 to 100)', 'Bad (< 25)', 'No Service']
+    },
+    uplink: {
+        title: 'Uplink Signal at AP (dBm)',
+        unit: 'dBm',
+        scale: RSSI_SCALE,
+        tiers: RSSI_TIERS
+    },
+    secondary: {
+        title: '2nd Strongest AP (dBm)',
+        unit: 'dBm',
+        scale: RSSI_SCALE,
+        tiers: RSSI_TIERS
+    },
+    tertiary: {
+        title: '3rd Strongest AP (dBm)',
+        unit: 'dBm',
+        scale: RSSI_SCALE,
+        tiers: RSSI_TIERS
+    },
+    apCount: {
+        title: 'APs Heard',
+        unit: 'APs',
+        scale: ['0', '1', '2', '3', '5+'],
+        tiers: ['5 or more', '4 APs', '3 APs', '2 APs', '1 AP', 'None']
+    },
+    measured: {
+        title: 'Measured Signal (dBm)',
+        unit: 'dBm',
+        scale: RSSI_SCALE,
+        tiers: RSSI_TIERS
+    },
+    server: {
+        title: 'Primary Server',
+        unit: 'm²',
+        scale: [],
+        tiers: []
+    }
+};
+
+const SIZING_LABELS = { large: 'Covers too much', small: 'Covers too little' };
+
+export function SignalLegend({ band, viewMode = 'rssi', stats = null, apCountThresholdDbm, referenceClient, servingCells = [] }: SignalLegendProps) {
+    const legend = LEGENDS[viewMode];
+    const title = viewMode === 'apCount' && apCountThresholdDbm !== undefined ? `APs Heard (≥ ${apCountThresholdDbm} dBm)` : legend.title;
 
-export function SignalLegend() {
     return (
         <div className="absolute bottom-4 right-4 bg-slate-900/95 backdrop-blur-sm p-4 rounded-lg shadow-2xl border border-slate-700 pointer-events-none w-56">
-            <h3 className="text-[10px] uppercase tracking-widest font-bold mb-4 text-slate-400">Signal Strength (dBm)</h3>
-
-            {/* Color Gradient Bar */}
-            <div className="h-2 w-full rounded-full bg-gradient-to-r from-[rgb(239,68,68)] via-[rgb(59,130,246)] via-[rgb(249,115,22)] via-[rgb(234,179,8)] to-[rgb(34,197,94)] mb-2"></div>
-            <div className="flex justify-between text-[9px] font-mono text-slate-500 mb-6">
-                <span>-85</span>
-                <span>-75</span>
-                <span>-65</span>
-                <span>-60</span>
-                <span>-45</span>
-            </div>
+            <h3 className="text-[10px] uppercase tracking-widest font-bold mb-4 text-slate-400">{title}</h3>
 
-            <div className="flex flex-col gap-2.5">
-                <div className="flex items-center gap-3">
-                    <div className="w-3 h-3 rounded-full shadow-[0_0_8px_rgba(34,197,94,0.8)] bg-[rgb(34,197,94)]"></div>
-                    <span className="text-[11px] font-medium text-slate-300">Excellent (&gt; -45)</span>
+            {viewMode === 'server' ? (
+                <div className="flex flex-col gap-2 max-h-64 overflow-y-auto pointer-events-auto">
+                    {servingCells.length === 0 && <span className="text-[11px] text-slate-500 italic">No AP serves the floor</span>}
+                    {servingCells.map(cell => (
+                        <div key={cell.apIndex}>
+                            <div className="flex items-center gap-3">
+                                <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: cell.color }}></div>
+                                <span className="text-[11px] font-medium flex-1 truncate text-slate-300">{cell.name}</span>
+                                <span className="text-[10px] font-mono text-slate-400">{cell.areaM2.toFixed(0)} m²</span>
+                            </div>
+                            <div className="flex justify-between pl-6 text-[9px] font-mono text-slate-500">
+                                <span>{cell.floorPercent.toFixed(0)}% of floor</span>
+                                <span className={cell.overloaded ? 'text-red-400 font-bold' : ''}>{Math.round(cell.clients)} clients ({cell.clientPercent.toFixed(0)}%)</span>
+                            </div>
+                            {cell.sizing && <div className="pl-6 text-[9px] font-bold text-amber-400">{SIZING_LABELS[cell.sizing]}</div>}
+                        </div>
+                    ))}
                 </div>
-                <div className="flex items-center gap-3">
-                    <div className="w-3 h-3 rounded-full shadow-[0_0_8px_rgba(234,179,8,0.8)] bg-[rgb(234,179,8)]"></div>
-                    <span className="text-[11px] font-medium text-slate-300">Good (-45 to -60)</span>
-                </div>
-                <div className="flex items-center gap-3">
-                    <div className="w-3 h-3 rounded-full shadow-[0_0_8px_rgba(249,115,22,0.8)] bg-[rgb(249,115,22)]"></div>
-                    <span className="text-[11px] font-medium text-slate-300">Fair (-60 to -65)</span>
-                </div>
-                <div className="flex items-center gap-3">
-                    <div className="w-3 h-3 rounded-full shadow-[0_0_8px_rgba(59,130,246,0.8)] bg-[rgb(59,130,246)]"></div>
-                    <span className="text-[11px] font-medium text-slate-300">Weak (-65 to -75)</span>
-                </div>
-                <div className="flex items-center gap-3">
-                    <div className="w-3 h-3 rounded-full shadow-[0_0_8px_rgba(239,68,68,0.8)] bg-[rgb(239,68,68)]"></div>
-                    <span className="text-[11px] font-medium text-slate-300">Bad (-75 to -85)</span>
-                </div>
-                 <div className="flex items-center gap-3">
-                    <div className="w-3 h-3 rounded-full border border-slate-600 bg-transparent"></div>
-                    <span className="text-[11px] font-medium text-slate-500">Dead Zone (&lt; -85)</span>
-                </div>
-            </div>
+            ) : (
+                <>
+                    {/* Color Gradient Bar */}
+                    <div className="h-2 w-full rounded-full bg-gradient-to-r from-[rgb(239,68,68)] via-[rgb(59,130,246)] via-[rgb(249,115,22)] via-[rgb(234,179,8)] to-[rgb(34,197,94)] mb-2"></div>
+                    <div className="flex justify-between text-[9px] font-mono text-slate-500 mb-6">
+                        {legend.scale.map(label => <span key={label}>{label}</span>)}
+                    </div>
 
-            <div className="mt-4 pt-3 border-t border-slate-800">
-                <div className="flex items-center justify-between">
-                    <span className="text-[9px] text-slate-500 uppercase">Model</span>
-                    <span className="text-[9px] text-blue-400 font-bold">5GHz Log-Distance</span>
-                </div>
+                    <div className="flex flex-col gap-2.5">
+                        {legend.tiers.map((label, i) => (
+                            <div key={label} className="flex items-center gap-3">
+                                {i < TIER_COLORS.length ? (
+                                    <div className={`w-3 h-3 rounded-full ${TIER_COLORS[i].glow} ${TIER_COLORS[i].dot}`}></div>
+                                ) : (
+                                    <div className="w-3 h-3 rounded-full border border-slate-600 bg-transparent"></div>
+                                )}
+                                <span className={`text-[11px] font-medium flex-1 ${i < TIER_COLORS.length ? 'text-slate-300' : 'text-slate-500'}`}>{label}</span>
+                                {stats && <span className="text-[10px] font-mono text-slate-400">{stats.tierPercents[i].toFixed(0)}%</span>}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            <div className="mt-4 pt-3 border-t border-slate-800 space-y-1">
+                {stats && (
+                    <div className="flex items-center justify-between">
+                        <span className="text-[9px] text-slate-500 uppercase">Median</span>
+                        <span className="text-[9px] text-blue-400 font-bold">{legend.unit === 'dBm' && stats.median <= NO_SIGNAL_DBM ? 'None' : `${Math.round(stats.median)} ${legend.unit}`}</span>
+                    </div>
+                )}
+                {(viewMode === 'rate' || viewMode === 'uplink' || viewMode === 'server') && referenceClient ? (
+                    <div className="flex items-center justify-between">
+                        <span className="text-[9px] text-slate-500 uppercase">{referenceClient.name}</span>
+                        <span className="text-[9px] text-blue-400 font-bold">
+                            {viewMode === 'rate'
+                                ? `${referenceClient.standard} ${referenceClient.spatialStreams}SS ≤${referenceClient.maxChannelWidth} MHz`
+                                : viewMode === 'server'
+                                ? `associates ≥ ${referenceClient.sensitivityDbm[0] - referenceClient.antennaGain} dBm`
+                                : `${referenceClient.txPower} dBm, ${referenceClient.antennaGain} dBi`}
+                        </span>
+                    </div>
+                ) : (
+                    <div className="flex items-center justify-between">
+                        <span className="text-[9px] text-slate-500 uppercase">Model</span>
+                        <span className="text-[9px] text-blue-400 font-bold">{BAND_PROFILES[band].label} Log-Distance</span>
+                    </div>
+                )}
             </div>
         </div>
     );
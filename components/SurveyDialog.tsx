@@ -0,0 +1,300 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { RotateCcw, Save, SlidersHorizontal, Trash2, Upload, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AccessPoint, Band, BAND_PROFILES, PathLossModel, SurveyPoint } from '@/types';
+import { CalibrationResult } from '@/utils/calibration';
+import { FOREIGN_BSSID, matchBssid, parseSurveyCsv, SurveyErrorStats, SurveyResult } from '@/utils/survey';
+
+interface SurveyDialogProps {
+    points: SurveyPoint[];
+    aps: AccessPoint[]; // APs serving this floor, indexed like the result
+    assignments: Record<string, string>; // BSSID -> AP id
+    result: SurveyResult | null;
+    band: Band;
+    pixelsPerMeter: number;
+    pathLoss: PathLossModel; // In use on the band
+    calibrated: boolean;     // The project overrides the band's path-loss defaults
+    onCalibrate: () => CalibrationResult; // Throws when there are too few readings
+    onApplyCalibration: (result: CalibrationResult) => void;
+    onResetCalibration: () => void;
+    onImport: (points: SurveyPoint[]) => void;
+    onAssignmentsChange: (assignments: Record<string, string>) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+function formatStats(stats: SurveyErrorStats) {
+    return `${stats.meanDb > 0 ? '+' : ''}${stats.meanDb.toFixed(1)} ± ${stats.stdDevDb.toFixed(1)} dB`;
+}
+
+export function SurveyDialog({ points, aps, assignments, result, band, pixelsPerMeter, pathLoss, calibrated, onCalibrate, onApplyCalibration, onResetCalibration, onImport, onAssignmentsChange, onClear, onClose }: SurveyDialogProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [calibration, setCalibration] = useState<CalibrationResult | null>(null);
+
+    // Every BSSID heard on the floor with its SSIDs, channels and reading count
+    const bssids = new Map<string, { ssids: Set<string>; channels: Set<number>; count: number }>();
+    points.forEach(point => point.measurements.forEach(m => {
+        const entry = bssids.get(m.bssid) ?? { ssids: new Set(), channels: new Set(), count: 0 };
+        if (m.ssid) entry.ssids.add(m.ssid);
+        entry.channels.add(m.channel);
+        entry.count++;
+        bssids.set(m.bssid, entry);
+    }));
+
+    const handleImport = async (file: File) => {
+        try {
+            const imported = parseSurveyCsv(await file.text(), file.name, pixelsPerMeter);
+            onImport(imported);
+            setMessage(`${file.name}: ${imported.length} point(s), ${imported.reduce((sum, p) => sum + p.measurements.length, 0)} reading(s)`);
+        } catch (e) {
+            setMessage(e instanceof Error ? e.message : 'The survey could not be read');
+        }
+    };
+
+    const handleCalibrate = () => {
+        try {
+            setCalibration(onCalibrate());
+            setMessage(null);
+        } catch (e) {
+            setCalibration(null);
+            setMessage(e instanceof Error ? e.message : 'Calibration failed');
+        }
+    };
+
+    const setAssignment = (bssid: string, apId: string) => {
+        const next = { ...assignments };
+        if (apId) next[bssid] = apId;
+        else delete next[bssid];
+        onAssignmentsChange(next);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]">
+            <div className="bg-white rounded-lg shadow-2xl p-6 max-w-4xl w-full mx-4 max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-neutral-800">Site Survey</h2>
+                        <p className="text-xs text-neutral-400">Measured RSSI against the predicted signal of the matching AP at each point, on the {BAND_PROFILES[band].label} band. BSSIDs match an AP by its base MAC unless assigned here.</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 hover:bg-neutral-100 rounded-full text-neutral-500">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-1 space-y-4">
+                    <div className="grid grid-cols-3 gap-3 text-xs">
+                        <div className="p-3 rounded-lg bg-neutral-50 border border-neutral-100">
+                            <div className="text-[10px] uppercase tracking-wider text-neutral-400">Points / Readings</div>
+                            <div className="text-lg font-bold text-neutral-700">{points.length} / {points.reduce((sum, p) => sum + p.measurements.length, 0)}</div>
+                        </div>
+                        <div className="p-3 rounded-lg bg-neutral-50 border border-neutral-100">
+                            <div className="text-[10px] uppercase tracking-wider text-neutral-400">Floor Error (measured - predicted)</div>
+                            <div className="text-lg font-bold text-neutral-700">{result?.floor ? formatStats(result.floor) : '-'}</div>
+                        </div>
+                        <div className="p-3 rounded-lg bg-neutral-50 border border-neutral-100">
+                            <div className="text-[10px] uppercase tracking-wider text-neutral-400">Compared / Unmatched BSSIDs</div>
+                            <div className="text-lg font-bold text-neutral-700">{result?.comparisons.length ?? 0} / {result?.unmatchedBssids.length ?? 0}</div>
+                        </div>
+                    </div>
+
+                    <div className="p-3 rounded-lg border border-neutral-100 text-xs space-y-2">
+                        <div className="flex items-center gap-3">
+                            <div className="flex-1">
+                                <div className="font-bold text-neutral-700">Propagation Calibration</div>
+                                <div className="text-neutral-400">
+                                    Path loss {pathLoss.referenceLoss} dB at 1 m, exponent {pathLoss.pathLossExponent} ({calibrated ? 'calibrated' : 'band default'}).
+                                    Fits both and the wall losses to the readings of the APs on this floor.
+                                </div>
+                            </div>
+                            {calibrated && (
+                                <button
+                                    onClick={() => {
+                                        onResetCalibration();
+                                        setCalibration(null);
+                                    }}
+                                    className="flex items-center gap-1 px-2 py-1 border border-neutral-200 rounded text-neutral-600 hover:bg-neutral-50"
+                                    title="Use the band's default path-loss parameters (material losses stay as they are)"
+                                >
+                                    <RotateCcw size={12} /> Band Defaults
+                                </button>
+                            )}
+                            <button
+                                onClick={handleCalibrate}
+                                disabled={!result || result.comparisons.length === 0}
+                                className="flex items-center gap-1 px-2 py-1 border border-blue-200 rounded text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                            >
+                                <SlidersHorizontal size={12} /> Calibrate
+                            </button>
+                        </div>
+
+                        {calibration && (
+                            <>
+                                <table className="w-full">
+                                    <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                                        <tr>
+                                            <th className="p-1">Parameter</th>
+                                            <th className="p-1 text-right">Before</th>
+                                            <th className="p-1 text-right">Fitted</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="font-mono">
+                                        <tr className="border-t border-neutral-100 font-bold">
+                                            <td className="p-1 font-sans">RMS error ({calibration.readings} readings)</td>
+                                            <td className="p-1 text-right">{calibration.rmseBefore.toFixed(1)} dB</td>
+                                            <td className="p-1 text-right text-green-700">{calibration.rmseAfter.toFixed(1)} dB</td>
+                                        </tr>
+                                        <tr className="border-t border-neutral-100">
+                                            <td className="p-1 font-sans">Reference loss (1 m)</td>
+                                            <td className="p-1 text-right">{calibration.before.referenceLoss} dB</td>
+                                            <td className="p-1 text-right">{calibration.after.referenceLoss} dB</td>
+                                        </tr>
+                                        <tr className="border-t border-neutral-100">
+                                            <td className="p-1 font-sans">Path-loss exponent</td>
+                                            <td className="p-1 text-right">{calibration.before.pathLossExponent}</td>
+                                            <td className="p-1 text-right">{calibration.after.pathLossExponent}</td>
+                                        </tr>
+                                        {calibration.materials.map(fit => (
+                                            <tr key={fit.materialId} className="border-t border-neutral-100">
+                                                <td className="p-1 font-sans">{fit.name} <span className="text-neutral-400">({fit.crossings} crossings)</span></td>
+                                                <td className="p-1 text-right">{fit.before} dB</td>
+                                                <td className="p-1 text-right">{fit.after} dB</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <div className="flex items-center gap-3">
+                                    <span className="flex-1 text-neutral-400">The fitted error is that of the heatmap recomputed with the fitted values.</span>
+                                    <button
+                                        onClick={() => {
+                                            onApplyCalibration(calibration);
+                                            setCalibration(null);
+                                            setMessage(`Saved the fitted ${BAND_PROFILES[band].label} parameters to the project's propagation profile`);
+                                        }}
+                                        className="flex items-center gap-1 px-2 py-1 bg-blue-600 rounded text-white hover:bg-blue-700"
+                                    >
+                                        <Save size={12} /> Save as Propagation Profile
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+
+                    {result && result.byAp.length > 0 && (
+                        <table className="w-full text-xs">
+                            <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                                <tr>
+                                    <th className="p-2">AP</th>
+                                    <th className="p-2 text-right">Readings</th>
+                                    <th className="p-2 text-right">Mean Error</th>
+                                    <th className="p-2 text-right">Std Dev</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.byAp.map(({ apIndex, stats }) => (
+                                    <tr key={apIndex} className="border-t border-neutral-100">
+                                        <td className="p-2">
+                                            <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: aps[apIndex]?.color }} />
+                                            {aps[apIndex]?.name}
+                                        </td>
+                                        <td className="p-2 text-right font-mono">{stats.count}</td>
+                                        <td className="p-2 text-right font-mono">{stats.meanDb > 0 ? '+' : ''}{stats.meanDb.toFixed(1)} dB</td>
+                                        <td className="p-2 text-right font-mono">{stats.stdDevDb.toFixed(1)} dB</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {bssids.size > 0 && (
+                        <table className="w-full text-xs">
+                            <thead className="text-[10px] uppercase tracking-wider text-neutral-400 text-left">
+                                <tr>
+                                    <th className="p-2">BSSID</th>
+                                    <th className="p-2">SSID</th>
+                                    <th className="p-2">Channels</th>
+                                    <th className="p-2 text-right">Readings</th>
+                                    <th className="p-2">Access Point</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {Array.from(bssids).sort(([a], [b]) => a.localeCompare(b)).map(([bssid, info]) => {
+                                    const autoIndex = matchBssid(bssid, aps, {});
+                                    const unmatched = result?.unmatchedBssids.includes(bssid) ?? false;
+                                    return (
+                                        <tr key={bssid} className="border-t border-neutral-100">
+                                            <td className="p-2 font-mono">{bssid}</td>
+                                            <td className="p-2">{Array.from(info.ssids).join(', ')}</td>
+                                            <td className="p-2 font-mono">{Array.from(info.channels).sort((a, b) => a - b).join(', ')}</td>
+                                            <td className="p-2 text-right font-mono">{info.count}</td>
+                                            <td className="p-2">
+                                                <select
+                                                    value={assignments[bssid] ?? ''}
+                                                    onChange={(e) => setAssignment(bssid, e.target.value)}
+                                                    className={cn(
+                                                        "p-1 border rounded outline-none focus:ring-1 focus:ring-blue-500 max-w-[14rem]",
+                                                        unmatched ? 'border-amber-300 text-amber-700' : 'border-neutral-200'
+                                                    )}
+                                                >
+                                                    <option value="">Auto: {autoIndex >= 0 ? aps[autoIndex].name : 'no MAC match'}</option>
+                                                    {aps.map(ap => <option key={ap.id} value={ap.id}>{ap.name}</option>)}
+                                                    <option value={FOREIGN_BSSID}>Not on this plan</option>
+                                                </select>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {points.length === 0 && (
+                        <div className="text-xs text-neutral-400 italic text-center py-6">
+                            No survey points yet. Click them in with the Survey Point tool, or import a CSV with x,y (meters) or plan_x,plan_y (pixels) and bssid, ssid, channel, rssi columns.
+                        </div>
+                    )}
+                </div>
+
+                {message && <div className="mt-3 text-xs text-neutral-600">{message}</div>}
+
+                <div className="flex gap-3 pt-4 border-t mt-4">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".csv"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                    >
+                        <Upload size={16} /> Import CSV
+                    </button>
+                    <button
+                        onClick={() => {
+                            if (confirm('Remove every survey point on this floor?')) onClear();
+                        }}
+                        disabled={points.length === 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-red-200 rounded-md text-sm font-medium text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                    >
+                        <Trash2 size={16} /> Clear Survey
+                    </button>
+                    <div className="flex-1" />
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 border border-neutral-300 hover:bg-neutral-50 rounded-lg text-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SurveyMeasurement, SurveyPoint } from '@/types';
+import { normalizeMac, SURVEY_DELTA_WARN_DB, SurveyComparison } from '@/utils/survey';
+
+interface SurveyPointPanelProps {
+    point: SurveyPoint;
+    comparisons: SurveyComparison[]; // Of this point, on the band in view
+    apLabels: { name: string; color: string }[]; // Indexed like the comparisons' AP indexes
+    onChange: (measurements: SurveyMeasurement[]) => void;
+    onDelete: () => void;
+    onClose: () => void;
+}
+
+export function SurveyPointPanel({ point, comparisons, apLabels, onChange, onDelete, onClose }: SurveyPointPanelProps) {
+    const updateMeasurement = (index: number, update: Partial<SurveyMeasurement>) => {
+        onChange(point.measurements.map((m, i) => i === index ? { ...m, ...update } : m));
+    };
+
+    return (
+        <div
+            className="absolute bottom-4 left-4 z-40 bg-white/95 backdrop-blur px-3 py-2 rounded-lg shadow-lg border border-slate-200 text-xs w-[34rem]"
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="font-bold text-slate-700">Survey Point</span>
+                <span className="flex-1 text-slate-400">{point.measurements.length} BSSID{point.measurements.length === 1 ? '' : 's'}</span>
+                <button onClick={onDelete} className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded" title="Delete Survey Point">
+                    <Trash2 size={12} />
+                </button>
+                <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full"><X size={12} /></button>
+            </div>
+
+            <div className="max-h-56 overflow-y-auto">
+                <table className="w-full">
+                    <thead className="text-[10px] uppercase tracking-wider text-slate-400 text-left">
+                        <tr>
+                            <th className="p-1">BSSID</th>
+                            <th className="p-1">SSID</th>
+                            <th className="p-1 text-right">Ch</th>
+                            <th className="p-1 text-right">RSSI</th>
+                            <th className="p-1">AP</th>
+                            <th className="p-1 text-right">Pred.</th>
+                            <th className="p-1 text-right">Δ dB</th>
+                            <th className="p-1"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {point.measurements.map((measurement, i) => {
+                            const comparison = comparisons.find(c => c.measurement === measurement);
+                            const ap = comparison ? apLabels[comparison.apIndex] : undefined;
+                            return (
+                                <tr key={i} className="border-t border-slate-100">
+                                    <td className="p-1">
+                                        {/* Keyed by the value so an invalid MAC reverts on blur */}
+                                        <input
+                                            key={measurement.bssid}
+                                            type="text"
+                                            defaultValue={measurement.bssid}
+                                            onBlur={(e) => {
+                                                const bssid = normalizeMac(e.target.value);
+                                                if (bssid) updateMeasurement(i, { bssid });
+                                                else e.target.value = measurement.bssid;
+                                            }}
+                                            className="w-32 p-0.5 border border-slate-200 rounded font-mono"
+                                        />
+                                    </td>
+                                    <td className="p-1">
+                                        <input
+                                            type="text"
+                                            value={measurement.ssid}
+                                            onChange={(e) => updateMeasurement(i, { ssid: e.target.value })}
+                                            className="w-20 p-0.5 border border-slate-200 rounded"
+                                        />
+                                    </td>
+                                    <td className="p-1 text-right">
+                                        <input
+                                            type="number"
+                                            value={measurement.channel}
+                                            onChange={(e) => {
+                                                const val = parseInt(e.target.value);
+                                                if (!Number.isNaN(val)) updateMeasurement(i, { channel: val });
+                                            }}
+                                            className="w-12 p-0.5 border border-slate-200 rounded text-right"
+                                        />
+                                    </td>
+                                    <td className="p-1 text-right">
+                                        <input
+                                            type="number"
+                                            value={measurement.rssi}
+                                            onChange={(e) => {
+                                                const val = parseFloat(e.target.value);
+                                                if (!Number.isNaN(val)) updateMeasurement(i, { rssi: val });
+                                            }}
+                                            className="w-14 p-0.5 border border-slate-200 rounded text-right"
+                                        />
+                                    </td>
+                                    <td className="p-1 truncate max-w-[6rem]" style={ap ? { color: ap.color } : undefined}>
+                                        {ap?.name ?? <span className="text-slate-400">-</span>}
+                                    </td>
+                                    <td className="p-1 text-right font-mono text-slate-500">{comparison ? Math.round(comparison.predicted) : '-'}</td>
+                                    <td className={cn(
+                                        "p-1 text-right font-mono",
+                                        comparison && Math.abs(comparison.delta) >= SURVEY_DELTA_WARN_DB ? 'text-red-600 font-bold' : 'text-slate-700'
+                                    )}>
+                                        {comparison ? `${comparison.delta > 0 ? '+' : ''}${comparison.delta.toFixed(1)}` : '-'}
+                                    </td>
+                                    <td className="p-1 text-right">
+                                        <button
+                                            onClick={() => onChange(point.measurements.filter((_, j) => j !== i))}
+                                            className="p-0.5 text-slate-400 hover:text-red-500"
+                                            title="Remove Reading"
+                                        >
+                                            <X size={12} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <button
+                onClick={() => onChange([...point.measurements, { bssid: '00:00:00:00:00:00', ssid: '', channel: 36, rssi: -65 }])}
+                className="mt-2 flex items-center gap-1 px-2 py-1 border border-blue-200 rounded text-blue-600 hover:bg-blue-50"
+            >
+                <Plus size={12} /> Add Reading
+            </button>
+        </div>
+    );
+}
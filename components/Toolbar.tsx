@@ -1,11 +1,11 @@
 'use client';
 
 import React, { DragEvent } from 'react';
-import { MousePointer2, Pencil, Router, Trash2, ZoomIn, ZoomOut, Save, DoorOpen, Upload, Square, Radio, Ruler, Layers, Plus, GripVertical, RefreshCw, Smartphone } from 'lucide-react';
+import { MousePointer2, Pencil, Router, Trash2, ZoomIn, ZoomOut, Save, DoorOpen, Upload, Square, Radio, Ruler, Layers, Plus, GripVertical, RefreshCw, Smartphone, Library, Zap, SquareDashed, Sparkles, ListChecks, Settings2, Antenna, Boxes, TabletSmartphone, Footprints, UsersRound, Crosshair, ScanLine, Download, DraftingCompass } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { WallMaterial } from '@/types';
+import { WallMaterial, Band, BANDS, BAND_PROFILES, MaterialDefinition, ViewMode, ClientProfile, CapacityLimits, InterpolationMethod } from '@/types';
 
-type ToolType = 'select' | 'wall' | 'ap' | 'door' | 'scale' | 'device';
+type ToolType = 'select' | 'wall' | 'ap' | 'door' | 'scale' | 'device' | 'interferer' | 'region' | 'route' | 'zone' | 'survey';
 
 interface ToolbarProps {
     activeTool: ToolType;
@@ -14,13 +14,16 @@ interface ToolbarProps {
     setScale: (scale: number) => void;
     selectedMaterial: WallMaterial;
     onMaterialChange: (material: WallMaterial) => void;
+    materials: MaterialDefinition[];
+    onOpenMaterialLibrary: () => void;
     onUploadImage: (url: string | null) => void;
+    onImportDxf: (file: File) => void;
     imageOpacity: number;
     onOpacityChange: (val: number) => void;
     onClearAll: () => void;
     canDelete: boolean;
     onDeleteSelected: () => void;
-    selectedEntity: 'wall' | 'ap' | 'door' | 'device' | null;
+    selectedEntity: 'wall' | 'ap' | 'door' | 'device' | 'interferer' | 'route' | 'zone' | 'survey' | null;
     showAntenna: boolean;
     onToggleAntenna: () => void;
     
@@ -31,17 +34,41 @@ interface ToolbarProps {
     onAddFloor: () => void;
     onDeleteFloor: (id: string) => void;
     onReorderFloors?: (dragIndex: number, hoverIndex: number) => void;
+    onEditFloor: (id: string) => void;
     
     // Database Props
     onSaveToDb: () => void;
+    onImportEsx: (file: File) => void;
+    onExportEsx: () => void;
     isSavingToDb: boolean;
     autoSaveDb: boolean;
     onToggleAutoSaveDb: () => void;
 
     // Enterprise Props
-    viewMode: 'rssi' | 'sinr';
-    onViewModeChange: (mode: 'rssi' | 'sinr') => void;
+    viewMode: ViewMode;
+    onViewModeChange: (mode: ViewMode) => void;
+    clientProfiles: ClientProfile[];
+    referenceClientId: string; // Client profile of the data-rate and uplink views
+    onReferenceClientChange: (profileId: string) => void;
+    onOpenClientProfiles: () => void;
+    apCountThresholdDbm: number; // AP-count view threshold
+    onApCountThresholdChange: (thresholdDbm: number) => void;
+    surveyInterpolation: InterpolationMethod; // Measured view
+    onSurveyInterpolationChange: (method: InterpolationMethod) => void;
+    noiseFloor: number; // dBm per 20MHz
+    onNoiseFloorChange: (noiseFloor: number) => void;
+    clientHeight: number; // Meters above the floor
+    onClientHeightChange: (clientHeight: number) => void;
+    capacityLimits: CapacityLimits; // Per radio, flagged in the capacity panel
+    onCapacityLimitsChange: (capacityLimits: CapacityLimits) => void;
+    onOpenRequirementProfiles: () => void;
+    band: Band;
+    onBandChange: (band: Band) => void;
     onAutoChannel: () => void;
+    onSuggestPlacement: () => void;
+    onOpenSurvey: () => void;
+    onOpenAntennaCatalog: () => void;
+    onOpenApModelCatalog: () => void;
     onClearAps: () => void;
     onClearDevices: () => void;
 }
@@ -49,13 +76,13 @@ interface ToolbarProps {
 export function Toolbar({
     activeTool, onToolChange,
     scale, setScale,
-    selectedMaterial, onMaterialChange,
+    selectedMaterial, onMaterialChange, materials, onOpenMaterialLibrary,
     onClearAll, canDelete, onDeleteSelected,
-    onUploadImage, imageOpacity, onOpacityChange,
+    onUploadImage, onImportDxf, imageOpacity, onOpacityChange,
     selectedEntity, showAntenna, onToggleAntenna,
-    floors, currentFloorId, onFloorChange, onAddFloor, onDeleteFloor, onReorderFloors,
-    onSaveToDb, isSavingToDb, autoSaveDb, onToggleAutoSaveDb,
-    viewMode, onViewModeChange, onAutoChannel, onClearAps, onClearDevices
+    floors, currentFloorId, onFloorChange, onAddFloor, onDeleteFloor, onReorderFloors, onEditFloor,
+    onSaveToDb, onImportEsx, onExportEsx, isSavingToDb, autoSaveDb, onToggleAutoSaveDb,
+    viewMode, onViewModeChange, clientProfiles, referenceClientId, onReferenceClientChange, onOpenClientProfiles, apCountThresholdDbm, onApCountThresholdChange, surveyInterpolation, onSurveyInterpolationChange, noiseFloor, onNoiseFloorChange, clientHeight, onClientHeightChange, capacityLimits, onCapacityLimitsChange, onOpenRequirementProfiles, band, onBandChange, onAutoChannel, onSuggestPlacement, onOpenSurvey, onOpenAntennaCatalog, onOpenApModelCatalog, onClearAps, onClearDevices
 }: ToolbarProps) {
 
     // --- Drag & Drop ---
@@ -92,24 +119,32 @@ export function Toolbar({
     };
 
 
+    const VIEW_MODES: { id: ViewMode; label: string }[] = [
+        { id: 'rssi', label: 'Coverage (RSSI)' },
+        { id: 'sinr', label: 'Interference (SINR)' },
+        { id: 'rate', label: 'Data Rate' },
+        { id: 'uplink', label: 'Uplink (RSSI)' },
+        { id: 'secondary', label: '2nd Strongest AP' },
+        { id: 'tertiary', label: '3rd Strongest AP' },
+        { id: 'apCount', label: 'AP Count' },
+        { id: 'server', label: 'Primary Server' },
+        { id: 'measured', label: 'Measured (Survey)' }
+    ];
+
     const tools = [
         { id: 'select', icon: MousePointer2, label: 'Select / Move' },
         { id: 'wall', icon: Square, label: 'Draw Wall' },
         { id: 'door', icon: DoorOpen, label: 'Add Door' },
         { id: 'ap', icon: Router, label: 'Add AP' },
         { id: 'device', icon: Smartphone, label: 'Add Device' },
+        { id: 'interferer', icon: Zap, label: 'Add Interferer' },
+        { id: 'region', icon: SquareDashed, label: 'Mounting Region' },
+        { id: 'route', icon: Footprints, label: 'Walk Route' },
+        { id: 'zone', icon: UsersRound, label: 'Density Zone' },
+        { id: 'survey', icon: Crosshair, label: 'Survey Point' },
         { id: 'scale', icon: Ruler, label: 'Set Scale' },
     ] as const;
 
-    const materials: { id: WallMaterial, label: string }[] = [
-        { id: 'concrete', label: 'Concrete (-15dB)' },
-        { id: 'brick', label: 'Brick (-10dB)' },
-        { id: 'wood', label: 'Wood (-4dB)' },
-        { id: 'drywall', label: 'Drywall (-3dB)' },
-        { id: 'glass', label: 'Glass (-3dB)' },
-        { id: 'metal', label: 'Metal (-50dB)' },
-    ];
-
     // const [saved, setSaved] = React.useState(false);
 
     return (
@@ -166,6 +201,14 @@ export function Toolbar({
                                     <span className="truncate">{floor.name}</span>
                                     {currentFloorId === floor.id && <span className="w-2 h-2 rounded-full bg-white animate-pulse shrink-0 ml-auto"></span>}
                                 </button>
+
+                                <button
+                                    onClick={() => onEditFloor(floor.id)}
+                                    className="p-2 text-neutral-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                    title="Floor Height & Alignment"
+                                >
+                                    <Settings2 size={14} />
+                                </button>
                                 
                                 {floors.length > 1 && (
                                     <button
@@ -214,7 +257,16 @@ export function Toolbar({
                 {/* MATERIAL SELECTOR (Only active when Wall tool is selected) */}
                 {activeTool === 'wall' && (
                     <div className="space-y-3 animate-in fade-in slide-in-from-top-4 duration-300">
-                        <label className="text-xs font-bold text-neutral-400 uppercase tracking-wider">Wall Material</label>
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs font-bold text-neutral-400 uppercase tracking-wider">Wall Material</label>
+                            <button
+                                onClick={onOpenMaterialLibrary}
+                                className="p-1 text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                                title="Manage Material Library"
+                            >
+                                <Library size={16} />
+                            </button>
+                        </div>
                         <div className="grid grid-cols-1 gap-2">
                             {materials.map((mat) => (
                                 <button
@@ -227,8 +279,11 @@ export function Toolbar({
                                             : "hover:bg-gray-50 text-gray-600 border border-transparent"
                                     )}
                                 >
-                                    <span>{mat.label.split(' (')[0]}</span>
-                                    <span className="text-xs opacity-70">{mat.label.split(' (')[1].replace(')', '')}</span>
+                                    <span className="flex items-center gap-2">
+                                        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: mat.color }} />
+                                        {mat.name}
+                                    </span>
+                                    <span className="text-xs opacity-70">-{mat.attenuation[band]}dB</span>
                                 </button>
                             ))}
                         </div>
@@ -238,25 +293,167 @@ export function Toolbar({
                 {/* View Mode (Enterprise) */}
                 <div className="space-y-3">
                     <label className="text-xs font-bold text-neutral-400 uppercase tracking-wider">View Mode</label>
+                    <div className="grid grid-cols-2 gap-1 bg-neutral-100 rounded-lg p-1">
+                        {VIEW_MODES.map(mode => (
+                            <button
+                                key={mode.id}
+                                onClick={() => onViewModeChange(mode.id)}
+                                className={cn(
+                                    "py-1.5 text-xs font-medium rounded-md transition-colors",
+                                    viewMode === mode.id ? "bg-white text-blue-700 shadow-sm" : "text-neutral-500 hover:text-neutral-700"
+                                )}
+                            >
+                                {mode.label}
+                            </button>
+                        ))}
+                    </div>
+                    {viewMode === 'apCount' && (
+                        <div className="flex items-center justify-between text-xs text-neutral-500">
+                            <span>Count APs Above</span>
+                            <span className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    step={1}
+                                    min={-95}
+                                    max={-40}
+                                    value={apCountThresholdDbm}
+                                    onChange={(e) => {
+                                        const value = parseFloat(e.target.value);
+                                        if (!isNaN(value)) onApCountThresholdChange(value);
+                                    }}
+                                    className="w-16 p-1 border border-neutral-200 rounded text-right text-neutral-700"
+                                />
+                                dBm
+                            </span>
+                        </div>
+                    )}
+                    {viewMode === 'measured' && (
+                        <div className="flex items-center justify-between text-xs text-neutral-500">
+                            <span>Interpolation</span>
+                            <select
+                                value={surveyInterpolation}
+                                onChange={(e) => onSurveyInterpolationChange(e.target.value as InterpolationMethod)}
+                                className="p-1 border border-neutral-200 rounded text-neutral-700"
+                            >
+                                <option value="kriging">Ordinary Kriging</option>
+                                <option value="idw">Inverse Distance</option>
+                            </select>
+                        </div>
+                    )}
+                    {(viewMode === 'rate' || viewMode === 'uplink') && (
+                        <div className="flex items-center justify-between text-xs text-neutral-500">
+                            <span>Reference Client</span>
+                            <select
+                                value={referenceClientId}
+                                onChange={(e) => onReferenceClientChange(e.target.value)}
+                                className="p-1 border border-neutral-200 rounded text-neutral-700 max-w-[9rem]"
+                            >
+                                {clientProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <div className="flex items-center justify-between text-xs text-neutral-500">
+                        <span>Noise Floor (20MHz)</span>
+                        <span className="flex items-center gap-1">
+                            <input
+                                type="number"
+                                step={1}
+                                min={-110}
+                                max={-60}
+                                value={noiseFloor}
+                                onChange={(e) => {
+                                    const value = parseFloat(e.target.value);
+                                    if (!isNaN(value)) onNoiseFloorChange(value);
+                                }}
+                                className="w-16 p-1 border border-neutral-200 rounded text-right text-neutral-700"
+                            />
+                            dBm
+                        </span>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-neutral-500">
+                        <span>Client Height</span>
+                        <span className="flex items-center gap-1">
+                            <input
+                                type="number"
+                                step={0.1}
+                                min={0}
+                                max={10}
+                                value={clientHeight}
+                                onChange={(e) => {
+                                    const value = parseFloat(e.target.value);
+                                    if (!isNaN(value) && value >= 0) onClientHeightChange(value);
+                                }}
+                                className="w-16 p-1 border border-neutral-200 rounded text-right text-neutral-700"
+                            />
+                            m
+                        </span>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-neutral-500">
+                        <span>Max Clients / Radio</span>
+                        <input
+                            type="number"
+                            step={5}
+                            min={1}
+                            value={capacityLimits.maxClientsPerRadio}
+                            onChange={(e) => {
+                                const value = parseInt(e.target.value);
+                                if (!isNaN(value) && value > 0) onCapacityLimitsChange({ ...capacityLimits, maxClientsPerRadio: value });
+                            }}
+                            className="w-16 p-1 border border-neutral-200 rounded text-right text-neutral-700"
+                        />
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-neutral-500">
+                        <span>Max Airtime</span>
+                        <span className="flex items-center gap-1">
+                            <input
+                                type="number"
+                                step={5}
+                                min={1}
+                                max={100}
+                                value={capacityLimits.maxAirtimePercent}
+                                onChange={(e) => {
+                                    const value = parseFloat(e.target.value);
+                                    if (!isNaN(value) && value > 0) onCapacityLimitsChange({ ...capacityLimits, maxAirtimePercent: value });
+                                }}
+                                className="w-16 p-1 border border-neutral-200 rounded text-right text-neutral-700"
+                            />
+                            %
+                        </span>
+                    </div>
+                    <button
+                        onClick={onOpenRequirementProfiles}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-white border border-neutral-200 rounded-md text-xs font-medium text-neutral-600 hover:bg-neutral-50 transition-colors"
+                        title="Edit the coverage requirements the floor is graded against"
+                    >
+                        <ListChecks size={14} />
+                        Requirement Profiles
+                    </button>
+                    <button
+                        onClick={onOpenClientProfiles}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-white border border-neutral-200 rounded-md text-xs font-medium text-neutral-600 hover:bg-neutral-50 transition-colors"
+                        title="Edit the transmit power, antenna gain and sensitivity of client devices"
+                    >
+                        <TabletSmartphone size={14} />
+                        Client Profiles
+                    </button>
+                </div>
+
+                {/* Band Selector - which radios the heatmap simulates */}
+                <div className="space-y-3">
+                    <label className="text-xs font-bold text-neutral-400 uppercase tracking-wider">Frequency Band</label>
                     <div className="flex bg-neutral-100 rounded-lg p-1">
-                        <button
-                            onClick={() => onViewModeChange('rssi')}
-                            className={cn(
-                                "flex-1 py-1.5 text-xs font-medium rounded-md transition-colors",
-                                viewMode === 'rssi' ? "bg-white text-blue-700 shadow-sm" : "text-neutral-500 hover:text-neutral-700"
-                            )}
-                        >
-                            Coverage (RSSI)
-                        </button>
-                        <button
-                            onClick={() => onViewModeChange('sinr')}
-                            className={cn(
-                                "flex-1 py-1.5 text-xs font-medium rounded-md transition-colors",
-                                viewMode === 'sinr' ? "bg-white text-blue-700 shadow-sm" : "text-neutral-500 hover:text-neutral-700"
-                            )}
-                        >
-                            Interference (SINR)
-                        </button>
+                        {BANDS.map(b => (
+                            <button
+                                key={b}
+                                onClick={() => onBandChange(b)}
+                                className={cn(
+                                    "py-1.5 text-xs font-medium rounded-md transition-colors",
+                                    band === b ? "bg-white text-blue-700 shadow-sm" : "text-neutral-500 hover:text-neutral-700"
+                                )}
+                            >
+                                {BAND_PROFILES[b].label}
+                            </button>
+                        ))}
                     </div>
                 </div>
 
@@ -314,6 +511,21 @@ export function Toolbar({
                         />
                     </label>
 
+                    <label className="flex items-center gap-2 w-full p-2 bg-white border border-neutral-200 rounded-lg cursor-pointer hover:bg-neutral-50 transition-colors" title="Walls, doors and scale from a CAD drawing">
+                        <DraftingCompass size={16} className="text-neutral-500" />
+                        <span className="text-sm text-neutral-600">Import DXF</span>
+                        <input
+                            type="file"
+                            accept=".dxf"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImportDxf(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+
                     <div className="px-1">
                         <div className="flex justify-between mb-1">
                             <span className="text-[10px] text-neutral-400">Opacity</span>
@@ -360,6 +572,31 @@ export function Toolbar({
                         <span>Auto-save to Database</span>
                     </label>
 
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="flex items-center justify-center gap-2 p-2 bg-white border border-neutral-200 rounded-lg cursor-pointer hover:bg-neutral-50 transition-colors text-sm text-neutral-600" title="Replace the project with an Ekahau project">
+                            <Upload size={16} className="text-neutral-500" />
+                            Import .esx
+                            <input
+                                type="file"
+                                accept=".esx"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) onImportEsx(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </label>
+                        <button
+                            onClick={onExportEsx}
+                            className="flex items-center justify-center gap-2 p-2 bg-white border border-neutral-200 rounded-lg hover:bg-neutral-50 transition-colors text-sm text-neutral-600"
+                            title="Download the project as an Ekahau project"
+                        >
+                            <Download size={16} className="text-neutral-500" />
+                            Export .esx
+                        </button>
+                    </div>
+
                     <div className="h-px bg-neutral-100 my-2"></div>
                     
                     <label className="text-xs font-bold text-neutral-400 uppercase tracking-wider">Actions</label>
@@ -382,10 +619,46 @@ export function Toolbar({
                     <button
                         onClick={onAutoChannel}
                         className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
-                        title="Auto-Assign Channels to minimize Interference"
+                        title="Plan channels and power from the simulated inter-AP signal"
                     >
                         <RefreshCw size={16} />
-                        Auto Channel
+                        Channel Planner
+                    </button>
+
+                    <button
+                        onClick={onSuggestPlacement}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                        title="Suggest the fewest APs that meet a coverage target"
+                    >
+                        <Sparkles size={16} />
+                        Suggest Placement
+                    </button>
+
+                    <button
+                        onClick={onOpenSurvey}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                        title="Import site-survey readings and compare them with the prediction"
+                    >
+                        <ScanLine size={16} />
+                        Site Survey
+                    </button>
+
+                    <button
+                        onClick={onOpenAntennaCatalog}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                        title="Import antenna pattern files"
+                    >
+                        <Antenna size={16} />
+                        Antenna Catalog
+                    </button>
+
+                    <button
+                        onClick={onOpenApModelCatalog}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white border border-blue-200 rounded-md text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                        title="Edit and import AP models and their radio specs"
+                    >
+                        <Boxes size={16} />
+                        AP Model Catalog
                     </button>
 
                     <div className="h-px bg-neutral-100 my-2"></div>
@@ -3,7 +3,8 @@ export type Point = {
   y: number;
 };
 
-export type WallMaterial = 'concrete' | 'brick' | 'drywall' | 'glass' | 'wood' | 'metal';
+// Material id - key into the project's material library (built-in or user-defined)
+export type WallMaterial = string;
 
 export interface Wall {
   id: string;
@@ -23,55 +24,149 @@ export interface Door {
   openDirection: 'left' | 'right'; // Relative to wall vector direction
 }
 
+// Frequency bands supported by the simulator
+export type Band = '2.4GHz' | '5GHz' | '6GHz';
+
+export const BANDS: Band[] = ['2.4GHz', '5GHz', '6GHz'];
+
+export interface BandProfile {
+  label: string;
+  frequencyMhz: number; // Centre frequency used for the reference loss
+  referenceLoss: number; // Path loss at 1m (dB) - PL(d0)
+  pathLossExponent: number; // Indoor office exponent (n)
+  channels: number[]; // Selectable 20MHz channels
+  planningChannels: number[]; // Non-overlapping set the channel planner starts from
+  dfsChannels: number[]; // Channels that need radar detection (DFS)
+  defaultChannel: number;
+  channelWidths: ChannelWidth[]; // Bonding widths allowed on the band
+}
+
+// Log-Distance Path Loss parameters of a band, fitted from survey data or the band defaults
+export interface PathLossModel {
+  referenceLoss: number;
+  pathLossExponent: number;
+}
+
+// Per-project overrides of the band profiles' path-loss parameters (bands left out use the defaults)
+export type PropagationProfile = Partial<Record<Band, PathLossModel>>;
+
+// Channel bonding width in MHz
+export type ChannelWidth = 20 | 40 | 80 | 160;
+
+// Per-band Log-Distance Path Loss parameters
+// Reference loss: FSPL at 1m = 20*log10(f_MHz) - 27.55
+// Exponents: Aruba VRD / Cisco Wireless Design Guide (indoor office, 2.7-3.5 typical)
+export const BAND_PROFILES: Record<Band, BandProfile> = {
+  '2.4GHz': {
+    label: '2.4 GHz',
+    frequencyMhz: 2437,
+    referenceLoss: 40.2,
+    pathLossExponent: 3.0,
+    channels: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13],
+    planningChannels: [1, 6, 11],
+    dfsChannels: [],
+    defaultChannel: 6,
+    channelWidths: [20, 40]
+  },
+  '5GHz': {
+    label: '5 GHz',
+    frequencyMhz: 5250,
+    referenceLoss: 46.9,
+    pathLossExponent: 3.2,
+    channels: [36, 40, 44, 48, 52, 56, 60, 64, 100, 104, 108, 112, 116, 120, 124, 128, 132, 136, 140, 144, 149, 153, 157, 161, 165],
+    planningChannels: [36, 40, 44, 48, 149, 153, 157, 161],
+    dfsChannels: [52, 56, 60, 64, 100, 104, 108, 112, 116, 120, 124, 128, 132, 136, 140, 144],
+    defaultChannel: 36,
+    channelWidths: [20, 40, 80, 160]
+  },
+  '6GHz': {
+    label: '6 GHz',
+    frequencyMhz: 6105,
+    referenceLoss: 48.2,
+    pathLossExponent: 3.3,
+    channels: [1, 5, 9, 13, 17, 21, 25, 29, 33, 37, 41, 45, 49, 53, 57, 61, 65, 69, 73, 77, 81, 85, 89, 93],
+    planningChannels: [5, 21, 37, 53, 69, 85], // Preferred Scanning Channels (PSC)
+    dfsChannels: [],
+    defaultChannel: 37,
+    channelWidths: [20, 40, 80, 160]
+  }
+};
+
+// A single radio inside an Access Point (one per band)
+export interface Radio {
+  band: Band;
+  enabled: boolean;
+  txPower: number; // Conducted Tx power in dBm
+  antennaGain: number; // Antenna gain in dBi (EIRP = txPower + antennaGain)
+  channel: number; // Primary 20MHz channel
+  channelWidth?: ChannelWidth; // Default: 20MHz
+  channelLocked?: boolean; // Channel planner keeps this radio's channel, width and power
+}
+
 export interface AccessPoint extends Point {
   id: string;
   name: string; // User-friendly name or Model Name
-  model: string; // Key from AP_PRESETS
-  txPower: number; // EIRP (Tx + Gain) in dBm
-  channel: number;
+  model: string; // AP catalog model id
+  radios: Radio[]; // One radio per band
   color: string;
   // Installation Properties
   height?: number; // Installation height in meters (Default: 3m)
+  downtilt?: number; // Degrees below the horizon of the main lobe (0 = none)
+  verticalBeamwidth?: number; // Degrees (Elevation half-power beamwidth, default 30)
   // Directional Antenna Properties
   isDirectional?: boolean; // If false, Omni-directional (default)
   azimuth?: number; // 0-360 degrees (0 = North/Up)
   beamwidth?: number; // 30-360 degrees (Horizontal Beamwidth)
   frontToBackRatio?: number; // dB (Attenuation for back lobe)
+  mac?: string; // Base radio MAC; surveyed BSSIDs sharing its first five octets belong to this AP
+}
+
+export interface APRadioSpec {
+  txPower: number; // Max conducted power (dBm), new radios start at it
+  antennaGain: number; // Antenna Gain (dBi)
+  spatialStreams: number;
+  channelWidths: ChannelWidth[]; // Widths the radio supports
+  antennaPattern?: AntennaPattern; // Imported pattern, stored with the model so every browser has it - default: parametric
 }
 
+// AP catalog entry
 export interface APModel {
   id: string;
   vendor: string;
   modelName: string;
-  defaultTxPower: number; // Base Radio Power (dBm)
-  antennaGain: number; // Antenna Gain (dBi)
-  totalEIRP: number; // Effective Isotropic Radiated Power (dBm) - This goes to simulation
+  bands: Partial<Record<Band, APRadioSpec>>; // Radios available on this model
 }
 
+// AP catalog by model id (built-in models plus the models stored on the server)
+export type APCatalog = Record<string, APModel>;
+
 // Enterprise AP Database - Real World Specs
 // Data sourced from official manufacturer datasheets
-export const AP_PRESETS: Record<string, APModel> = {
+export const DEFAULT_AP_MODELS: APCatalog = {
   'custom': {
     id: 'custom',
     vendor: 'Custom',
     modelName: 'Manual Configuration',
-    defaultTxPower: 20,
-    antennaGain: 0,
-    totalEIRP: 20
+    bands: {
+      '2.4GHz': { txPower: 20, antennaGain: 0, spatialStreams: 2, channelWidths: [20, 40] },
+      '5GHz': { txPower: 20, antennaGain: 0, spatialStreams: 2, channelWidths: [20, 40, 80, 160] },
+      '6GHz': { txPower: 20, antennaGain: 0, spatialStreams: 2, channelWidths: [20, 40, 80, 160] }
+    }
   },
   // --- ARUBA AP-315 (802.11ac Wave 2) ---
   // Source: Aruba AP-315 Datasheet (310 Series)
   // 5GHz: 4x4 MIMO, 4 spatial streams, +18 dBm per chain, +24 dBm aggregate
   // 2.4GHz: 2x2 MIMO, 2 spatial streams, +18 dBm per chain, +21 dBm aggregate
-  // Antenna Gain: 5.7 dBi (5GHz), 3.1 dBi (2.4GHz)
-  // EIRP: 29 dBm (5GHz), 24.1 dBm (2.4GHz)
+  // Antenna Gain: 5.7 dBi (5GHz), 3.9 dBi (2.4GHz)
+  // EIRP: 29.7 dBm (5GHz), 21.9 dBm (2.4GHz at the planning default)
   'aruba-315': {
     id: 'aruba-315',
     vendor: 'Aruba',
     modelName: 'AP-315',
-    defaultTxPower: 18, // 2.4GHz aggregate conducted power (2x2)
-    antennaGain: 3.9,   // 2.4GHz max antenna gain
-    totalEIRP: 21.9       // 18 dBm + 3.9 dBi = 21.9 dBm EIRP (2.4GHz)
+    bands: {
+      '2.4GHz': { txPower: 18, antennaGain: 3.9, spatialStreams: 2, channelWidths: [20, 40] },  // 2.4GHz aggregate conducted power (2x2)
+      '5GHz': { txPower: 24, antennaGain: 5.7, spatialStreams: 4, channelWidths: [20, 40, 80] } // 5GHz aggregate conducted power (4x4)
+    }
   },
   // --- UBIQUITI UNIFI U6 PRO (WiFi 6) ---
   // Source: UniFi U6 Pro Datasheet
@@ -82,9 +177,10 @@ export const AP_PRESETS: Record<string, APModel> = {
     id: 'unifi-u6-pro',
     vendor: 'Ubiquiti',
     modelName: 'UniFi U6 Pro',
-    defaultTxPower: 22, // 2.4GHz max conducted power
-    antennaGain: 4.0,   // 2.4GHz antenna gain
-    totalEIRP: 26       // 22 dBm + 4 dBi = 26 dBm EIRP (2.4GHz)
+    bands: {
+      '2.4GHz': { txPower: 22, antennaGain: 4.0, spatialStreams: 2, channelWidths: [20, 40] },
+      '5GHz': { txPower: 26, antennaGain: 6.0, spatialStreams: 4, channelWidths: [20, 40, 80, 160] }
+    }
   }
 };
 
@@ -93,21 +189,274 @@ export interface Device extends Point {
   type: 'phone' | 'laptop';
   name: string;
   connectedApId?: string; // Enterprise Logic: Tracks which AP this device is associated with
+  profileId?: string; // ClientProfile id (default: DEFAULT_DEVICE_PROFILE of the type)
 }
 
-// Enterprise Standards for Material Attenuation at 2.4GHz
+// Area where the placement optimiser may mount APs (axis-aligned, world pixels)
+export interface MountingRegion {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Non-Wi-Fi interference sources (microwave ovens, Bluetooth, video senders...)
+export type InterfererType = 'microwave' | 'bluetooth' | 'zigbee' | 'video-sender' | 'custom';
+
+export interface Interferer extends Point {
+  id: string;
+  name: string;
+  type: InterfererType;
+  power: number; // EIRP in dBm
+  centerFrequencyMhz: number;
+  bandwidthMhz: number; // Occupied spectrum
+  dutyCycle: number; // 0-1, fraction of time transmitting
+}
+
+export interface InterfererPreset {
+  label: string;
+  power: number;
+  centerFrequencyMhz: number;
+  bandwidthMhz: number;
+  dutyCycle: number;
+}
+
+// Typical emissions (FCC/ETSI limits and published spectrum analyser captures)
+export const INTERFERER_PRESETS: Record<InterfererType, InterfererPreset> = {
+  'microwave': { label: 'Microwave Oven', power: 20, centerFrequencyMhz: 2455, bandwidthMhz: 50, dutyCycle: 0.5 },       // Leakage, on for half of each AC cycle
+  'bluetooth': { label: 'Bluetooth Hub', power: 10, centerFrequencyMhz: 2441, bandwidthMhz: 79, dutyCycle: 0.3 },       // Class 2, hops across 2402-2480 MHz
+  'zigbee': { label: 'Zigbee Gateway', power: 8, centerFrequencyMhz: 2425, bandwidthMhz: 2, dutyCycle: 0.1 },           // Channel 15
+  'video-sender': { label: 'Analog Video Sender', power: 20, centerFrequencyMhz: 2432, bandwidthMhz: 18, dutyCycle: 1 }, // Continuous carrier
+  'custom': { label: 'Custom Source', power: 10, centerFrequencyMhz: 2437, bandwidthMhz: 20, dutyCycle: 1 }
+};
+
+export interface MaterialDefinition {
+  id: string;
+  name: string;
+  attenuation: Record<Band, number>; // dB loss per wall penetration, per band
+  reflectionCoefficient: number; // 0-1, fraction of energy retained after a bounce
+  color: string; // Wall colour on the canvas
+  builtIn?: boolean; // Shipped with the app (cannot be deleted)
+}
+
+// Enterprise Standards for Material Attenuation per band
 // Sources: NIST IR 6055, Aruba VRD, Cisco Wireless Design Guide, IEEE 802.11
-// Values represent dB attenuation per wall penetration at 2.4GHz
-export const MATERIAL_ATTENUATION: Record<WallMaterial, number> = {
-  glass: 2,      // -2 dB (Standard clear glass - minimal attenuation at 2.4GHz)
-  drywall: 3,    // -3 dB (Hollow drywall/gypsum board - typical office partition)
-  wood: 3,       // -3 dB (Solid wood door/cabinet - light attenuation at 2.4GHz)
-  brick: 10,     // -10 dB (Red brick wall - significant attenuation at 2.4GHz)
-  concrete: 15,  // -15 dB (Reinforced concrete - heavy attenuation at 2.4GHz)
-  metal: 100,    // -100 dB (Metal/elevator - effectively blocks all signal)
+// Values represent dB attenuation per wall penetration (loss rises with frequency)
+export const DEFAULT_MATERIALS: MaterialDefinition[] = [
+  { id: 'concrete', name: 'Concrete', attenuation: { '2.4GHz': 15, '5GHz': 23, '6GHz': 27 }, reflectionCoefficient: 0.1, color: '#525252', builtIn: true },     // Reinforced concrete
+  { id: 'brick', name: 'Brick', attenuation: { '2.4GHz': 10, '5GHz': 15, '6GHz': 18 }, reflectionCoefficient: 0.1, color: '#b91c1c', builtIn: true },           // Red brick wall
+  { id: 'wood', name: 'Wood', attenuation: { '2.4GHz': 3, '5GHz': 5, '6GHz': 6 }, reflectionCoefficient: 0.05, color: '#A05A2C', builtIn: true },               // Solid wood door/cabinet
+  { id: 'drywall', name: 'Drywall', attenuation: { '2.4GHz': 3, '5GHz': 4, '6GHz': 5 }, reflectionCoefficient: 0.05, color: '#e5e5e5', builtIn: true },        // Hollow gypsum - typical office partition
+  { id: 'glass', name: 'Glass', attenuation: { '2.4GHz': 2, '5GHz': 3, '6GHz': 4 }, reflectionCoefficient: 0.1, color: '#60a5fa', builtIn: true },              // Standard clear glass
+  { id: 'metal', name: 'Metal', attenuation: { '2.4GHz': 100, '5GHz': 100, '6GHz': 100 }, reflectionCoefficient: 0.6, color: '#334155', builtIn: true },       // Metal - effectively blocks all signal
+  { id: 'low-e-glass', name: 'Low-E Glass', attenuation: { '2.4GHz': 23, '5GHz': 30, '6GHz': 32 }, reflectionCoefficient: 0.4, color: '#0e7490', builtIn: true }, // Metallic-oxide coated glazing
+  { id: 'elevator-shaft', name: 'Elevator Shaft', attenuation: { '2.4GHz': 100, '5GHz': 100, '6GHz': 100 }, reflectionCoefficient: 0.7, color: '#1e293b', builtIn: true },
+  { id: 'fire-door', name: 'Fire Door', attenuation: { '2.4GHz': 12, '5GHz': 18, '6GHz': 20 }, reflectionCoefficient: 0.4, color: '#ea580c', builtIn: true },  // Steel-clad fire rated door
+  { id: 'water-partition', name: 'Water Pipe Partition', attenuation: { '2.4GHz': 12, '5GHz': 16, '6GHz': 18 }, reflectionCoefficient: 0.2, color: '#0284c7', builtIn: true },
+];
+
+// Material Behaviour Thresholds
+export const BLOCKING_ATTENUATION_DB = 60; // At or above: treated as a complete block (Faraday)
+export const REFLECTION_THRESHOLD = 0.5;   // At or above: surface reflects (Image Source Method)
+
+// Coverage requirement a customer signs off against (every criterion must hold in a cell)
+export interface RequirementProfile {
+  id: string;
+  name: string;
+  primaryRssiDbm: number; // Strongest AP
+  secondaryRssiDbm: number | null; // Second strongest AP (null = not required)
+  minSinrDb: number;
+  minAudibleAps: number; // APs heard at or above audibleRssiDbm
+  audibleRssiDbm: number;
+  minDataRateMbps: number; // 0 = not required
+  targetPercent: number; // Share of the floor that must pass for the profile to pass
+  builtIn?: boolean;
+}
+
+// Sources: Cisco VoWLAN and Aruba RF design guides, Cisco CMX/RTLS deployment guide
+export const DEFAULT_REQUIREMENT_PROFILES: RequirementProfile[] = [
+  { id: 'voice', name: 'Voice (VoWiFi)', primaryRssiDbm: -67, secondaryRssiDbm: -70, minSinrDb: 25, minAudibleAps: 2, audibleRssiDbm: -70, minDataRateMbps: 12, targetPercent: 95, builtIn: true },
+  { id: 'data', name: 'Data', primaryRssiDbm: -70, secondaryRssiDbm: null, minSinrDb: 20, minAudibleAps: 1, audibleRssiDbm: -70, minDataRateMbps: 24, targetPercent: 95, builtIn: true },
+  { id: 'location', name: 'Location (RTLS)', primaryRssiDbm: -72, secondaryRssiDbm: -75, minSinrDb: 10, minAudibleAps: 3, audibleRssiDbm: -75, minDataRateMbps: 0, targetPercent: 90, builtIn: true },
+  { id: 'iot', name: 'IoT / Low Rate', primaryRssiDbm: -75, secondaryRssiDbm: null, minSinrDb: 10, minAudibleAps: 1, audibleRssiDbm: -75, minDataRateMbps: 1, targetPercent: 95, builtIn: true }
+];
+
+// A storey of the building. All floor plans share one building frame: a point (x, y) px
+// on a floor lies at (x / pixelsPerMeter + offsetX, y / pixelsPerMeter + offsetY) m.
+export interface Floor {
+  id: string;
+  name: string;
+  elevation: number;    // Floor surface above ground in meters
+  slabHeight: number;   // Thickness of the slab beneath this floor in meters
+  slabMaterial: string; // MaterialDefinition id of that slab
+  offsetX: number;      // Plan alignment in meters
+  offsetY: number;
+}
+
+export const DEFAULT_FLOOR_HEIGHT = 3.5; // Floor-to-floor height given to new floors (m)
+export const DEFAULT_SLAB_HEIGHT = 0.3;  // Typical reinforced concrete slab (m)
+
+// Measured antenna pattern imported from a vendor file (MSI / Planet / .ant)
+export interface AntennaPattern {
+  id: string;
+  name: string;
+  make?: string;
+  frequencyMhz?: number;
+  gainDbi: number;       // Peak gain stated in the file
+  electricalTilt?: number; // Degrees, already part of the vertical samples
+  horizontal: number[];  // 360 samples, dB below the peak, 0° = boresight, clockwise
+  vertical: number[];    // 360 samples, dB below the peak, 0° = horizon ahead, 90° = straight down
+}
+
+// Project-wide data shared by every floor
+export type WifiStandard = '802.11n' | '802.11ac' | '802.11ax';
+
+// What a client can negotiate with an AP radio
+export interface ClientCapability {
+  standard: WifiStandard;
+  spatialStreams: number;
+  maxChannelWidth: ChannelWidth;
+}
+
+// Client device radio: what it negotiates, how loud it transmits and how well it hears
+export interface ClientProfile extends ClientCapability {
+  id: string;
+  name: string;
+  txPower: number;     // Conducted transmit power in dBm
+  antennaGain: number; // dBi (negative for small handset antennas)
+  bands: Band[];
+  sensitivityDbm: number[]; // Minimum RSSI per MCS 0-11 at 20MHz (+3 dB per doubling of width)
+  roamThresholdDbm: number; // Below this the client looks for a better AP
+  roamHysteresisDb: number; // How much stronger that AP must be before it roams
+  builtIn?: boolean;
+}
+
+// 802.11 minimum receiver sensitivity per MCS at 20MHz (also used for the AP receiver)
+export const SPEC_SENSITIVITY_DBM = [-82, -79, -77, -74, -70, -66, -65, -64, -59, -57, -54, -52];
+
+const withMargin = (marginDb: number) => SPEC_SENSITIVITY_DBM.map(s => s - marginDb);
+
+// Sources: vendor datasheets and FCC filings of typical devices
+export const DEFAULT_CLIENT_PROFILES: ClientProfile[] = [
+  { id: 'phone', name: 'Smartphone', standard: '802.11ax', spatialStreams: 2, maxChannelWidth: 80, txPower: 15, antennaGain: -2, bands: ['2.4GHz', '5GHz', '6GHz'], sensitivityDbm: withMargin(5), roamThresholdDbm: -70, roamHysteresisDb: 8, builtIn: true },
+  { id: 'laptop', name: 'Laptop', standard: '802.11ax', spatialStreams: 2, maxChannelWidth: 160, txPower: 18, antennaGain: 2, bands: ['2.4GHz', '5GHz', '6GHz'], sensitivityDbm: withMargin(8), roamThresholdDbm: -75, roamHysteresisDb: 10, builtIn: true },
+  { id: 'tablet', name: 'Tablet', standard: '802.11ax', spatialStreams: 2, maxChannelWidth: 80, txPower: 16, antennaGain: 0, bands: ['2.4GHz', '5GHz', '6GHz'], sensitivityDbm: withMargin(6), roamThresholdDbm: -70, roamHysteresisDb: 8, builtIn: true },
+  { id: 'scanner', name: 'Barcode Scanner', standard: '802.11ac', spatialStreams: 1, maxChannelWidth: 40, txPower: 16, antennaGain: 0, bands: ['2.4GHz', '5GHz'], sensitivityDbm: withMargin(4), roamThresholdDbm: -65, roamHysteresisDb: 6, builtIn: true },
+  { id: 'iot', name: 'IoT Sensor', standard: '802.11n', spatialStreams: 1, maxChannelWidth: 20, txPower: 10, antennaGain: 0, bands: ['2.4GHz'], sensitivityDbm: withMargin(0), roamThresholdDbm: -80, roamHysteresisDb: 10, builtIn: true }
+];
+
+// Profile a device uses until one is picked
+export const DEFAULT_DEVICE_PROFILE: Record<Device['type'], string> = { phone: 'phone', laptop: 'laptop' };
+
+// Path a client walks in the roaming simulation (floor plan pixels)
+export interface WalkRoute {
+  id: string;
+  name: string;
+  points: Point[];
+  profileId: string; // ClientProfile that walks it
+  speedMps: number;
+}
+
+export const DEFAULT_WALK_SPEED = 1.2; // Typical walking pace (m/s)
+
+// Application a zone's clients run, with the throughput one client sustains
+export interface ApplicationProfile {
+  id: string;
+  name: string;
+  mbps: number;
+}
+
+export const APPLICATION_PROFILES: ApplicationProfile[] = [
+  { id: 'web', name: 'Web & Email', mbps: 1 },
+  { id: 'voice', name: 'Voice', mbps: 0.1 },
+  { id: 'video', name: 'Video Calls', mbps: 2 },
+  { id: 'streaming', name: 'HD Streaming', mbps: 5 },
+  { id: 'telemetry', name: 'Scanners & Sensors', mbps: 0.05 }
+];
+
+// Area of the plan with a client population (floor plan pixels)
+export interface DensityZone {
+  id: string;
+  name: string;
+  points: Point[];
+  peoplePerM2: number;
+  devicesPerPerson: number;
+  appMix: Record<string, number>; // Share of the clients per ApplicationProfile id (%)
+}
+
+export const DENSITY_ZONE_PRESETS: Omit<DensityZone, 'id' | 'points'>[] = [
+  { name: 'Auditorium', peoplePerM2: 1, devicesPerPerson: 1.5, appMix: { web: 50, voice: 10, video: 10, streaming: 30 } },
+  { name: 'Classroom', peoplePerM2: 0.5, devicesPerPerson: 1.5, appMix: { web: 60, video: 20, streaming: 20 } },
+  { name: 'Open Office', peoplePerM2: 0.1, devicesPerPerson: 2, appMix: { web: 60, voice: 10, video: 30 } },
+  { name: 'Warehouse', peoplePerM2: 0.01, devicesPerPerson: 2, appMix: { voice: 20, telemetry: 80 } }
+];
+
+// Load at which a radio is flagged as over capacity
+export interface CapacityLimits {
+  maxClientsPerRadio: number;
+  maxAirtimePercent: number;
+}
+
+export const DEFAULT_CAPACITY_LIMITS: CapacityLimits = { maxClientsPerRadio: 50, maxAirtimePercent: 70 };
+
+// One BSSID heard at a survey point
+export interface SurveyMeasurement {
+  bssid: string;
+  ssid: string;
+  channel: number;
+  rssi: number; // dBm
+}
+
+// Site-survey scan location (floor plan pixels)
+export interface SurveyPoint {
+  id: string;
+  x: number;
+  y: number;
+  measurements: SurveyMeasurement[];
+}
+
+// Heatmap layer: downlink signal, SINR, predicted PHY rate, client-to-AP signal,
+// second / third strongest AP or the number of APs heard
+export type ViewMode = 'rssi' | 'sinr' | 'rate' | 'uplink' | 'secondary' | 'tertiary' | 'apCount' | 'server' | 'measured';
+
+// How survey points are spread into the measured heatmap
+export type InterpolationMethod = 'idw' | 'kriging';
+
+export interface ProjectSettings {
+  materials: MaterialDefinition[];
+  antennaPatterns: AntennaPattern[]; // Imported pattern files to pick from; AP models keep their own copy
+  noiseFloor: number; // Ambient noise floor in dBm (used for SINR)
+  clientHeight: number; // Height of the client plane above the floor in meters
+  clientProfiles: ClientProfile[];
+  referenceClientId: string; // Client profile of the data-rate and uplink views
+  apCountThresholdDbm: number; // An AP counts as heard at or above this (AP-count view)
+  requirementProfiles: RequirementProfile[];
+  capacityLimits: CapacityLimits;
+  propagationProfile: PropagationProfile; // Calibrated path-loss parameters per band
+  surveyInterpolation: InterpolationMethod; // Measured view
+}
+
+export const DEFAULT_NOISE_FLOOR = -95; // Typical office noise floor (20MHz channel)
+export const DEFAULT_CLIENT_HEIGHT = 1;  // Laptop on a desk / phone in hand (m)
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  materials: DEFAULT_MATERIALS,
+  antennaPatterns: [],
+  noiseFloor: DEFAULT_NOISE_FLOOR,
+  clientHeight: DEFAULT_CLIENT_HEIGHT,
+  clientProfiles: DEFAULT_CLIENT_PROFILES,
+  referenceClientId: 'phone',
+  apCountThresholdDbm: -67,
+  requirementProfiles: DEFAULT_REQUIREMENT_PROFILES,
+  capacityLimits: DEFAULT_CAPACITY_LIMITS,
+  propagationProfile: {},
+  surveyInterpolation: 'kriging'
 };
 
 // Physics Constants
 export const DEFAULT_PIXELS_PER_METER = 40; // High Res Scale (1m = 40px)
+export const PLAN_WIDTH = 3000;  // Simulation area in plan pixels (75m at the default scale)
+export const PLAN_HEIGHT = 2000; // The floor plan image is fitted and centred inside it
 export const SIGNAL_CUTOFF = -90;   // Industry standard "no service" threshold
 export const SIGNAL_STRONG = -50;   // Excellent signal threshold
@@ -0,0 +1,55 @@
+/**
+ * Antenna Patterns - gain of AP antennas relative to the main lobe, from a measured
+ * pattern file when one is attached, otherwise from a parametric lobe.
+ */
+
+import { AntennaPattern } from "@/types";
+
+export const DEFAULT_AP_HEIGHT = 3;             // Mounting height in meters when an AP has none
+export const DEFAULT_VERTICAL_BEAMWIDTH = 30;   // Degrees (half-power) of a directional or tilted antenna
+const SIDE_LOBE_LEVEL_DB = 20;                  // Floor of the elevation pattern below the main lobe
+
+// Samples the propagation core needs from an imported pattern
+export type MeasuredPattern = Pick<AntennaPattern, 'id' | 'horizontal' | 'vertical'>;
+
+export interface ElevationAntenna {
+    isDirectional?: boolean;
+    downtilt?: number;          // Degrees below the horizon of the main lobe (mechanical)
+    verticalBeamwidth?: number; // Degrees
+    pattern?: MeasuredPattern;
+}
+
+export interface ElevationPattern {
+    tiltDeg: number;
+    beamwidthDeg: number;
+    measured?: number[]; // Vertical samples of an imported pattern (replace the parametric lobe)
+}
+
+// dB below the peak at an angle, interpolated between the 1° samples
+export function samplePatternDb(samples: number[], angleDeg: number): number {
+    const a = ((angleDeg % 360) + 360) % 360;
+    const i = Math.floor(a);
+    const t = a - i;
+    return samples[i % 360] * (1 - t) + samples[(i + 1) % 360] * t;
+}
+
+// Ceiling omnis radiate evenly downwards (null = no elevation loss); directional and
+// downtilted antennas concentrate power in a lobe around the tilt angle
+export function getElevationPattern(antenna: ElevationAntenna): ElevationPattern | null {
+    if (antenna.pattern) return { tiltDeg: antenna.downtilt || 0, beamwidthDeg: 0, measured: antenna.pattern.vertical };
+    if (!antenna.isDirectional && !antenna.downtilt) return null;
+    return {
+        tiltDeg: antenna.downtilt || 0,
+        beamwidthDeg: Math.max(1, antenna.verticalBeamwidth || DEFAULT_VERTICAL_BEAMWIDTH)
+    };
+}
+
+// Gain in dB (<= 0) at a depression angle (degrees below the horizon, 90 = straight down).
+// Parabolic main lobe, -3dB at half the beamwidth, limited by the side lobe level (3GPP TR 36.814).
+// Measured patterns use the front half of their vertical cut (the horizontal cut covers the back).
+export function getElevationGainDb(pattern: ElevationPattern | null, depressionDeg: number): number {
+    if (!pattern) return 0;
+    if (pattern.measured) return -samplePatternDb(pattern.measured, depressionDeg - pattern.tiltDeg);
+    const offset = (depressionDeg - pattern.tiltDeg) / pattern.beamwidthDeg;
+    return -Math.min(12 * offset * offset, SIDE_LOBE_LEVEL_DB);
+}
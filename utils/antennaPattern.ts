@@ -0,0 +1,113 @@
+/**
+ * Antenna Pattern Files - parser for vendor pattern files and the project's antenna catalog.
+ *
+ * Supported formats:
+ *  - MSI / Planet (.msi, .pln, most .ant): keyword header (NAME, MAKE, FREQUENCY, GAIN, ELECTRICAL_TILT)
+ *    followed by "HORIZONTAL n" and "VERTICAL n" sections of "angle attenuation" lines.
+ *  - Plain .ant: 720 values, one per line - 360 horizontal then 360 vertical degrees.
+ */
+
+import { AntennaPattern, APModel, Band } from "@/types";
+
+const SAMPLES = 360;
+const DBD_TO_DBI = 2.15;
+
+// Resample "angle value" points (any step, any order) to one value per degree, wrapping at 360
+function resample(points: [number, number][], fileName: string, section: string): number[] {
+    if (points.length < 2) throw new Error(`${fileName}: the ${section} pattern has fewer than 2 points`);
+    const sorted = points
+        .map(([angle, value]): [number, number] => [((angle % 360) + 360) % 360, value])
+        .sort((a, b) => a[0] - b[0]);
+
+    const samples: number[] = [];
+    let j = 0;
+    for (let deg = 0; deg < SAMPLES; deg++) {
+        while (j < sorted.length && sorted[j][0] <= deg) j++;
+        const [a0, v0] = j > 0 ? sorted[j - 1] : [sorted[sorted.length - 1][0] - 360, sorted[sorted.length - 1][1]];
+        const [a1, v1] = j < sorted.length ? sorted[j] : [sorted[0][0] + 360, sorted[0][1]];
+        samples.push(a1 === a0 ? v0 : v0 + (v1 - v0) * (deg - a0) / (a1 - a0));
+    }
+    return samples;
+}
+
+// Attenuation below the peak (>= 0). Files that store relative gain (<= 0) are flipped.
+function normalise(samples: number[]): number[] {
+    const flipped = samples.reduce((sum, v) => sum + v, 0) < 0 ? samples.map(v => -v) : samples;
+    const peak = Math.min(...flipped);
+    return flipped.map(v => v - peak);
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+    const n = parseFloat(value ?? '');
+    return Number.isFinite(n) ? n : undefined;
+}
+
+export function parseAntennaFile(text: string, fileName: string): AntennaPattern {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+
+    // Plain .ant: numbers only
+    if (!lines.some(l => /^HORIZONTAL\b/i.test(l))) {
+        const values = lines.map(l => parseFloat(l.split(/\s+/).pop()!));
+        if (values.length < SAMPLES * 2 || values.some(v => !Number.isFinite(v))) {
+            throw new Error(`${fileName}: not an MSI/Planet file and not 720 pattern values`);
+        }
+        return {
+            id: `antenna-${crypto.randomUUID()}`,
+            name: baseName,
+            gainDbi: 0,
+            horizontal: normalise(values.slice(0, SAMPLES)),
+            vertical: normalise(values.slice(SAMPLES, SAMPLES * 2))
+        };
+    }
+
+    // MSI / Planet
+    const header: Record<string, string> = {};
+    const sections: Record<'HORIZONTAL' | 'VERTICAL', [number, number][]> = { HORIZONTAL: [], VERTICAL: [] };
+    let section: 'HORIZONTAL' | 'VERTICAL' | null = null;
+    let remaining = 0;
+
+    for (const line of lines) {
+        const [keyword, ...rest] = line.split(/\s+/);
+        const key = keyword.toUpperCase();
+        if (key === 'HORIZONTAL' || key === 'VERTICAL') {
+            section = key;
+            remaining = parseInt(rest[0]) || SAMPLES;
+            continue;
+        }
+        if (section && remaining > 0) {
+            const angle = parseFloat(keyword);
+            const value = parseFloat(rest[0]);
+            if (Number.isFinite(angle) && Number.isFinite(value)) {
+                sections[section].push([angle, value]);
+                remaining--;
+                continue;
+            }
+        }
+        section = null;
+        header[key] = rest.join(' ');
+    }
+
+    // GAIN is in dBd unless the unit says otherwise (Planet convention)
+    let gainDbi = 0;
+    const gainMatch = header['GAIN']?.match(/(-?[\d.]+)\s*(dBi|dBd)?/i);
+    if (gainMatch) {
+        gainDbi = parseFloat(gainMatch[1]) + (gainMatch[2]?.toLowerCase() === 'dbi' ? 0 : DBD_TO_DBI);
+    }
+
+    return {
+        id: `antenna-${crypto.randomUUID()}`,
+        name: header['NAME'] || baseName,
+        make: header['MAKE'] || undefined,
+        frequencyMhz: parseNumber(header['FREQUENCY']),
+        gainDbi: Math.round(gainDbi * 100) / 100,
+        electricalTilt: parseNumber(header['ELECTRICAL_TILT']),
+        horizontal: normalise(resample(sections.HORIZONTAL, fileName, 'horizontal')),
+        vertical: normalise(resample(sections.VERTICAL, fileName, 'vertical'))
+    };
+}
+
+// Pattern linked to an AP model's radio on a band (null = the model's built-in behaviour)
+export function getModelAntennaPattern(model: APModel, band: Band): AntennaPattern | null {
+    return model.bands[band]?.antennaPattern ?? null;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { AntennaPattern, APModel, APRadioSpec } from "@/types";
+import { embedLegacyAntennaPatterns, parseApModelFile } from "./apCatalog";
+
+const pattern: AntennaPattern = {
+    id: 'antenna-sector',
+    name: 'Sector 60',
+    gainDbi: 12,
+    horizontal: new Array(360).fill(0),
+    vertical: new Array(360).fill(0)
+};
+const radio: APRadioSpec = { txPower: 20, antennaGain: 4, spatialStreams: 2, channelWidths: [20, 40, 80] };
+const model: APModel = { id: 'acme-sector', vendor: 'Acme', modelName: 'Sector', bands: { '5GHz': radio } };
+
+describe('embedLegacyAntennaPatterns', () => {
+    it('copies patterns referenced by id on catalog rows into the radio spec', () => {
+        const legacy = { ...model, bands: { '5GHz': { ...radio, antennaPatternId: pattern.id } } };
+        const [migrated] = embedLegacyAntennaPatterns({ [model.id]: legacy }, [pattern]);
+        expect(migrated.bands['5GHz']?.antennaPattern).toEqual(pattern);
+        expect(migrated.bands['5GHz']).not.toHaveProperty('antennaPatternId');
+    });
+
+    it('copies per-model links from the project settings', () => {
+        const migrated = embedLegacyAntennaPatterns({ [model.id]: model }, [pattern], { [model.id]: { '5GHz': pattern.id } });
+        expect(migrated.map(m => m.bands['5GHz']?.antennaPattern?.id)).toEqual([pattern.id]);
+    });
+
+    it('leaves models alone when this browser lacks the pattern or the model already has one', () => {
+        const legacy = { ...model, bands: { '5GHz': { ...radio, antennaPatternId: 'antenna-elsewhere' } } };
+        const embedded = { ...model, id: 'acme-embedded', bands: { '5GHz': { ...radio, antennaPattern: pattern } } };
+        expect(embedLegacyAntennaPatterns({ [legacy.id]: legacy, [embedded.id]: embedded }, [pattern], { [embedded.id]: { '5GHz': pattern.id } })).toEqual([]);
+    });
+});
+
+describe('parseApModelFile', () => {
+    it('embeds the pattern named in a CSV row', () => {
+        const csv = 'vendor,model,band,max_tx_power,antenna_gain,antenna_pattern\nAcme,Sector,5,20,4,Sector 60';
+        const [parsed] = parseApModelFile(csv, 'models.csv', [pattern]);
+        expect(parsed.bands['5GHz']?.antennaPattern).toEqual(pattern);
+    });
+});
@@ -0,0 +1,189 @@
+/**
+ * AP Catalog - AP models (per-band radio specs) and datasheet import.
+ *
+ * Supported import formats:
+ *  - JSON: an array of models (or { "models": [...] }) shaped like APModel; ids are optional.
+ *  - CSV: one row per model and band, with a header row:
+ *      vendor,model,band,max_tx_power,antenna_gain,spatial_streams,channel_widths,antenna_pattern
+ *    band is 2.4 / 5 / 6 (GHz optional), channel_widths like "20/40/80" and antenna_pattern
+ *    is the name of an imported pattern (optional). Rows of the same vendor and model are merged.
+ *
+ * Linked antenna patterns are copied into the radio spec, so the shared catalog never points at
+ * patterns that only one browser has imported.
+ */
+
+import { AntennaPattern, APCatalog, APModel, APRadioSpec, Band, BANDS, BAND_PROFILES, ChannelWidth, DEFAULT_AP_MODELS } from "@/types";
+
+const CSV_COLUMNS = ['vendor', 'model', 'band', 'max_tx_power', 'antenna_gain'] as const; // Required
+
+// Pattern links saved before patterns were stored with the models
+type LegacyRadioSpec = APRadioSpec & { antennaPatternId?: string };
+export type LegacyPatternLinks = Record<string, Partial<Record<Band, string>>>; // Model id -> pattern id per band
+
+// Built-in models missing from the saved catalog are added; saved entries override built-ins with the same id
+export function mergeWithDefaultApModels(saved: APModel[] | undefined): APCatalog {
+    const catalog: APCatalog = { ...DEFAULT_AP_MODELS };
+    (saved || []).forEach(model => {
+        catalog[model.id] = model;
+    });
+    return catalog;
+}
+
+// Catalog entry for an AP's model (unknown models fall back to manual configuration)
+export function getApModel(catalog: APCatalog, modelId: string): APModel {
+    return catalog[modelId] || catalog['custom'] || DEFAULT_AP_MODELS['custom'];
+}
+
+export function isBuiltInApModel(modelId: string): boolean {
+    return modelId in DEFAULT_AP_MODELS;
+}
+
+export function createApModelId(vendor: string, modelName: string): string {
+    return `${vendor}-${modelName}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function parseBand(value: string): Band | undefined {
+    const ghz = parseFloat(value);
+    return BANDS.find(b => parseFloat(b) === ghz);
+}
+
+function parseChannelWidths(value: unknown, band: Band): ChannelWidth[] {
+    const raw = Array.isArray(value) ? value : String(value ?? '').split(/[\/;|,\s]+/);
+    const widths = raw
+        .map(w => parseInt(String(w)) as ChannelWidth)
+        .filter(w => BAND_PROFILES[band].channelWidths.includes(w));
+    return widths.length > 0 ? Array.from(new Set(widths)).sort((a, b) => a - b) : [...BAND_PROFILES[band].channelWidths];
+}
+
+function isAntennaPattern(value: unknown): value is AntennaPattern {
+    const pattern = value as AntennaPattern;
+    return typeof pattern?.id === 'string' && typeof pattern.name === 'string' && Number.isFinite(pattern.gainDbi)
+        && [pattern.horizontal, pattern.vertical].every(samples => Array.isArray(samples) && samples.length === 360 && samples.every(Number.isFinite));
+}
+
+// Validated radio spec (throws with `context` in the message)
+function parseRadioSpec(band: Band, fields: Record<string, unknown>, context: string): APRadioSpec {
+    const txPower = Number(fields.txPower);
+    const antennaGain = Number(fields.antennaGain);
+    if (!Number.isFinite(txPower)) throw new Error(`${context}: ${BAND_PROFILES[band].label} max power is missing`);
+    if (!Number.isFinite(antennaGain)) throw new Error(`${context}: ${BAND_PROFILES[band].label} antenna gain is missing`);
+    if (fields.antennaPattern !== undefined && !isAntennaPattern(fields.antennaPattern)) {
+        throw new Error(`${context}: ${BAND_PROFILES[band].label} antenna pattern needs 360 horizontal and vertical samples`);
+    }
+    const streams = parseInt(String(fields.spatialStreams ?? ''));
+    return {
+        txPower,
+        antennaGain,
+        spatialStreams: streams >= 1 ? streams : 1,
+        channelWidths: parseChannelWidths(fields.channelWidths, band),
+        antennaPattern: fields.antennaPattern
+    };
+}
+
+// Splits one CSV line, honouring double-quoted fields
+export function splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const c = line[i];
+        if (quoted) {
+            if (c === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else cell += c;
+        } else if (c === '"') quoted = true;
+        else if (c === ',') { cells.push(cell.trim()); cell = ''; }
+        else cell += c;
+    }
+    cells.push(cell.trim());
+    return cells;
+}
+
+function parseCsv(text: string, fileName: string, antennaPatterns: AntennaPattern[]): APModel[] {
+    const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+    if (lines.length < 2) throw new Error(`${fileName}: no rows below the header`);
+    const header = splitCsvLine(lines[0]).map(h => h.toLowerCase().replace(/[\s-]+/g, '_'));
+    const missing = CSV_COLUMNS.filter(c => !header.includes(c));
+    if (missing.length > 0) throw new Error(`${fileName}: missing column(s) ${missing.join(', ')}`);
+
+    const models = new Map<string, APModel>();
+    lines.slice(1).forEach((line, i) => {
+        const context = `${fileName} line ${i + 2}`;
+        const cells = splitCsvLine(line);
+        const get = (column: string) => cells[header.indexOf(column)] ?? '';
+
+        const band = parseBand(get('band'));
+        if (!band) throw new Error(`${context}: unknown band "${get('band')}"`);
+        const vendor = get('vendor');
+        const modelName = get('model');
+        if (!vendor || !modelName) throw new Error(`${context}: vendor and model are required`);
+
+        const patternName = get('antenna_pattern');
+        const pattern = antennaPatterns.find(p => p.name === patternName || p.id === patternName);
+        if (patternName && !pattern) throw new Error(`${context}: no imported antenna pattern named "${patternName}"`);
+
+        const id = createApModelId(vendor, modelName);
+        const model = models.get(id) ?? { id, vendor, modelName, bands: {} };
+        model.bands[band] = parseRadioSpec(band, {
+            txPower: get('max_tx_power') === '' ? NaN : get('max_tx_power'),
+            antennaGain: get('antenna_gain') === '' ? NaN : get('antenna_gain'),
+            spatialStreams: get('spatial_streams'),
+            channelWidths: get('channel_widths'),
+            antennaPattern: pattern
+        }, context);
+        models.set(id, model);
+    });
+    return Array.from(models.values());
+}
+
+function parseJson(text: string, fileName: string, antennaPatterns: AntennaPattern[]): APModel[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error(`${fileName}: not valid JSON`);
+    }
+    const list = Array.isArray(data) ? data : (data as { models?: unknown })?.models;
+    if (!Array.isArray(list)) throw new Error(`${fileName}: expected an array of AP models`);
+
+    return list.map((raw: Partial<APModel>, i) => {
+        const context = `${fileName} model ${i + 1}`;
+        if (!raw?.vendor || !raw.modelName) throw new Error(`${context}: vendor and modelName are required`);
+        const bands: APModel['bands'] = {};
+        BANDS.forEach(band => {
+            const spec = raw.bands?.[band] as LegacyRadioSpec | undefined;
+            if (!spec) return;
+            // Files exported before patterns were embedded only name the pattern
+            const linked = spec.antennaPatternId ? antennaPatterns.find(p => p.id === spec.antennaPatternId) : undefined;
+            bands[band] = parseRadioSpec(band, { ...spec, antennaPattern: spec.antennaPattern ?? linked }, context);
+        });
+        if (Object.keys(bands).length === 0) throw new Error(`${context}: no radios`);
+        return { id: raw.id || createApModelId(raw.vendor, raw.modelName), vendor: raw.vendor, modelName: raw.modelName, bands };
+    });
+}
+
+export function parseApModelFile(text: string, fileName: string, antennaPatterns: AntennaPattern[]): APModel[] {
+    return /\.json$/i.test(fileName) ? parseJson(text, fileName, antennaPatterns) : parseCsv(text, fileName, antennaPatterns);
+}
+
+// Migration: copy patterns referenced by id (catalog rows) or by per-model links (project settings)
+// into the radio specs. Returns only the changed models; links to patterns this browser lacks are kept.
+export function embedLegacyAntennaPatterns(catalog: APCatalog, antennaPatterns: AntennaPattern[], links: LegacyPatternLinks = {}): APModel[] {
+    const migrated: APModel[] = [];
+    Object.values(catalog).forEach(model => {
+        const bands: APModel['bands'] = { ...model.bands };
+        let changed = false;
+        BANDS.forEach(band => {
+            const spec = bands[band] as LegacyRadioSpec | undefined;
+            const patternId = spec?.antennaPatternId ?? links[model.id]?.[band];
+            const pattern = patternId ? antennaPatterns.find(p => p.id === patternId) : undefined;
+            if (!spec || !pattern || (spec.antennaPattern && !spec.antennaPatternId)) return;
+            const embedded: LegacyRadioSpec = { ...spec, antennaPattern: spec.antennaPattern ?? pattern };
+            delete embedded.antennaPatternId;
+            bands[band] = embedded;
+            changed = true;
+        });
+        if (changed) migrated.push({ ...model, bands });
+    });
+    return migrated;
+}
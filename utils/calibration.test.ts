@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { AccessPoint, DEFAULT_MATERIALS, SurveyPoint, Wall } from "@/types";
+import { calibratePropagation } from "./calibration";
+import { getGridDims, propagateAp, PropagationEnvironment, sampleGrid } from "./propagation";
+import { SurveyComparison } from "./survey";
+
+const ap: AccessPoint = {
+    id: 'ap',
+    name: 'AP',
+    model: 'custom',
+    color: '#000000',
+    x: 105,
+    y: 205,
+    height: 1,
+    radios: [{ band: '5GHz', enabled: true, txPower: 20, antennaGain: 0, channel: 36 }]
+};
+const walls: Wall[] = [{ id: 'wall', start: { x: 300, y: 0 }, end: { x: 300, y: 400 }, material: 'drywall', thickness: 12 }];
+const env: PropagationEnvironment = { walls, doors: [], materials: DEFAULT_MATERIALS, band: '5GHz', width: 800, height: 400, cellSize: 10, pixelsPerMeter: 40, clientHeight: 1 };
+
+function signalGrid(environment: PropagationEnvironment): Float32Array {
+    return propagateAp(ap, environment)!.signalGrid;
+}
+
+describe('calibratePropagation', () => {
+    it('recovers the site path loss and wall loss so the recomputed map matches the survey', () => {
+        // The "site": steeper path loss and a drywall much heavier than its rating
+        const site = signalGrid({
+            ...env,
+            pathLoss: { referenceLoss: 44, pathLossExponent: 3.6 },
+            materials: DEFAULT_MATERIALS.map(m => m.id === 'drywall' ? { ...m, attenuation: { ...m.attenuation, '5GHz': 10 } } : m)
+        });
+        const predicted = signalGrid(env);
+        const dims = getGridDims(env);
+
+        const points: SurveyPoint[] = [];
+        const comparisons: SurveyComparison[] = [];
+        for (let x = 155; x < 800; x += 50) {
+            for (let y = 55; y < 400; y += 50) {
+                const measurement = { bssid: 'aa:bb:cc:dd:ee:01', ssid: 'site', channel: 36, rssi: sampleGrid(site, dims, env.cellSize, { x, y }) };
+                const point = { id: `${x},${y}`, x, y, measurements: [measurement] };
+                const prediction = sampleGrid(predicted, dims, env.cellSize, point);
+                points.push(point);
+                comparisons.push({ pointId: point.id, measurement, apIndex: 0, predicted: prediction, delta: measurement.rssi - prediction });
+            }
+        }
+
+        const result = calibratePropagation(comparisons, points, [ap], env);
+        expect(result.rmseBefore).toBeGreaterThan(3);
+        expect(result.rmseAfter).toBeLessThan(1);
+        expect(result.after.pathLossExponent).toBeCloseTo(3.6, 0);
+        // The prior pulls the wall a little towards its rating
+        expect(Math.abs(result.materials.find(m => m.materialId === 'drywall')!.after - 10)).toBeLessThanOrEqual(1.5);
+    });
+});
@@ -0,0 +1,166 @@
+/**
+ * Propagation Calibration - Fits the path-loss exponent, the reference loss and per-material
+ * wall losses of a band to site-survey readings (ridge-regularised least squares).
+ *
+ * Each reading is traced as a straight ray from its AP: the fitted parameters change the
+ * prediction by -dPL0 - 10*log10(d)*dn - sum(crossings * dLoss), as the grid charges each wall
+ * crossing its rated loss. Everything else the grid model adds (antenna pattern, reflections,
+ * detours) is kept as it was. The fit is then checked by recomputing the APs' grids.
+ */
+
+import { AccessPoint, Band, BLOCKING_ATTENUATION_DB, DEFAULT_CLIENT_HEIGHT, MaterialDefinition, PathLossModel, Point, SurveyPoint } from "@/types";
+import { distance, getIntersection } from "./geometry";
+import { getMaterial, isBlockingMaterial } from "./materials";
+import { DEFAULT_AP_HEIGHT } from "./antenna";
+import { MeasuredPattern } from "./antenna";
+import { AttenuationCache, getGridDims, getPathLossModel, NO_SIGNAL_DBM, propagateAp, PropagationEnvironment, sampleGrid } from "./propagation";
+import { SurveyComparison } from "./survey";
+import { solveLinearSystem } from "./linearSystem";
+
+export const MIN_CALIBRATION_READINGS = 5;
+const MIN_MATERIAL_CROSSINGS = 3; // Rays through a material before its loss is fitted
+
+// Expected size of a correction: a change of one spread costs as much as 1 dB of error on one reading
+const PRIOR_SPREAD = { referenceLoss: 3, pathLossExponent: 0.5, material: 5 };
+const EXPONENT_RANGE: [number, number] = [1.5, 6];
+const REFERENCE_LOSS_RANGE: [number, number] = [20, 70];
+
+export interface MaterialFit {
+    materialId: string;
+    name: string;
+    crossings: number; // Rays through walls of the material
+    before: number;    // dB per wall on the band
+    after: number;
+}
+
+export interface CalibrationResult {
+    readings: number;
+    rmseBefore: number;
+    rmseAfter: number; // Of the heatmap recomputed with the fitted values
+    before: PathLossModel;
+    after: PathLossModel;
+    materials: MaterialFit[];
+}
+
+// Wall crossings per material on the straight path (door openings do not count)
+function countCrossings(from: Point, to: Point, env: PropagationEnvironment): Map<string, number> {
+    const counts = new Map<string, number>();
+    env.walls.forEach(wall => {
+        const hit = getIntersection(from, to, wall.start, wall.end);
+        if (!hit) return;
+        const along = distance(wall.start, hit);
+        const length = distance(wall.start, wall.end);
+        const throughDoor = env.doors.some(d => d.wallId === wall.id && Math.abs(d.ratio * length - along) <= d.width / 2);
+        if (!throughDoor) counts.set(wall.material, (counts.get(wall.material) ?? 0) + 1);
+    });
+    return counts;
+}
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Fit the band's path-loss parameters and the losses of materials crossed often enough.
+ * `comparisons` index `aps`; readings of APs beyond the array (other floors) are left out.
+ * `getPattern` is the measured antenna pattern of an AP (as the heatmap uses it).
+ */
+export function calibratePropagation(
+    comparisons: SurveyComparison[],
+    points: SurveyPoint[],
+    aps: AccessPoint[],
+    env: PropagationEnvironment,
+    getPattern?: (ap: AccessPoint) => MeasuredPattern | null
+): CalibrationResult {
+    const pointsById = new Map(points.map(p => [p.id, p]));
+    const clientHeight = env.clientHeight ?? DEFAULT_CLIENT_HEIGHT;
+    const rays: { comparison: SurveyComparison; point: SurveyPoint; delta: number; logDistance: number; crossings: Map<string, number> }[] = [];
+    comparisons.forEach(c => {
+        const ap = aps[c.apIndex];
+        const point = pointsById.get(c.pointId);
+        if (!ap || !point) return;
+        const horizontal = distance(ap, point) / env.pixelsPerMeter;
+        const vertical = (ap.height ?? DEFAULT_AP_HEIGHT) - clientHeight;
+        rays.push({
+            comparison: c,
+            point,
+            delta: c.delta,
+            logDistance: Math.log10(Math.max(1, Math.hypot(horizontal, vertical))),
+            crossings: countCrossings(ap, point, env)
+        });
+    });
+    if (rays.length < MIN_CALIBRATION_READINGS) {
+        throw new Error(`Calibration needs at least ${MIN_CALIBRATION_READINGS} readings matched to APs on this floor (got ${rays.length})`);
+    }
+
+    // Blocking materials are never crossed by the grid model (it routes around them)
+    const crossingTotals = new Map<string, number>();
+    rays.forEach(ray => ray.crossings.forEach((count, id) => crossingTotals.set(id, (crossingTotals.get(id) ?? 0) + count)));
+    const fitted = Array.from(crossingTotals)
+        .filter(([id, count]) => count >= MIN_MATERIAL_CROSSINGS && !isBlockingMaterial(getMaterial(env.materials, id), env.band))
+        .map(([id, count]) => ({ material: getMaterial(env.materials, id), count }));
+
+    // Unknowns: [dReferenceLoss, dExponent, dLoss per fitted material]
+    const rows = rays.map(ray => [-1, -10 * ray.logDistance, ...fitted.map(f => -(ray.crossings.get(f.material.id) ?? 0))]);
+    const spreads = [PRIOR_SPREAD.referenceLoss, PRIOR_SPREAD.pathLossExponent, ...fitted.map(() => PRIOR_SPREAD.material)];
+    const size = spreads.length;
+    const normal = spreads.map((spread, i) => spreads.map((_, j) => i === j ? 1 / (spread * spread) : 0));
+    const rhs = new Array(size).fill(0);
+    rows.forEach((row, r) => {
+        for (let i = 0; i < size; i++) {
+            rhs[i] += row[i] * rays[r].delta;
+            for (let j = 0; j < size; j++) normal[i][j] += row[i] * row[j];
+        }
+    });
+    const solution = solveLinearSystem(normal, rhs);
+
+    const { referenceLoss, pathLossExponent } = getPathLossModel(env);
+    const before: PathLossModel = { referenceLoss, pathLossExponent };
+    const after: PathLossModel = {
+        referenceLoss: round(clamp(before.referenceLoss + solution[0], REFERENCE_LOSS_RANGE), 1),
+        pathLossExponent: round(clamp(before.pathLossExponent + solution[1], EXPONENT_RANGE), 2)
+    };
+    const materials: MaterialFit[] = fitted.map(({ material, count }, i) => {
+        const loss = material.attenuation[env.band];
+        return {
+            materialId: material.id,
+            name: material.name,
+            crossings: count,
+            before: loss,
+            after: round(clamp(loss + solution[2 + i], [0, BLOCKING_ATTENUATION_DB - 1]), 1)
+        };
+    });
+
+    // Error of the real map with the rounded, clamped values that would be saved
+    const fittedEnv: PropagationEnvironment = { ...env, pathLoss: after, materials: applyMaterialFits(env.materials, env.band, materials) };
+    const attenuation = new AttenuationCache(fittedEnv);
+    const dims = getGridDims(fittedEnv);
+    const grids = new Map<number, Float32Array | null>();
+    const deltasAfter: number[] = [];
+    rays.forEach(({ comparison, point }) => {
+        if (!grids.has(comparison.apIndex)) {
+            const ap = aps[comparison.apIndex];
+            grids.set(comparison.apIndex, propagateAp(ap, fittedEnv, attenuation, getPattern?.(ap))?.signalGrid ?? null);
+        }
+        const grid = grids.get(comparison.apIndex);
+        const predicted = grid ? sampleGrid(grid, dims, fittedEnv.cellSize, point) : NO_SIGNAL_DBM;
+        if (predicted > NO_SIGNAL_DBM) deltasAfter.push(comparison.measurement.rssi - predicted);
+    });
+
+    const rms = (values: number[]) => Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / Math.max(1, values.length));
+    return {
+        readings: rays.length,
+        rmseBefore: rms(rays.map(ray => ray.delta)),
+        rmseAfter: rms(deltasAfter),
+        before,
+        after,
+        materials
+    };
+}
+
+// Material library with the fitted losses written into the band
+export function applyMaterialFits(library: MaterialDefinition[], band: Band, fits: MaterialFit[]): MaterialDefinition[] {
+    return library.map(material => {
+        const fit = fits.find(f => f.materialId === material.id);
+        return fit ? { ...material, attenuation: { ...material.attenuation, [band]: fit.after } } : material;
+    });
+}
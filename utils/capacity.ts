@@ -0,0 +1,142 @@
+/**
+ * Capacity Planning - Spreads the clients of density zones over their serving APs and
+ * estimates the airtime each radio needs to carry them.
+ */
+
+import { APPLICATION_PROFILES, CapacityLimits, DensityZone } from "@/types";
+import { getPolygonArea, isPointInPolygon } from "./geometry";
+import { GridDims } from "./propagation";
+
+export const MAC_EFFICIENCY = 0.6; // Share of the PHY rate left for data after MAC overhead and contention
+
+export interface RadioLoad {
+    apIndex: number;
+    clients: number;        // Zone clients plus placed devices
+    demandMbps: number;
+    airtimePercent: number; // Share of the channel time the zone clients need
+    overClients: boolean;
+    overAirtime: boolean;
+}
+
+export interface CapacityResult {
+    loads: RadioLoad[];     // APs carrying clients, busiest first
+    clientsByAp: number[];  // Indexed like the best-server grid
+    totalClients: number;
+    unservedClients: number; // Zone clients outside every AP's cell or without a usable rate
+}
+
+export interface CapacityGrids {
+    serverGrid: Int32Array;  // Serving AP per cell (-1 = none)
+    rateGrid: Float32Array;  // PHY rate (Mbps) from the serving AP
+    dims: GridDims;
+    cellSize: number;
+    pixelsPerMeter: number;
+}
+
+export function getZoneAreaM2(zone: DensityZone, pixelsPerMeter: number): number {
+    return getPolygonArea(zone.points) / (pixelsPerMeter * pixelsPerMeter);
+}
+
+export function getZoneClients(zone: DensityZone, pixelsPerMeter: number): number {
+    return getZoneAreaM2(zone, pixelsPerMeter) * zone.peoplePerM2 * zone.devicesPerPerson;
+}
+
+// Throughput one client of the zone needs, weighted by the application mix
+export function getZoneDemandMbps(zone: DensityZone): number {
+    let share = 0;
+    let mbps = 0;
+    APPLICATION_PROFILES.forEach(app => {
+        const percent = zone.appMix[app.id] ?? 0;
+        share += percent;
+        mbps += percent * app.mbps;
+    });
+    return share > 0 ? mbps / share : 0;
+}
+
+// Grid cells whose centre lies inside the zone (the cell under the first point for tiny zones)
+export function getZoneCells(zone: DensityZone, dims: GridDims, cellSize: number): number[] {
+    const xs = zone.points.map(p => p.x);
+    const ys = zone.points.map(p => p.y);
+    const minCol = Math.max(0, Math.floor(Math.min(...xs) / cellSize));
+    const maxCol = Math.min(dims.cols - 1, Math.floor(Math.max(...xs) / cellSize));
+    const minRow = Math.max(0, Math.floor(Math.min(...ys) / cellSize));
+    const maxRow = Math.min(dims.rows - 1, Math.floor(Math.max(...ys) / cellSize));
+
+    const cells: number[] = [];
+    for (let row = minRow; row <= maxRow; row++) {
+        for (let col = minCol; col <= maxCol; col++) {
+            if (isPointInPolygon({ x: (col + 0.5) * cellSize, y: (row + 0.5) * cellSize }, zone.points)) {
+                cells.push(row * dims.cols + col);
+            }
+        }
+    }
+    if (cells.length === 0 && zone.points.length > 0) {
+        const col = Math.floor(zone.points[0].x / cellSize);
+        const row = Math.floor(zone.points[0].y / cellSize);
+        if (col >= 0 && col < dims.cols && row >= 0 && row < dims.rows) cells.push(row * dims.cols + col);
+    }
+    return cells;
+}
+
+/**
+ * Assign every zone's clients, spread evenly over its area, to the serving AP of their cell.
+ * Airtime is the demand over the cell's PHY rate less MAC overhead. Placed devices
+ * (`deviceApIndexes`, one serving AP each) count toward the client limit only.
+ */
+export function analyzeCapacity(
+    zones: DensityZone[],
+    grids: CapacityGrids,
+    apCount: number,
+    deviceApIndexes: number[],
+    limits: CapacityLimits
+): CapacityResult {
+    const { serverGrid, rateGrid, dims, cellSize, pixelsPerMeter } = grids;
+    const clientsByAp: number[] = new Array(apCount).fill(0);
+    const demandByAp: number[] = new Array(apCount).fill(0);
+    const airtimeByAp: number[] = new Array(apCount).fill(0);
+    let totalClients = 0;
+    let unservedClients = 0;
+
+    zones.forEach(zone => {
+        const cells = getZoneCells(zone, dims, cellSize);
+        const clients = getZoneClients(zone, pixelsPerMeter);
+        if (cells.length === 0 || clients <= 0) return;
+        const clientsPerCell = clients / cells.length;
+        const demandPerCell = clientsPerCell * getZoneDemandMbps(zone);
+        totalClients += clients;
+
+        cells.forEach(i => {
+            const apIndex = serverGrid[i];
+            const rate = rateGrid[i];
+            if (apIndex < 0 || apIndex >= apCount || rate <= 0) {
+                unservedClients += clientsPerCell;
+                return;
+            }
+            clientsByAp[apIndex] += clientsPerCell;
+            demandByAp[apIndex] += demandPerCell;
+            airtimeByAp[apIndex] += (demandPerCell / (rate * MAC_EFFICIENCY)) * 100;
+        });
+    });
+
+    deviceApIndexes.forEach(apIndex => {
+        if (apIndex < 0 || apIndex >= apCount) return;
+        clientsByAp[apIndex]++;
+        totalClients++;
+    });
+
+    const loads: RadioLoad[] = [];
+    clientsByAp.forEach((clients, apIndex) => {
+        if (clients <= 0) return;
+        loads.push({
+            apIndex,
+            clients,
+            demandMbps: demandByAp[apIndex],
+            airtimePercent: airtimeByAp[apIndex],
+            overClients: clients > limits.maxClientsPerRadio,
+            overAirtime: airtimeByAp[apIndex] > limits.maxAirtimePercent
+        });
+    });
+    loads.sort((a, b) => b.airtimePercent - a.airtimePercent || b.clients - a.clients);
+
+    return { loads, clientsByAp, totalClients, unservedClients };
+}
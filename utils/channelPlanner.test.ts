@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { AccessPoint } from "@/types";
+import { ChannelPlanOptions, getDefaultPlanChannels, planChannels } from "./channelPlanner";
+
+// Four APs on channel 36 that all hear each other well above the conflict threshold
+const aps: AccessPoint[] = [0, 1, 2, 3].map(i => ({
+    id: `ap-${i}`,
+    name: `AP ${i}`,
+    model: 'custom',
+    color: '#000000',
+    x: i * 100,
+    y: 0,
+    radios: [{ band: '5GHz', enabled: true, txPower: 20, antennaGain: 0, channel: 36, channelLocked: i === 0 }]
+}));
+const rssi = aps.map((_, i) => aps.map((_, j) => (i === j ? -Infinity : -50)));
+
+const options: ChannelPlanOptions = {
+    band: '5GHz',
+    channels: [36, 40, 44, 48],
+    channelWidth: 20,
+    conflictThresholdDbm: -82,
+    maxPowerReductionDb: 0,
+    seed: 7
+};
+
+describe('planChannels', () => {
+    it('moves co-channel neighbours apart and leaves locked APs alone', () => {
+        const plan = planChannels(aps, rssi, options, {});
+        expect(plan.before.coChannelPairs).toBe(6);
+        expect(plan.assignments.map(a => a.apId)).toEqual(['ap-1', 'ap-2', 'ap-3']);
+        // The locked AP keeps channel 36, so the others share out the rest
+        expect(new Set([36, ...plan.assignments.map(a => a.channel)]).size).toBe(4);
+        expect(plan.after.coChannelPairs).toBe(0);
+    });
+
+    it('keeps the current channels when no channel fits the width', () => {
+        expect(getDefaultPlanChannels('5GHz', 160, false)).toEqual([]);
+        const plan = planChannels(aps, rssi, { ...options, channels: [], channelWidth: 160 }, {});
+        expect(plan.assignments).toEqual([]);
+        expect(plan.after).toEqual(plan.before);
+    });
+});
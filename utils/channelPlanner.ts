@@ -0,0 +1,319 @@
+/**
+ * Channel Planner - assigns channels (and optionally lowers Tx power) from simulated inter-AP signal.
+ * APs that hear each other above a threshold form a conflict graph; a DSATUR colouring seeds a
+ * simulated-annealing search that minimises the interference the APs cause each other.
+ */
+
+import { AccessPoint, APCatalog, Band, BAND_PROFILES, ChannelWidth, Radio } from "@/types";
+import { ApSignalResult, GridDims, sampleGrid } from "./propagation";
+import { getChannelCenterMhz, getChannelSpectrum, getSpectralCoupling, getSpectrumOverlapMhz, Spectrum } from "./interference";
+import { getActiveRadio } from "./radio";
+
+// Preamble detection threshold (CCA-SD): a co-channel AP heard above it defers transmissions
+export const DEFAULT_CONFLICT_THRESHOLD_DBM = -82;
+
+const POWER_STEP_DB = 3;
+const MIN_TX_POWER_DBM = 5;
+// Cost of 1dB less power (in threshold-relative interference units) so power is only cut where it helps
+const POWER_PENALTY_PER_DB = 0.25;
+
+export interface CandidateChannel {
+    channel: number; // Primary 20MHz channel
+    dfs: boolean;
+}
+
+export interface ChannelPlanOptions {
+    band: Band;
+    channels: number[]; // Primary channels the planner may use
+    channelWidth: ChannelWidth; // Width given to every unlocked radio
+    conflictThresholdDbm: number;
+    maxPowerReductionDb: number; // Below the model's maximum power (0 = channels only, power untouched)
+    iterations?: number; // Annealing moves (default scales with the AP count)
+    seed?: number; // Same seed + same inputs = same plan
+}
+
+export interface ChannelAssignment {
+    apId: string;
+    channel: number;
+    channelWidth: ChannelWidth;
+    txPower: number;
+}
+
+// Two APs that hear each other above the conflict threshold
+export interface ConflictEdge {
+    a: number; // AP indices
+    b: number;
+    rssiDbm: number; // Stronger of the two directions at the current power
+}
+
+export interface ChannelPlanReport {
+    coChannelPairs: number; // Conflicting APs whose channels overlap
+    worstCoChannelDbm: number | null; // Strongest co-channel neighbour
+    interferenceScore: number; // Sum of coupled neighbour power relative to the threshold (linear)
+}
+
+export interface ChannelPlan {
+    assignments: ChannelAssignment[];
+    conflicts: ConflictEdge[];
+    before: ChannelPlanReport;
+    after: ChannelPlanReport;
+}
+
+// Per-AP state while searching
+interface PlanState {
+    spectra: Spectrum[];
+    powerDeltas: number[]; // dB relative to the current Tx power (the power the grids were simulated with)
+}
+
+// Primary channels usable at a width: one per bonded block, and only where every 20MHz sub-channel exists
+export function getCandidateChannels(band: Band, width: ChannelWidth): CandidateChannel[] {
+    const profile = BAND_PROFILES[band];
+    const centers = new Set(profile.channels.map(ch => getChannelCenterMhz(band, ch)));
+    const seen = new Set<number>();
+    const candidates: CandidateChannel[] = [];
+
+    profile.channels.forEach(channel => {
+        const spectrum = getChannelSpectrum(band, channel, width);
+        if (seen.has(spectrum.centerMhz)) return;
+
+        const subCenters: number[] = [];
+        for (let mhz = spectrum.centerMhz - spectrum.widthMhz / 2 + 10; mhz < spectrum.centerMhz + spectrum.widthMhz / 2; mhz += 20) {
+            subCenters.push(mhz);
+        }
+        if (!subCenters.every(mhz => centers.has(mhz))) return;
+
+        seen.add(spectrum.centerMhz);
+        const dfs = profile.channels.some(ch => profile.dfsChannels.includes(ch) && subCenters.includes(getChannelCenterMhz(band, ch)));
+        candidates.push({ channel, dfs });
+    });
+    return candidates;
+}
+
+// Starting selection: the band's planning set at 20MHz, otherwise every non-DFS block (plus DFS if allowed)
+export function getDefaultPlanChannels(band: Band, width: ChannelWidth, allowDfs: boolean): number[] {
+    const candidates = getCandidateChannels(band, width).filter(c => allowDfs || !c.dfs);
+    if (width === 20 || band === '2.4GHz') {
+        const planning = candidates.filter(c => BAND_PROFILES[band].planningChannels.includes(c.channel));
+        if (planning.length > 0) return planning.map(c => c.channel);
+    }
+    return candidates.map(c => c.channel);
+}
+
+/**
+ * Signal of each AP measured at every other AP, sampled from the simulated grids.
+ * rssi[i][j] = what AP i hears from AP j (-Infinity when j has no grid).
+ */
+export function buildRssiMatrix(aps: AccessPoint[], results: Map<string, ApSignalResult>, dims: GridDims, cellSize: number): number[][] {
+    return aps.map((receiver, i) => aps.map((transmitter, j) => {
+        const result = results.get(transmitter.id);
+        if (i === j || !result) return -Infinity;
+        return sampleGrid(result.signalGrid, dims, cellSize, receiver);
+    }));
+}
+
+const dbToLinear = (db: number) => Math.pow(10, db / 10);
+
+// Deterministic PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+    let t = seed >>> 0;
+    return () => {
+        t = (t + 0x6D2B79F5) >>> 0;
+        let r = Math.imul(t ^ (t >>> 15), 1 | t);
+        r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+        return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function getConflictGraph(rssi: number[][], thresholdDbm: number): ConflictEdge[] {
+    const edges: ConflictEdge[] = [];
+    for (let a = 0; a < rssi.length; a++) {
+        for (let b = a + 1; b < rssi.length; b++) {
+            const rssiDbm = Math.max(rssi[a][b], rssi[b][a]);
+            if (rssiDbm >= thresholdDbm) edges.push({ a, b, rssiDbm });
+        }
+    }
+    return edges;
+}
+
+// Interference two conflicting APs cause each other (both directions, weighted by spectral coupling)
+function getPairCost(edge: ConflictEdge, rssi: number[][], state: PlanState, thresholdDbm: number): number {
+    const { a, b } = edge;
+    const intoA = getSpectralCoupling(state.spectra[a], state.spectra[b]) * dbToLinear(rssi[a][b] + state.powerDeltas[b] - thresholdDbm);
+    const intoB = getSpectralCoupling(state.spectra[b], state.spectra[a]) * dbToLinear(rssi[b][a] + state.powerDeltas[a] - thresholdDbm);
+    return intoA + intoB;
+}
+
+function getReport(edges: ConflictEdge[], rssi: number[][], state: PlanState, thresholdDbm: number): ChannelPlanReport {
+    let coChannelPairs = 0;
+    let worstCoChannelDbm: number | null = null;
+    let interferenceScore = 0;
+
+    edges.forEach(edge => {
+        interferenceScore += getPairCost(edge, rssi, state, thresholdDbm);
+        if (getSpectrumOverlapMhz(state.spectra[edge.a], state.spectra[edge.b]) === 0) return;
+
+        coChannelPairs++;
+        const heard = Math.max(rssi[edge.a][edge.b] + state.powerDeltas[edge.b], rssi[edge.b][edge.a] + state.powerDeltas[edge.a]);
+        worstCoChannelDbm = worstCoChannelDbm === null ? heard : Math.max(worstCoChannelDbm, heard);
+    });
+    return { coChannelPairs, worstCoChannelDbm, interferenceScore };
+}
+
+/**
+ * Plan channels for every AP with an active radio on `options.band`.
+ * `rssi` comes from buildRssiMatrix for the same AP order. Locked radios keep their settings
+ * but still count as neighbours of the APs around them.
+ */
+export function planChannels(aps: AccessPoint[], rssi: number[][], options: ChannelPlanOptions, catalog: APCatalog): ChannelPlan {
+    const { band, channelWidth, conflictThresholdDbm: threshold } = options;
+    const radios = aps.map(ap => getActiveRadio(ap, band));
+    const isFree = (i: number) => !!radios[i] && !radios[i]!.channelLocked;
+    const currentSpectrum = (radio: Radio | undefined) =>
+        radio ? getChannelSpectrum(band, radio.channel, radio.channelWidth || 20) : { centerMhz: 0, widthMhz: 20 };
+
+    // Radios that are off neither cause nor suffer interference on this band
+    const edges = getConflictGraph(rssi, threshold).filter(e => radios[e.a] && radios[e.b]);
+    const neighbours: ConflictEdge[][] = aps.map(() => []);
+    edges.forEach(edge => {
+        neighbours[edge.a].push(edge);
+        neighbours[edge.b].push(edge);
+    });
+
+    const channelOptions = options.channels.length > 0 ? options.channels : getDefaultPlanChannels(band, channelWidth, false);
+    const spectrumOptions = channelOptions.map(ch => getChannelSpectrum(band, ch, channelWidth));
+    // Power levels step down from the model's maximum, so planning again can also restore power
+    const maxPower = aps.map((ap, i) => {
+        const radio = radios[i];
+        if (!radio) return 0;
+        return Math.max(radio.txPower, catalog[ap.model]?.bands[band]?.txPower ?? radio.txPower);
+    });
+    const powerOptions = aps.map((_, i) => {
+        const radio = radios[i];
+        if (!radio || !isFree(i) || options.maxPowerReductionDb <= 0) return [0];
+        const deltas: number[] = [];
+        for (let cut = 0; cut <= options.maxPowerReductionDb && maxPower[i] - cut >= MIN_TX_POWER_DBM; cut += POWER_STEP_DB) {
+            deltas.push(maxPower[i] - cut - radio.txPower);
+        }
+        return deltas.length > 0 ? deltas : [0];
+    });
+    const powerPenalty = (i: number) => isFree(i) && options.maxPowerReductionDb > 0
+        ? (maxPower[i] - radios[i]!.txPower - state.powerDeltas[i]) * POWER_PENALTY_PER_DB
+        : 0;
+
+    const current: PlanState = { spectra: radios.map(currentSpectrum), powerDeltas: aps.map(() => 0) };
+    const before = getReport(edges, rssi, current, threshold);
+    // No channel fits the width (e.g. 160MHz without DFS): every AP keeps its channel
+    if (spectrumOptions.length === 0) return { assignments: [], conflicts: edges, before, after: before };
+    const state: PlanState = { spectra: [...current.spectra], powerDeltas: [...current.powerDeltas] };
+
+    const choice = aps.map(() => -1); // Index into spectrumOptions (-1 = locked / off)
+
+    // Cost an AP contributes: interference with its neighbours plus its power cut
+    const nodeCost = (i: number, assigned?: (j: number) => boolean) => {
+        let cost = powerPenalty(i);
+        neighbours[i].forEach(edge => {
+            const other = edge.a === i ? edge.b : edge.a;
+            if (!assigned || assigned(other)) cost += getPairCost(edge, rssi, state, threshold);
+        });
+        return cost;
+    };
+
+    // 1. DSATUR: colour the most constrained AP next (most distinct neighbour channels, then strongest ties)
+    const coloured = aps.map((_, i) => !isFree(i));
+    const weightedDegree = aps.map((_, i) => neighbours[i].reduce((sum, e) => sum + dbToLinear(e.rssiDbm - threshold), 0));
+    for (let remaining = coloured.filter(c => !c).length; remaining > 0; remaining--) {
+        let next = -1;
+        let bestSaturation = -1;
+        coloured.forEach((done, i) => {
+            if (done) return;
+            const used = new Set<number>();
+            neighbours[i].forEach(edge => {
+                const other = edge.a === i ? edge.b : edge.a;
+                if (coloured[other]) used.add(state.spectra[other].centerMhz);
+            });
+            if (used.size > bestSaturation || (used.size === bestSaturation && weightedDegree[i] > weightedDegree[next])) {
+                next = i;
+                bestSaturation = used.size;
+            }
+        });
+
+        let bestCost = Infinity;
+        spectrumOptions.forEach((spectrum, k) => {
+            state.spectra[next] = spectrum;
+            const cost = nodeCost(next, j => coloured[j]);
+            if (cost < bestCost) {
+                bestCost = cost;
+                choice[next] = k;
+            }
+        });
+        state.spectra[next] = spectrumOptions[choice[next]];
+        coloured[next] = true;
+    }
+
+    // 2. Simulated annealing over channel and power
+    const free = aps.map((_, i) => i).filter(isFree);
+    const canMove = free.filter(i => spectrumOptions.length > 1 || powerOptions[i].length > 1);
+    if (canMove.length > 0) {
+        const random = createRandom(options.seed ?? 1);
+        const iterations = options.iterations ?? Math.min(50000, Math.max(2000, canMove.length * 500));
+        const totalCost = () => edges.reduce((sum, e) => sum + getPairCost(e, rssi, state, threshold), 0)
+            + aps.reduce((sum, _, i) => sum + powerPenalty(i), 0);
+
+        let cost = totalCost();
+        let bestCost = cost;
+        let best = { choice: [...choice], powerDeltas: [...state.powerDeltas] };
+        const startTemp = Math.max(1, cost / Math.max(1, edges.length));
+        const endTemp = startTemp * 1e-3;
+
+        for (let step = 0; step < iterations; step++) {
+            const temp = startTemp * Math.pow(endTemp / startTemp, step / iterations);
+            const i = canMove[Math.floor(random() * canMove.length)];
+            const changeChannel = powerOptions[i].length === 1 || (spectrumOptions.length > 1 && random() < 0.7);
+
+            const oldChoice = choice[i];
+            const oldDelta = state.powerDeltas[i];
+            const oldNodeCost = nodeCost(i);
+            if (changeChannel) {
+                const k = Math.floor(random() * (spectrumOptions.length - 1));
+                choice[i] = k >= oldChoice ? k + 1 : k;
+                state.spectra[i] = spectrumOptions[choice[i]];
+            } else {
+                const deltas = powerOptions[i].filter(d => d !== oldDelta);
+                state.powerDeltas[i] = deltas[Math.floor(random() * deltas.length)];
+            }
+
+            const change = nodeCost(i) - oldNodeCost;
+            if (change <= 0 || random() < Math.exp(-change / temp)) {
+                cost += change;
+                if (cost < bestCost - 1e-9) {
+                    bestCost = cost;
+                    best = { choice: [...choice], powerDeltas: [...state.powerDeltas] };
+                }
+            } else {
+                choice[i] = oldChoice;
+                state.spectra[i] = spectrumOptions[oldChoice];
+                state.powerDeltas[i] = oldDelta;
+            }
+        }
+
+        best.choice.forEach((k, i) => {
+            if (k >= 0) state.spectra[i] = spectrumOptions[k];
+        });
+        state.powerDeltas = best.powerDeltas;
+        choice.splice(0, choice.length, ...best.choice);
+    }
+
+    const assignments: ChannelAssignment[] = free.map(i => ({
+        apId: aps[i].id,
+        channel: channelOptions[choice[i]],
+        channelWidth,
+        txPower: radios[i]!.txPower + state.powerDeltas[i]
+    }));
+
+    return {
+        assignments,
+        conflicts: edges,
+        before,
+        after: getReport(edges, rssi, state, threshold)
+    };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { RequirementProfile } from "@/types";
+import { analyzeRequirements } from "./coverageAnalysis";
+import { buildRateGrids, getDataRateMbps } from "./dataRate";
+import { CompositeHeatmap } from "./propagation";
+
+const profile: RequirementProfile = {
+    id: 'data',
+    name: 'Data',
+    primaryRssiDbm: -70,
+    secondaryRssiDbm: null,
+    minSinrDb: 0,
+    minAudibleAps: 0,
+    audibleRssiDbm: -75,
+    minDataRateMbps: 100,
+    targetPercent: 95
+};
+
+describe('analyzeRequirements', () => {
+    it('grades the data rate on the link the reference client negotiates', () => {
+        // Strong SINR everywhere, but the client only does one 802.11n stream on 20 MHz
+        const composite: CompositeHeatmap = {
+            signalGrid: new Float32Array([-50, -50]),
+            minDistGrid: new Float32Array(2),
+            bestApIndexGrid: new Int32Array([0, 0]),
+            sinrGrid: new Float32Array([30, 30])
+        };
+        expect(getDataRateMbps(30, 20)).toBeGreaterThan(profile.minDataRateMbps);
+        const { rateGrid } = buildRateGrids(composite.sinrGrid, composite.bestApIndexGrid, [{ standard: '802.11n', widthMhz: 20, spatialStreams: 1 }]);
+
+        const [result] = analyzeRequirements([], composite, rateGrid, [0, 1], [profile]);
+        expect(result.passPercent).toBe(0);
+        expect(result.failPercentByCriterion.dataRate).toBe(100);
+    });
+});
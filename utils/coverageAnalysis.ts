@@ -3,6 +3,11 @@
  * Telkomsel Corporate Standards
  */
 
+import { AccessPoint, BAND_PROFILES, RequirementProfile, ViewMode, Wall } from "@/types";
+import { getRadioEirp } from "./radio";
+import { CompositeEntry, CompositeHeatmap, countAudibleAps, GridDims, rankSignals } from "./propagation";
+import { getRateTierIndex } from "./dataRate";
+
 export interface CoverageStats {
     totalPixels: number;
     tooHotZone: number;     // > -45 dBm
@@ -68,11 +73,222 @@ export function analyzeCoverage(
     };
 }
 
+export interface FloorBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Bounding box of the drawn walls = the floor area coverage targets apply to (null = no walls)
+export function getFloorBounds(walls: Wall[]): FloorBounds | null {
+    if (walls.length === 0) return null;
+    const xs = walls.flatMap(w => [w.start.x, w.end.x]);
+    const ys = walls.flatMap(w => [w.start.y, w.end.y]);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// Open floor cells: centre inside the walls' bounds and not part of a wall (attenuation 0)
+export function getFloorCells(walls: Wall[], attenuation: ArrayLike<number>, dims: GridDims, cellSize: number): number[] {
+    const bounds = getFloorBounds(walls);
+    if (!bounds) return [];
+
+    const cells: number[] = [];
+    for (let row = 0; row < dims.rows; row++) {
+        for (let col = 0; col < dims.cols; col++) {
+            const x = (col + 0.5) * cellSize;
+            const y = (row + 0.5) * cellSize;
+            const i = row * dims.cols + col;
+            if (x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height && attenuation[i] === 0) {
+                cells.push(i);
+            }
+        }
+    }
+    return cells;
+}
+
+// Lower bounds of the legend tiers (exclusive), strongest first
+const RSSI_TIER_BOUNDS = [-45, -60, -65, -75, -85];
+const SINR_TIER_BOUNDS = [25, 15, 10, 5, -5];
+export const VIEW_TIER_COUNT = 6; // Last tier = dead zone / no service
+
+// Legend tier of a cell value in a view (0 = best), as the heatmap colours it
+export function getViewTierIndex(value: number, mode: ViewMode): number {
+    if (mode === 'rate') return getRateTierIndex(value);
+    if (mode === 'apCount') return VIEW_TIER_COUNT - 1 - Math.min(value, VIEW_TIER_COUNT - 1); // 5+ APs ... none
+    const bounds = mode === 'sinr' ? SINR_TIER_BOUNDS : RSSI_TIER_BOUNDS;
+    const index = bounds.findIndex(bound => value > bound);
+    return index === -1 ? bounds.length : index;
+}
+
+export interface ViewStats {
+    tierPercents: number[]; // Share of the floor per legend tier
+    median: number;         // Median cell value over the floor
+}
+
+// Share of the floor cells in each legend tier of a view
+export function analyzeViewTiers(grid: ArrayLike<number>, floorCells: number[], mode: ViewMode): ViewStats {
+    const counts: number[] = new Array(VIEW_TIER_COUNT).fill(0);
+    const values = floorCells.map(i => grid[i]);
+    values.forEach(value => counts[getViewTierIndex(value, mode)]++);
+    values.sort((a, b) => a - b);
+    const total = Math.max(1, floorCells.length);
+    return {
+        tierPercents: counts.map(count => (count / total) * 100),
+        median: values.length > 0 ? values[Math.floor(values.length / 2)] : 0
+    };
+}
+
+export const CELL_SIZE_FACTOR = 2; // Area or client share this many times the floor average (or 1/x of it) flags a cell
+
+export interface ServingCell {
+    apIndex: number;
+    name: string;
+    color: string;
+    areaM2: number;        // Floor area where this AP is the strongest usable one
+    floorPercent: number;
+    clients: number;
+    clientPercent: number;
+    sizing: 'large' | 'small' | null;
+    overloaded: boolean;   // Client share well above an even split
+}
+
+// Strongest AP per cell where the client can associate (-1 elsewhere)
+export function buildServerGrid(bestApIndexGrid: Int32Array, signalGrid: Float32Array, minSignalDbm: number): Int32Array {
+    const grid = new Int32Array(bestApIndexGrid.length).fill(-1);
+    for (let i = 0; i < grid.length; i++) {
+        if (signalGrid[i] >= minSignalDbm) grid[i] = bestApIndexGrid[i];
+    }
+    return grid;
+}
+
+/**
+ * Floor area and client share of each AP's cell, largest first.
+ * `clientsByAp` holds the clients each AP serves (placed devices and density zones).
+ */
+export function analyzeServingCells(
+    aps: AccessPoint[],
+    serverGrid: Int32Array,
+    floorCells: number[],
+    cellAreaM2: number,
+    clientsByAp: number[]
+): ServingCell[] {
+    const cellCounts = new Map<number, number>();
+    floorCells.forEach(i => {
+        const apIndex = serverGrid[i];
+        if (apIndex >= 0) cellCounts.set(apIndex, (cellCounts.get(apIndex) ?? 0) + 1);
+    });
+    const clientCounts = new Map<number, number>();
+    clientsByAp.forEach((clients, apIndex) => {
+        if (clients > 0) clientCounts.set(apIndex, clients);
+    });
+
+    const apIndexes = [...new Set([...cellCounts.keys(), ...clientCounts.keys()])].filter(apIndex => aps[apIndex]);
+    const totalCells = Math.max(1, floorCells.length);
+    const averageCells = apIndexes.length > 0 ? [...cellCounts.values()].reduce((sum, n) => sum + n, 0) / apIndexes.length : 0;
+    const totalClients = clientsByAp.reduce((sum, n) => sum + n, 0);
+    const evenClients = apIndexes.length > 0 ? totalClients / apIndexes.length : 0;
+
+    return apIndexes.map((apIndex): ServingCell => {
+        const cells = cellCounts.get(apIndex) ?? 0;
+        const clients = clientCounts.get(apIndex) ?? 0;
+        return {
+            apIndex,
+            name: aps[apIndex].name,
+            color: aps[apIndex].color,
+            areaM2: cells * cellAreaM2,
+            floorPercent: (cells / totalCells) * 100,
+            clients,
+            clientPercent: totalClients > 0 ? (clients / totalClients) * 100 : 0,
+            sizing: apIndexes.length < 2 ? null
+                : cells > averageCells * CELL_SIZE_FACTOR ? 'large'
+                : cells < averageCells / CELL_SIZE_FACTOR ? 'small'
+                : null,
+            overloaded: apIndexes.length > 1 && totalClients > 0 && clients > evenClients * CELL_SIZE_FACTOR
+        };
+    }).sort((a, b) => b.areaM2 - a.areaM2);
+}
+
+export type RequirementCriterion ='primary' | 'secondary' | 'sinr' | 'apCount' | 'dataRate';
+
+export interface RequirementResult {
+    profileId: string;
+    passPercent: number;
+    passed: boolean; // passPercent reaches the profile's target
+    failGrid: Uint8Array; // 1 = floor cell fails the profile
+    failPercentByCriterion: Record<RequirementCriterion, number>; // Share of the floor failing each criterion
+}
+
+/**
+ * Grade the floor against each requirement profile.
+ * `entries` and `composite` are the inputs and output of composeHeatmap for the same band;
+ * `rateGrid` is the reference client's rate over the links it negotiates (buildRateGrids).
+ */
+export function analyzeRequirements(
+    entries: CompositeEntry[],
+    composite: CompositeHeatmap,
+    rateGrid: Float32Array,
+    floorCells: number[],
+    profiles: RequirementProfile[]
+): RequirementResult[] {
+    const size = composite.signalGrid.length;
+
+    const { secondGrid } = rankSignals(entries, size);
+
+    // APs heard per cell, once per distinct audibility threshold
+    const audibleCounts = new Map<number, Uint16Array>();
+    profiles.forEach(profile => {
+        if (!audibleCounts.has(profile.audibleRssiDbm)) {
+            audibleCounts.set(profile.audibleRssiDbm, countAudibleAps(entries, size, profile.audibleRssiDbm));
+        }
+    });
+
+    const total = Math.max(1, floorCells.length);
+
+    return profiles.map(profile => {
+        const failGrid = new Uint8Array(size);
+        const failures: Record<RequirementCriterion, number> = { primary: 0, secondary: 0, sinr: 0, apCount: 0, dataRate: 0 };
+        const counts = audibleCounts.get(profile.audibleRssiDbm)!;
+        let passCells = 0;
+
+        floorCells.forEach(i => {
+            const failed: RequirementCriterion[] = [];
+            if (composite.signalGrid[i] < profile.primaryRssiDbm) failed.push('primary');
+            if (profile.secondaryRssiDbm !== null && secondGrid[i] < profile.secondaryRssiDbm) failed.push('secondary');
+            if (composite.sinrGrid[i] < profile.minSinrDb) failed.push('sinr');
+            if (counts[i] < profile.minAudibleAps) failed.push('apCount');
+            if (profile.minDataRateMbps > 0 && rateGrid[i] < profile.minDataRateMbps) failed.push('dataRate');
+
+            if (failed.length === 0) {
+                passCells++;
+            } else {
+                failGrid[i] = 1;
+                failed.forEach(criterion => failures[criterion]++);
+            }
+        });
+
+        const passPercent = floorCells.length > 0 ? (passCells / floorCells.length) * 100 : 0;
+        (Object.keys(failures) as RequirementCriterion[]).forEach(c => failures[c] = (failures[c] / total) * 100);
+        return { profileId: profile.id, passPercent, passed: floorCells.length > 0 && passPercent >= profile.targetPercent, failGrid, failPercentByCriterion: failures };
+    });
+}
+
+const CRITERION_ADVICE: Record<RequirementCriterion, string> = {
+    primary: 'weak primary signal (add APs or raise Tx power)',
+    secondary: 'no second AP above the threshold (increase cell overlap)',
+    sinr: 'low SINR (review the channel plan or lower Tx power)',
+    apCount: 'too few audible APs (add APs around the area)',
+    dataRate: 'a low data rate (improve SINR or use wider channels)'
+};
+
 export function generateTextReport(
-    aps: any[],
+    aps: AccessPoint[],
     coverage: CoverageStats,
     frequency: string,
-    walls: any[]
+    walls: Wall[],
+    requirements: { profile: RequirementProfile; result: RequirementResult }[] = []
 ): string {
     const report = `
 WiFi Coverage Report - Telkomsel Standards
@@ -94,14 +310,22 @@ Coverage Statistics:
 
 Total Coverage (Fair or Better): ${(coverage.tooHotPercent + coverage.excellentPercent + coverage.goodPercent + coverage.fairPercent).toFixed(1)}%
 
+${requirements.length > 0 ? `Requirement Profiles:
+${requirements.map(({ profile, result }) => `- ${profile.name}: ${result.passPercent.toFixed(1)}% (target ${profile.targetPercent}%) ${result.passed ? 'PASS' : 'FAIL'}`).join('\n')}
+` : ''}
 Access Point Placements:
-${aps.map((ap, i) => `  ${i + 1}. AP at (${Math.round(ap.x / 40)}m, ${Math.round(ap.y / 40)}m) - ${ap.txPower} dBm, Channel ${ap.channel}`).join('\n')}
+${aps.map((ap, i) => `  ${i + 1}. AP at (${Math.round(ap.x / 40)}m, ${Math.round(ap.y / 40)}m)
+${ap.radios.filter(r => r.enabled).map(r => `     - ${BAND_PROFILES[r.band].label}: ${getRadioEirp(r)} dBm EIRP, Channel ${r.channel}`).join('\n')}`).join('\n')}
 
 Recommendations:
 ${(coverage.excellentPercent + coverage.goodPercent + coverage.fairPercent) < 80 ? '- Consider adding more APs to improve coverage' : '- Coverage is adequate'}
 ${coverage.weakPercent > 20 ? '- High weak signal zones detected - review AP placement' : ''}
 ${coverage.deadPercent > 10 ? '- Significant dead zones - add APs or relocate existing ones' : ''}
 ${coverage.tooHotPercent > 10 ? '- Some areas have very strong signal (Too Hot) - consider lowering Tx Power' : ''}
+${requirements.filter(r => !r.result.passed).map(({ profile, result }) => {
+    const [criterion, percent] = (Object.entries(result.failPercentByCriterion) as [RequirementCriterion, number][]).sort((a, b) => b[1] - a[1])[0];
+    return `- ${profile.name}: ${percent.toFixed(1)}% of the floor has ${CRITERION_ADVICE[criterion]}`;
+}).join('\n')}
 
 ---
 Report generated by WiFi Planner Pro
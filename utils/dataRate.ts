@@ -0,0 +1,133 @@
+/**
+ * Data Rate Model - MCS and PHY rate a client can expect at a given SINR (802.11n/ac/ax).
+ */
+
+import { Band, ChannelWidth, ClientCapability, WifiStandard } from "@/types";
+
+export const WIFI_STANDARDS: { id: WifiStandard; label: string }[] = [
+    { id: '802.11n', label: 'Wi-Fi 4 (802.11n)' },
+    { id: '802.11ac', label: 'Wi-Fi 5 (802.11ac)' },
+    { id: '802.11ax', label: 'Wi-Fi 6/6E (802.11ax)' }
+];
+
+// Minimum SINR per MCS (typical vendor receiver sensitivity tables; same modulation and coding per index in n/ac/ax)
+const MIN_SINR_DB = [2, 5, 9, 11, 15, 18, 20, 25, 29, 31, 34, 37];
+
+// 20MHz, 1 spatial stream rates per MCS (HT/VHT 0.8us GI, HE 0.8us GI)
+const RATES_20MHZ: Record<WifiStandard, number[]> = {
+    '802.11n': [6.5, 13, 19.5, 26, 39, 52, 58.5, 65],
+    '802.11ac': [6.5, 13, 19.5, 26, 39, 52, 58.5, 65, 78, 86.7],
+    '802.11ax': [8.6, 17.2, 25.8, 34.4, 51.6, 68.8, 77.4, 86.0, 103.2, 114.7, 129.0, 143.4]
+};
+
+// Data subcarriers relative to 20MHz (HT/VHT 52 / 108 / 234 / 468, HE 234 / 468 / 980 / 1960)
+const WIDTH_FACTOR: Record<WifiStandard, Partial<Record<ChannelWidth, number>>> = {
+    '802.11n': { 20: 1, 40: 2.077 },
+    '802.11ac': { 20: 1, 40: 2.077, 80: 4.5, 160: 9 },
+    '802.11ax': { 20: 1, 40: 2, 80: 4.19, 160: 8.38 }
+};
+
+const MAX_SPATIAL_STREAMS: Record<WifiStandard, number> = { '802.11n': 4, '802.11ac': 8, '802.11ax': 8 };
+
+export const DEFAULT_SPATIAL_STREAMS = 2; // Typical phone / laptop
+
+// Negotiated link between an AP radio and a client
+export interface Link {
+    standard: WifiStandard;
+    widthMhz: ChannelWidth;
+    spatialStreams: number;
+}
+
+export interface LinkRate {
+    mcs: number; // -1 = below MCS 0
+    rateMbps: number;
+}
+
+// Highest MCS the SINR supports and its PHY rate
+export function getLinkRate(sinrDb: number, link: Link): LinkRate {
+    const rates = RATES_20MHZ[link.standard];
+    let mcs = -1;
+    while (mcs + 1 < rates.length && sinrDb >= MIN_SINR_DB[mcs + 1]) mcs++;
+    return { mcs, rateMbps: getMcsRateMbps(mcs, link) };
+}
+
+// Receiver sensitivity for an MCS at a channel width (tables are for 20MHz)
+export function getSensitivityDbm(sensitivityDbm: number[], mcs: number, widthMhz: number): number {
+    return sensitivityDbm[mcs] + 10 * Math.log10(widthMhz / 20);
+}
+
+// Highest MCS a receiver decodes at the RSSI (-1 = below MCS 0)
+export function getSensitivityMcs(rssiDbm: number, sensitivityDbm: number[], widthMhz: number): number {
+    let mcs = -1;
+    while (mcs + 1 < sensitivityDbm.length && rssiDbm >= getSensitivityDbm(sensitivityDbm, mcs + 1, widthMhz)) mcs++;
+    return mcs;
+}
+
+// Rate of an MCS on the link (0 = below MCS 0)
+export function getMcsRateMbps(mcs: number, link: Link): number {
+    const rates = RATES_20MHZ[link.standard];
+    if (mcs < 0) return 0;
+    const widthFactor = WIDTH_FACTOR[link.standard][link.widthMhz] ?? link.widthMhz / 20;
+    return rates[Math.min(mcs, rates.length - 1)] * widthFactor * link.spatialStreams;
+}
+
+// PHY rate in Mbps (0 = below MCS 0), 802.11ax
+export function getDataRateMbps(sinrDb: number, widthMhz: number, spatialStreams: number = DEFAULT_SPATIAL_STREAMS): number {
+    return getLinkRate(sinrDb, { standard: '802.11ax', widthMhz: widthMhz as ChannelWidth, spatialStreams }).rateMbps;
+}
+
+// What an AP radio and the client agree on (null = the client cannot use the band)
+export function negotiateLink(band: Band, apWidthMhz: ChannelWidth, apSpatialStreams: number, client: ClientCapability): Link | null {
+    if (band === '6GHz' && client.standard !== '802.11ax') return null;
+    const standard = band === '2.4GHz' && client.standard === '802.11ac' ? '802.11n' : client.standard; // VHT is 5GHz only
+    const widths = Object.keys(WIDTH_FACTOR[standard]).map(Number) as ChannelWidth[];
+    const widthMhz = Math.max(...widths.filter(w => w <= Math.min(apWidthMhz, client.maxChannelWidth)), 20) as ChannelWidth;
+    const spatialStreams = Math.max(1, Math.min(apSpatialStreams, client.spatialStreams, MAX_SPATIAL_STREAMS[standard]));
+    return { standard, widthMhz, spatialStreams };
+}
+
+// Rate tiers of the data-rate view and its coverage stats (highest first)
+export const RATE_TIERS: { label: string; minMbps: number }[] = [
+    { label: 'Excellent', minMbps: 400 },
+    { label: 'Good', minMbps: 200 },
+    { label: 'Fair', minMbps: 100 },
+    { label: 'Weak', minMbps: 25 },
+    { label: 'Bad', minMbps: 1 },
+    { label: 'No Service', minMbps: 0 }
+];
+
+export function getRateTierIndex(rateMbps: number): number {
+    return RATE_TIERS.findIndex(tier => rateMbps >= tier.minMbps);
+}
+
+export interface RateGrids {
+    rateGrid: Float32Array; // Mbps
+    mcsGrid: Int8Array;     // -1 = below MCS 0 or no service
+}
+
+// Client receiver that caps the MCS by RSSI (the signal grid assumes a 0 dBi client)
+export interface RateReceiver {
+    signalGrid: Float32Array;
+    antennaGain: number;
+    sensitivityDbm: number[];
+}
+
+/**
+ * Rate at every cell from the serving AP's link and the composite SINR.
+ * `links` is indexed like the composite's bestApIndexGrid (null = the client cannot connect).
+ */
+export function buildRateGrids(sinrGrid: Float32Array, bestApIndexGrid: Int32Array, links: (Link | null)[], receiver?: RateReceiver): RateGrids {
+    const rateGrid = new Float32Array(sinrGrid.length);
+    const mcsGrid = new Int8Array(sinrGrid.length).fill(-1);
+    for (let i = 0; i < sinrGrid.length; i++) {
+        const link = links[bestApIndexGrid[i]];
+        if (!link) continue;
+        let mcs = getLinkRate(sinrGrid[i], link).mcs;
+        if (receiver) {
+            mcs = Math.min(mcs, getSensitivityMcs(receiver.signalGrid[i] + receiver.antennaGain, receiver.sensitivityDbm, link.widthMhz));
+        }
+        rateGrid[i] = getMcsRateMbps(mcs, link);
+        mcsGrid[i] = mcs;
+    }
+    return { rateGrid, mcsGrid };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { distance } from "./geometry";
+import { convertDxf, DxfLayerMapping, getMetersPerUnit, parseDxf } from "./dxf";
+
+type Entity = [string, [number, string | number][]];
+
+// ASCII DXF from group codes: an optional $INSUNITS header, blocks and entities
+function buildDxf(entities: Entity[], options: { units?: number; blocks?: { name: string; entities: Entity[] }[] } = {}): string {
+    const lines: (string | number)[] = [];
+    const write = ([type, pairs]: Entity) => {
+        lines.push(0, type);
+        pairs.forEach(([code, value]) => lines.push(code, value));
+    };
+    if (options.units !== undefined) {
+        lines.push(0, 'SECTION', 2, 'HEADER', 9, '$INSUNITS', 70, options.units, 0, 'ENDSEC');
+    }
+    if (options.blocks) {
+        lines.push(0, 'SECTION', 2, 'BLOCKS');
+        options.blocks.forEach(block => {
+            write(['BLOCK', [[2, block.name], [10, 0], [20, 0]]]);
+            block.entities.forEach(write);
+            write(['ENDBLK', []]);
+        });
+        lines.push(0, 'ENDSEC');
+    }
+    lines.push(0, 'SECTION', 2, 'ENTITIES');
+    entities.forEach(write);
+    lines.push(0, 'ENDSEC', 0, 'EOF');
+    return lines.join('\n');
+}
+
+const line = (layer: string, x1: number, y1: number, x2: number, y2: number): Entity =>
+    ['LINE', [[8, layer], [10, x1], [20, y1], [11, x2], [21, y2]]];
+
+// Quarter swing of a 900 mm door hinged at the block's base point
+const doorBlock = (extrusion = 1) => ({
+    name: 'DOOR-900',
+    entities: [
+        ['ARC', [[8, '0'], [10, 0], [20, 0], [40, 900], [50, 0], [51, 90], [230, extrusion]]],
+        ['LWPOLYLINE', [[8, '0'], [90, 2], [10, 0], [20, 0], [10, 0], [20, 900], [230, extrusion]]]
+    ] as Entity[]
+});
+
+const mapping: Record<string, DxfLayerMapping> = {
+    Walls: { role: 'wall', material: 'brick' },
+    Doors: { role: 'door', material: 'wood' }
+};
+
+function convertDoorPlan(extrusion?: number) {
+    const drawing = parseDxf(buildDxf(
+        [line('Walls', 0, 0, 5000, 0), ['INSERT', [[8, 'Doors'], [2, 'DOOR-900'], [10, 2000], [20, 0]]]],
+        { units: 4, blocks: [doorBlock(extrusion)] }
+    ));
+    return convertDxf(drawing, mapping, getMetersPerUnit(drawing.units));
+}
+
+describe('parseDxf', () => {
+    it('reads lines and draws polyline bulges as arcs', () => {
+        const drawing = parseDxf(buildDxf([
+            line('Walls', 0, 0, 1000, 0),
+            // Half circle from (0, 0) to (1000, 0), counter-clockwise around (500, 0)
+            ['LWPOLYLINE', [[8, 'Arcs'], [90, 2], [10, 0], [20, 0], [42, 1], [10, 1000], [20, 0]]]
+        ]));
+        expect(drawing.layers.map(l => [l.name, l.segments])).toEqual([['Arcs', 12], ['Walls', 1]]);
+
+        const arc = drawing.segments.filter(s => s.layer === 'Arcs').flatMap(s => [s.start, s.end]);
+        arc.forEach(p => expect(distance(p, { x: 500, y: 0 })).toBeCloseTo(500, 6));
+        expect(Math.min(...arc.map(p => p.y))).toBeCloseTo(-500, 6);
+    });
+
+    it('mirrors polylines and arcs drawn with a downward extrusion direction', () => {
+        const drawing = parseDxf(buildDxf([
+            ['LWPOLYLINE', [[8, 'Walls'], [90, 2], [10, 100], [20, 50], [10, 400], [20, 50], [230, -1]]],
+            ['ARC', [[8, 'Doors'], [10, 100], [20, 0], [40, 50], [50, 0], [51, 90], [230, -1]]]
+        ]));
+        const [wall] = drawing.segments.filter(s => s.layer === 'Walls');
+        expect([wall.start, wall.end]).toEqual([{ x: -100, y: 50 }, { x: -400, y: 50 }]);
+        expect(drawing.arcs[0].center).toEqual({ x: -100, y: 0 });
+        expect(drawing.arcs[0].start).toEqual({ x: -150, y: 0 });
+    });
+
+    it('takes the units from $INSUNITS and falls back to millimetres', () => {
+        const walls = [line('Walls', 0, 0, 1000, 0)];
+        expect(parseDxf(buildDxf(walls, { units: 5 }))).toMatchObject({ units: 5, unitsFromFile: true });
+        expect(parseDxf(buildDxf(walls))).toMatchObject({ units: 4, unitsFromFile: false });
+    });
+});
+
+describe('convertDxf', () => {
+    it('scales the plan by the drawing units', () => {
+        const drawing = parseDxf(buildDxf([line('Walls', 0, 0, 1000, 0)], { units: 5 }));
+        const { walls, pixelsPerMeter } = convertDxf(drawing, mapping, getMetersPerUnit(drawing.units));
+        expect(distance(walls[0].start, walls[0].end) / pixelsPerMeter).toBeCloseTo(10, 6);
+    });
+
+    it('puts a door block on the wall it opens in', () => {
+        const { walls, doors, pixelsPerMeter } = convertDoorPlan();
+        // The leaf and swing inside the block are not walls
+        expect(walls).toHaveLength(1);
+        expect(doors).toHaveLength(1);
+        expect(doors[0].wallId).toBe(walls[0].id);
+        expect(doors[0].width / pixelsPerMeter).toBeCloseTo(0.9, 6);
+        expect(doors[0].ratio).toBeCloseTo(2450 / 5000, 6);
+    });
+
+    it('opens a mirrored door block on the other side of its hinge', () => {
+        const { doors } = convertDoorPlan(-1);
+        expect(doors).toHaveLength(1);
+        expect(doors[0].ratio).toBeCloseTo(1550 / 5000, 6);
+    });
+});
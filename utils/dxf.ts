@@ -0,0 +1,417 @@
+/**
+ * DXF Floor Plans - Walls, doors and scale from an ASCII DXF drawing.
+ *
+ * LINE, LWPOLYLINE (bulges as arcs) and ARC entities are read, also inside block
+ * references (INSERT), and each CAD layer is mapped by the user to a role:
+ *   wall:       every segment becomes a Wall of the layer's material
+ *   door:       each block reference (or loose swing arc) becomes a Door on the nearest wall
+ *   background: only drawn into the background image
+ * The drawing units ($INSUNITS) set pixelsPerMeter; the drawing is centred in the plan area.
+ */
+
+import { DEFAULT_PIXELS_PER_METER, Door, MaterialDefinition, PLAN_HEIGHT, PLAN_WIDTH, Point, Wall, WallMaterial } from "@/types";
+import { distance, projectOnSegment } from "./geometry";
+
+const DOOR_NAME_PATTERN = /door|tür|tuer|porte|puerta/i;
+const WALL_NAME_PATTERN = /wall|wand|mauer|mur|muro|partition/i;
+const WINDOW_NAME_PATTERN = /window|glaz|fenster|fen[eê]tre|curtain/i;
+const ARC_STEP_DEG = 15;              // Arcs are drawn as straight pieces of at most this angle
+const MAX_BLOCK_DEPTH = 8;
+const MIN_WALL_LENGTH_M = 0.1;        // Shorter pieces (hatching, arc remnants) are not walls
+const DOOR_ON_WALL_TOLERANCE_M = 0.3;
+const PLAN_MARGIN = 0.95;             // Share of the plan area the drawing may fill
+const DEFAULT_WALL_THICKNESS = 12;    // px, as drawn in the editor
+
+// $INSUNITS codes the planner understands (0 = unitless: the user picks)
+export const DXF_UNITS: { code: number; label: string; metersPerUnit: number }[] = [
+    { code: 4, label: 'Millimetres', metersPerUnit: 0.001 },
+    { code: 5, label: 'Centimetres', metersPerUnit: 0.01 },
+    { code: 14, label: 'Decimetres', metersPerUnit: 0.1 },
+    { code: 6, label: 'Metres', metersPerUnit: 1 },
+    { code: 1, label: 'Inches', metersPerUnit: 0.0254 },
+    { code: 2, label: 'Feet', metersPerUnit: 0.3048 },
+    { code: 10, label: 'Yards', metersPerUnit: 0.9144 }
+];
+const DEFAULT_UNITS = 4; // Architectural drawings without units are almost always in mm
+
+export type DxfLayerRole = 'ignore' | 'background' | 'wall' | 'door';
+
+export interface DxfLayerMapping {
+    role: DxfLayerRole;
+    material: WallMaterial; // For wall layers
+}
+
+export interface DxfLayer {
+    name: string;
+    segments: number;
+    inserts: number; // Block references placed on the layer
+}
+
+// Geometry in drawing units; `inserts` are the block references it is part of (outermost first)
+export interface DxfSegment {
+    layer: string;
+    start: Point;
+    end: Point;
+    inserts: number[];
+}
+
+interface DxfArc {
+    layer: string;
+    center: Point;
+    start: Point;
+    end: Point;
+    inserts: number[];
+}
+
+export interface DxfInsert {
+    id: number;
+    layer: string;
+    block: string;
+}
+
+export interface DxfDrawing {
+    units: number; // $INSUNITS code (DEFAULT_UNITS when the file has none we know)
+    unitsFromFile: boolean;
+    layers: DxfLayer[];
+    segments: DxfSegment[];
+    arcs: DxfArc[];
+    inserts: DxfInsert[];
+    skipped: Record<string, number>; // Entity types that are not read, with their count
+}
+
+export interface DxfConversion {
+    walls: Wall[];
+    doors: Door[];
+    pixelsPerMeter: number;
+    lines: { start: Point; end: Point }[]; // Plan coordinates of everything not ignored
+    report: string[];
+}
+
+// --- Parsing ---
+
+interface DxfRecord {
+    type: string;
+    pairs: [number, string][];
+}
+
+const IGNORED_ENTITIES = new Set(['SEQEND', 'ATTRIB', 'ATTDEF', 'ENDBLK', 'VIEWPORT']);
+
+function readRecords(text: string): DxfRecord[] {
+    const lines = text.split(/\r?\n/);
+    const records: DxfRecord[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        const code = parseInt(lines[i].trim(), 10);
+        if (Number.isNaN(code)) throw new Error(`Unreadable group code on line ${i + 1}`);
+        const value = lines[i + 1].trim();
+        if (code === 0) records.push({ type: value, pairs: [] });
+        else records[records.length - 1]?.pairs.push([code, value]);
+    }
+    return records;
+}
+
+const getValue = (record: DxfRecord, code: number) => record.pairs.find(([c]) => c === code)?.[1];
+const getNumber = (record: DxfRecord, code: number, fallback = 0) => {
+    const value = parseFloat(getValue(record, code) ?? '');
+    return Number.isFinite(value) ? value : fallback;
+};
+
+// 2D affine transform: x' = a*x + c*y + e, y' = b*x + d*y + f
+type Affine = [number, number, number, number, number, number];
+const IDENTITY: Affine = [1, 0, 0, 1, 0, 0];
+const MIRROR_X: Affine = [-1, 0, 0, 1, 0, 0];
+
+const apply = (m: Affine, p: Point): Point => ({ x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] });
+const compose = (outer: Affine, inner: Affine): Affine => [
+    outer[0] * inner[0] + outer[2] * inner[1],
+    outer[1] * inner[0] + outer[3] * inner[1],
+    outer[0] * inner[2] + outer[2] * inner[3],
+    outer[1] * inner[2] + outer[3] * inner[3],
+    outer[0] * inner[4] + outer[2] * inner[5] + outer[4],
+    outer[1] * inner[4] + outer[3] * inner[5] + outer[5]
+];
+
+// Points of an arc from startDeg counter-clockwise over sweepDeg
+function arcPoints(center: Point, radius: number, startDeg: number, sweepDeg: number): Point[] {
+    const steps = Math.max(1, Math.ceil(Math.abs(sweepDeg) / ARC_STEP_DEG));
+    const points: Point[] = [];
+    for (let i = 0; i <= steps; i++) {
+        const angle = ((startDeg + (sweepDeg * i) / steps) * Math.PI) / 180;
+        points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+    }
+    return points;
+}
+
+// Polyline vertices with the bulge arcs drawn out
+function polylinePoints(record: DxfRecord): Point[] {
+    const vertices: { x: number; y: number; bulge: number }[] = [];
+    record.pairs.forEach(([code, value]) => {
+        const last = vertices[vertices.length - 1];
+        if (code === 10) vertices.push({ x: parseFloat(value), y: 0, bulge: 0 });
+        else if (code === 20 && last) last.y = parseFloat(value);
+        else if (code === 42 && last) last.bulge = parseFloat(value) || 0;
+    });
+    if ((getNumber(record, 70) & 1) && vertices.length > 2) vertices.push({ ...vertices[0], bulge: 0 });
+
+    const points: Point[] = [];
+    vertices.forEach((v, i) => {
+        const next = vertices[i + 1];
+        points.push({ x: v.x, y: v.y });
+        if (!next || Math.abs(v.bulge) < 1e-9) return;
+        // Bulge = tan(included angle / 4), positive counter-clockwise
+        const chord = distance(v, next);
+        const sweep = 4 * Math.atan(v.bulge);
+        const offset = ((chord / 2) * (1 - v.bulge * v.bulge)) / (2 * v.bulge);
+        const center = {
+            x: (v.x + next.x) / 2 - ((next.y - v.y) / chord) * offset,
+            y: (v.y + next.y) / 2 + ((next.x - v.x) / chord) * offset
+        };
+        const startDeg = (Math.atan2(v.y - center.y, v.x - center.x) * 180) / Math.PI;
+        points.push(...arcPoints(center, distance(center, v), startDeg, (sweep * 180) / Math.PI).slice(1, -1));
+    });
+    return points;
+}
+
+export function parseDxf(text: string): DxfDrawing {
+    if (text.startsWith('AutoCAD Binary DXF')) throw new Error('Binary DXF is not supported; save the drawing as ASCII DXF');
+    const records = readRecords(text);
+
+    let units = 0;
+    const blocks = new Map<string, { base: Point; entities: DxfRecord[] }>();
+    const entities: DxfRecord[] = [];
+    let section = '';
+    let block: { base: Point; entities: DxfRecord[] } | null = null;
+    records.forEach(record => {
+        if (record.type === 'SECTION') {
+            section = getValue(record, 2) ?? '';
+            if (section === 'HEADER') {
+                const index = record.pairs.findIndex(([code, value]) => code === 9 && value === '$INSUNITS');
+                const value = record.pairs.slice(index + 1).find(([code]) => code === 70);
+                if (index >= 0 && value) units = parseInt(value[1], 10);
+            }
+        } else if (record.type === 'ENDSEC') {
+            section = '';
+        } else if (section === 'BLOCKS') {
+            if (record.type === 'BLOCK') {
+                block = { base: { x: getNumber(record, 10), y: getNumber(record, 20) }, entities: [] };
+                blocks.set(getValue(record, 2) ?? '', block);
+            } else if (record.type === 'ENDBLK') {
+                block = null;
+            } else {
+                block?.entities.push(record);
+            }
+        } else if (section === 'ENTITIES') {
+            entities.push(record);
+        }
+    });
+
+    const drawing: DxfDrawing = {
+        units: DXF_UNITS.some(u => u.code === units) ? units : DEFAULT_UNITS,
+        unitsFromFile: DXF_UNITS.some(u => u.code === units),
+        layers: [],
+        segments: [],
+        arcs: [],
+        inserts: [],
+        skipped: {}
+    };
+
+    // Block contents on layer "0" take the layer of the reference
+    const flatten = (list: DxfRecord[], transform: Affine, parentLayer: string | null, inserts: number[], depth: number) => {
+        list.forEach(record => {
+            const ownLayer = getValue(record, 8) ?? '0';
+            const layer = parentLayer !== null && ownLayer === '0' ? parentLayer : ownLayer;
+            // Polylines, arcs and block references are in the entity's own coordinates: drawn with the
+            // extrusion direction pointing down (230 = -1, as mirrored door swings are), x runs the other way
+            const ocs = record.type !== 'LINE' && getNumber(record, 230, 1) < 0 ? compose(transform, MIRROR_X) : transform;
+            const addPath = (points: Point[]) => {
+                const mapped = points.map(p => apply(ocs, p));
+                for (let i = 0; i + 1 < mapped.length; i++) drawing.segments.push({ layer, start: mapped[i], end: mapped[i + 1], inserts });
+            };
+
+            if (record.type === 'LINE') {
+                addPath([{ x: getNumber(record, 10), y: getNumber(record, 20) }, { x: getNumber(record, 11), y: getNumber(record, 21) }]);
+            } else if (record.type === 'LWPOLYLINE') {
+                addPath(polylinePoints(record));
+            } else if (record.type === 'ARC') {
+                const center = { x: getNumber(record, 10), y: getNumber(record, 20) };
+                const radius = getNumber(record, 40);
+                const startDeg = getNumber(record, 50);
+                const sweep = (((getNumber(record, 51) - startDeg) % 360) + 360) % 360 || 360;
+                const points = arcPoints(center, radius, startDeg, sweep);
+                addPath(points);
+                drawing.arcs.push({
+                    layer,
+                    center: apply(ocs, center),
+                    start: apply(ocs, points[0]),
+                    end: apply(ocs, points[points.length - 1]),
+                    inserts
+                });
+            } else if (record.type === 'INSERT') {
+                const name = getValue(record, 2) ?? '';
+                const definition = blocks.get(name);
+                if (!definition || depth >= MAX_BLOCK_DEPTH) return;
+                const id = drawing.inserts.length;
+                drawing.inserts.push({ id, layer, block: name });
+                const angle = (getNumber(record, 50) * Math.PI) / 180;
+                const sx = getNumber(record, 41, 1);
+                const sy = getNumber(record, 42, 1);
+                const cos = Math.cos(angle);
+                const sin = Math.sin(angle);
+                // Position * rotation * scale * (point - block base)
+                const local: Affine = [
+                    cos * sx, sin * sx, -sin * sy, cos * sy,
+                    getNumber(record, 10) - (cos * sx * definition.base.x - sin * sy * definition.base.y),
+                    getNumber(record, 20) - (sin * sx * definition.base.x + cos * sy * definition.base.y)
+                ];
+                flatten(definition.entities, compose(ocs, local), layer, [...inserts, id], depth + 1);
+            } else if (!IGNORED_ENTITIES.has(record.type)) {
+                drawing.skipped[record.type] = (drawing.skipped[record.type] ?? 0) + 1;
+            }
+        });
+    };
+    flatten(entities, IDENTITY, null, [], 0);
+
+    const layers = new Map<string, DxfLayer>();
+    const getLayer = (name: string) => {
+        if (!layers.has(name)) layers.set(name, { name, segments: 0, inserts: 0 });
+        return layers.get(name)!;
+    };
+    drawing.segments.forEach(s => getLayer(s.layer).segments++);
+    drawing.inserts.forEach(i => getLayer(i.layer).inserts++);
+    drawing.layers = Array.from(layers.values()).sort((a, b) => a.name.localeCompare(b.name));
+    if (drawing.segments.length === 0) {
+        throw new Error('No LINE, LWPOLYLINE or ARC geometry found in the drawing');
+    }
+    return drawing;
+}
+
+// --- Conversion ---
+
+export const getMetersPerUnit = (units: number) => DXF_UNITS.find(u => u.code === units)?.metersPerUnit ?? 0.001;
+
+// Starting role and material from the layer name
+export function suggestLayerMapping(layer: DxfLayer, materials: MaterialDefinition[]): DxfLayerMapping {
+    const name = layer.name.toLowerCase();
+    const named = materials.find(m => name.includes(m.name.toLowerCase()) || name.includes(m.id));
+    if (DOOR_NAME_PATTERN.test(name)) return { role: 'door', material: 'wood' };
+    if (WINDOW_NAME_PATTERN.test(name)) return { role: 'wall', material: named?.id ?? 'glass' };
+    if (WALL_NAME_PATTERN.test(name) || named) return { role: 'wall', material: named?.id ?? 'drywall' };
+    return { role: 'background', material: 'drywall' };
+}
+
+/**
+ * Walls, doors and plan scale for the layer mapping. A block reference is a door when its layer
+ * is a door layer or its block is named like one; its width is its swing arc's radius (or the
+ * larger side of its extent) and it opens on the nearest wall.
+ */
+export function convertDxf(drawing: DxfDrawing, mapping: Record<string, DxfLayerMapping>, metersPerUnit: number): DxfConversion {
+    const report: string[] = [];
+    const roleOf = (layer: string) => mapping[layer]?.role ?? 'background';
+    const used = drawing.segments.filter(s => roleOf(s.layer) !== 'ignore');
+    if (used.length === 0) throw new Error('Every layer is ignored');
+
+    // Fit the used geometry into the plan area (DXF y points up)
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    used.forEach(s => [s.start, s.end].forEach(p => {
+        minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    }));
+    const widthM = Math.max(1e-6, (maxX - minX) * metersPerUnit);
+    const heightM = Math.max(1e-6, (maxY - minY) * metersPerUnit);
+    const pixelsPerMeter = Math.min(DEFAULT_PIXELS_PER_METER, (PLAN_WIDTH * PLAN_MARGIN) / widthM, (PLAN_HEIGHT * PLAN_MARGIN) / heightM);
+    const scale = metersPerUnit * pixelsPerMeter; // Plan pixels per drawing unit
+    const offsetX = (PLAN_WIDTH - widthM * pixelsPerMeter) / 2;
+    const offsetY = (PLAN_HEIGHT - heightM * pixelsPerMeter) / 2;
+    const toPlan = (p: Point): Point => ({ x: offsetX + (p.x - minX) * scale, y: offsetY + (maxY - p.y) * scale });
+
+    if (pixelsPerMeter < DEFAULT_PIXELS_PER_METER) {
+        report.push(`The drawing is ${Math.round(widthM)} x ${Math.round(heightM)} m, larger than the plan area at the default scale; it was scaled to ${pixelsPerMeter.toFixed(1)} px/m. Check the units if that is not the building's size.`);
+    }
+
+    // Block references that are doors; their geometry is not turned into walls
+    const doorInserts = new Set(drawing.inserts
+        .filter(i => roleOf(i.layer) === 'door' || (roleOf(i.layer) !== 'ignore' && DOOR_NAME_PATTERN.test(i.block)))
+        .map(i => i.id));
+    const inDoor = (inserts: number[]) => inserts.find(id => doorInserts.has(id));
+
+    const walls: Wall[] = [];
+    let shortPieces = 0;
+    used.forEach(segment => {
+        const layer = mapping[segment.layer];
+        if (layer?.role !== 'wall' || inDoor(segment.inserts) !== undefined) return;
+        if (distance(segment.start, segment.end) * metersPerUnit < MIN_WALL_LENGTH_M) {
+            shortPieces++;
+            return;
+        }
+        walls.push({ id: crypto.randomUUID(), start: toPlan(segment.start), end: toPlan(segment.end), material: layer.material, thickness: DEFAULT_WALL_THICKNESS });
+    });
+    if (shortPieces > 0) report.push(`${shortPieces} wall piece(s) shorter than ${MIN_WALL_LENGTH_M * 100} cm were left out.`);
+
+    // Door candidates: width and the possible opening centres (hinge to either end of the swing)
+    const candidates: { width: number; openings: Point[] }[] = [];
+    doorInserts.forEach(id => {
+        const arcs = drawing.arcs.filter(a => inDoor(a.inserts) === id);
+        const swing = arcs.reduce<DxfArc | null>((best, a) => (!best || distance(a.center, a.start) > distance(best.center, best.start) ? a : best), null);
+        if (swing) {
+            candidates.push({ width: distance(swing.center, swing.start), openings: [swing.start, swing.end].map(p => ({ x: (swing.center.x + p.x) / 2, y: (swing.center.y + p.y) / 2 })) });
+            return;
+        }
+        const points = drawing.segments.filter(s => inDoor(s.inserts) === id).flatMap(s => [s.start, s.end]);
+        if (points.length === 0) return;
+        const xs = points.map(p => p.x);
+        const ys = points.map(p => p.y);
+        const [x0, x1, y0, y1] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+        candidates.push({ width: Math.max(x1 - x0, y1 - y0), openings: [{ x: (x0 + x1) / 2, y: (y0 + y1) / 2 }] });
+    });
+    drawing.arcs
+        .filter(a => roleOf(a.layer) === 'door' && inDoor(a.inserts) === undefined)
+        .forEach(a => candidates.push({ width: distance(a.center, a.start), openings: [a.start, a.end].map(p => ({ x: (a.center.x + p.x) / 2, y: (a.center.y + p.y) / 2 })) }));
+
+    const doors: Door[] = [];
+    const tolerance = DOOR_ON_WALL_TOLERANCE_M * pixelsPerMeter;
+    candidates.forEach(candidate => {
+        let best: { wall: Wall; ratio: number; distance: number } | null = null;
+        for (const opening of candidate.openings.map(toPlan)) {
+            for (const wall of walls) {
+                const projection = projectOnSegment(opening, wall.start, wall.end);
+                if (projection.distance <= tolerance && (!best || projection.distance < best.distance)) best = { wall, ...projection };
+            }
+        }
+        if (!best) return;
+        doors.push({ id: crypto.randomUUID(), wallId: best.wall.id, ratio: best.ratio, width: candidate.width * scale, swingType: 'single', hinge: 'left', openDirection: 'left' });
+    });
+    const looseDoors = candidates.length - doors.length;
+    if (looseDoors > 0) report.push(`${looseDoors} door(s) are not on a wall (a gap in the walls is already an opening) and were left out.`);
+
+    const skipped = Object.entries(drawing.skipped);
+    if (skipped.length > 0) report.push(`Not read: ${skipped.map(([type, count]) => `${count} ${type}`).join(', ')}.`);
+    if (!drawing.unitsFromFile) report.push('The drawing has no units; they were set by hand.');
+
+    return {
+        walls,
+        doors,
+        pixelsPerMeter,
+        lines: used.map(s => ({ start: toPlan(s.start), end: toPlan(s.end) })),
+        report
+    };
+}
+
+// Line drawing of the plan as a background image covering the plan area (browser only)
+export function renderPlanLines(lines: { start: Point; end: Point }[]): string {
+    const resolution = 0.5; // Image pixels per plan pixel; the editor fits it back to the plan area
+    const canvas = document.createElement('canvas');
+    canvas.width = PLAN_WIDTH * resolution;
+    canvas.height = PLAN_HEIGHT * resolution;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.strokeStyle = '#404040';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    lines.forEach(({ start, end }) => {
+        ctx.moveTo(start.x * resolution, start.y * resolution);
+        ctx.lineTo(end.x * resolution, end.y * resolution);
+    });
+    ctx.stroke();
+    return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_AP_MODELS, DEFAULT_MATERIALS, Wall } from "@/types";
+import { exportEsx, importEsx } from "./ekahau";
+import { createFloor } from "./floors";
+
+const wall = (id: string, material: string, y: number): Wall => ({ id, start: { x: 100, y }, end: { x: 900, y }, material, thickness: 12 });
+
+async function roundTrip() {
+    const floor = createFloor('floor-1', []);
+    const { blob } = exportEsx('Test', [{
+        floor,
+        data: {
+            walls: [wall('w1', 'drywall', 100), wall('w2', 'lab-glass', 300), wall('w3', 'vault', 500)],
+            doors: [],
+            aps: [],
+            survey: [{ id: 'p1', x: 200, y: 200, measurements: [{ bssid: 'AA-BB-CC-DD-EE-01', ssid: 'corp', channel: 36, rssi: -60 }] }],
+            pixelsPerMeter: 40
+        },
+        backgroundImage: null,
+        imageSize: null
+    }], DEFAULT_MATERIALS, DEFAULT_AP_MODELS);
+    return importEsx(await blob.arrayBuffer(), 'test.esx', DEFAULT_MATERIALS, DEFAULT_AP_MODELS);
+}
+
+describe('Ekahau exchange', () => {
+    it('keeps walls of different materials missing from the library apart', async () => {
+        const imported = await roundTrip();
+        const materials = imported.floorData[imported.floors[0].id].walls.map(w => w.material);
+        expect(materials[0]).toBe('drywall');
+        expect(new Set(materials).size).toBe(3);
+    });
+
+    it('imports survey BSSIDs in the normalised form assignments are keyed by', async () => {
+        const imported = await roundTrip();
+        const [point] = imported.floorData[imported.floors[0].id].survey;
+        expect(point.measurements[0].bssid).toBe('aa:bb:cc:dd:ee:01');
+    });
+});
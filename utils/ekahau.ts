@@ -0,0 +1,450 @@
+/**
+ * Ekahau Projects - .esx import and export.
+ *
+ * An .esx is a zip of JSON files, each holding one entity list ({ "floorPlans": [...] }),
+ * plus the floor plan images ("image-<id>"). Mapped both ways:
+ *   floorPlans.json, images.json                 <-> Floor and its background image
+ *   wallTypes.json                               <-> MaterialDefinition (matched by name)
+ *   wallPoints.json, wallSegments.json           <-> Wall, and Door (door-type segments on a wall)
+ *   accessPoints.json, simulatedRadios.json      <-> AccessPoint and its radios
+ *   accessPointMeasurements.json, surveys.json   <-> SurveyPoint
+ * Ekahau coordinates are floor plan image pixels (metersPerUnit); the image is fitted into
+ * the plan area the same way the editor draws it. Anything not mapped goes into the report.
+ */
+
+import { AccessPoint, APCatalog, Band, BANDS, BAND_PROFILES, Door, Floor, MaterialDefinition, PLAN_HEIGHT, PLAN_WIDTH, Point, Radio, SurveyPoint, Wall } from "@/types";
+import { getApModel } from "./apCatalog";
+import { projectOnSegment } from "./geometry";
+import { DEFAULT_AP_HEIGHT } from "./antenna";
+import { createFloor } from "./floors";
+import { getMaterial } from "./materials";
+import { createRadiosForModel, getBandForChannel } from "./radio";
+import { normalizeMac } from "./survey";
+import { readZip, writeZip } from "./zip";
+
+const MAPPED_FILES = ['project', 'floorPlans', 'images', 'wallTypes', 'wallPoints', 'wallSegments', 'accessPoints', 'simulatedRadios', 'accessPointMeasurements', 'surveys'];
+const ESX_BANDS: Record<string, Band> = { TWO: '2.4GHz', FIVE: '5GHz', SIX: '6GHz' };
+const BAND_KEYS: Record<Band, string> = { '2.4GHz': 'TWO', '5GHz': 'FIVE', '6GHz': 'SIX' };
+const DOOR_TYPE_PATTERN = /door/i;
+const DOOR_ON_WALL_TOLERANCE_M = 0.15; // A door segment this close to a wall is cut into it
+const DEFAULT_WALL_THICKNESS = 12;     // px, as drawn in the editor
+const IMPORTED_AP_COLOR = '#34d399';
+
+// --- File shapes (only the fields that are mapped) ---
+
+interface EsxCoord { x: number; y: number }
+interface EsxLocation { floorPlanId: string; coord: EsxCoord }
+interface EsxFloorPlan { id: string; name: string; imageId?: string; width: number; height: number; metersPerUnit: number }
+interface EsxImage { id: string; imageFormat: string }
+interface EsxPropagation { band: string; attenuationFactor: number; reflectionFactor?: number }
+interface EsxWallType { id: string; name: string; color?: string; thickness?: number; propagationProperties: EsxPropagation[] }
+interface EsxWallPoint { id: string; location: EsxLocation }
+interface EsxWallSegment { id: string; wallPoints: [string, string]; wallTypeId: string }
+interface EsxAccessPoint { id: string; name: string; mine?: boolean; location?: EsxLocation; vendor?: string; model?: string; color?: string; mac?: string }
+interface EsxRadio {
+    id: string;
+    accessPointId: string;
+    accessPointIndex: number;
+    frequencyBand?: string;
+    enabled?: boolean;
+    channel?: number[];
+    channelWidth?: number;
+    transmitPower?: number;
+    antennaGain?: number;
+    antennaHeight?: number;
+    antennaDirection?: number; // Degrees clockwise from north
+    antennaTilt?: number;
+}
+interface EsxMeasurement { id: string; mac: string; ssid: string; channel: number }
+interface EsxSurvey { id: string; floorPlanId: string; name?: string; points: { id: string; coord: EsxCoord; signals: { accessPointMeasurementId: string; signalStrength: number }[] }[] }
+
+// Floor plan image placement inside the plan area (fitted and centred, as the editor draws it)
+interface PlanFrame {
+    fit: number;     // Plan pixels per image pixel
+    offsetX: number;
+    offsetY: number;
+}
+
+function getPlanFrame(width: number, height: number): PlanFrame {
+    const fit = Math.min(PLAN_WIDTH / width, PLAN_HEIGHT / height);
+    return { fit, offsetX: (PLAN_WIDTH - width * fit) / 2, offsetY: (PLAN_HEIGHT - height * fit) / 2 };
+}
+
+const toPlan = (frame: PlanFrame, coord: EsxCoord): Point => ({ x: frame.offsetX + coord.x * frame.fit, y: frame.offsetY + coord.y * frame.fit });
+const toImage = (frame: PlanFrame, point: Point): EsxCoord => ({ x: (point.x - frame.offsetX) / frame.fit, y: (point.y - frame.offsetY) / frame.fit });
+
+function bytesToDataUrl(bytes: Uint8Array, mime: string): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return `data:${mime};base64,${btoa(binary)}`;
+}
+
+function dataUrlToBytes(dataUrl: string): { bytes: Uint8Array; mime: string } | null {
+    const match = /^data:([^;,]+);base64,(.*)$/.exec(dataUrl);
+    if (!match) return null;
+    const binary = atob(match[2]);
+    return { bytes: Uint8Array.from(binary, c => c.charCodeAt(0)), mime: match[1] };
+}
+
+// Natural size of a background image (browser only)
+export function getImageSize(dataUrl: string): Promise<{ width: number; height: number }> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+        img.onerror = () => reject(new Error('The floor plan image could not be read'));
+        img.src = dataUrl;
+    });
+}
+
+// --- Import ---
+
+export interface EsxFloorData {
+    walls: Wall[];
+    doors: Door[];
+    aps: AccessPoint[];
+    survey: SurveyPoint[];
+    pixelsPerMeter: number;
+}
+
+export interface EsxImport {
+    floors: Floor[];
+    floorData: Record<string, EsxFloorData & { backgroundImage: string | null }>; // By floor id
+    materials: MaterialDefinition[]; // The library with the imported wall types added
+    report: string[];
+}
+
+function findModelId(catalog: APCatalog, vendor = '', model = ''): string | null {
+    const wanted = `${vendor} ${model}`.trim().toLowerCase();
+    const match = Object.values(catalog).find(m =>
+        `${m.vendor} ${m.modelName}`.toLowerCase() === wanted || m.modelName.toLowerCase() === model.toLowerCase());
+    return match ? match.id : null;
+}
+
+export async function importEsx(buffer: ArrayBuffer, fileName: string, library: MaterialDefinition[], catalog: APCatalog): Promise<EsxImport> {
+    const files = await readZip(buffer);
+    const decoder = new TextDecoder();
+    const readList = <T>(key: string): T[] => {
+        const file = files.get(`${key}.json`);
+        if (!file) return [];
+        const parsed = JSON.parse(decoder.decode(file));
+        return Array.isArray(parsed?.[key]) ? parsed[key] : [];
+    };
+
+    const floorPlans = readList<EsxFloorPlan>('floorPlans');
+    if (floorPlans.length === 0) throw new Error(`${fileName}: no floor plans (not an Ekahau project?)`);
+    const report: string[] = [];
+    const skippedFiles = Array.from(files.keys()).filter(name =>
+        !name.startsWith('image-') && !MAPPED_FILES.some(key => name === `${key}.json`));
+    if (skippedFiles.length > 0) report.push(`Not imported: ${skippedFiles.join(', ')}`);
+    report.push('Floor heights are not read; floors are stacked in file order at the default floor height.');
+
+    // Wall types -> materials (an existing material of the same name is reused)
+    const materials = [...library];
+    const materialByType = new Map<string, string>();
+    readList<EsxWallType>('wallTypes').forEach(type => {
+        const existing = materials.find(m => m.name.toLowerCase() === type.name.toLowerCase());
+        if (existing) {
+            materialByType.set(type.id, existing.id);
+            return;
+        }
+        const losses = new Map(type.propagationProperties
+            .filter(p => ESX_BANDS[p.band])
+            .map(p => [ESX_BANDS[p.band], p]));
+        if (losses.size < BANDS.length) report.push(`Wall type "${type.name}": bands without a loss take the nearest band's value.`);
+        const lossFor = (band: Band) => {
+            const nearest = BANDS
+                .filter(b => losses.has(b))
+                .sort((a, b) => Math.abs(BANDS.indexOf(a) - BANDS.indexOf(band)) - Math.abs(BANDS.indexOf(b) - BANDS.indexOf(band)))[0];
+            return nearest ? losses.get(nearest)!.attenuationFactor : 0;
+        };
+        const material: MaterialDefinition = {
+            id: `esx-${type.id}`,
+            name: type.name,
+            attenuation: { '2.4GHz': lossFor('2.4GHz'), '5GHz': lossFor('5GHz'), '6GHz': lossFor('6GHz') },
+            reflectionCoefficient: Array.from(losses.values())[0]?.reflectionFactor ?? 0.1,
+            color: type.color ?? '#64748b'
+        };
+        materials.push(material);
+        materialByType.set(type.id, material.id);
+    });
+
+    const wallPoints = new Map(readList<EsxWallPoint>('wallPoints').map(p => [p.id, p]));
+    const wallTypes = new Map(readList<EsxWallType>('wallTypes').map(t => [t.id, t]));
+    const segments = readList<EsxWallSegment>('wallSegments');
+    const radios = readList<EsxRadio>('simulatedRadios');
+    const measurements = new Map(readList<EsxMeasurement>('accessPointMeasurements').map(m => [m.id, m]));
+    const surveys = readList<EsxSurvey>('surveys');
+    const images = new Map(readList<EsxImage>('images').map(i => [i.id, i]));
+    const accessPoints = readList<EsxAccessPoint>('accessPoints');
+
+    const foreignAps = accessPoints.filter(ap => ap.mine === false).length;
+    if (foreignAps > 0) report.push(`${foreignAps} surveyed AP(s) of other networks were skipped.`);
+    const unknownModels = new Set<string>();
+
+    const floors: Floor[] = [];
+    const floorData: EsxImport['floorData'] = {};
+    floorPlans.forEach(plan => {
+        const floor: Floor = { ...createFloor(`floor-${crypto.randomUUID()}`, floors), name: plan.name || `Floor ${floors.length + 1}` };
+        floors.push(floor);
+        const frame = getPlanFrame(plan.width, plan.height);
+        const pixelsPerMeter = frame.fit / plan.metersPerUnit;
+
+        const image = plan.imageId ? files.get(`image-${plan.imageId}`) : undefined;
+        const format = (plan.imageId && images.get(plan.imageId)?.imageFormat) || 'PNG';
+        if (plan.imageId && !image) report.push(`${plan.name}: floor plan image is missing from the archive.`);
+
+        // Walls, then door segments cut into the wall they lie on
+        const walls: Wall[] = [];
+        const doorSegments: { id: string; start: Point; end: Point }[] = [];
+        segments.forEach(segment => {
+            const [a, b] = segment.wallPoints.map(id => wallPoints.get(id));
+            if (!a || !b || a.location.floorPlanId !== plan.id) return;
+            const start = toPlan(frame, a.location.coord);
+            const end = toPlan(frame, b.location.coord);
+            const type = wallTypes.get(segment.wallTypeId);
+            if (type && DOOR_TYPE_PATTERN.test(type.name)) {
+                doorSegments.push({ id: segment.id, start, end });
+                return;
+            }
+            walls.push({
+                id: segment.id,
+                start,
+                end,
+                material: materialByType.get(segment.wallTypeId) ?? 'drywall',
+                thickness: type?.thickness ? Math.max(4, type.thickness * pixelsPerMeter) : DEFAULT_WALL_THICKNESS
+            });
+        });
+        const doors: Door[] = [];
+        doorSegments.forEach(segment => {
+            const tolerance = DOOR_ON_WALL_TOLERANCE_M * pixelsPerMeter;
+            const host = walls.find(wall =>
+                projectOnSegment(segment.start, wall.start, wall.end).distance <= tolerance &&
+                projectOnSegment(segment.end, wall.start, wall.end).distance <= tolerance);
+            if (!host) {
+                walls.push({ id: segment.id, start: segment.start, end: segment.end, material: 'wood', thickness: DEFAULT_WALL_THICKNESS });
+                return;
+            }
+            const mid = { x: (segment.start.x + segment.end.x) / 2, y: (segment.start.y + segment.end.y) / 2 };
+            doors.push({
+                id: segment.id,
+                wallId: host.id,
+                ratio: projectOnSegment(mid, host.start, host.end).ratio,
+                width: Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y),
+                swingType: 'single',
+                hinge: 'left',
+                openDirection: 'left'
+            });
+        });
+        const looseDoors = doorSegments.length - doors.length;
+        if (looseDoors > 0) report.push(`${plan.name}: ${looseDoors} door(s) not on a wall were imported as wood walls.`);
+
+        const aps: AccessPoint[] = accessPoints
+            .filter(ap => ap.mine !== false && ap.location?.floorPlanId === plan.id)
+            .map(esxAp => {
+                const modelId = findModelId(catalog, esxAp.vendor, esxAp.model);
+                if (!modelId && (esxAp.vendor || esxAp.model)) unknownModels.add(`${esxAp.vendor ?? ''} ${esxAp.model ?? ''}`.trim());
+                const model = getApModel(catalog, modelId ?? 'custom');
+                const apRadios = radios.filter(r => r.accessPointId === esxAp.id);
+
+                // Radios of the file replace the model's defaults; model bands missing from the file are off
+                let radioSet: Radio[] = createRadiosForModel(model).map(r => ({ ...r, enabled: apRadios.length === 0 }));
+                apRadios.forEach(esxRadio => {
+                    const band = (esxRadio.frequencyBand && ESX_BANDS[esxRadio.frequencyBand])
+                        || getBandForChannel(esxRadio.channel?.[0] ?? BAND_PROFILES['5GHz'].defaultChannel);
+                    const current = radioSet.find(r => r.band === band);
+                    const radio: Radio = {
+                        band,
+                        enabled: esxRadio.enabled !== false,
+                        txPower: esxRadio.transmitPower ?? current?.txPower ?? 20,
+                        antennaGain: esxRadio.antennaGain ?? current?.antennaGain ?? 0,
+                        channel: esxRadio.channel?.[0] ?? BAND_PROFILES[band].defaultChannel,
+                        channelWidth: BAND_PROFILES[band].channelWidths.find(w => w === esxRadio.channelWidth)
+                    };
+                    radioSet = current ? radioSet.map(r => r.band === band ? radio : r) : [...radioSet, radio];
+                });
+                const first = apRadios[0];
+                return {
+                    id: esxAp.id,
+                    ...toPlan(frame, esxAp.location!.coord),
+                    name: esxAp.name,
+                    model: model.id,
+                    radios: radioSet,
+                    color: esxAp.color ?? IMPORTED_AP_COLOR,
+                    height: first?.antennaHeight ?? DEFAULT_AP_HEIGHT,
+                    azimuth: first?.antennaDirection,
+                    downtilt: first?.antennaTilt,
+                    mac: esxAp.mac ? normalizeMac(esxAp.mac) ?? esxAp.mac : undefined
+                };
+            });
+
+        const survey: SurveyPoint[] = [];
+        surveys.filter(s => s.floorPlanId === plan.id).forEach(s => s.points.forEach(point => {
+            survey.push({
+                id: point.id,
+                ...toPlan(frame, point.coord),
+                measurements: point.signals.flatMap(signal => {
+                    const m = measurements.get(signal.accessPointMeasurementId);
+                    return m ? [{ bssid: normalizeMac(m.mac) ?? m.mac, ssid: m.ssid, channel: m.channel, rssi: signal.signalStrength }] : [];
+                })
+            });
+        }));
+
+        floorData[floor.id] = {
+            walls,
+            doors,
+            aps,
+            survey,
+            pixelsPerMeter,
+            backgroundImage: image ? bytesToDataUrl(image, format.toUpperCase() === 'JPEG' || format.toUpperCase() === 'JPG' ? 'image/jpeg' : 'image/png') : null
+        };
+    });
+    if (unknownModels.size > 0) report.push(`AP models not in the catalog (imported as Custom): ${Array.from(unknownModels).join(', ')}`);
+
+    return { floors, floorData, materials, report };
+}
+
+// --- Export ---
+
+export interface EsxExportFloor {
+    floor: Floor;
+    data: EsxFloorData & { devices?: unknown[]; interferers?: unknown[]; mountingRegions?: unknown[]; routes?: unknown[]; zones?: unknown[] };
+    backgroundImage: string | null;
+    imageSize: { width: number; height: number } | null; // Natural size of the background image
+}
+
+export function exportEsx(projectName: string, floors: EsxExportFloor[], library: MaterialDefinition[], catalog: APCatalog): { blob: Blob; report: string[] } {
+    const encoder = new TextEncoder();
+    const report: string[] = ['Floor heights, slabs and project settings (clients, requirements, capacity limits) are not exported.'];
+    const out: { name: string; data: Uint8Array }[] = [];
+    const writeList = (key: string, list: unknown[]) => out.push({ name: `${key}.json`, data: encoder.encode(JSON.stringify({ [key]: list })) });
+
+    // One wall type per material id; ids missing from the library keep their own type with the default loss
+    const usedMaterials = new Set(floors.flatMap(f => f.data.walls.map(w => w.material)));
+    const missingMaterials = Array.from(usedMaterials).filter(id => getMaterial(library, id).id !== id);
+    if (missingMaterials.length > 0) report.push(`Materials not in the library, exported with the default loss: ${missingMaterials.join(', ')}`);
+    const wallTypes: EsxWallType[] = Array.from(usedMaterials).map(id => {
+        const material = getMaterial(library, id);
+        return {
+            id,
+            name: material.id === id ? material.name : `${material.name} (${id})`,
+            color: material.color,
+            propagationProperties: BANDS.map(band => ({ band: BAND_KEYS[band], attenuationFactor: material.attenuation[band], reflectionFactor: material.reflectionCoefficient }))
+        };
+    });
+    const doorType: EsxWallType = { id: 'door-opening', name: 'Door (open)', propagationProperties: BANDS.map(band => ({ band: BAND_KEYS[band], attenuationFactor: 0 })) };
+    if (floors.some(f => f.data.doors.length > 0)) wallTypes.push(doorType);
+
+    const floorPlans: EsxFloorPlan[] = [];
+    const images: EsxImage[] = [];
+    const wallPoints: EsxWallPoint[] = [];
+    const wallSegments: EsxWallSegment[] = [];
+    const accessPoints: EsxAccessPoint[] = [];
+    const simulatedRadios: EsxRadio[] = [];
+    const measurementIds = new Map<string, string>(); // "bssid|ssid|channel" -> id
+    const measurements: EsxMeasurement[] = [];
+    const surveys: EsxSurvey[] = [];
+
+    floors.forEach(({ floor, data, backgroundImage, imageSize }) => {
+        const image = backgroundImage ? dataUrlToBytes(backgroundImage) : null;
+        const size = image && imageSize ? imageSize : { width: PLAN_WIDTH, height: PLAN_HEIGHT };
+        if (!image) report.push(`${floor.name}: no floor plan image; the plan area is exported as a blank plan.`);
+        const frame = getPlanFrame(size.width, size.height);
+        const plan: EsxFloorPlan = { id: floor.id, name: floor.name, width: size.width, height: size.height, metersPerUnit: frame.fit / data.pixelsPerMeter };
+        if (image) {
+            plan.imageId = `${floor.id}-image`;
+            images.push({ id: plan.imageId, imageFormat: image.mime === 'image/jpeg' ? 'JPEG' : 'PNG' });
+            out.push({ name: `image-${plan.imageId}`, data: image.bytes });
+        }
+        floorPlans.push(plan);
+
+        const addSegment = (id: string, start: Point, end: Point, wallTypeId: string) => {
+            const location = (p: Point) => ({ floorPlanId: floor.id, coord: toImage(frame, p) });
+            wallPoints.push({ id: `${id}-a`, location: location(start) }, { id: `${id}-b`, location: location(end) });
+            wallSegments.push({ id, wallPoints: [`${id}-a`, `${id}-b`], wallTypeId });
+        };
+        data.walls.forEach(wall => addSegment(wall.id, wall.start, wall.end, wall.material));
+        data.doors.forEach(door => {
+            const wall = data.walls.find(w => w.id === door.wallId);
+            if (!wall) return;
+            const length = Math.hypot(wall.end.x - wall.start.x, wall.end.y - wall.start.y) || 1;
+            const along = (offset: number) => ({
+                x: wall.start.x + (wall.end.x - wall.start.x) * (door.ratio + offset / length),
+                y: wall.start.y + (wall.end.y - wall.start.y) * (door.ratio + offset / length)
+            });
+            addSegment(door.id, along(-door.width / 2), along(door.width / 2), doorType.id);
+        });
+
+        data.aps.forEach(ap => {
+            const model = getApModel(catalog, ap.model);
+            accessPoints.push({
+                id: ap.id,
+                name: ap.name,
+                mine: true,
+                location: { floorPlanId: floor.id, coord: toImage(frame, ap) },
+                vendor: model.vendor,
+                model: model.modelName,
+                color: ap.color,
+                mac: ap.mac
+            });
+            ap.radios.forEach((radio, index) => simulatedRadios.push({
+                id: `${ap.id}-${radio.band}`,
+                accessPointId: ap.id,
+                accessPointIndex: index,
+                frequencyBand: BAND_KEYS[radio.band],
+                enabled: radio.enabled,
+                channel: [radio.channel],
+                channelWidth: radio.channelWidth ?? 20,
+                transmitPower: radio.txPower,
+                antennaGain: radio.antennaGain,
+                antennaHeight: ap.height ?? DEFAULT_AP_HEIGHT,
+                antennaDirection: ap.azimuth ?? 0,
+                antennaTilt: ap.downtilt ?? 0
+            }));
+        });
+        const directional = data.aps.filter(ap => ap.isDirectional).length;
+        if (directional > 0) report.push(`${floor.name}: beamwidth and front-to-back ratio of ${directional} directional AP(s) are not exported.`);
+
+        if (data.survey.length > 0) {
+            surveys.push({
+                id: `${floor.id}-survey`,
+                floorPlanId: floor.id,
+                name: `${floor.name} survey`,
+                points: data.survey.map(point => ({
+                    id: point.id,
+                    coord: toImage(frame, point),
+                    signals: point.measurements.map(m => {
+                        const key = `${m.bssid}|${m.ssid}|${m.channel}`;
+                        let id = measurementIds.get(key);
+                        if (!id) {
+                            id = `measurement-${measurements.length + 1}`;
+                            measurementIds.set(key, id);
+                            measurements.push({ id, mac: m.bssid, ssid: m.ssid, channel: m.channel });
+                        }
+                        return { accessPointMeasurementId: id, signalStrength: m.rssi };
+                    })
+                }))
+            });
+        }
+
+        const skipped = [
+            [data.devices?.length, 'client devices'],
+            [data.interferers?.length, 'interferers'],
+            [data.mountingRegions?.length, 'mounting regions'],
+            [data.routes?.length, 'walk routes'],
+            [data.zones?.length, 'density zones']
+        ].filter(([count]) => count).map(([count, label]) => `${count} ${label}`);
+        if (skipped.length > 0) report.push(`${floor.name}: not exported: ${skipped.join(', ')}.`);
+    });
+
+    out.push({ name: 'project.json', data: encoder.encode(JSON.stringify({ project: { name: projectName } })) });
+    writeList('floorPlans', floorPlans);
+    writeList('images', images);
+    writeList('wallTypes', wallTypes);
+    writeList('wallPoints', wallPoints);
+    writeList('wallSegments', wallSegments);
+    writeList('accessPoints', accessPoints);
+    writeList('simulatedRadios', simulatedRadios);
+    writeList('accessPointMeasurements', measurements);
+    writeList('surveys', surveys);
+    return { blob: writeZip(out), report };
+}
@@ -0,0 +1,80 @@
+/**
+ * Floors - stacking, plan alignment and slab loss between the storeys of a building.
+ */
+
+import { AccessPoint, Band, DEFAULT_FLOOR_HEIGHT, DEFAULT_SLAB_HEIGHT, Floor, MaterialDefinition } from "@/types";
+import { getMaterialLoss } from "./materials";
+
+// Material ratings are per penetration of a typical ~20cm wall; slabs scale from there
+const REFERENCE_SLAB_HEIGHT = 0.2;
+
+// APs of another floor as seen from the current one
+export interface NeighbourFloorAps {
+    floorId: string;
+    floorName: string;
+    aps: AccessPoint[];      // x, y in meters on the current floor's plan
+    verticalOffsetM: number; // That floor's height above (+) or below (-) the current floor
+    slabs: Pick<Floor, 'slabHeight' | 'slabMaterial'>[]; // Slabs the signal passes through
+}
+
+export function createFloor(id: string, floors: Floor[]): Floor {
+    const top = floors.length > 0 ? Math.max(...floors.map(f => f.elevation)) + DEFAULT_FLOOR_HEIGHT : 0;
+    return { id, name: `Floor ${floors.length + 1}`, elevation: top, slabHeight: DEFAULT_SLAB_HEIGHT, slabMaterial: 'concrete', offsetX: 0, offsetY: 0 };
+}
+
+// Floors saved before elevations existed are stacked in list order
+export function migrateFloor(floor: Partial<Floor> & Pick<Floor, 'id' | 'name'>, index: number): Floor {
+    return {
+        elevation: index * DEFAULT_FLOOR_HEIGHT,
+        slabHeight: DEFAULT_SLAB_HEIGHT,
+        slabMaterial: 'concrete',
+        offsetX: 0,
+        offsetY: 0,
+        ...floor
+    };
+}
+
+// dB lost crossing the slabs on the given band
+export function getSlabLossDb(slabs: NeighbourFloorAps['slabs'], materials: MaterialDefinition[], band: Band): number {
+    return slabs.reduce((sum, slab) =>
+        sum + getMaterialLoss(materials, slab.slabMaterial, band) * (slab.slabHeight / REFERENCE_SLAB_HEIGHT), 0);
+}
+
+/**
+ * APs of the floors directly above and below the current one (by elevation), moved into the
+ * current floor's plan frame. `getFloorAps` returns a floor's saved APs (null = nothing saved).
+ */
+export function getNeighbourFloorAps(
+    floors: Floor[],
+    currentFloorId: string,
+    getFloorAps: (floorId: string) => { aps: AccessPoint[]; pixelsPerMeter: number } | null
+): NeighbourFloorAps[] {
+    const current = floors.find(f => f.id === currentFloorId);
+    if (!current) return [];
+
+    const others = floors.filter(f => f.id !== currentFloorId);
+    const below = others.filter(f => f.elevation < current.elevation).sort((a, b) => b.elevation - a.elevation)[0];
+    const above = others.filter(f => f.elevation > current.elevation).sort((a, b) => a.elevation - b.elevation)[0];
+
+    const result: NeighbourFloorAps[] = [];
+    [below, above].forEach(floor => {
+        if (!floor) return;
+        const data = getFloorAps(floor.id);
+        if (!data || data.aps.length === 0) return;
+
+        // The slab between two floors belongs to the upper one
+        const upper = floor.elevation > current.elevation ? floor : current;
+        result.push({
+            floorId: floor.id,
+            floorName: floor.name,
+            aps: data.aps.map(ap => ({
+                ...ap,
+                x: ap.x / data.pixelsPerMeter + floor.offsetX - current.offsetX,
+                y: ap.y / data.pixelsPerMeter + floor.offsetY - current.offsetY
+            })),
+            verticalOffsetM: floor.elevation - current.elevation,
+            slabs: [{ slabHeight: upper.slabHeight, slabMaterial: upper.slabMaterial }]
+        });
+    });
+    return result;
+}
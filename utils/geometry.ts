@@ -28,3 +28,34 @@ export function getIntersection(
 export function distance(p1: Point, p2: Point): number {
     return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
 }
+
+// Projection of p on segment a-b: position along it (0-1) and distance from it
+export function projectOnSegment(p: Point, a: Point, b: Point): { ratio: number; distance: number } {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const ratio = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    return { ratio, distance: Math.hypot(p.x - (a.x + ratio * dx), p.y - (a.y + ratio * dy)) };
+}
+
+// Ray casting: odd number of edge crossings = inside
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+// Shoelace formula (same units as the points, squared)
+export function getPolygonArea(polygon: Point[]): number {
+    let area = 0;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        area += (polygon[j].x + polygon[i].x) * (polygon[j].y - polygon[i].y);
+    }
+    return Math.abs(area) / 2;
+}
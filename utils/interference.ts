@@ -0,0 +1,102 @@
+/**
+ * Interference Model - spectrum occupancy of Wi-Fi channels and non-Wi-Fi sources,
+ * and how much of one transmitter's power lands in another receiver's channel.
+ */
+
+import { Band, BAND_PROFILES, ChannelWidth, Interferer, Radio } from "@/types";
+
+// Occupied spectrum of a transmitter / receiver
+export interface Spectrum {
+    centerMhz: number;
+    widthMhz: number;
+}
+
+// Adjacent-channel rejection by gap between the two channel edges
+// (802.11 OFDM transmit mask: -20 dBr at 11MHz, -28 dBr at 20MHz, -40 dBr at 30MHz from centre)
+const ADJACENT_CHANNEL_REJECTION: { maxGapMhz: number; db: number }[] = [
+    { maxGapMhz: 1, db: -20 },
+    { maxGapMhz: 10, db: -28 },
+    { maxGapMhz: 20, db: -40 }
+];
+
+// 5GHz bonding blocks start at the first channel of each UNII range
+const BONDING_BASE_5GHZ = [
+    { from: 149, base: 149 },
+    { from: 100, base: 100 },
+    { from: 36, base: 36 }
+];
+
+// Centre frequency of a 20MHz channel
+export function getChannelCenterMhz(band: Band, channel: number): number {
+    if (band === '2.4GHz') return channel === 14 ? 2484 : 2407 + 5 * channel;
+    if (band === '5GHz') return 5000 + 5 * channel;
+    return 5950 + 5 * channel;
+}
+
+// Spectrum used by a primary channel at the given width (bonded channels share a block)
+export function getChannelSpectrum(band: Band, channel: number, width: ChannelWidth = 20): Spectrum {
+    const primaryMhz = getChannelCenterMhz(band, channel);
+    if (width === 20) return { centerMhz: primaryMhz, widthMhz: 20 };
+
+    if (band === '2.4GHz') {
+        // HT40: secondary channel above (HT40+) for 1-7, below (HT40-) for 8-13
+        const secondaryOffset = channel <= 7 ? 20 : -20;
+        return { centerMhz: primaryMhz + secondaryOffset / 2, widthMhz: width };
+    }
+
+    // 5/6GHz: 20MHz channel numbers step by 4, blocks are aligned to a base channel
+    const base = band === '5GHz'
+        ? (BONDING_BASE_5GHZ.find(b => channel >= b.from) || BONDING_BASE_5GHZ[BONDING_BASE_5GHZ.length - 1]).base
+        : 1;
+    const channelsPerBlock = width / 20;
+    const blockStart = base + Math.floor((channel - base) / (4 * channelsPerBlock)) * 4 * channelsPerBlock;
+    const firstCenter = getChannelCenterMhz(band, blockStart);
+    return { centerMhz: firstCenter + (channelsPerBlock - 1) * 10, widthMhz: width };
+}
+
+export function getRadioSpectrum(radio: Radio): Spectrum {
+    return getChannelSpectrum(radio.band, radio.channel, radio.channelWidth || 20);
+}
+
+export function getInterfererSpectrum(interferer: Interferer): Spectrum {
+    return { centerMhz: interferer.centerFrequencyMhz, widthMhz: interferer.bandwidthMhz };
+}
+
+// Spectrum spanned by all of a band's channels
+export function getBandSpectrum(band: Band): Spectrum {
+    const centers = BAND_PROFILES[band].channels.map(ch => getChannelCenterMhz(band, ch));
+    const lowMhz = Math.min(...centers) - 10;
+    const highMhz = Math.max(...centers) + 10;
+    return { centerMhz: (lowMhz + highMhz) / 2, widthMhz: highMhz - lowMhz };
+}
+
+// Bandwidth two spectra share (0 = no co-channel overlap)
+export function getSpectrumOverlapMhz(a: Spectrum, b: Spectrum): number {
+    const low = Math.max(a.centerMhz - a.widthMhz / 2, b.centerMhz - b.widthMhz / 2);
+    const high = Math.min(a.centerMhz + a.widthMhz / 2, b.centerMhz + b.widthMhz / 2);
+    return Math.max(0, high - low);
+}
+
+/**
+ * Fraction of a transmitter's power (linear, 0-1) received inside a victim's channel.
+ * Overlapping spectrum counts in proportion to the shared bandwidth (power is spread
+ * evenly across the transmitter's width); otherwise adjacent-channel rejection applies.
+ */
+export function getSpectralCoupling(victim: Spectrum, source: Spectrum): number {
+    const shared = getSpectrumOverlapMhz(victim, source);
+    if (shared > 0) return shared / source.widthMhz;
+
+    const gap = Math.abs(victim.centerMhz - source.centerMhz) - (victim.widthMhz + source.widthMhz) / 2;
+    const rejection = ADJACENT_CHANNEL_REJECTION.find(r => gap <= r.maxGapMhz);
+    return rejection ? Math.pow(10, rejection.db / 10) : 0;
+}
+
+// Thermal noise rises 3dB per doubling of the receive bandwidth (noise floor is quoted for 20MHz)
+export function getNoiseFloorForWidth(noiseFloorDbm: number, widthMhz: number): number {
+    return noiseFloorDbm + 10 * Math.log10(widthMhz / 20);
+}
+
+// Whether a source's emissions (including adjacent-channel leakage) reach the band at all
+export function affectsBand(source: Spectrum, band: Band): boolean {
+    return getSpectralCoupling(getBandSpectrum(band), source) > 0;
+}
@@ -0,0 +1,241 @@
+/**
+ * Survey Interpolation - Measured heatmap from survey samples on the propagation grid.
+ *
+ * Distances are walked on the grid (8 neighbours) around barrier walls, so a value only
+ * spreads through openings and light partitions, and only up to MAX_DISTANCE_M from a sample.
+ *   idw:     inverse-distance weighting (power 2)
+ *   kriging: ordinary kriging on the nearest samples with a fitted exponential variogram
+ */
+
+import { InterpolationMethod, Point } from "@/types";
+import { getMaterialLoss } from "./materials";
+import { buildAttenuationGrid, GridDims, NO_SIGNAL_DBM, PropagationEnvironment } from "./propagation";
+import { PriorityQueue } from "./priorityQueue";
+import { solveLinearSystem } from "./linearSystem";
+
+export const MAX_DISTANCE_M = 10;     // Cells farther from every sample stay unmeasured
+export const BARRIER_LOSS_DB = 10;    // Walls from brick-class loss up are not interpolated through
+const IDW_POWER = 2;
+const KRIGING_NEIGHBOURS = 8;
+const NUGGET_FRACTIONS = [0, 0.1, 0.2, 0.3]; // Variogram fit candidates (share of the sill)
+
+export interface InterpolationSample extends Point {
+    value: number;
+}
+
+export interface InterpolationGrid {
+    dims: GridDims;
+    cellSize: number;
+    pixelsPerMeter: number;
+    barriers: Uint8Array; // 1 = cell of a barrier wall
+}
+
+export interface Variogram {
+    nugget: number;
+    sill: number;   // Total sill (nugget included)
+    rangeM: number; // Practical range: 95% of the sill
+}
+
+// Cells covered by walls that stop the interpolation (door openings stay free)
+export function buildBarrierGrid(env: PropagationEnvironment): Uint8Array {
+    const walls = env.walls.filter(w => getMaterialLoss(env.materials, w.material, env.band) >= BARRIER_LOSS_DB);
+    const attenuation = buildAttenuationGrid({ ...env, walls });
+    return Uint8Array.from(attenuation, value => (value > 0 ? 1 : 0));
+}
+
+// Walking distance (m) from a sample to the cells within range, in a window around it
+interface DistanceWindow {
+    col0: number;
+    row0: number;
+    size: number;
+    dist: Float32Array; // Infinity = out of range or walled off
+}
+
+function walkDistances(sample: Point, grid: InterpolationGrid): DistanceWindow | null {
+    const { dims, cellSize, pixelsPerMeter, barriers } = grid;
+    const col = Math.floor(sample.x / cellSize);
+    const row = Math.floor(sample.y / cellSize);
+    if (col < 0 || col >= dims.cols || row < 0 || row >= dims.rows) return null;
+
+    const cellM = cellSize / pixelsPerMeter;
+    const radius = Math.ceil(MAX_DISTANCE_M / cellM) + 1;
+    const size = radius * 2 + 1;
+    const col0 = col - radius;
+    const row0 = row - radius;
+    const dist = new Float32Array(size * size).fill(Infinity);
+    const queue = new PriorityQueue(size * 4);
+
+    const start = radius * size + radius;
+    dist[start] = 0;
+    queue.enqueue(start, 0);
+    while (!queue.isEmpty()) {
+        const priority = queue.peekPriority();
+        const current = queue.dequeue()!;
+        if (priority > dist[current]) continue; // Reached again at a shorter distance
+        const r = Math.floor(current / size);
+        const c = current % size;
+        const d = dist[current];
+        for (let dr = -1; dr <= 1; dr++) {
+            for (let dc = -1; dc <= 1; dc++) {
+                if (dr === 0 && dc === 0) continue;
+                const nr = r + dr;
+                const nc = c + dc;
+                const gridRow = row0 + nr;
+                const gridCol = col0 + nc;
+                if (nr < 0 || nr >= size || nc < 0 || nc >= size) continue;
+                if (gridRow < 0 || gridRow >= dims.rows || gridCol < 0 || gridCol >= dims.cols) continue;
+                if (barriers[gridRow * dims.cols + gridCol]) continue;
+                const next = d + (dr !== 0 && dc !== 0 ? Math.SQRT2 : 1) * cellM;
+                const idx = nr * size + nc;
+                if (next < dist[idx] && next <= MAX_DISTANCE_M) {
+                    dist[idx] = next;
+                    queue.enqueue(idx, next);
+                }
+            }
+        }
+    }
+    return { col0, row0, size, dist };
+}
+
+function getWindowDistance(window: DistanceWindow, col: number, row: number): number {
+    const c = col - window.col0;
+    const r = row - window.row0;
+    if (c < 0 || c >= window.size || r < 0 || r >= window.size) return Infinity;
+    return window.dist[r * window.size + c];
+}
+
+export function getVariogramValue(variogram: Variogram, distanceM: number): number {
+    if (distanceM <= 0) return 0;
+    return variogram.nugget + (variogram.sill - variogram.nugget) * (1 - Math.exp((-3 * distanceM) / variogram.rangeM));
+}
+
+/**
+ * Exponential variogram fitted to the binned semivariance of sample pairs (`pairs` holds
+ * their walking distance). The sill is the sample variance; range and nugget are searched.
+ */
+export function fitVariogram(samples: InterpolationSample[], pairs: { i: number; j: number; distanceM: number }[]): Variogram {
+    const mean = samples.reduce((sum, s) => sum + s.value, 0) / Math.max(1, samples.length);
+    const sill = Math.max(1, samples.reduce((sum, s) => sum + (s.value - mean) ** 2, 0) / Math.max(1, samples.length));
+
+    const bins = new Map<number, { sum: number; count: number }>();
+    pairs.forEach(({ i, j, distanceM }) => {
+        const bin = Math.floor(distanceM);
+        const entry = bins.get(bin) ?? { sum: 0, count: 0 };
+        entry.sum += 0.5 * (samples[i].value - samples[j].value) ** 2;
+        entry.count++;
+        bins.set(bin, entry);
+    });
+
+    let best: Variogram = { nugget: 0, sill, rangeM: MAX_DISTANCE_M / 2 };
+    let bestError = Infinity;
+    for (let rangeM = 1; rangeM <= MAX_DISTANCE_M * 2; rangeM += 0.5) {
+        NUGGET_FRACTIONS.forEach(fraction => {
+            const candidate = { nugget: sill * fraction, sill, rangeM };
+            let error = 0;
+            bins.forEach(({ sum, count }, bin) => {
+                error += count * (getVariogramValue(candidate, bin + 0.5) - sum / count) ** 2;
+            });
+            if (error < bestError) {
+                best = candidate;
+                bestError = error;
+            }
+        });
+    }
+    return best;
+}
+
+/**
+ * Measured grid (dBm, NO_SIGNAL_DBM where no sample is in range) at the propagation grid's
+ * resolution. Kriging estimates stay within the values of the samples they use.
+ */
+export function interpolateSamples(samples: InterpolationSample[], grid: InterpolationGrid, method: InterpolationMethod): Float32Array {
+    const { dims, cellSize } = grid;
+    const output = new Float32Array(dims.cols * dims.rows).fill(NO_SIGNAL_DBM);
+    const used: InterpolationSample[] = [];
+    const windows: DistanceWindow[] = [];
+    samples.forEach(sample => {
+        const window = walkDistances(sample, grid);
+        if (!window) return;
+        used.push(sample);
+        windows.push(window);
+    });
+    if (used.length === 0) return output;
+
+    const cellOf = used.map(s => ({ col: Math.floor(s.x / cellSize), row: Math.floor(s.y / cellSize) }));
+    const pairDistance = (i: number, j: number) => getWindowDistance(windows[i], cellOf[j].col, cellOf[j].row);
+
+    let variogram: Variogram | null = null;
+    if (method === 'kriging') {
+        const pairs: { i: number; j: number; distanceM: number }[] = [];
+        for (let i = 0; i < used.length; i++) {
+            for (let j = i + 1; j < used.length; j++) {
+                const distanceM = pairDistance(i, j);
+                if (distanceM < Infinity) pairs.push({ i, j, distanceM });
+            }
+        }
+        variogram = fitVariogram(used, pairs);
+    }
+
+    const halfCellM = cellSize / grid.pixelsPerMeter / 2;
+    for (let row = 0; row < dims.rows; row++) {
+        for (let col = 0; col < dims.cols; col++) {
+            const near: { index: number; distanceM: number }[] = [];
+            windows.forEach((window, index) => {
+                const distanceM = getWindowDistance(window, col, row);
+                if (distanceM < Infinity) near.push({ index, distanceM });
+            });
+            if (near.length === 0) continue;
+
+            let value = NaN;
+            if (variogram && near.length > 1) {
+                near.sort((a, b) => a.distanceM - b.distanceM);
+                const neighbours = near.slice(0, KRIGING_NEIGHBOURS);
+                value = krige(used, neighbours, variogram, pairDistance);
+            }
+            if (!Number.isFinite(value)) {
+                let weightSum = 0;
+                let weighted = 0;
+                near.forEach(({ index, distanceM }) => {
+                    const weight = 1 / Math.max(halfCellM, distanceM) ** IDW_POWER;
+                    weightSum += weight;
+                    weighted += weight * used[index].value;
+                });
+                value = weighted / weightSum;
+            }
+            output[row * dims.cols + col] = value;
+        }
+    }
+    return output;
+}
+
+// Ordinary kriging estimate from the neighbours (NaN when the system is singular)
+function krige(
+    samples: InterpolationSample[],
+    neighbours: { index: number; distanceM: number }[],
+    variogram: Variogram,
+    pairDistance: (i: number, j: number) => number
+): number {
+    const n = neighbours.length;
+    const matrix: number[][] = [];
+    for (let a = 0; a < n; a++) {
+        const row: number[] = [];
+        for (let b = 0; b < n; b++) {
+            // Pairs out of each other's walking range are at most as far as via the cell
+            const distanceM = a === b ? 0 : Math.min(
+                pairDistance(neighbours[a].index, neighbours[b].index),
+                neighbours[a].distanceM + neighbours[b].distanceM
+            );
+            row.push(getVariogramValue(variogram, distanceM));
+        }
+        row.push(1);
+        matrix.push(row);
+    }
+    matrix.push([...new Array(n).fill(1), 0]);
+    const rhs = [...neighbours.map(nb => getVariogramValue(variogram, nb.distanceM)), 1];
+
+    const weights = solveLinearSystem(matrix, rhs);
+    let value = 0;
+    for (let a = 0; a < n; a++) value += weights[a] * samples[neighbours[a].index].value;
+    const values = neighbours.map(nb => samples[nb.index].value);
+    return Math.min(Math.max(...values), Math.max(Math.min(...values), value));
+}
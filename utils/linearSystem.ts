@@ -0,0 +1,28 @@
+/**
+ * Linear System - Dense Gaussian elimination for the small systems of the survey fits
+ * (calibration normal equations, kriging weights).
+ */
+
+// Solve matrix * x = rhs with partial pivoting (non-finite entries when the matrix is singular)
+export function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+        x[row] = sum / a[row][row];
+    }
+    return x;
+}
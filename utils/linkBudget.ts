@@ -0,0 +1,73 @@
+/**
+ * Link Budget - Downlink vs uplink between an AP radio and a client profile.
+ * Grids hold the downlink signal at a 0 dBi client; the path is reciprocal, so the
+ * uplink is the same path loss driven by the client's transmitter.
+ */
+
+import { ClientProfile, DEFAULT_CLIENT_PROFILES, DEFAULT_DEVICE_PROFILE, Device, SPEC_SENSITIVITY_DBM } from "@/types";
+import { getLinkRate, getSensitivityDbm, getSensitivityMcs, Link } from "./dataRate";
+import { NO_SIGNAL_DBM } from "./propagation";
+
+export const LINK_IMBALANCE_DB = 6; // Margin gap at which one leg limits the link
+
+export type LinkBalance = 'balanced' | 'uplink-limited' | 'downlink-limited';
+
+export interface LinkBudget {
+    downlinkDbm: number; // At the client, including its antenna gain
+    uplinkDbm: number;   // At the AP
+    downlinkMarginDb: number; // Above MCS 0 sensitivity of the receiver
+    uplinkMarginDb: number;
+    downlinkMcs: number; // -1 = below MCS 0
+    uplinkMcs: number;
+    balance: LinkBalance;
+}
+
+export function getClientProfile(profiles: ClientProfile[], id: string): ClientProfile {
+    return profiles.find(p => p.id === id) ?? profiles[0] ?? DEFAULT_CLIENT_PROFILES[0];
+}
+
+export function getDeviceProfile(profiles: ClientProfile[], device: Device): ClientProfile {
+    return getClientProfile(profiles, device.profileId ?? DEFAULT_DEVICE_PROFILE[device.type]);
+}
+
+// Client-to-AP signal from the downlink signal of a radio transmitting at apTxPowerDbm
+export function getUplinkDbm(downlinkDbm: number, apTxPowerDbm: number, client: ClientProfile): number {
+    return downlinkDbm - apTxPowerDbm + client.txPower + client.antennaGain;
+}
+
+/**
+ * Both legs of the link at one spot. `signalDbm` and `sinrDb` come from the heatmap grids;
+ * the AP receiver is taken to meet the 802.11 minimum sensitivity.
+ */
+export function analyzeLinkBudget(signalDbm: number, sinrDb: number, apTxPowerDbm: number, link: Link, client: ClientProfile): LinkBudget {
+    const downlinkDbm = signalDbm + client.antennaGain;
+    const uplinkDbm = getUplinkDbm(signalDbm, apTxPowerDbm, client);
+    const downlinkMarginDb = downlinkDbm - getSensitivityDbm(client.sensitivityDbm, 0, link.widthMhz);
+    const uplinkMarginDb = uplinkDbm - getSensitivityDbm(SPEC_SENSITIVITY_DBM, 0, link.widthMhz);
+    const maxMcs = getLinkRate(Infinity, link).mcs;
+
+    const gap = downlinkMarginDb - uplinkMarginDb;
+    return {
+        downlinkDbm,
+        uplinkDbm,
+        downlinkMarginDb,
+        uplinkMarginDb,
+        downlinkMcs: Math.min(getLinkRate(sinrDb, link).mcs, getSensitivityMcs(downlinkDbm, client.sensitivityDbm, link.widthMhz)),
+        uplinkMcs: Math.min(maxMcs, getSensitivityMcs(uplinkDbm, SPEC_SENSITIVITY_DBM, link.widthMhz)),
+        balance: gap > LINK_IMBALANCE_DB ? 'uplink-limited' : gap < -LINK_IMBALANCE_DB ? 'downlink-limited' : 'balanced'
+    };
+}
+
+/**
+ * Signal the serving AP hears from the client at every cell.
+ * `apTxPowers` is indexed like bestApIndexGrid (null = the client cannot connect).
+ */
+export function buildUplinkGrid(signalGrid: Float32Array, bestApIndexGrid: Int32Array, apTxPowers: (number | null)[], client: ClientProfile): Float32Array {
+    const grid = new Float32Array(signalGrid.length).fill(NO_SIGNAL_DBM);
+    for (let i = 0; i < signalGrid.length; i++) {
+        const txPower = apTxPowers[bestApIndexGrid[i]];
+        if (txPower === null || txPower === undefined) continue;
+        grid[i] = getUplinkDbm(signalGrid[i], txPower, client);
+    }
+    return grid;
+}
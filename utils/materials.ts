@@ -0,0 +1,45 @@
+import { Band, BLOCKING_ATTENUATION_DB, DEFAULT_MATERIALS, MaterialDefinition, REFLECTION_THRESHOLD, WallMaterial } from "@/types";
+
+// Used when a wall references a material that was deleted from the library
+const FALLBACK_MATERIAL: MaterialDefinition = {
+    id: 'unknown',
+    name: 'Unknown',
+    attenuation: { '2.4GHz': 3, '5GHz': 4, '6GHz': 5 },
+    reflectionCoefficient: 0,
+    color: '#94a3b8'
+};
+
+export function getMaterial(library: MaterialDefinition[], id: WallMaterial): MaterialDefinition {
+    return library.find(m => m.id === id)
+        || DEFAULT_MATERIALS.find(m => m.id === id)
+        || FALLBACK_MATERIAL;
+}
+
+// dB loss for one penetration of the material on the given band
+export function getMaterialLoss(library: MaterialDefinition[], id: WallMaterial, band: Band): number {
+    return getMaterial(library, id).attenuation[band] ?? 0;
+}
+
+export function isBlockingMaterial(material: MaterialDefinition, band: Band): boolean {
+    return material.attenuation[band] >= BLOCKING_ATTENUATION_DB;
+}
+
+export function isReflectiveMaterial(material: MaterialDefinition): boolean {
+    return material.reflectionCoefficient >= REFLECTION_THRESHOLD;
+}
+
+// Flattened loss table (material id -> dB) for one band
+export function buildMaterialLossTable(library: MaterialDefinition[], band: Band): Record<string, number> {
+    const table: Record<string, number> = {};
+    library.forEach(m => {
+        table[m.id] = m.attenuation[band];
+    });
+    return table;
+}
+
+// Built-in materials missing from a saved library are restored (e.g. after an app update)
+export function mergeWithDefaultMaterials(library: MaterialDefinition[] | undefined): MaterialDefinition[] {
+    const saved = library || [];
+    const missing = DEFAULT_MATERIALS.filter(d => !saved.some(m => m.id === d.id));
+    return [...saved, ...missing];
+}
@@ -0,0 +1,235 @@
+/**
+ * Placement Optimiser - proposes the fewest APs that meet a coverage target.
+ * Candidate mounting positions are simulated with the propagation core, picked greedily
+ * by the area they newly cover, then pruned and turned down while the target still holds.
+ */
+
+import { AccessPoint, APCatalog, APModel, Band, BAND_PROFILES, MountingRegion, Point } from "@/types";
+import { ApSignalResult, AttenuationCache, composeHeatmap, CompositeEntry, getGridDims, propagateAp, PropagationEnvironment, sampleGrid } from "./propagation";
+import { getChannelSpectrum, getSpectralCoupling } from "./interference";
+import { createRadiosForModel, updateRadio } from "./radio";
+import { getApModel } from "./apCatalog";
+import { getFloorBounds, getFloorCells } from "./coverageAnalysis";
+import { MeasuredPattern } from "./antenna";
+
+const MAX_CANDIDATES = 150;
+const POWER_STEP_DB = 3;
+const MIN_TX_POWER_DBM = 5;
+
+export interface PlacementTarget {
+    minSignalDbm: number; // e.g. -67
+    minSinrDb: number;    // e.g. 25
+    coverage: number;     // Fraction of the floor area (0-1) that must meet both
+}
+
+export interface PlacementOptions {
+    model: APModel;
+    target: PlacementTarget;
+    regions: MountingRegion[]; // Empty = anywhere inside the walls
+    candidateSpacingM: number;
+    maxAps: number;
+    noiseFloorDbm: number;
+    antennaPattern?: MeasuredPattern | null; // Pattern linked to the model on this band
+}
+
+export interface ProposedAp extends Point {
+    model: string;
+    txPower: number; // Conducted power on the planned band
+    channel: number;
+}
+
+export interface PlacementResult {
+    aps: ProposedAp[];
+    coverage: number;       // Fraction meeting signal and SINR
+    signalCoverage: number; // Fraction meeting signal only
+    met: boolean;
+    candidates: number;     // Positions simulated
+}
+
+interface Placed {
+    candidate: number;
+    channel: number;
+    powerDelta: number; // dB below the model's power
+}
+
+// Mounting positions on a square lattice, coarsened until there are at most MAX_CANDIDATES
+function getCandidatePositions(regions: MountingRegion[], spacing: number): Point[] {
+    for (let step = spacing; ; step *= 1.25) {
+        const points: Point[] = [];
+        regions.forEach(region => {
+            for (let y = region.y + step / 2; y < region.y + region.height; y += step) {
+                for (let x = region.x + step / 2; x < region.x + region.width; x += step) {
+                    points.push({ x, y });
+                }
+            }
+        });
+        if (points.length <= MAX_CANDIDATES) return points;
+    }
+}
+
+function shiftGrid(result: ApSignalResult, deltaDb: number): ApSignalResult {
+    if (deltaDb === 0) return result;
+    return { signalGrid: result.signalGrid.map(v => v + deltaDb), distGrid: result.distGrid };
+}
+
+/**
+ * Generator so callers can stop between candidates; returns the proposal.
+ * `env` should use a coarse cell size - every candidate is a full simulation.
+ */
+export function* optimizePlacement(env: PropagationEnvironment, options: PlacementOptions): Generator<void, PlacementResult> {
+    const { band } = env;
+    const { target } = options;
+    const { model } = options;
+    const modelSpec = model.bands[band];
+    if (!modelSpec) throw new Error(`${model.modelName} has no ${BAND_PROFILES[band].label} radio`);
+
+    const dims = getGridDims(env);
+    const size = dims.cols * dims.rows;
+    const bounds = getFloorBounds(env.walls);
+    if (!bounds) throw new Error('Draw the building walls before suggesting a placement');
+
+    const attenuation = new AttenuationCache(env);
+    const floorCells = getFloorCells(env.walls, attenuation.base, dims, env.cellSize);
+
+    const regions = options.regions.length > 0 ? options.regions : [{ id: 'floor', ...bounds }];
+    const positions = getCandidatePositions(regions, options.candidateSpacingM * env.pixelsPerMeter);
+
+    // 1. Simulate every candidate once at full power
+    const template: AccessPoint = {
+        id: 'candidate',
+        x: 0,
+        y: 0,
+        name: '',
+        color: '',
+        model: model.id,
+        radios: createRadiosForModel(model)
+    };
+    const grids: ApSignalResult[] = [];
+    for (const position of positions) {
+        grids.push(propagateAp({ ...template, ...position }, env, attenuation, options.antennaPattern)!);
+        yield;
+    }
+
+    const evaluate = (placed: Placed[]) => {
+        const entries: CompositeEntry[] = placed.map((p, apIndex) => ({
+            apIndex,
+            spectrum: getChannelSpectrum(band, p.channel),
+            result: shiftGrid(grids[p.candidate], p.powerDelta)
+        }));
+        const composite = composeHeatmap(entries, size, { noiseFloorDbm: options.noiseFloorDbm });
+        let signalCells = 0;
+        let passCells = 0;
+        floorCells.forEach(i => {
+            if (composite.signalGrid[i] < target.minSignalDbm) return;
+            signalCells++;
+            if (composite.sinrGrid[i] >= target.minSinrDb) passCells++;
+        });
+        const coverage = floorCells.length > 0 ? passCells / floorCells.length : 0;
+        return { coverage, signalCoverage: floorCells.length > 0 ? signalCells / floorCells.length : 0, met: coverage >= target.coverage };
+    };
+
+    // Planning channel that hears (and is heard by) the already placed APs the least
+    const pickChannel = (candidate: number, others: Placed[]) => {
+        let best = BAND_PROFILES[band].planningChannels[0];
+        let bestCost = Infinity;
+        BAND_PROFILES[band].planningChannels.forEach(channel => {
+            const spectrum = getChannelSpectrum(band, channel);
+            const cost = others.reduce((sum, other) => {
+                const heard = Math.max(
+                    sampleGrid(grids[other.candidate].signalGrid, dims, env.cellSize, positions[candidate]),
+                    sampleGrid(grids[candidate].signalGrid, dims, env.cellSize, positions[other.candidate])
+                );
+                return sum + getSpectralCoupling(spectrum, getChannelSpectrum(band, other.channel)) * Math.pow(10, heard / 10);
+            }, 0);
+            if (cost < bestCost) {
+                bestCost = cost;
+                best = channel;
+            }
+        });
+        return best;
+    };
+
+    // 2. Greedy: add the candidate that brings the most floor cells up to the signal target
+    const placed: Placed[] = [];
+    const bestSignal = new Float32Array(size).fill(-Infinity);
+    let score = evaluate(placed);
+    while (!score.met && placed.length < options.maxAps) {
+        let bestCandidate = -1;
+        let bestGain = 0;
+        grids.forEach((grid, candidate) => {
+            if (placed.some(p => p.candidate === candidate)) return;
+            let gain = 0;
+            floorCells.forEach(i => {
+                if (bestSignal[i] < target.minSignalDbm && grid.signalGrid[i] >= target.minSignalDbm) gain++;
+            });
+            if (gain > bestGain) {
+                bestGain = gain;
+                bestCandidate = candidate;
+            }
+        });
+        if (bestCandidate === -1) break; // Nothing left improves signal coverage
+
+        placed.push({ candidate: bestCandidate, channel: pickChannel(bestCandidate, placed), powerDelta: 0 });
+        grids[bestCandidate].signalGrid.forEach((v, i) => {
+            if (v > bestSignal[i]) bestSignal[i] = v;
+        });
+        score = evaluate(placed);
+        yield;
+    }
+
+    // 3. Prune APs the target does not need (latest picks cover the least new area)
+    if (score.met) {
+        for (let i = placed.length - 1; i >= 0 && placed.length > 1; i--) {
+            const without = placed.filter((_, j) => j !== i);
+            const rechannelled = without.map((p, j) => ({ ...p, channel: pickChannel(p.candidate, without.slice(0, j)) }));
+            const trial = evaluate(rechannelled);
+            if (trial.met) {
+                placed.splice(0, placed.length, ...rechannelled);
+                score = trial;
+            }
+            yield;
+        }
+
+        // 4. Turn each AP down while the target still holds (less co-channel overlap)
+        for (const p of placed) {
+            while (modelSpec.txPower + p.powerDelta - POWER_STEP_DB >= MIN_TX_POWER_DBM) {
+                p.powerDelta -= POWER_STEP_DB;
+                const trial = evaluate(placed);
+                if (!trial.met) {
+                    p.powerDelta += POWER_STEP_DB;
+                    break;
+                }
+                score = trial;
+            }
+            yield;
+        }
+    }
+
+    return {
+        aps: placed.map(p => ({
+            ...positions[p.candidate],
+            model: model.id,
+            txPower: modelSpec.txPower + p.powerDelta,
+            channel: p.channel
+        })),
+        coverage: score.coverage,
+        signalCoverage: score.signalCoverage,
+        met: score.met,
+        candidates: positions.length
+    };
+}
+
+// Editor AP for an accepted proposal (only the planned band's radio is configured)
+export function createProposedAccessPoint(proposal: ProposedAp, band: Band, catalog: APCatalog): AccessPoint {
+    const model = getApModel(catalog, proposal.model);
+    const ap: AccessPoint = {
+        id: crypto.randomUUID(),
+        x: proposal.x,
+        y: proposal.y,
+        radios: createRadiosForModel(model),
+        color: '#34d399',
+        model: model.id,
+        name: model.modelName
+    };
+    return updateRadio(ap, band, { txPower: proposal.txPower, channel: proposal.channel });
+}
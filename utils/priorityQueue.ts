@@ -0,0 +1,87 @@
+/**
+ * Binary min-heap on typed arrays: O(log N) enqueue/dequeue without per-item allocations.
+ * Elements are grid cell indices, priorities are accumulated losses (dB).
+ * There is no decrease-key: callers queue a cell again when it improves and skip stale entries.
+ */
+
+export class PriorityQueue {
+    private elements: Uint32Array;
+    private priorities: Float32Array;
+    private length = 0;
+
+    constructor(maxSize: number) {
+        this.elements = new Uint32Array(maxSize);
+        this.priorities = new Float32Array(maxSize);
+    }
+
+    enqueue(element: number, priority: number) {
+        if (this.length === this.elements.length) this.grow();
+
+        let idx = this.length++;
+        while (idx > 0) {
+            const parentIdx = (idx - 1) >>> 1;
+            const parentPriority = this.priorities[parentIdx];
+            if (priority >= parentPriority) break;
+
+            this.elements[idx] = this.elements[parentIdx];
+            this.priorities[idx] = parentPriority;
+            idx = parentIdx;
+        }
+        this.elements[idx] = element;
+        this.priorities[idx] = priority;
+    }
+
+    dequeue(): number | undefined {
+        if (this.length === 0) return undefined;
+        const minElement = this.elements[0];
+
+        const length = --this.length;
+        if (length > 0) {
+            const endElement = this.elements[length];
+            const endPriority = this.priorities[length];
+
+            let idx = 0;
+            const halfLength = length >>> 1;
+
+            while (idx < halfLength) {
+                const leftIdx = (idx << 1) + 1;
+                const rightIdx = leftIdx + 1;
+                let minIdx = leftIdx;
+                let minPriority = this.priorities[leftIdx];
+
+                if (rightIdx < length && this.priorities[rightIdx] < minPriority) {
+                    minIdx = rightIdx;
+                    minPriority = this.priorities[rightIdx];
+                }
+
+                if (endPriority <= minPriority) break;
+
+                this.elements[idx] = this.elements[minIdx];
+                this.priorities[idx] = minPriority;
+                idx = minIdx;
+            }
+            this.elements[idx] = endElement;
+            this.priorities[idx] = endPriority;
+        }
+        return minElement;
+    }
+
+    // Priority of the element dequeue returns next
+    peekPriority(): number {
+        return this.length === 0 ? Infinity : this.priorities[0];
+    }
+
+    isEmpty(): boolean {
+        return this.length === 0;
+    }
+
+    // Cells queued more than once can outnumber maxSize
+    private grow() {
+        const elements = new Uint32Array(this.elements.length * 2);
+        const priorities = new Float32Array(this.priorities.length * 2);
+        elements.set(this.elements);
+        priorities.set(this.priorities);
+        this.elements = elements;
+        this.priorities = priorities;
+    }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { AccessPoint, BAND_PROFILES, DEFAULT_MATERIALS, Door, Wall } from "@/types";
+import { getMaterialLoss } from "./materials";
+import { getGridDims, NO_SIGNAL_DBM, propagateAp, PropagationEnvironment, sampleGrid } from "./propagation";
+
+// 20 x 10 m room at 40 px/m, 25 cm cells; AP at client height so only the horizontal distance counts
+const CELL = 10;
+const PPM = 40;
+const EIRP = 20;
+const AP_POINT = { x: 105, y: 205 };
+
+const ap: AccessPoint = {
+    id: 'ap',
+    name: 'AP',
+    model: 'custom',
+    color: '#000000',
+    ...AP_POINT,
+    height: 1,
+    radios: [{ band: '5GHz', enabled: true, txPower: EIRP, antennaGain: 0, channel: 36 }]
+};
+
+function getEnv(walls: Wall[] = [], doors: Door[] = []): PropagationEnvironment {
+    return { walls, doors, materials: DEFAULT_MATERIALS, band: '5GHz', width: 800, height: 400, cellSize: CELL, pixelsPerMeter: PPM, clientHeight: 1 };
+}
+
+function signalAt(env: PropagationEnvironment, x: number, y: number): number {
+    const result = propagateAp(ap, env);
+    if (!result) throw new Error('AP has no radio on the band');
+    return sampleGrid(result.signalGrid, getGridDims(env), CELL, { x, y });
+}
+
+// Log-distance prediction to the centre of the cell holding the point
+function freeSpaceAt(x: number, y: number): number {
+    const cx = Math.floor(x / CELL) * CELL + CELL / 2;
+    const cy = Math.floor(y / CELL) * CELL + CELL / 2;
+    const distanceM = Math.hypot(cx - AP_POINT.x, cy - AP_POINT.y) / PPM;
+    const { referenceLoss, pathLossExponent } = BAND_PROFILES['5GHz'];
+    return EIRP - (referenceLoss + 10 * pathLossExponent * Math.log10(Math.max(1, distanceM)));
+}
+
+const wallAcross = (material: string): Wall => ({ id: `wall-${material}`, start: { x: 300, y: 0 }, end: { x: 300, y: 400 }, material, thickness: 12 });
+
+describe('propagation scenarios', () => {
+    it('follows log-distance path loss in an open room', () => {
+        const env = getEnv();
+        [{ x: 205, y: 205 }, { x: 505, y: 205 }, { x: 705, y: 305 }].forEach(point => {
+            expect(signalAt(env, point.x, point.y)).toBeCloseTo(freeSpaceAt(point.x, point.y), 1);
+        });
+    });
+
+    it.each(['drywall', 'brick', 'concrete'])('loses the rated dB of a %s wall between the points', material => {
+        const open = signalAt(getEnv(), 505, 205);
+        const behindWall = signalAt(getEnv([wallAcross(material)]), 505, 205);
+        expect(open - behindWall).toBeCloseTo(getMaterialLoss(DEFAULT_MATERIALS, material, '5GHz'), 0);
+    });
+
+    it.each(['drywall', 'brick', 'concrete'])('loses the rated dB of a %s wall crossed at 45 degrees', material => {
+        const wall: Wall = { id: 'wall-diagonal', start: { x: 0, y: -95 }, end: { x: 500, y: 405 }, material, thickness: 12 };
+        const open = signalAt(getEnv(), 505, 205);
+        const behindWall = signalAt(getEnv([wall]), 505, 205);
+        expect(open - behindWall).toBeCloseTo(getMaterialLoss(DEFAULT_MATERIALS, material, '5GHz'), 0);
+    });
+
+    it('lets the signal through a door gap unattenuated', () => {
+        const wall = wallAcross('concrete');
+        const door: Door = { id: 'door', wallId: wall.id, ratio: 0.5, width: 80, swingType: 'single', hinge: 'left', openDirection: 'left' };
+        const open = signalAt(getEnv(), 505, 205);
+        const throughDoor = signalAt(getEnv([wall], [door]), 505, 205);
+        expect(throughDoor).toBeCloseTo(open, 1);
+        expect(signalAt(getEnv([wall]), 505, 205)).toBeLessThan(open - 20);
+    });
+
+    it('keeps the signal out of a metal cage', () => {
+        const corners = [{ x: 550, y: 150 }, { x: 650, y: 150 }, { x: 650, y: 250 }, { x: 550, y: 250 }];
+        const cage: Wall[] = corners.map((start, i) => ({ id: `cage-${i}`, start, end: corners[(i + 1) % 4], material: 'metal', thickness: 20 }));
+        const env = getEnv(cage);
+        expect(signalAt(env, 505, 205)).toBeGreaterThan(NO_SIGNAL_DBM);
+        expect(signalAt(env, 600, 200)).toBeLessThanOrEqual(NO_SIGNAL_DBM);
+    });
+});
@@ -0,0 +1,679 @@
+/**
+ * Propagation Core - the single signal model used by the worker, the editor,
+ * device readouts and reports.
+ *
+ * Model: Dijkstra wave propagation over an attenuation grid (dB/m per cell),
+ * Log-Distance Path Loss per band, Image Source Method for reflective walls.
+ */
+
+import { AccessPoint, Band, BAND_PROFILES, BLOCKING_ATTENUATION_DB, DEFAULT_CLIENT_HEIGHT, DEFAULT_NOISE_FLOOR, Door, Interferer, MaterialDefinition, PathLossModel, Point, Wall } from "@/types";
+import { getActiveRadio, getRadioEirp } from "./radio";
+import { getMaterial, isReflectiveMaterial } from "./materials";
+import { PriorityQueue } from "./priorityQueue";
+import { getNoiseFloorForWidth, getSpectralCoupling, Spectrum } from "./interference";
+import { DEFAULT_AP_HEIGHT, ElevationPattern, getElevationGainDb, getElevationPattern, MeasuredPattern, samplePatternDb } from "./antenna";
+
+export const NO_SIGNAL_DBM = -120; // Value of a cell no AP reaches
+export const NO_SINR_DB = -100;    // Value of a cell without a serving AP
+
+const MAX_REFLECTIONS = 6; // Closest reflective walls considered per AP
+const LOSS_TIE_DB = 1e-3;   // Losses this close count as equal (the state is Float32)
+const INTERFERER_HEIGHT = 1; // Microwave on a counter, hub on a desk (m)
+const RAD_TO_DEG = 180 / Math.PI;
+
+export interface PropagationEnvironment {
+    walls: Wall[];
+    doors: Door[];
+    materials: MaterialDefinition[];
+    band: Band;
+    width: number;  // Simulation area in pixels
+    height: number;
+    cellSize: number; // Pixels per grid cell
+    pixelsPerMeter: number;
+    clientHeight?: number; // Receiver plane above the floor in meters (default 1m)
+    pathLoss?: PathLossModel; // Calibrated parameters (default: the band profile)
+}
+
+export interface GridDims {
+    cols: number;
+    rows: number;
+}
+
+export interface ApSignalResult {
+    signalGrid: Float32Array; // dBm per cell
+    distGrid: Float32Array;   // Path length in meters per cell
+}
+
+// A point transmitter as seen by the core (an AP radio or a non-Wi-Fi interferer)
+export interface PropagationSource extends Point, AntennaProps {
+    id: string;
+    eirp: number; // dBm
+    height: number; // Antenna above its own floor in meters
+    verticalOffsetM?: number; // Height above (+) or below (-) the simulated floor (APs of other floors)
+    extraLossDb?: number;     // Loss outside the floor plan (slabs between floors)
+}
+
+// One AP's grid taking part in a composite heatmap
+export interface CompositeEntry {
+    apIndex: number;
+    spectrum: Spectrum; // Channel the AP serves on
+    result: ApSignalResult;
+}
+
+// A non-Wi-Fi source's grid, counted as interference only
+export interface InterferenceEntry {
+    spectrum: Spectrum;
+    dutyCycle: number; // 0-1
+    result: ApSignalResult;
+}
+
+export interface ComposeOptions {
+    noiseFloorDbm?: number; // For a 20MHz channel
+    interferers?: InterferenceEntry[];
+}
+
+export interface CompositeHeatmap {
+    signalGrid: Float32Array;
+    minDistGrid: Float32Array;
+    bestApIndexGrid: Int32Array; // Index of the strongest AP per cell (-1 = none)
+    sinrGrid: Float32Array;
+}
+
+export interface AntennaProps {
+    isDirectional?: boolean;
+    azimuth?: number;
+    beamwidth?: number;
+    frontToBackRatio?: number;
+    downtilt?: number;
+    verticalBeamwidth?: number;
+    pattern?: MeasuredPattern; // Imported pattern (replaces the beamwidth / front-to-back lobe)
+}
+
+// --- Helper Functions ---
+
+function getSideOfLine(a: Point, b: Point, p: Point): number {
+    return Math.sign((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x));
+}
+
+function mirrorPointAcrossLine(point: Point, lineStart: Point, lineEnd: Point): Point {
+    const dx = lineEnd.x - lineStart.x;
+    const dy = lineEnd.y - lineStart.y;
+    const len2 = dx * dx + dy * dy;
+
+    if (len2 === 0) return point;
+
+    const t = ((point.x - lineStart.x) * dx + (point.y - lineStart.y) * dy) / len2;
+    const projX = lineStart.x + t * dx;
+    const projY = lineStart.y + t * dy;
+
+    return {
+        x: 2 * projX - point.x,
+        y: 2 * projY - point.y
+    };
+}
+
+function distanceSqToSegment(p: Point, a: Point, b: Point): number {
+    const C = b.x - a.x;
+    const D = b.y - a.y;
+    const lenSq = C * C + D * D;
+    const param = lenSq !== 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * C + (p.y - a.y) * D) / lenSq)) : 0;
+    const dx = p.x - (a.x + param * C);
+    const dy = p.y - (a.y + param * D);
+    return dx * dx + dy * dy;
+}
+
+// --- Grid Helpers ---
+
+export function getGridDims(env: Pick<PropagationEnvironment, 'width' | 'height' | 'cellSize'>): GridDims {
+    return {
+        cols: Math.ceil(env.width / env.cellSize),
+        rows: Math.ceil(env.height / env.cellSize)
+    };
+}
+
+// Value of the grid cell under a world point (NO_SIGNAL_DBM outside the grid)
+export function sampleGrid(grid: ArrayLike<number>, dims: GridDims, cellSize: number, point: Point): number {
+    const col = Math.floor(point.x / cellSize);
+    const row = Math.floor(point.y / cellSize);
+    if (col < 0 || col >= dims.cols || row < 0 || row >= dims.rows) return NO_SIGNAL_DBM;
+    return grid[row * dims.cols + col];
+}
+
+export function getPathLossModel(env: Pick<PropagationEnvironment, 'band' | 'pathLoss'>): PathLossModel {
+    return env.pathLoss ?? BAND_PROFILES[env.band];
+}
+
+// Share of a cell inside a wall's band, by the cell centre's distance from the wall line (in cells).
+// Edge cells are covered in proportion to the cell's width seen across the wall.
+function getBandCoverage(distance: number, halfWidth: number, cellSpan: number): number {
+    return Math.min(1, Math.max(0, (halfWidth + cellSpan / 2 - Math.abs(distance)) / cellSpan));
+}
+
+const crossingCache = new Map<string, number>();
+
+// Length (in cells, weighted by coverage) of the cheapest 8-neighbour path across a band of
+// `halfWidth` cells whose normal is (nx, ny), measured on a small patch like runDijkstra steps.
+// Straight and diagonal steps cross a slanted band at different costs, so this sets its density.
+function getBandCrossingCells(nx: number, ny: number, halfWidth: number): number {
+    // Mirror and swap into the first octant: the crossing is the same
+    const a = Math.min(Math.abs(nx), Math.abs(ny));
+    const b = Math.max(Math.abs(nx), Math.abs(ny));
+    const key = `${a.toFixed(4)}|${halfWidth}`;
+    const cached = crossingCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const crossing = measureBandCrossing(a, b, halfWidth);
+    crossingCache.set(key, crossing);
+    return crossing;
+}
+
+function measureBandCrossing(a: number, b: number, halfWidth: number): number {
+    const cellSpan = a + b;
+    const reach = halfWidth + cellSpan / 2;
+    const size = 2 * Math.ceil(reach) + 9;
+    const centre = size / 2;
+    const offset = (i: number) => (i % size + 0.5 - centre) * b + (Math.floor(i / size) + 0.5 - centre) * a;
+    const coverage = Array.from({ length: size * size }, (_, i) => getBandCoverage(offset(i), halfWidth, cellSpan));
+
+    // Dense Dijkstra from every uncovered cell on one side to the first on the other
+    const cost = new Float64Array(size * size).fill(Infinity);
+    const settled = new Uint8Array(size * size);
+    for (let i = 0; i < cost.length; i++) if (offset(i) < -reach) cost[i] = 0;
+    for (;;) {
+        let current = -1;
+        for (let i = 0; i < cost.length; i++) {
+            if (!settled[i] && cost[i] < Infinity && (current < 0 || cost[i] < cost[current])) current = i;
+        }
+        if (current < 0) return Infinity;
+        if (offset(current) > reach) return cost[current];
+        settled[current] = 1;
+        const r = Math.floor(current / size);
+        const c = current % size;
+        for (let dr = -1; dr <= 1; dr++) {
+            for (let dc = -1; dc <= 1; dc++) {
+                const nr = r + dr;
+                const nc = c + dc;
+                if ((dr === 0 && dc === 0) || nr < 0 || nr >= size || nc < 0 || nc >= size) continue;
+                const next = nr * size + nc;
+                const step = coverage[next] * (dr !== 0 && dc !== 0 ? Math.SQRT2 : 1);
+                if (cost[current] + step < cost[next]) cost[next] = cost[current] + step;
+            }
+        }
+    }
+}
+
+// Build attenuation density grid (dB per meter): each wall is a band of cells around its line
+export function buildAttenuationGrid(env: PropagationEnvironment, excludedWallId?: string): Float32Array {
+    const { walls, doors, materials, band, cellSize, pixelsPerMeter } = env;
+    const { cols, rows } = getGridDims(env);
+    const grid = new Float32Array(cols * rows);
+
+    for (const wall of walls) {
+        if (wall.id === excludedWallId) continue;
+
+        const x1 = wall.start.x;
+        const y1 = wall.start.y;
+        const wallLength = Math.hypot(wall.end.x - x1, wall.end.y - y1);
+        if (wallLength === 0) continue;
+        const ux = (wall.end.x - x1) / wallLength; // Along the wall
+        const uy = (wall.end.y - y1) / wallLength;
+
+        const thicknessPixels = wall.thickness || 12;
+        const totalAttenuation = getMaterial(materials, wall.material).attenuation[band] || 0;
+
+        // At least 1 cell radius (3 cells wide) so diagonal steps cannot slip through
+        const radius = Math.max(1, Math.ceil(thicknessPixels / cellSize / 2));
+        const halfWidth = radius + 0.5; // Cells
+        const cellSpan = Math.abs(ux) + Math.abs(uy); // Width of a cell seen across the wall
+        const reach = (halfWidth + cellSpan / 2) * cellSize;
+
+        // Attenuation Density (dB/m): the cheapest path across the wall loses the material's
+        // rated dB per penetration, whatever the wall's angle. Blocking materials stay a complete barrier.
+        const crossingMeters = getBandCrossingCells(uy, ux, halfWidth) * cellSize / pixelsPerMeter;
+        const attenuationDensity = totalAttenuation >= BLOCKING_ATTENUATION_DB
+            ? Math.max(1000, totalAttenuation / crossingMeters)
+            : totalAttenuation / crossingMeters;
+
+        // Doors are gaps in the wall (positions along it)
+        const gaps = doors
+            .filter(d => d.wallId === wall.id)
+            .map(d => [d.ratio * wallLength - d.width / 2, d.ratio * wallLength + d.width / 2]);
+        const coverage = (distance: number) => getBandCoverage(distance / cellSize, halfWidth, cellSpan);
+
+        // Cells near the wall, found by stepping along it one cell at a time
+        const window = radius + 3;
+        const steps = Math.ceil((wallLength + 2 * reach) / cellSize);
+        for (let i = 0; i <= steps; i++) {
+            const along = -reach + (i / steps) * (wallLength + 2 * reach);
+            const baseCol = Math.floor((x1 + ux * along) / cellSize);
+            const baseRow = Math.floor((y1 + uy * along) / cellSize);
+
+            for (let r = Math.max(0, baseRow - window); r <= Math.min(rows - 1, baseRow + window); r++) {
+                for (let c = Math.max(0, baseCol - window); c <= Math.min(cols - 1, baseCol + window); c++) {
+                    const px = c * cellSize + cellSize / 2 - x1;
+                    const py = r * cellSize + cellSize / 2 - y1;
+                    const t = px * ux + py * uy;
+                    // Distance past the wall's ends or into a door opening
+                    let outside = Math.max(0, -t, t - wallLength);
+                    for (const [gapStart, gapEnd] of gaps) {
+                        if (t > gapStart && t < gapEnd) outside = Math.max(outside, Math.min(t - gapStart, gapEnd - t));
+                    }
+                    const covered = Math.min(coverage(Math.abs(px * uy - py * ux)), coverage(outside));
+                    if (covered <= 0) continue;
+
+                    const idx = r * cols + c;
+                    const density = totalAttenuation >= BLOCKING_ATTENUATION_DB ? attenuationDensity : attenuationDensity * covered;
+                    // Use MAX to keep the strongest barrier
+                    grid[idx] = Math.max(grid[idx], density);
+                }
+            }
+        }
+    }
+
+    return grid;
+}
+
+// Attenuation grids of one environment, shared by every AP: the full grid plus,
+// built on first use, one grid per reflective wall with that wall left out
+export class AttenuationCache {
+    readonly base: Float32Array;
+    private withoutWall = new Map<string, Float32Array>();
+
+    constructor(private env: PropagationEnvironment) {
+        this.base = buildAttenuationGrid(env);
+    }
+
+    getWithoutWall(wallId: string): Float32Array {
+        let grid = this.withoutWall.get(wallId);
+        if (!grid) {
+            grid = buildAttenuationGrid(this.env, wallId);
+            this.withoutWall.set(wallId, grid);
+        }
+        return grid;
+    }
+}
+
+// --- Core Propagation Logic (Dijkstra) ---
+// Priority is the TOTAL LOSS (FSPL + Wall + Antenna) so the strongest path reaches each cell first.
+function runDijkstra(
+    startPoint: Point,
+    startSignal: number,
+    attenuationGrid: Float32Array,
+    env: PropagationEnvironment,
+    maskFn: ((c: number, r: number) => boolean) | null,
+    antenna: AntennaProps,
+    heightAboveClient: number = 0, // Source above (+) or below (-) the receiver plane in meters
+    elevation: ElevationPattern | null = null
+): ApSignalResult {
+    const { cellSize, pixelsPerMeter } = env;
+    const { cols, rows } = getGridDims(env);
+    const size = cols * rows;
+    const signalGrid = new Float32Array(size).fill(NO_SIGNAL_DBM);
+    const distGrid = new Float32Array(size).fill(Infinity);
+
+    const startCol = Math.floor(startPoint.x / cellSize);
+    const startRow = Math.floor(startPoint.y / cellSize);
+
+    if (startCol < 0 || startCol >= cols || startRow < 0 || startRow >= rows || Number.isNaN(startCol) || Number.isNaN(startRow)) {
+        return { signalGrid, distGrid };
+    }
+
+    const { referenceLoss, pathLossExponent } = getPathLossModel(env);
+    const startIdx = startRow * cols + startCol;
+    const heightSq = heightAboveClient * heightAboveClient;
+    const pq = new PriorityQueue(size);
+
+    // State tracks MINIMUM TOTAL LOSS plus the components needed to keep propagating
+    const totalLossState = new Float32Array(size).fill(Infinity);
+    const wallLossState = new Float32Array(size);
+    const distState = new Float32Array(size);
+
+    totalLossState[startIdx] = 0;
+    // Directly beneath (or above) the source only the vertical distance applies
+    signalGrid[startIdx] = heightAboveClient === 0
+        ? startSignal
+        : startSignal - (referenceLoss + (10 * pathLossExponent) * Math.log10(Math.max(1.0, Math.abs(heightAboveClient))))
+            + getElevationGainDb(elevation, Math.sign(heightAboveClient) * 90);
+    distGrid[startIdx] = 0;
+    pq.enqueue(startIdx, 0);
+
+    const stepSizeMeters = cellSize / pixelsPerMeter;
+    const diagStepMeters = stepSizeMeters * 1.4142;
+
+    const directions = [
+        { dr: -1, dc: 0, dist: stepSizeMeters },
+        { dr: 1, dc: 0, dist: stepSizeMeters },
+        { dr: 0, dc: -1, dist: stepSizeMeters },
+        { dr: 0, dc: 1, dist: stepSizeMeters },
+        { dr: -1, dc: -1, dist: diagStepMeters },
+        { dr: -1, dc: 1, dist: diagStepMeters },
+        { dr: 1, dc: -1, dist: diagStepMeters },
+        { dr: 1, dc: 1, dist: diagStepMeters },
+    ];
+
+    // Azimuth (0 = North/Up, 90 = East) converted to screen math angle: (Azimuth - 90) * PI / 180
+    const isDirectional = !!antenna.isDirectional;
+    const azimuthRad = ((antenna.azimuth || 0) - 90) * (Math.PI / 180);
+    const halfBeamRad = ((antenna.beamwidth || 360) / 2) * (Math.PI / 180);
+    const frontToBackRatio = antenna.frontToBackRatio || 20; // dB
+    const horizontalPattern = antenna.pattern?.horizontal;
+
+    while (!pq.isEmpty()) {
+        // Lazy deletion: a cell is queued again each time its loss improves, so skip the older entries
+        const priority = pq.peekPriority();
+        const currentIdx = pq.dequeue()!;
+        if (priority > totalLossState[currentIdx]) continue;
+        const currentWallLoss = wallLossState[currentIdx];
+        const currentDist = distState[currentIdx];
+
+        if (signalGrid[currentIdx] <= NO_SIGNAL_DBM) continue;
+
+        const r = Math.floor(currentIdx / cols);
+        const c = currentIdx % cols;
+
+        for (const dir of directions) {
+            const nr = r + dir.dr;
+            const nc = c + dir.dc;
+
+            if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+            if (maskFn && !maskFn(nc, nr)) continue;
+
+            const newIdx = nr * cols + nc;
+            const newWallLoss = currentWallLoss + attenuationGrid[newIdx] * dir.dist;
+            const newDist = currentDist + dir.dist;
+
+            // Hybrid Distance: use the straight line when the grid path is (nearly) direct
+            const dx = (nc * cellSize + cellSize / 2) - startPoint.x;
+            const dy = (nr * cellSize + cellSize / 2) - startPoint.y;
+            const directDist = Math.sqrt(dx * dx + dy * dy) / pixelsPerMeter;
+            const effectiveDist = (newDist / Math.max(0.01, directDist)) < 1.1 ? directDist : newDist;
+
+            // Log-Distance Path Loss: PL(d) = PL(d0) + 10*n*log10(d/d0), d0 = 1m, d = slant range to the client plane
+            const slantDist = heightSq === 0 ? effectiveDist : Math.sqrt(effectiveDist * effectiveDist + heightSq);
+            let pathLoss = referenceLoss + (10 * pathLossExponent) * Math.log10(Math.max(1.0, slantDist));
+
+            // Elevation Pattern: loss away from the main lobe (e.g. right beneath a tilted antenna)
+            if (elevation) pathLoss -= getElevationGainDb(elevation, Math.atan2(heightAboveClient, directDist) * RAD_TO_DEG);
+
+            // Measured Pattern: loss per degree off boresight (clockwise, as in the file)
+            // Directional Antenna: outside the beam the back-lobe attenuation applies
+            if (horizontalPattern) {
+                pathLoss += samplePatternDb(horizontalPattern, (Math.atan2(dy, dx) - azimuthRad) * RAD_TO_DEG);
+            } else if (isDirectional) {
+                let angleDiff = Math.abs(Math.atan2(dy, dx) - azimuthRad);
+                if (angleDiff > Math.PI) angleDiff = 2 * Math.PI - angleDiff;
+                if (angleDiff > halfBeamRad) pathLoss += frontToBackRatio;
+            }
+
+            const newTotalLoss = pathLoss + newWallLoss;
+
+            // Equal loss (path loss is flat within 1m): keep the shorter path so the distance
+            // carried outwards stays the straight one
+            const previousLoss = totalLossState[newIdx];
+            if (newTotalLoss < previousLoss - LOSS_TIE_DB || (newTotalLoss <= previousLoss + LOSS_TIE_DB && newDist < distState[newIdx])) {
+                totalLossState[newIdx] = newTotalLoss;
+                wallLossState[newIdx] = newWallLoss;
+                distState[newIdx] = newDist;
+                signalGrid[newIdx] = startSignal - newTotalLoss;
+                distGrid[newIdx] = Math.max(0.1, newDist);
+                pq.enqueue(newIdx, newTotalLoss);
+            }
+        }
+    }
+
+    return { signalGrid, distGrid };
+}
+
+// Transmitter for an AP's radio on the band (null when the radio is missing or off).
+// `pattern` is the measured antenna pattern attached to the AP's model, if any.
+export function getApSource(ap: AccessPoint, band: Band, pattern?: MeasuredPattern | null): PropagationSource | null {
+    const radio = getActiveRadio(ap, band);
+    if (!radio) return null;
+    return {
+        id: ap.id,
+        x: ap.x,
+        y: ap.y,
+        eirp: getRadioEirp(radio),
+        height: ap.height ?? DEFAULT_AP_HEIGHT,
+        isDirectional: ap.isDirectional,
+        azimuth: ap.azimuth,
+        beamwidth: ap.beamwidth,
+        frontToBackRatio: ap.frontToBackRatio,
+        downtilt: ap.downtilt,
+        verticalBeamwidth: ap.verticalBeamwidth,
+        pattern: pattern ?? undefined
+    };
+}
+
+// Interferers radiate omni-directionally with their full EIRP
+export function getInterfererSource(interferer: Interferer): PropagationSource {
+    return { id: interferer.id, x: interferer.x, y: interferer.y, eirp: interferer.power, height: INTERFERER_HEIGHT };
+}
+
+// Full signal grid of one AP on the environment's band (direct + diffraction + reflections).
+// Returns null when the AP has no active radio on the band.
+export function propagateAp(
+    ap: AccessPoint,
+    env: PropagationEnvironment,
+    attenuation: AttenuationCache = new AttenuationCache(env),
+    pattern?: MeasuredPattern | null
+): ApSignalResult | null {
+    const source = getApSource(ap, env.band, pattern);
+    if (!source) return null;
+
+    const passes = propagateSourcePasses(source, env, attenuation);
+    let step = passes.next();
+    while (!step.done) step = passes.next();
+    return step.value;
+}
+
+// Signal grid of any source, pausing after every Dijkstra pass (direct path, then each
+// reflection) so a worker can check for cancellation in between
+export function* propagateSourcePasses(
+    source: PropagationSource,
+    env: PropagationEnvironment,
+    attenuation: AttenuationCache = new AttenuationCache(env)
+): Generator<void, ApSignalResult> {
+    const eirp = source.eirp - (source.extraLossDb || 0);
+    const heightAboveClient = (source.verticalOffsetM || 0) + source.height - (env.clientHeight ?? DEFAULT_CLIENT_HEIGHT);
+    const elevation = getElevationPattern(source);
+    const main = runDijkstra({ x: source.x, y: source.y }, eirp, attenuation.base, env, null, source, heightAboveClient, elevation);
+
+    yield;
+
+    // IMAGE SOURCE METHOD: closest reflective walls mirror the source
+    const reflectiveWalls = env.walls
+        .filter(w => isReflectiveMaterial(getMaterial(env.materials, w.material)))
+        .map(wall => ({ wall, distSq: distanceSqToSegment(source, wall.start, wall.end) }))
+        .sort((a, b) => a.distSq - b.distSq)
+        .slice(0, MAX_REFLECTIONS)
+        .map(item => item.wall);
+
+    for (const wall of reflectiveWalls) {
+        const virtualAp = mirrorPointAcrossLine({ x: source.x, y: source.y }, wall.start, wall.end);
+        const reflectionGrid = attenuation.getWithoutWall(wall.id);
+        const apSide = getSideOfLine(wall.start, wall.end, source);
+        const coefficient = getMaterial(env.materials, wall.material).reflectionCoefficient;
+
+        // Reflections are treated as Omni in azimuth (the mirrored azimuth is not modelled);
+        // a vertical wall does not change the elevation angle
+        const reflected = runDijkstra(
+            virtualAp,
+            eirp + 10 * Math.log10(coefficient), // e.g. -2.2dB for Metal (60%)
+            reflectionGrid,
+            env,
+            (c, r) => getSideOfLine(wall.start, wall.end, { x: c * env.cellSize, y: r * env.cellSize }) === apSide,
+            { isDirectional: false },
+            heightAboveClient,
+            elevation
+        );
+
+        for (let i = 0; i < main.signalGrid.length; i++) {
+            if (reflected.signalGrid[i] > main.signalGrid[i]) {
+                main.signalGrid[i] = reflected.signalGrid[i];
+                main.distGrid[i] = reflected.distGrid[i];
+            }
+        }
+        yield;
+    }
+
+    return main;
+}
+
+// Max-composition of AP grids plus SINR.
+// Interference counts every other AP and interferer by how much of its spectrum
+// falls into the serving AP's channel (overlap, bonding and adjacent-channel leakage).
+export function composeHeatmap(
+    entries: CompositeEntry[],
+    size: number,
+    options: ComposeOptions = {}
+): CompositeHeatmap {
+    const { noiseFloorDbm = DEFAULT_NOISE_FLOOR, interferers = [] } = options;
+    const signalGrid = new Float32Array(size).fill(NO_SIGNAL_DBM);
+    const minDistGrid = new Float32Array(size).fill(Infinity);
+    const bestApIndexGrid = new Int32Array(size).fill(-1);
+    const sinrGrid = new Float32Array(size).fill(NO_SINR_DB);
+    const bestEntryGrid = new Int32Array(size).fill(-1);
+
+    // 1. Strongest AP per cell
+    entries.forEach((entry, entryIndex) => {
+        const apSignal = entry.result.signalGrid;
+        const apDist = entry.result.distGrid;
+
+        for (let i = 0; i < size; i++) {
+            const signal = apSignal[i];
+            if (signal > NO_SIGNAL_DBM && signal > signalGrid[i]) {
+                signalGrid[i] = signal;
+                minDistGrid[i] = apDist[i];
+                bestApIndexGrid[i] = entry.apIndex;
+                bestEntryGrid[i] = entryIndex;
+            }
+        }
+    });
+
+    // 2. Interference power (mW) inside the serving channel
+    // coupling[victim][source] = linear fraction of the source's power the victim receives
+    const interferenceGrid = new Float64Array(size);
+    const accumulate = (sourceGrid: Float32Array, couplingFor: (victimEntry: number) => number) => {
+        const coupling = entries.map((_, victim) => couplingFor(victim));
+        if (coupling.every(c => c === 0)) return;
+
+        for (let i = 0; i < size; i++) {
+            const victim = bestEntryGrid[i];
+            const signal = sourceGrid[i];
+            if (victim === -1 || signal <= NO_SIGNAL_DBM || coupling[victim] === 0) continue;
+            interferenceGrid[i] += Math.pow(10, signal / 10) * coupling[victim];
+        }
+    };
+
+    entries.forEach((source, sourceIndex) => {
+        accumulate(source.result.signalGrid, victim =>
+            victim === sourceIndex ? 0 : getSpectralCoupling(entries[victim].spectrum, source.spectrum));
+    });
+    interferers.forEach(source => {
+        accumulate(source.result.signalGrid, victim =>
+            getSpectralCoupling(entries[victim].spectrum, source.spectrum) * source.dutyCycle);
+    });
+
+    // 3. SINR = Best Signal - (Interference + Noise Floor of the serving channel width)
+    const noiseFloorMw = entries.map(entry => Math.pow(10, getNoiseFloorForWidth(noiseFloorDbm, entry.spectrum.widthMhz) / 10));
+    for (let i = 0; i < size; i++) {
+        const best = bestEntryGrid[i];
+        if (best === -1) continue;
+        sinrGrid[i] = signalGrid[i] - 10 * Math.log10(interferenceGrid[i] + noiseFloorMw[best]);
+    }
+
+    return { signalGrid, minDistGrid, bestApIndexGrid, sinrGrid };
+}
+
+// Second and third strongest AP per cell (NO_SIGNAL_DBM where fewer APs reach)
+export function rankSignals(entries: CompositeEntry[], size: number): { secondGrid: Float32Array; thirdGrid: Float32Array } {
+    const firstGrid = new Float32Array(size).fill(NO_SIGNAL_DBM);
+    const secondGrid = new Float32Array(size).fill(NO_SIGNAL_DBM);
+    const thirdGrid = new Float32Array(size).fill(NO_SIGNAL_DBM);
+    entries.forEach(entry => {
+        const grid = entry.result.signalGrid;
+        for (let i = 0; i < size; i++) {
+            const signal = grid[i];
+            if (signal <= thirdGrid[i]) continue;
+            if (signal > firstGrid[i]) {
+                thirdGrid[i] = secondGrid[i];
+                secondGrid[i] = firstGrid[i];
+                firstGrid[i] = signal;
+            } else if (signal > secondGrid[i]) {
+                thirdGrid[i] = secondGrid[i];
+                secondGrid[i] = signal;
+            } else {
+                thirdGrid[i] = signal;
+            }
+        }
+    });
+    return { secondGrid, thirdGrid };
+}
+
+// APs heard at or above the threshold per cell
+export function countAudibleAps(entries: CompositeEntry[], size: number, thresholdDbm: number): Uint16Array {
+    const counts = new Uint16Array(size);
+    entries.forEach(entry => {
+        const grid = entry.result.signalGrid;
+        for (let i = 0; i < size; i++) {
+            if (grid[i] >= thresholdDbm) counts[i]++;
+        }
+    });
+    return counts;
+}
+
+// Strongest AP at a point - the same cell value the heatmap shows
+export function getBestServerAt(
+    point: Point,
+    entries: CompositeEntry[],
+    dims: GridDims,
+    cellSize: number
+): { apIndex: number; signal: number } | null {
+    let best: { apIndex: number; signal: number } | null = null;
+    for (const entry of entries) {
+        const signal = sampleGrid(entry.result.signalGrid, dims, cellSize, point);
+        if (signal > NO_SIGNAL_DBM && (!best || signal > best.signal)) {
+            best = { apIndex: entry.apIndex, signal };
+        }
+    }
+    return best;
+}
+
+// --- Cache Keys ---
+
+// Changes whenever anything that affects every AP's grid changes
+export function getEnvironmentHash(env: PropagationEnvironment): string {
+    const { referenceLoss, pathLossExponent } = getPathLossModel(env);
+    return JSON.stringify({
+        band: env.band,
+        dim: [env.width, env.height, env.cellSize, env.pixelsPerMeter, env.clientHeight ?? DEFAULT_CLIENT_HEIGHT],
+        pathLoss: [referenceLoss, pathLossExponent],
+        walls: env.walls.map(w => [w.id, w.start, w.end, w.material, w.thickness]),
+        doors: env.doors.map(d => [d.id, d.wallId, d.ratio, d.width]),
+        materials: env.materials.map(m => [m.id, m.attenuation[env.band], m.reflectionCoefficient])
+    });
+}
+
+// Changes whenever anything that affects a source's grid changes
+export function getSourceHash(source: PropagationSource): string {
+    return JSON.stringify([source.x, source.y, source.eirp, source.isDirectional, source.azimuth, source.beamwidth, source.frontToBackRatio, source.height, source.downtilt, source.verticalBeamwidth, source.pattern?.id, source.verticalOffsetM, source.extraLossDb]);
+}
+
+// Changes whenever anything that affects this AP's grid on the band changes
+export function getApHash(ap: AccessPoint, band: Band, pattern?: MeasuredPattern | null): string {
+    const radio = getActiveRadio(ap, band);
+    return JSON.stringify({
+        x: ap.x,
+        y: ap.y,
+        p: radio ? getRadioEirp(radio) : null,
+        h: ap.height ?? DEFAULT_AP_HEIGHT, // Include height in hash
+        dir: ap.isDirectional,
+        az: ap.azimuth,
+        bw: ap.beamwidth,
+        fb: ap.frontToBackRatio,
+        tilt: ap.downtilt,
+        vbw: ap.verticalBeamwidth,
+        pat: pattern?.id
+    });
+}
@@ -0,0 +1,96 @@
+/**
+ * Propagation Benchmark - times the propagation core on a synthetic floor
+ * at several grid resolutions so performance regressions are visible.
+ */
+
+import { AccessPoint, DEFAULT_AP_MODELS, DEFAULT_MATERIALS, DEFAULT_PIXELS_PER_METER, Wall } from "@/types";
+import { createRadiosForModel } from "./radio";
+import { AttenuationCache, getGridDims, propagateAp, PropagationEnvironment } from "./propagation";
+
+export interface BenchmarkOptions {
+    widthMeters?: number;
+    heightMeters?: number;
+    cellSizes?: number[]; // Pixels per cell
+    apCount?: number;
+}
+
+export interface BenchmarkRow {
+    cellSize: number;
+    cols: number;
+    rows: number;
+    attenuationMs: number; // Building the shared attenuation grid
+    msPerAp: number;       // Direct path + reflections, averaged over the APs
+}
+
+function wall(id: string, x1: number, y1: number, x2: number, y2: number, material: string): Wall {
+    return { id, start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, material, thickness: 12 };
+}
+
+// Office-like floor: concrete shell, drywall partitions every 10 m, a glass corridor and two metal shafts
+function buildBenchmarkWalls(width: number, height: number, ppm: number): Wall[] {
+    const walls: Wall[] = [
+        wall('n', 0, 0, width, 0, 'concrete'),
+        wall('s', 0, height, width, height, 'concrete'),
+        wall('w', 0, 0, 0, height, 'concrete'),
+        wall('e', width, 0, width, height, 'concrete'),
+        wall('corridor', 0, height / 2, width, height / 2, 'glass')
+    ];
+
+    for (let x = 10 * ppm, i = 0; x < width; x += 10 * ppm, i++) {
+        walls.push(wall(`p${i}-top`, x, 0, x, height / 2 - 1.5 * ppm, 'drywall'));
+        walls.push(wall(`p${i}-bottom`, x, height / 2 + 1.5 * ppm, x, height, 'drywall'));
+    }
+
+    [width / 3, (2 * width) / 3].forEach((x, i) => {
+        walls.push(wall(`shaft${i}`, x, height / 2 - 3 * ppm, x, height / 2 + 3 * ppm, 'metal'));
+    });
+
+    return walls;
+}
+
+export function runPropagationBenchmark(options: BenchmarkOptions = {}): BenchmarkRow[] {
+    const {
+        widthMeters = 100,
+        heightMeters = 60,
+        cellSizes = [20, 10, 5],
+        apCount = 4
+    } = options;
+
+    const ppm = DEFAULT_PIXELS_PER_METER;
+    const width = widthMeters * ppm;
+    const height = heightMeters * ppm;
+    const walls = buildBenchmarkWalls(width, height, ppm);
+
+    const aps: AccessPoint[] = Array.from({ length: apCount }, (_, i) => ({
+        id: `bench-${i}`,
+        name: `Bench ${i + 1}`,
+        model: 'custom',
+        color: '#34d399',
+        x: ((i + 0.5) / apCount) * width,
+        y: height / 4 + (i % 2) * (height / 2),
+        radios: createRadiosForModel(DEFAULT_AP_MODELS['custom'])
+    }));
+
+    return cellSizes.map(cellSize => {
+        const env: PropagationEnvironment = {
+            walls,
+            doors: [],
+            materials: DEFAULT_MATERIALS,
+            band: '5GHz',
+            width,
+            height,
+            cellSize,
+            pixelsPerMeter: ppm
+        };
+
+        const attenuationStart = performance.now();
+        const attenuation = new AttenuationCache(env);
+        const attenuationMs = performance.now() - attenuationStart;
+
+        const propagationStart = performance.now();
+        aps.forEach(ap => propagateAp(ap, env, attenuation));
+        const msPerAp = (performance.now() - propagationStart) / aps.length;
+
+        return { cellSize, ...getGridDims(env), attenuationMs, msPerAp };
+    });
+}
@@ -0,0 +1,71 @@
+import { AccessPoint, APCatalog, APModel, Band, BANDS, BAND_PROFILES, Radio } from "@/types";
+import { getApModel } from "./apCatalog";
+
+// Legacy AP shape (single radio) saved before per-band radios existed
+type LegacyAccessPoint = Omit<AccessPoint, 'radios'> & {
+    radios?: Radio[];
+    txPower?: number; // EIRP in dBm
+    channel?: number;
+};
+
+export function getRadio(ap: AccessPoint, band: Band): Radio | undefined {
+    return ap.radios.find(r => r.band === band);
+}
+
+// Radio on the requested band, only if it is switched on
+export function getActiveRadio(ap: AccessPoint, band: Band): Radio | undefined {
+    const radio = getRadio(ap, band);
+    return radio && radio.enabled ? radio : undefined;
+}
+
+// EIRP (dBm) = Conducted Tx Power + Antenna Gain
+export function getRadioEirp(radio: Radio): number {
+    return radio.txPower + radio.antennaGain;
+}
+
+// Which band a channel number belongs to (6GHz shares numbers with 2.4GHz, so 2.4GHz wins)
+export function getBandForChannel(channel: number): Band {
+    if (BAND_PROFILES['2.4GHz'].channels.includes(channel)) return '2.4GHz';
+    if (BAND_PROFILES['5GHz'].channels.includes(channel)) return '5GHz';
+    return '6GHz';
+}
+
+// Build the default radio set for an AP model (one radio per band the model supports)
+export function createRadiosForModel(model: APModel): Radio[] {
+    return BANDS
+        .filter(band => model.bands[band])
+        .map(band => ({
+            band,
+            enabled: true,
+            txPower: model.bands[band]!.txPower,
+            antennaGain: model.bands[band]!.antennaGain,
+            channel: BAND_PROFILES[band].defaultChannel
+        }));
+}
+
+// Returns a copy of the AP with the radio for `band` replaced by `update`
+export function updateRadio(ap: AccessPoint, band: Band, update: Partial<Radio>): AccessPoint {
+    return {
+        ...ap,
+        radios: ap.radios.map(r => r.band === band ? { ...r, ...update } : r)
+    };
+}
+
+// Migration: Convert single-radio APs (txPower = EIRP, channel) into per-band radios
+export function migrateAccessPoint(ap: LegacyAccessPoint, catalog: APCatalog): AccessPoint {
+    const { txPower, channel, radios, ...rest } = ap;
+    if (radios && radios.length > 0) {
+        return { ...rest, radios };
+    }
+
+    const migrated = createRadiosForModel(getApModel(catalog, ap.model));
+    const legacyBand = getBandForChannel(channel ?? BAND_PROFILES['2.4GHz'].defaultChannel);
+    return {
+        ...rest,
+        radios: migrated.map(r => r.band === legacyBand ? {
+            ...r,
+            channel: channel ?? r.channel,
+            txPower: (txPower ?? 20) - r.antennaGain // Legacy txPower was EIRP
+        } : r)
+    };
+}
@@ -0,0 +1,175 @@
+/**
+ * Roaming Simulation - Replays a walk route against the predicted signal of every AP
+ * and applies the client's roam threshold and hysteresis.
+ */
+
+import { ClientProfile, Point, WalkRoute } from "@/types";
+import { CompositeEntry, GridDims, NO_SIGNAL_DBM, sampleGrid } from "./propagation";
+
+export const ROUTE_SAMPLE_M = 0.5;  // Distance between simulated positions
+export const STICKY_GAP_DB = 8;     // Serving AP this much weaker than the best one = sticky-client risk
+
+export type RoamFlag = 'sticky' | 'gap';
+
+export interface RoamSample {
+    timeS: number;
+    distanceM: number;
+    point: Point;
+    servingIndex: number; // apIndex of the associated AP (-1 = not associated)
+    rssi: number;         // From the serving AP
+    sinr: number;
+    bestIndex: number;    // Strongest AP at this spot (-1 = none)
+    bestRssi: number;
+    flag: RoamFlag | null;
+}
+
+// fromIndex -1 = association, toIndex -1 = connection lost
+export interface RoamEvent {
+    timeS: number;
+    distanceM: number;
+    fromIndex: number;
+    toIndex: number;
+    fromRssi: number;
+    toRssi: number;
+}
+
+export interface RoamSegment {
+    flag: RoamFlag;
+    startS: number;
+    endS: number;
+    lengthM: number;
+}
+
+export interface RoamingResult {
+    samples: RoamSample[];
+    events: RoamEvent[];
+    segments: RoamSegment[];
+    lengthM: number;
+    durationS: number;
+}
+
+export interface RoamingGrids {
+    entries: CompositeEntry[]; // APs the client can use
+    sinrGrid: Float32Array;    // Composite SINR (best server)
+    dims: GridDims;
+    cellSize: number;
+    pixelsPerMeter: number;
+}
+
+// Positions every ROUTE_SAMPLE_M along the route, with their distance from the start
+function sampleRoute(points: Point[], pixelsPerMeter: number): { point: Point; distanceM: number }[] {
+    if (points.length === 0) return [];
+    const step = ROUTE_SAMPLE_M * pixelsPerMeter;
+    const result = [{ point: points[0], distanceM: 0 }];
+    let travelled = 0; // px up to the current leg
+    let next = step;   // px of the next sample
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        while (next <= travelled + length) {
+            const t = (next - travelled) / length;
+            result.push({ point: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, distanceM: next / pixelsPerMeter });
+            next += step;
+        }
+        travelled += length;
+    }
+    const end = points[points.length - 1];
+    if (travelled / pixelsPerMeter > result[result.length - 1].distanceM) {
+        result.push({ point: end, distanceM: travelled / pixelsPerMeter });
+    }
+    return result;
+}
+
+/**
+ * Walk the route and decide the serving AP at every step. The client roams once its AP is
+ * below the roam threshold and the strongest AP beats it by the hysteresis; it drops the AP
+ * below its MCS 0 sensitivity. The grid SINR belongs to the strongest AP, so the serving
+ * AP's SINR is taken as that value less the signal it trails by.
+ */
+export function simulateRoaming(route: WalkRoute, client: ClientProfile, grids: RoamingGrids): RoamingResult {
+    const { entries, sinrGrid, dims, cellSize, pixelsPerMeter } = grids;
+    const minRssi = client.sensitivityDbm[0];
+    const samples: RoamSample[] = [];
+    const events: RoamEvent[] = [];
+    let serving = -1;
+
+    sampleRoute(route.points, pixelsPerMeter).forEach(({ point, distanceM }) => {
+        const timeS = distanceM / route.speedMps;
+        const signals = new Map<number, number>();
+        let bestIndex = -1;
+        let bestRssi = NO_SIGNAL_DBM;
+        entries.forEach(entry => {
+            const signal = sampleGrid(entry.result.signalGrid, dims, cellSize, point) + client.antennaGain;
+            signals.set(entry.apIndex, signal);
+            if (signal > bestRssi) {
+                bestIndex = entry.apIndex;
+                bestRssi = signal;
+            }
+        });
+
+        const previous = serving;
+        const previousRssi = serving >= 0 ? signals.get(serving) ?? NO_SIGNAL_DBM : NO_SIGNAL_DBM;
+        if (serving >= 0 && previousRssi < minRssi) serving = -1;
+        if (serving < 0) {
+            if (bestRssi >= minRssi) serving = bestIndex;
+        } else if (previousRssi < client.roamThresholdDbm && bestRssi >= previousRssi + client.roamHysteresisDb) {
+            serving = bestIndex;
+        }
+        const rssi = serving >= 0 ? signals.get(serving) ?? NO_SIGNAL_DBM : NO_SIGNAL_DBM;
+        if (serving !== previous) {
+            events.push({ timeS, distanceM, fromIndex: previous, toIndex: serving, fromRssi: previousRssi, toRssi: rssi });
+        }
+
+        const flag: RoamFlag | null = serving < 0 || bestRssi < client.roamThresholdDbm ? 'gap'
+            : bestRssi - rssi >= STICKY_GAP_DB ? 'sticky'
+            : null;
+        const sinr = serving >= 0 ? sampleGrid(sinrGrid, dims, cellSize, point) - (bestRssi - rssi) : NO_SIGNAL_DBM;
+        samples.push({ timeS, distanceM, point, servingIndex: serving, rssi, sinr, bestIndex, bestRssi, flag });
+    });
+
+    // Runs of flagged samples
+    const segments: RoamSegment[] = [];
+    samples.forEach((sample, i) => {
+        if (!sample.flag) return;
+        const last = segments[segments.length - 1];
+        const prev = samples[i - 1];
+        if (last && prev?.flag === sample.flag) {
+            last.endS = sample.timeS;
+            last.lengthM += sample.distanceM - prev.distanceM;
+        } else {
+            segments.push({ flag: sample.flag, startS: sample.timeS, endS: sample.timeS, lengthM: 0 });
+        }
+    });
+
+    const end = samples[samples.length - 1];
+    return { samples, events, segments, lengthM: end?.distanceM ?? 0, durationS: end?.timeS ?? 0 };
+}
+
+// Index of the sample at (or just before) a point in time (-1 = no samples)
+function findSampleIndex(samples: RoamSample[], timeS: number): number {
+    let lo = 0;
+    let hi = samples.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (samples[mid].timeS <= timeS) lo = mid;
+        else hi = mid - 1;
+    }
+    return hi;
+}
+
+export function getSampleAt(result: RoamingResult, timeS: number): RoamSample | null {
+    const index = findSampleIndex(result.samples, timeS);
+    return index >= 0 ? result.samples[index] : null;
+}
+
+// Position on the route at a point in time (between samples)
+export function getRoutePositionAt(result: RoamingResult, timeS: number): Point | null {
+    const index = findSampleIndex(result.samples, timeS);
+    if (index < 0) return null;
+    const sample = result.samples[index];
+    const next = result.samples[index + 1];
+    if (!next) return sample.point;
+    const t = Math.min(1, (timeS - sample.timeS) / (next.timeS - sample.timeS));
+    return { x: sample.point.x + (next.point.x - sample.point.x) * t, y: sample.point.y + (next.point.y - sample.point.y) * t };
+}
@@ -0,0 +1,166 @@
+/**
+ * Site Survey - Measured scan points, BSSID-to-AP matching and predicted-vs-measured error.
+ *
+ * CSV import: one row per BSSID heard, with a header row:
+ *   x,y,bssid,ssid,channel,rssi            (x/y in meters from the plan origin)
+ *   plan_x,plan_y,bssid,ssid,channel,rssi  (x/y in floor plan pixels)
+ * Rows at the same position form one survey point.
+ */
+
+import { AccessPoint, Band, SurveyMeasurement, SurveyPoint } from "@/types";
+import { splitCsvLine } from "./apCatalog";
+import { getBandForChannel } from "./radio";
+import { CompositeEntry, GridDims, NO_SIGNAL_DBM, sampleGrid } from "./propagation";
+import { InterpolationSample } from "./interpolation";
+
+const CSV_COLUMNS = ['bssid', 'channel', 'rssi'] as const; // Required besides the coordinates
+export const SURVEY_DELTA_WARN_DB = 6; // |measured - predicted| at which a reading counts as off
+export const FOREIGN_BSSID = 'none';   // Assignment of a BSSID that belongs to no AP of the plan (neighbours, hotspots)
+
+// "AA-BB-CC-DD-EE-FF" / "aabb.ccdd.eeff" -> "aa:bb:cc:dd:ee:ff" (null if not a MAC)
+export function normalizeMac(value: string): string | null {
+    const hex = value.toLowerCase().replace(/[^0-9a-f]/g, '');
+    if (hex.length !== 12) return null;
+    return hex.match(/../g)!.join(':');
+}
+
+/**
+ * Index of the AP a BSSID belongs to (-1 = unmatched). A manual assignment wins; otherwise
+ * the AP whose base MAC shares the first five octets, closest last octet first.
+ */
+export function matchBssid(bssid: string, aps: AccessPoint[], assignments: Record<string, string>): number {
+    const mac = normalizeMac(bssid);
+    if (!mac) return -1;
+    const assigned = assignments[mac];
+    if (assigned) return aps.findIndex(ap => ap.id === assigned);
+
+    const prefix = mac.slice(0, 14);
+    const last = parseInt(mac.slice(15), 16);
+    let best = -1;
+    let bestGap = Infinity;
+    aps.forEach((ap, i) => {
+        const apMac = ap.mac ? normalizeMac(ap.mac) : null;
+        if (!apMac || apMac.slice(0, 14) !== prefix) return;
+        const gap = Math.abs(parseInt(apMac.slice(15), 16) - last);
+        if (gap < bestGap) {
+            best = i;
+            bestGap = gap;
+        }
+    });
+    return best;
+}
+
+export function parseSurveyCsv(text: string, fileName: string, pixelsPerMeter: number): SurveyPoint[] {
+    const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+    if (lines.length < 2) throw new Error(`${fileName}: no rows below the header`);
+    const header = splitCsvLine(lines[0]).map(h => h.toLowerCase().replace(/[\s-]+/g, '_'));
+    const inPixels = header.includes('plan_x') && header.includes('plan_y');
+    if (!inPixels && !(header.includes('x') && header.includes('y'))) {
+        throw new Error(`${fileName}: needs x/y (meters) or plan_x/plan_y (pixels) columns`);
+    }
+    const missing = CSV_COLUMNS.filter(c => !header.includes(c));
+    if (missing.length > 0) throw new Error(`${fileName}: missing column(s) ${missing.join(', ')}`);
+
+    const points = new Map<string, SurveyPoint>();
+    lines.slice(1).forEach((line, i) => {
+        const context = `${fileName} line ${i + 2}`;
+        const cells = splitCsvLine(line);
+        const get = (column: string) => cells[header.indexOf(column)] ?? '';
+
+        const scale = inPixels ? 1 : pixelsPerMeter;
+        const x = parseFloat(get(inPixels ? 'plan_x' : 'x')) * scale;
+        const y = parseFloat(get(inPixels ? 'plan_y' : 'y')) * scale;
+        if (!Number.isFinite(x) || !Number.isFinite(y)) throw new Error(`${context}: invalid position`);
+        const bssid = normalizeMac(get('bssid'));
+        if (!bssid) throw new Error(`${context}: invalid BSSID "${get('bssid')}"`);
+        const channel = parseInt(get('channel'));
+        const rssi = parseFloat(get('rssi'));
+        if (!Number.isFinite(channel) || !Number.isFinite(rssi)) throw new Error(`${context}: channel and RSSI must be numbers`);
+
+        const key = `${x.toFixed(1)},${y.toFixed(1)}`;
+        const point = points.get(key) ?? { id: crypto.randomUUID(), x, y, measurements: [] };
+        point.measurements.push({ bssid, ssid: get('ssid'), channel, rssi });
+        points.set(key, point);
+    });
+    return Array.from(points.values());
+}
+
+export interface SurveyComparison {
+    pointId: string;
+    measurement: SurveyMeasurement;
+    apIndex: number;
+    predicted: number; // dBm from the AP's own signal grid
+    delta: number;     // Measured - predicted (dB)
+}
+
+export interface SurveyErrorStats {
+    count: number;
+    meanDb: number;   // Positive = the site is louder than predicted
+    stdDevDb: number;
+}
+
+export interface SurveyResult {
+    comparisons: SurveyComparison[];
+    byAp: { apIndex: number; stats: SurveyErrorStats }[];
+    floor: SurveyErrorStats | null;
+    unmatchedBssids: string[]; // Heard on the band but not tied to any AP
+}
+
+function getErrorStats(deltas: number[]): SurveyErrorStats {
+    const mean = deltas.reduce((sum, d) => sum + d, 0) / deltas.length;
+    const variance = deltas.reduce((sum, d) => sum + (d - mean) ** 2, 0) / deltas.length;
+    return { count: deltas.length, meanDb: mean, stdDevDb: Math.sqrt(variance) };
+}
+
+/**
+ * Compare every measurement on `band` with the predicted signal of its AP at the point.
+ * `entries` are the per-AP grids of the band (apIndex indexes `aps`).
+ */
+export function compareSurvey(
+    points: SurveyPoint[],
+    aps: AccessPoint[],
+    assignments: Record<string, string>,
+    entries: CompositeEntry[],
+    band: Band,
+    dims: GridDims,
+    cellSize: number
+): SurveyResult {
+    const gridByAp = new Map(entries.map(entry => [entry.apIndex, entry.result.signalGrid]));
+    const comparisons: SurveyComparison[] = [];
+    const unmatched = new Set<string>();
+
+    points.forEach(point => {
+        point.measurements.forEach(measurement => {
+            if (getBandForChannel(measurement.channel) !== band) return;
+            const apIndex = matchBssid(measurement.bssid, aps, assignments);
+            if (apIndex < 0) {
+                if (assignments[measurement.bssid] !== FOREIGN_BSSID) unmatched.add(measurement.bssid);
+                return;
+            }
+            const grid = gridByAp.get(apIndex);
+            if (!grid) return; // Radio off or not computed yet
+            const predicted = sampleGrid(grid, dims, cellSize, point);
+            if (predicted <= NO_SIGNAL_DBM) return;
+            comparisons.push({ pointId: point.id, measurement, apIndex, predicted, delta: measurement.rssi - predicted });
+        });
+    });
+
+    const deltasByAp = new Map<number, number[]>();
+    comparisons.forEach(c => deltasByAp.set(c.apIndex, [...(deltasByAp.get(c.apIndex) ?? []), c.delta]));
+    return {
+        comparisons,
+        byAp: Array.from(deltasByAp, ([apIndex, deltas]) => ({ apIndex, stats: getErrorStats(deltas) })),
+        floor: comparisons.length > 0 ? getErrorStats(comparisons.map(c => c.delta)) : null,
+        unmatchedBssids: Array.from(unmatched)
+    };
+}
+
+// Strongest reading on `band` at every point, leaving out BSSIDs marked as not on the plan
+export function getMeasuredSamples(points: SurveyPoint[], band: Band, assignments: Record<string, string>): InterpolationSample[] {
+    const samples: InterpolationSample[] = [];
+    points.forEach(point => {
+        const readings = point.measurements.filter(m => getBandForChannel(m.channel) === band && assignments[m.bssid] !== FOREIGN_BSSID);
+        if (readings.length > 0) samples.push({ x: point.x, y: point.y, value: Math.max(...readings.map(m => m.rssi)) });
+    });
+    return samples;
+}
@@ -0,0 +1,130 @@
+/// <reference lib="webworker" />
+
+/**
+ * Heatmap Worker - computes one source's (AP or interferer) signal grid at a time with the propagation core,
+ * or runs a placement search.
+ * Attenuation grids are kept until the environment changes. Jobs yield between
+ * Dijkstra passes so a 'cancel' message can abort them.
+ */
+
+import { DEFAULT_MATERIALS, DEFAULT_PIXELS_PER_METER } from '@/types';
+import { AttenuationCache, getEnvironmentHash, propagateAp, propagateSourcePasses } from '@/utils/propagation';
+import { runPropagationBenchmark } from '@/utils/propagationBenchmark';
+import { optimizePlacement } from '@/utils/placementOptimizer';
+import { HeatmapWorkerRequest, HeatmapWorkerResponse } from './protocol';
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+function respond(message: HeatmapWorkerResponse, transfer: Transferable[] = []) {
+    ctx.postMessage(message, transfer);
+}
+
+function errorMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+}
+
+// --- Caching Variables ---
+let lastEnvironmentHash = '';
+let cachedAttenuation: AttenuationCache | null = null; // Shared by every AP until the environment changes
+
+const runningJobs = new Set<number>();
+const cancelledJobs = new Set<number>();
+
+// Lets queued messages (e.g. 'cancel') run between passes
+const yieldToMessages = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Steps a generator, checking for cancellation in between (null = cancelled)
+async function runCancellable<T>(id: number, steps: Generator<void, T>): Promise<T | null> {
+    let step = steps.next();
+    while (!step.done) {
+        await yieldToMessages();
+        if (cancelledJobs.has(id)) return null;
+        step = steps.next();
+    }
+    return step.value;
+}
+
+async function runJob(message: Extract<HeatmapWorkerRequest, { type: 'propagate' }>) {
+    const { id, source, env } = message;
+
+    // Check Environment Cache
+    const currentEnvHash = getEnvironmentHash(env);
+    if (currentEnvHash !== lastEnvironmentHash || !cachedAttenuation) {
+        // Environment changed (walls moved, added, etc) -> rebuild attenuation grids
+        cachedAttenuation = new AttenuationCache(env);
+        lastEnvironmentHash = currentEnvHash;
+    }
+
+    const result = await runCancellable(id, propagateSourcePasses(source, env, cachedAttenuation));
+    if (!result) return false;
+
+    // Grids are transferred, not copied
+    respond({ type: 'sourceResult', id, sourceId: source.id, result }, [result.signalGrid.buffer, result.distGrid.buffer]);
+    return true;
+}
+
+// Placement search uses its own coarse grid, so it leaves the propagation cache alone
+async function runPlacement(message: Extract<HeatmapWorkerRequest, { type: 'placement' }>) {
+    const result = await runCancellable(message.id, optimizePlacement(message.env, message.options));
+    if (!result) return false;
+
+    respond({ type: 'placement', id: message.id, result });
+    return true;
+}
+
+function warmup() {
+    // Run a tiny dummy simulation to force JIT compilation
+    propagateAp({
+        id: 'warmup',
+        x: 0,
+        y: 0,
+        radios: [{ band: '2.4GHz', enabled: true, txPower: 18, antennaGain: 0, channel: 6 }],
+        color: '',
+        model: 'custom',
+        name: ''
+    }, {
+        walls: [],
+        doors: [],
+        materials: DEFAULT_MATERIALS,
+        band: '2.4GHz',
+        width: 100,
+        height: 100,
+        cellSize: 10,
+        pixelsPerMeter: DEFAULT_PIXELS_PER_METER
+    });
+}
+
+ctx.onmessage = (e: MessageEvent<HeatmapWorkerRequest>) => {
+    const message = e.data;
+
+    switch (message.type) {
+        case 'warmup':
+            warmup();
+            break;
+        case 'benchmark':
+            try {
+                respond({ type: 'benchmark', id: message.id, results: runPropagationBenchmark() });
+            } catch (err) {
+                respond({ type: 'error', id: message.id, message: errorMessage(err) });
+            }
+            break;
+        case 'cancel':
+            if (runningJobs.has(message.id)) cancelledJobs.add(message.id);
+            break;
+        case 'propagate':
+        case 'placement':
+            runningJobs.add(message.id);
+            (message.type === 'propagate' ? runJob(message) : runPlacement(message))
+                .then(completed => {
+                    if (!completed) respond({ type: 'cancelled', id: message.id });
+                })
+                .catch(err => {
+                    respond({ type: 'error', id: message.id, message: errorMessage(err) });
+                })
+                .finally(() => {
+                    runningJobs.delete(message.id);
+                    cancelledJobs.delete(message.id);
+                });
+            break;
+    }
+};
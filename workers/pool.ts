@@ -0,0 +1,125 @@
+/**
+ * Heatmap Worker Pool - spreads per-source propagation jobs over one worker per CPU core.
+ * Each worker runs one job at a time; the rest wait in a FIFO queue.
+ */
+
+import { PropagationEnvironment, PropagationSource } from '@/utils/propagation';
+import { PlacementOptions } from '@/utils/placementOptimizer';
+import { HeatmapWorkerRequest, HeatmapWorkerResponse } from './protocol';
+
+type JobRequest = Extract<HeatmapWorkerRequest, { id: number }>;
+
+interface PoolJob {
+    request: JobRequest;
+    resolve: (response: HeatmapWorkerResponse) => void;
+}
+
+interface PoolSlot {
+    worker: Worker;
+    job: PoolJob | null;
+}
+
+export interface PoolHandle {
+    id: number;
+    response: Promise<HeatmapWorkerResponse>;
+}
+
+export function getDefaultPoolSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0;
+    return Math.max(1, cores || 2);
+}
+
+export class HeatmapWorkerPool {
+    readonly size: number;
+    private slots: PoolSlot[];
+    private queue: PoolJob[] = [];
+    private nextId = 0;
+
+    constructor(size: number = getDefaultPoolSize()) {
+        this.size = size;
+        this.slots = Array.from({ length: size }, () => {
+            const slot: PoolSlot = {
+                worker: new Worker(new URL('./heatmap.worker.ts', import.meta.url)),
+                job: null
+            };
+            slot.worker.onmessage = (e: MessageEvent<HeatmapWorkerResponse>) => this.finish(slot, e.data);
+            slot.worker.onerror = (err) => {
+                console.error("Worker Error:", err);
+                if (slot.job) this.finish(slot, { type: 'error', id: slot.job.request.id, message: err.message });
+            };
+
+            // Warmup: Force JIT compilation immediately
+            this.post(slot.worker, { type: 'warmup' });
+            return slot;
+        });
+    }
+
+    // Signal grid of one source (a 'sourceResult' response unless cancelled or failed)
+    propagate(source: PropagationSource, env: PropagationEnvironment): PoolHandle {
+        return this.enqueue(id => ({ type: 'propagate', id, source, env }));
+    }
+
+    // Placement proposal (a 'placement' response unless cancelled or failed)
+    placement(env: PropagationEnvironment, options: PlacementOptions): PoolHandle {
+        return this.enqueue(id => ({ type: 'placement', id, env, options }));
+    }
+
+    benchmark(): PoolHandle {
+        return this.enqueue(id => ({ type: 'benchmark', id }));
+    }
+
+    // Queued jobs are dropped; running jobs are aborted by their worker
+    cancel(id: number) {
+        const queued = this.queue.findIndex(job => job.request.id === id);
+        if (queued !== -1) {
+            const [job] = this.queue.splice(queued, 1);
+            job.resolve({ type: 'cancelled', id });
+            return;
+        }
+
+        const slot = this.slots.find(s => s.job?.request.id === id);
+        if (slot) this.post(slot.worker, { type: 'cancel', id });
+    }
+
+    // Jobs waiting or running
+    get pendingCount(): number {
+        return this.queue.length + this.slots.filter(s => s.job).length;
+    }
+
+    terminate() {
+        this.slots.forEach(slot => slot.worker.terminate());
+        this.queue = [];
+    }
+
+    private enqueue(build: (id: number) => JobRequest): PoolHandle {
+        const request = build(++this.nextId);
+        const response = new Promise<HeatmapWorkerResponse>(resolve => {
+            this.queue.push({ request, resolve });
+        });
+        this.dispatch();
+        return { id: request.id, response };
+    }
+
+    private dispatch() {
+        for (const slot of this.slots) {
+            if (this.queue.length === 0) return;
+            if (slot.job) continue;
+
+            slot.job = this.queue.shift()!;
+            this.post(slot.worker, slot.job.request);
+        }
+    }
+
+    private finish(slot: PoolSlot, response: HeatmapWorkerResponse) {
+        const job = slot.job;
+        if (!job || job.request.id !== response.id) return;
+
+        slot.job = null;
+        job.resolve(response);
+        this.dispatch();
+    }
+
+    private post(worker: Worker, message: HeatmapWorkerRequest) {
+        worker.postMessage(message);
+    }
+}
@@ -0,0 +1,21 @@
+/**
+ * Message protocol between the editor's worker pool and the heatmap workers.
+ */
+
+import { ApSignalResult, PropagationEnvironment, PropagationSource } from '@/utils/propagation';
+import { BenchmarkRow } from '@/utils/propagationBenchmark';
+import { PlacementOptions, PlacementResult } from '@/utils/placementOptimizer';
+
+export type HeatmapWorkerRequest =
+    | { type: 'warmup' }
+    | { type: 'propagate'; id: number; source: PropagationSource; env: PropagationEnvironment }
+    | { type: 'placement'; id: number; env: PropagationEnvironment; options: PlacementOptions }
+    | { type: 'cancel'; id: number }
+    | { type: 'benchmark'; id: number };
+
+export type HeatmapWorkerResponse =
+    | { type: 'sourceResult'; id: number; sourceId: string; result: ApSignalResult }
+    | { type: 'benchmark'; id: number; results: BenchmarkRow[] }
+    | { type: 'placement'; id: number; result: PlacementResult }
+    | { type: 'cancelled'; id: number }
+    | { type: 'error'; id: number; message: string };